@@ -0,0 +1,26 @@
+/**
+ * Settings that browser code needs as well as the server. The server reads env vars;
+ * the browser reads the copy root.tsx writes to window.ENV.
+ */
+
+export interface PublicConfig {
+  imageProxyUrl: string; // IMAGE_PROXY_URL, or <SHOPIFY_APP_URL>/api/image-proxy
+}
+
+declare global {
+  interface Window {
+    ENV?: PublicConfig;
+  }
+}
+
+const DEFAULT_IMAGE_PROXY_PATH = "/api/image-proxy";
+
+export function getPublicConfig(): PublicConfig {
+  if (typeof window !== "undefined") {
+    return { imageProxyUrl: window.ENV?.imageProxyUrl || DEFAULT_IMAGE_PROXY_PATH };
+  }
+  const appUrl = (process.env.SHOPIFY_APP_URL || "").replace(/\/+$/, "");
+  return {
+    imageProxyUrl: process.env.IMAGE_PROXY_URL || `${appUrl}${DEFAULT_IMAGE_PROXY_PATH}`,
+  };
+}
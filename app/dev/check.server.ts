@@ -0,0 +1,7 @@
+// Assertions for the harness scenarios; a failed check fails its scenario, not the run
+
+export class HarnessAssertionError extends Error {}
+
+export function check(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new HarnessAssertionError(message);
+}
@@ -0,0 +1,468 @@
+/**
+ * In-memory Shopify Admin GraphQL fake for the offline harness.
+ * Answers the operations the services send (by root field name) and keeps products,
+ * variants, media, inventory and orders in memory so results can be asserted.
+ * Unknown operations return a GraphQL error so gaps show up instead of passing silently.
+ */
+
+export interface FakeVariant {
+  id: string;
+  sku: string;
+  price: string;
+  compareAtPrice?: string;
+  barcode?: string;
+  selectedOptions: Array<{ name: string; value: string }>;
+  inventoryItem: FakeInventoryItem;
+  mediaId?: string;
+}
+
+// Stored in the shape the product query returns it
+export interface FakeInventoryItem {
+  id: string;
+  unitCost: { amount: string } | null;
+  countryCodeOfOrigin: string | null;
+  measurement: { weight: { value: number; unit: string } | null };
+}
+
+export interface FakeProduct {
+  id: string;
+  title: string;
+  status: string;
+  vendor: string;
+  productType: string;
+  descriptionHtml: string;
+  tags: string[];
+  options: Array<{ name: string; values: string[]; linkedMetafield?: { namespace: string; key: string } }>;
+  variants: FakeVariant[];
+  media: Array<{ id: string; alt: string; url: string }>;
+  publishedTo: string[];
+  metafields: Array<{ namespace: string; key: string; type: string; value: string }>;
+}
+
+export interface FakeMetaobject {
+  id: string;
+  type: string;
+  handle: string;
+  fields: Record<string, string>;
+}
+
+export interface FakeOrder {
+  id: string;
+  name: string;
+  email: string;
+  shippingAddress: Record<string, string | null>;
+  lineItems: Array<{ sku: string | null; quantity: number; variant: { id: string; sku: string } | null }>;
+}
+
+export interface FakeAdminOptions {
+  /** Return productSet results inline even when called with synchronous: false (skips polling) */
+  synchronousProductSet?: boolean;
+  locations?: Array<{ id: string; name: string }>;
+  collections?: Array<{ id: string; handle: string }>;
+  /** First numeric id handed out; give a second fake store its own range so gids stay unique */
+  firstId?: number;
+}
+
+export interface FakeAdminCall {
+  operation: string;
+  variables: Record<string, any>;
+}
+
+type Handler = (variables: Record<string, any>) => unknown;
+
+export function createFakeAdmin(options: FakeAdminOptions = {}) {
+  const products = new Map<string, FakeProduct>();
+  const orders = new Map<string, FakeOrder>();
+  const inventory = new Map<string, number>(); // `${inventoryItemId}|${locationId}` -> available
+  const stocked = new Set<string>();            // items activated at a location other than the first
+  const operations = new Map<string, { status: string; productId: string }>();
+  const calls: FakeAdminCall[] = [];
+  const failures: Array<{ operation: string; errors: Array<{ message: string; extensions?: Record<string, unknown> }> }> = [];
+  const locations = options.locations ?? [{ id: "gid://shopify/Location/1", name: "Shop location" }];
+  const collections = new Map((options.collections ?? []).map(c => [c.id, { ...c, productIds: [] as string[] }]));
+  const metafieldDefinitions = new Map<string, Record<string, any>>(); // "OWNER.namespace.key" -> definition
+  const metaobjectDefinitions = new Map<string, Record<string, any>>(); // type -> definition
+  const metaobjects = new Map<string, FakeMetaobject>();
+  const publications = [
+    { id: "gid://shopify/Publication/1", name: "Online Store" },
+    { id: "gid://shopify/Publication/2", name: "Point of Sale" },
+  ];
+  let nextId = options.firstId ?? 1000;
+  const gid = (type: string) => `gid://shopify/${type}/${nextId++}`;
+
+  function buildVariant(input: any): FakeVariant {
+    return {
+      id: gid("ProductVariant"),
+      sku: input.sku ?? input.inventoryItem?.sku ?? "",
+      price: String(input.price ?? "0.00"),
+      compareAtPrice: input.compareAtPrice,
+      barcode: input.barcode,
+      // Linked option values show the metaobject's display name
+      selectedOptions: (input.optionValues || []).map((o: any) => ({
+        name: o.optionName,
+        value: o.linkedMetafieldValue ? metaobjects.get(o.linkedMetafieldValue)?.fields.label ?? o.linkedMetafieldValue : o.name,
+      })),
+      inventoryItem: applyInventoryItem(
+        { id: gid("InventoryItem"), unitCost: null, countryCodeOfOrigin: null, measurement: { weight: null } },
+        input.inventoryItem,
+      ),
+      mediaId: input.mediaId,
+    };
+  }
+
+  function applyInventoryItem(item: FakeInventoryItem, input: any): FakeInventoryItem {
+    if (input?.cost !== undefined) item.unitCost = input.cost === null ? null : { amount: String(input.cost) };
+    if (input?.countryCodeOfOrigin !== undefined) item.countryCodeOfOrigin = input.countryCodeOfOrigin;
+    if (input?.measurement?.weight !== undefined) item.measurement = { weight: input.measurement.weight };
+    return item;
+  }
+
+  function variantConnection(product: FakeProduct | undefined, first = 100, after?: string | null) {
+    if (!product) return null;
+    const start = after ? Number(after) + 1 : 0;
+    const page = product.variants
+      .slice(start, start + first)
+      .map(v => ({ ...v, media: { nodes: v.mediaId ? [{ id: v.mediaId }] : [] } }));
+    return {
+      id: product.id,
+      title: product.title,
+      status: product.status,
+      tags: product.tags,
+      options: product.options.map((o, i) => ({ name: o.name, position: i + 1, values: o.values, linkedMetafield: o.linkedMetafield ?? null })),
+      media: { nodes: product.media.map(m => ({ id: m.id, alt: m.alt, image: { url: m.url } })) },
+      variants: {
+        edges: page.map((node, i) => ({ node, cursor: String(start + i) })),
+        nodes: page,
+        pageInfo: { hasNextPage: start + first < product.variants.length },
+      },
+      variantsCount: { count: product.variants.length },
+    };
+  }
+
+  function productSet(variables: Record<string, any>) {
+    const input = variables.input;
+    const existing = input.id ? products.get(input.id) : undefined;
+    const product: FakeProduct = existing ?? {
+      id: gid("Product"), title: "", status: "DRAFT", vendor: "", productType: "", descriptionHtml: "",
+      tags: [], options: [], variants: [], media: [], publishedTo: [], metafields: [],
+    };
+    Object.assign(product, {
+      title: input.title ?? product.title,
+      status: input.status ?? product.status,
+      vendor: input.vendor ?? product.vendor,
+      productType: input.productType ?? product.productType,
+      descriptionHtml: input.descriptionHtml ?? product.descriptionHtml,
+      tags: input.tags ?? product.tags,
+      metafields: input.metafields ?? product.metafields,
+    });
+    if (input.productOptions) {
+      product.options = input.productOptions.map((o: any) => o.linkedMetafield
+        ? {
+          name: o.name,
+          values: o.linkedMetafield.values.map((id: string) => metaobjects.get(id)?.fields.label ?? id),
+          linkedMetafield: { namespace: o.linkedMetafield.namespace, key: o.linkedMetafield.key },
+        }
+        : { name: o.name, values: o.values.map((v: any) => v.name) });
+    }
+    if (input.variants) {
+      // productSet replaces the variant list; keep ids of variants whose options did not change
+      product.variants = input.variants.map((v: any) => {
+        const built = buildVariant(v);
+        const key = JSON.stringify(built.selectedOptions);
+        const same = existing?.variants.find(old => JSON.stringify(old.selectedOptions) === key);
+        return same
+          ? { ...built, id: same.id, inventoryItem: applyInventoryItem(same.inventoryItem, v.inventoryItem), mediaId: built.mediaId ?? same.mediaId }
+          : built;
+      });
+    }
+    products.set(product.id, product);
+
+    if (variables.synchronous === false && !options.synchronousProductSet) {
+      const operationId = gid("ProductSetOperation");
+      operations.set(operationId, { status: "COMPLETE", productId: product.id });
+      return { productSet: { product: null, productSetOperation: { id: operationId, status: "CREATED" }, userErrors: [] } };
+    }
+    return {
+      productSet: {
+        product: { id: product.id, variantsCount: { count: product.variants.length } },
+        productSetOperation: null,
+        userErrors: [],
+      },
+    };
+  }
+
+  const handlers: Record<string, Handler> = {
+    productSet,
+    productOperation: ({ id }) => {
+      const op = operations.get(id);
+      if (!op) return { productOperation: null };
+      return {
+        productOperation: {
+          id, status: op.status, userErrors: [],
+          product: { id: op.productId, variantsCount: { count: products.get(op.productId)?.variants.length ?? 0 } },
+        },
+      };
+    },
+    product: ({ id, productId, first, cursor, after }) =>
+      ({ product: variantConnection(products.get(id ?? productId), first, cursor ?? after) }),
+    products: ({ cursor, after }) => {
+      // Products in creation order, 50 per page; the cursor is the index of the last product returned
+      const all = Array.from(products.values());
+      const start = (cursor ?? after) ? Number(cursor ?? after) + 1 : 0;
+      const page = all.slice(start, start + 50);
+      return {
+        products: {
+          nodes: page.map(p => ({
+            id: p.id,
+            title: p.title,
+            variants: { nodes: p.variants.map(v => ({ ...v, title: v.selectedOptions.map(o => o.value).join(" / ") || "Default Title" })) },
+          })),
+          pageInfo: { hasNextPage: start + 50 < all.length, endCursor: page.length ? String(start + page.length - 1) : null },
+        },
+      };
+    },
+    productVariantsBulkCreate: ({ productId, variants }) => {
+      const product = products.get(productId);
+      if (!product) return { productVariantsBulkCreate: { productVariants: [], userErrors: [{ field: ["productId"], message: "Product does not exist" }] } };
+      // Values of linked options must be given as metaobjects
+      const linked = new Set(product.options.filter(o => o.linkedMetafield).map(o => o.name));
+      if (variants.some((v: any) => (v.optionValues || []).some((o: any) => linked.has(o.optionName) && !metaobjects.has(o.linkedMetafieldValue)))) {
+        return { productVariantsBulkCreate: { productVariants: [], userErrors: [{ field: ["variants", "optionValues"], message: "Linked options need a linkedMetafieldValue" }] } };
+      }
+      const created: FakeVariant[] = variants.map(buildVariant);
+      product.variants.push(...created);
+      // New option values are added to the product's options, as Shopify does
+      for (const variant of created) {
+        for (const { name, value } of variant.selectedOptions) {
+          const option = product.options.find(o => o.name === name);
+          if (option && !option.values.includes(value)) option.values.push(value);
+        }
+      }
+      return { productVariantsBulkCreate: { productVariants: created, userErrors: [] } };
+    },
+    productVariantsBulkUpdate: ({ productId, variants }) => {
+      const product = products.get(productId);
+      const userErrors: Array<{ field: string[]; message: string }> = [];
+      for (const input of variants) {
+        const variant = product?.variants.find(v => v.id === input.id);
+        if (!variant) {
+          userErrors.push({ field: ["variants", "id"], message: `Variant ${input.id} does not exist` });
+          continue;
+        }
+        if (input.price !== undefined) variant.price = String(input.price);
+        if (input.compareAtPrice !== undefined) variant.compareAtPrice = input.compareAtPrice;
+        if (input.barcode !== undefined) variant.barcode = input.barcode;
+        if (input.mediaId !== undefined) variant.mediaId = input.mediaId;
+        if (input.inventoryItem?.sku !== undefined) variant.sku = input.inventoryItem.sku;
+        applyInventoryItem(variant.inventoryItem, input.inventoryItem);
+      }
+      return { productVariantsBulkUpdate: { productVariants: product?.variants ?? [], userErrors } };
+    },
+    productVariantsBulkDelete: ({ productId, variantsIds }) => {
+      const product = products.get(productId);
+      if (product) product.variants = product.variants.filter(v => !variantsIds.includes(v.id));
+      return { productVariantsBulkDelete: { product: product ? { id: productId } : null, userErrors: [] } };
+    },
+    productCreateMedia: ({ productId, media }) => {
+      const product = products.get(productId);
+      // Shopify has to be able to download the source
+      const mediaUserErrors = media.flatMap((m: any, i: number) => /^https?:\/\//.test(m.originalSource || "")
+        ? []
+        : [{ field: ["media", String(i), "originalSource"], message: "Image URL is invalid" }]);
+      const created = media
+        .filter((_: any, i: number) => !mediaUserErrors.some((e: any) => e.field[1] === String(i)))
+        .map((m: any) => ({ id: gid("MediaImage"), alt: m.alt || "", url: m.originalSource }));
+      product?.media.push(...created);
+      return {
+        productCreateMedia: {
+          media: created.map((m: { id: string; alt: string; url: string }) => ({ id: m.id, alt: m.alt, image: { url: m.url } })),
+          mediaUserErrors,
+        },
+      };
+    },
+    productUpdate: ({ input, product: productInput }) => {
+      const data = input ?? productInput;
+      const product = products.get(data.id);
+      if (product) Object.assign(product, Object.fromEntries(Object.entries(data).filter(([k]) => k !== "id")));
+      return { productUpdate: { product: product ? { id: product.id } : null, userErrors: [] } };
+    },
+    productDelete: ({ input }) => {
+      products.delete(input.id);
+      return { productDelete: { deletedProductId: input.id, userErrors: [] } };
+    },
+    tagsAdd: ({ id, tags }) => {
+      const product = products.get(id);
+      if (!product) return { tagsAdd: { node: null, userErrors: [{ field: ["id"], message: "Product does not exist" }] } };
+      for (const tag of tags) if (!product.tags.includes(tag)) product.tags.push(tag);
+      return { tagsAdd: { node: { id }, userErrors: [] } };
+    },
+    collectionByIdentifier: ({ handle, identifier }) => {
+      const wanted = handle ?? identifier?.handle;
+      const collection = [...collections.values()].find(c => c.handle === wanted);
+      return { collectionByIdentifier: collection ? { id: collection.id, handle: collection.handle } : null };
+    },
+    collectionAddProducts: ({ id, productIds }) => {
+      const collection = collections.get(id);
+      if (!collection) return { collectionAddProducts: { collection: null, userErrors: [{ field: ["id"], message: "Collection does not exist" }] } };
+      for (const productId of productIds) if (!collection.productIds.includes(productId)) collection.productIds.push(productId);
+      return { collectionAddProducts: { collection: { id }, userErrors: [] } };
+    },
+    metafieldsSet: ({ metafields }) => {
+      const missing = metafields.find((m: any) => !products.has(m.ownerId));
+      if (missing) return { metafieldsSet: { metafields: [], userErrors: [{ field: ["ownerId"], message: `Owner ${missing.ownerId} does not exist` }] } };
+      for (const m of metafields) {
+        const product = products.get(m.ownerId)!;
+        product.metafields = product.metafields.filter(f => f.namespace !== m.namespace || f.key !== m.key);
+        product.metafields.push({ namespace: m.namespace, key: m.key, type: m.type, value: m.value });
+      }
+      return { metafieldsSet: { metafields: metafields.map(() => ({ id: gid("Metafield") })), userErrors: [] } };
+    },
+    metafieldDefinitionCreate: ({ definition }) => {
+      const key = `${definition.ownerType}.${definition.namespace}.${definition.key}`;
+      if (metafieldDefinitions.has(key)) {
+        return { metafieldDefinitionCreate: { createdDefinition: null, userErrors: [{ field: ["definition", "key"], message: "Key is in use", code: "TAKEN" }] } };
+      }
+      metafieldDefinitions.set(key, definition);
+      return { metafieldDefinitionCreate: { createdDefinition: { id: gid("MetafieldDefinition") }, userErrors: [] } };
+    },
+    metaobjectDefinitionByType: ({ type, namespace, key }) => {
+      const definition = metaobjectDefinitions.get(type);
+      const metafield = metafieldDefinitions.get(`PRODUCT.${namespace}.${key}`);
+      return {
+        metaobjectDefinitionByType: definition ? { id: definition.id } : null,
+        metafieldDefinitions: { nodes: metafield ? [{ id: gid("MetafieldDefinition") }] : [] },
+      };
+    },
+    metaobjectDefinitionCreate: ({ definition }) => {
+      if (metaobjectDefinitions.has(definition.type)) {
+        return { metaobjectDefinitionCreate: { metaobjectDefinition: null, userErrors: [{ field: ["definition", "type"], message: "Type is in use", code: "TAKEN" }] } };
+      }
+      const created = { ...definition, id: gid("MetaobjectDefinition") };
+      metaobjectDefinitions.set(definition.type, created);
+      return { metaobjectDefinitionCreate: { metaobjectDefinition: { id: created.id }, userErrors: [] } };
+    },
+    metaobjects: ({ type }) => ({
+      metaobjects: {
+        nodes: Array.from(metaobjects.values()).filter(m => m.type === type).map(m => ({ id: m.id, handle: m.handle })),
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    }),
+    metaobjectCreate: ({ metaobject }) => {
+      if (!metaobjectDefinitions.has(metaobject.type)) {
+        return { metaobjectCreate: { metaobject: null, userErrors: [{ field: ["metaobject", "type"], message: "No definition for this type", code: "UNDEFINED_OBJECT_TYPE" }] } };
+      }
+      if (Array.from(metaobjects.values()).some(m => m.type === metaobject.type && m.handle === metaobject.handle)) {
+        return { metaobjectCreate: { metaobject: null, userErrors: [{ field: ["metaobject", "handle"], message: "Handle is taken", code: "TAKEN" }] } };
+      }
+      const created: FakeMetaobject = {
+        id: gid("Metaobject"),
+        type: metaobject.type,
+        handle: metaobject.handle,
+        fields: Object.fromEntries(metaobject.fields.map((f: any) => [f.key, f.value])),
+      };
+      metaobjects.set(created.id, created);
+      return { metaobjectCreate: { metaobject: { id: created.id }, userErrors: [] } };
+    },
+    locations: () => ({ locations: { edges: locations.map(node => ({ node })), nodes: locations } }),
+    publications: () => ({ publications: { edges: publications.map(node => ({ node })), nodes: publications } }),
+    publishablePublish: ({ id, input }) => {
+      const product = products.get(id);
+      product?.publishedTo.push(...input.map((p: any) => p.publicationId));
+      return { publishablePublish: { userErrors: [] } };
+    },
+    inventorySetQuantities: ({ input }) => {
+      // New items are only stocked at the first location; like Shopify, any error applies nothing
+      const userErrors = input.quantities.flatMap((q: any, index: number) =>
+        q.locationId === locations[0].id || stocked.has(`${q.inventoryItemId}|${q.locationId}`)
+          ? []
+          : [{ code: "ITEM_NOT_STOCKED_AT_LOCATION", field: ["input", "quantities", String(index), "locationId"], message: "The specified inventory item is not stocked at the location." }]);
+      if (userErrors.length > 0) return { inventorySetQuantities: { inventoryAdjustmentGroup: null, userErrors } };
+      for (const q of input.quantities) inventory.set(`${q.inventoryItemId}|${q.locationId}`, q.quantity);
+      return { inventorySetQuantities: { inventoryAdjustmentGroup: { id: gid("InventoryAdjustmentGroup") }, userErrors: [] } };
+    },
+    inventoryActivate: ({ inventoryItemId, locationId, available }) => {
+      if (!locations.some(l => l.id === locationId)) {
+        return { inventoryActivate: { inventoryLevel: null, userErrors: [{ field: ["locationId"], message: "Location not found" }] } };
+      }
+      stocked.add(`${inventoryItemId}|${locationId}`);
+      if (available !== undefined && available !== null) inventory.set(`${inventoryItemId}|${locationId}`, available);
+      return { inventoryActivate: { inventoryLevel: { id: gid("InventoryLevel") }, userErrors: [] } };
+    },
+    order: ({ id }) => {
+      const order = orders.get(id);
+      if (!order) return { order: null };
+      return { order: { ...order, lineItems: { edges: order.lineItems.map(node => ({ node })) } } };
+    },
+  };
+
+  function rootField(query: string): string {
+    // Skip "query name($vars)" / "mutation name($vars)" and take the first selected field
+    const body = query.replace(/#[^\n]*/g, "").replace(/^\s*(query|mutation)\b[^{(]*(\([^)]*\))?/, "");
+    return body.match(/{\s*([A-Za-z_]\w*)/)?.[1] ?? "";
+  }
+
+  function respond(body: unknown): Response {
+    return new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+  }
+
+  return {
+    products,
+    orders,
+    inventory,
+    collections,
+    metafieldDefinitions,
+    metaobjects,
+    calls,
+
+    async graphql(query: string, opts?: { variables?: Record<string, any> }): Promise<Response> {
+      const operation = rootField(query);
+      const variables = opts?.variables ?? {};
+      calls.push({ operation, variables });
+
+      const failureIndex = failures.findIndex(f => f.operation === operation || f.operation === "*");
+      if (failureIndex >= 0) {
+        const [failure] = failures.splice(failureIndex, 1);
+        return respond({ errors: failure.errors });
+      }
+
+      const handler = handlers[operation];
+      if (!handler) return respond({ errors: [{ message: `Fake admin does not implement "${operation}"` }] });
+      const data = handler(variables);
+      const cost = { requestedQueryCost: 10, actualQueryCost: 10, throttleStatus: { maximumAvailable: 2000, currentlyAvailable: 1990, restoreRate: 100 } };
+      return respond({ data, extensions: { cost } });
+    },
+
+    /** Make the next call to `operation` ("*" for any) return GraphQL errors */
+    failNext(operation: string, message = "Internal error", code?: string) {
+      failures.push({ operation, errors: [{ message, extensions: code ? { code } : undefined }] });
+    },
+
+    /** A product made outside the app (by hand or by another app) */
+    seedProduct(title: string, variants: Array<{ sku: string; barcode?: string; options?: string[] }>): FakeProduct {
+      const product: FakeProduct = {
+        id: gid("Product"), title, status: "ACTIVE", vendor: "", productType: "", descriptionHtml: "",
+        tags: [], options: [], variants: [], media: [], publishedTo: [], metafields: [],
+      };
+      product.variants = variants.map(v => buildVariant({
+        sku: v.sku,
+        barcode: v.barcode,
+        optionValues: (v.options || []).map((name, i) => ({ optionName: i === 0 ? "Color" : "Size", name })),
+      }));
+      products.set(product.id, product);
+      return product;
+    },
+
+    seedOrder(order: Omit<FakeOrder, "id"> & { id?: string }): FakeOrder {
+      const seeded = { ...order, id: order.id ?? gid("Order") };
+      orders.set(seeded.id, seeded);
+      return seeded;
+    },
+
+    /** Available quantity for a variant at a location (the first one by default) */
+    available(variant: FakeVariant, locationId = locations[0].id): number | undefined {
+      return inventory.get(`${variant.inventoryItem.id}|${locationId}`);
+    },
+  };
+}
+
+export type FakeShopifyAdmin = ReturnType<typeof createFakeAdmin>;
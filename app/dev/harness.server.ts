@@ -0,0 +1,185 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createFakeAdmin, type FakeShopifyAdmin } from "./fakeShopifyAdmin.server";
+import { installMemoryPrisma, type MemoryPrisma } from "./memoryPrisma.server";
+import { colorSwatchesScenarios } from "./scenarios/colorSwatches.server";
+import { descriptionsScenarios } from "./scenarios/descriptions.server";
+import { imageMirrorScenarios } from "./scenarios/imageMirror.server";
+import { importJobsScenarios } from "./scenarios/importJobs.server";
+import { importQueueScenarios } from "./scenarios/importQueue.server";
+import { importerScenarios } from "./scenarios/importer.server";
+import { inventorySyncScenarios } from "./scenarios/inventorySync.server";
+import { optionProfilesScenarios } from "./scenarios/optionProfiles.server";
+import { orderSyncScenarios } from "./scenarios/orderSync.server";
+import { pricingScenarios } from "./scenarios/pricing.server";
+import { productLinksScenarios } from "./scenarios/productLinks.server";
+import { shippingSyncScenarios } from "./scenarios/shippingSync.server";
+import { ssactivewearScenarios } from "./scenarios/ssactivewear.server";
+import { ssCacheScenarios } from "./scenarios/ssCache.server";
+import { styleListScenarios } from "./scenarios/styleList.server";
+import { warehouseLocationsScenarios } from "./scenarios/warehouseLocations.server";
+import { startSSSimulator, type SSSimulator } from "./ssSimulator.server";
+
+export { HarnessAssertionError } from "./check.server";
+
+/**
+ * Offline end-to-end harness for the services layer.
+ * Runs ImporterService, InventorySyncService, OrderSyncService and ShippingSyncService
+ * against the S&S simulator, a fake Shopify Admin and an in-memory Prisma client.
+ *
+ * Scenarios live in ./scenarios, one file per service.
+ *
+ *   npm test                         # all scenarios
+ *   npm run simulate -- import       # scenarios whose name contains "import", and the ones they build on
+ */
+
+export interface HarnessContext {
+  shop: string;
+  sim: SSSimulator;
+  admin: FakeShopifyAdmin;
+  db: MemoryPrisma;
+  services: Awaited<ReturnType<typeof loadServices>>;
+  /** Shared state between scenarios (they run in order) */
+  state: Record<string, any>;
+}
+
+export interface HarnessScenario {
+  name: string;                // "<key>: <what it checks>"
+  /** Keys of the earlier scenarios whose products, rules or jobs this one builds on */
+  after?: string[];
+  run(ctx: HarnessContext): Promise<void>;
+}
+
+export interface HarnessResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+// Services are imported lazily so db.server picks up the in-memory client.
+// The importer mirrors S&S photos from the simulator into a temporary local storage directory.
+async function loadServices(sim: SSSimulator, storageDir: string) {
+  const [storage, mirror, importer, importJobs, importQueue, lists, profiles, descriptions, links, inventory, warehouses, orders, shipping, ssClient, ss, cache] = await Promise.all([
+    import("../services/storage.server"),
+    import("../services/imageMirror.server"),
+    import("../services/importer.server"),
+    import("../services/importJobs.server"),
+    import("../services/importQueue.server"),
+    import("../services/styleList.server"),
+    import("../services/optionProfiles.server"),
+    import("../services/descriptions.server"),
+    import("../services/productLinks.server"),
+    import("../services/inventorySync.server"),
+    import("../services/warehouseLocations.server"),
+    import("../services/orderSync.server"),
+    import("../services/shippingSync.server"),
+    import("../services/ssClient.server"),
+    import("../services/ssactivewear"),
+    import("../services/ssCache.server"),
+  ]);
+  const photos = new storage.LocalStorageDriver(storageDir, "https://storage.harness.test");
+  const fetchPhoto = (url: string, init: RequestInit) => fetch(url.replace("https://www.ssactivewear.com/", sim.imageURL), init);
+  return {
+    importer: new importer.ImporterService(new mirror.ImageMirrorService(fetchPhoto, () => photos)),
+    storageDir,
+    importJobs: importJobs.importJobs,
+    ImportQueueWorker: importQueue.ImportQueueWorker,
+    styleLists: lists.styleLists,
+    optionProfiles: profiles.optionProfiles,
+    descriptions: descriptions.descriptions,
+    productLinks: links.productLinks,
+    inventorySync: new inventory.InventorySyncService(),
+    warehouseLocations: warehouses.warehouseLocations,
+    orderSync: new orders.OrderSyncService(),
+    shippingSync: new shipping.ShippingSyncService(),
+    saveSSAccount: ssClient.saveSSAccount,
+    getSSClient: ssClient.getSSClient,
+    getSSAccountSettings: ssClient.getSSAccountSettings,
+    ssCache: cache.ssCache,
+    SSAuthError: ss.SSAuthError,
+  };
+}
+
+// Scenarios share the context and run in this order: the later ones build on the
+// products and price rules the earlier ones leave behind
+export const scenarios: HarnessScenario[] = [
+  ...importerScenarios,
+  ...inventorySyncScenarios,
+  ...orderSyncScenarios,
+  ...shippingSyncScenarios,
+  ...ssactivewearScenarios,
+  ...ssCacheScenarios,
+  ...pricingScenarios,
+  ...importQueueScenarios,
+  ...importJobsScenarios,
+  ...optionProfilesScenarios,
+  ...descriptionsScenarios,
+  ...warehouseLocationsScenarios,
+  ...productLinksScenarios,
+  ...colorSwatchesScenarios,
+  ...imageMirrorScenarios,
+  ...styleListScenarios,
+];
+
+const scenarioKey = (scenario: HarnessScenario) => scenario.name.split(":")[0];
+
+// Scenarios matching the filter plus, transitively, the scenarios they run after - in run order
+function selectScenarios(filter?: string): HarnessScenario[] {
+  if (!filter) return scenarios;
+  const selected = new Set<HarnessScenario>();
+  const add = (scenario: HarnessScenario) => {
+    if (selected.has(scenario)) return;
+    selected.add(scenario);
+    for (const key of scenario.after || []) {
+      scenarios.filter(s => scenarioKey(s) === key).forEach(add);
+    }
+  };
+  scenarios.filter(s => s.name.includes(filter)).forEach(add);
+  return scenarios.filter(s => selected.has(s));
+}
+
+export async function runHarness(filter?: string): Promise<HarnessResult[]> {
+  process.env.CREDENTIALS_ENCRYPTION_KEY ||= "offline-harness";
+  const db = installMemoryPrisma();
+  const sim = await startSSSimulator();
+  process.env.SSACTIVEWEAR_API_URL = sim.baseURL;
+  const storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "harness-storage-"));
+
+  const results: HarnessResult[] = [];
+  try {
+    const services = await loadServices(sim, storageDir);
+    const ctx: HarnessContext = {
+      shop: "harness.myshopify.com",
+      sim,
+      admin: createFakeAdmin({
+        synchronousProductSet: true,
+        collections: [{ id: "gid://shopify/Collection/1", handle: "summer-tees" }],
+      }),
+      db,
+      services,
+      state: {},
+    };
+    await services.saveSSAccount(ctx.shop, { accountNumber: sim.userId, apiKey: sim.apiKey, defaultShipping: "1", testMode: false });
+
+    for (const scenario of selectScenarios(filter)) {
+      const started = Date.now();
+      try {
+        await scenario.run(ctx);
+        results.push({ name: scenario.name, passed: true, durationMs: Date.now() - started });
+      } catch (error) {
+        results.push({
+          name: scenario.name,
+          passed: false,
+          durationMs: Date.now() - started,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    await sim.close();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  }
+  return results;
+}
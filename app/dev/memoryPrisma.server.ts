@@ -0,0 +1,355 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { randomUUID } from "crypto";
+
+/**
+ * In-memory stand-in for PrismaClient, used by the offline harness.
+ * Model metadata (defaults, unique keys, relations) comes from the generated DMMF, so it
+ * follows schema.prisma without a database. Supports the query shapes the services use:
+ * equality / not / in / gt(e) / lt(e) / contains filters, AND / OR, compound unique keys,
+ * increment / decrement updates, select, include of direct relations, orderBy, take / skip.
+ */
+
+type Row = Record<string, any>;
+type ModelMeta = (typeof Prisma.dmmf.datamodel.models)[number];
+
+const FILTER_KEYS = new Set(["equals", "not", "in", "notIn", "lt", "lte", "gt", "gte", "contains", "startsWith", "endsWith", "mode"]);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function compare(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (x === y) return 0;
+  if (x === null || x === undefined) return -1;
+  if (y === null || y === undefined) return 1;
+  return x < y ? -1 : 1;
+}
+
+function matchesFilter(value: any, filter: any): boolean {
+  if (!isPlainObject(filter) || !Object.keys(filter).every(k => FILTER_KEYS.has(k))) {
+    return compare(value, filter) === 0;
+  }
+  const insensitive = filter.mode === "insensitive";
+  const text = (v: any) => (insensitive ? String(v ?? "").toLowerCase() : String(v ?? ""));
+  return Object.entries(filter).every(([op, arg]) => {
+    switch (op) {
+      case "equals": return compare(value, arg) === 0;
+      case "not": return !matchesFilter(value, arg);
+      case "in": return (arg as any[]).some(a => compare(value, a) === 0);
+      case "notIn": return !(arg as any[]).some(a => compare(value, a) === 0);
+      case "lt": return value !== null && compare(value, arg) < 0;
+      case "lte": return value !== null && compare(value, arg) <= 0;
+      case "gt": return value !== null && compare(value, arg) > 0;
+      case "gte": return value !== null && compare(value, arg) >= 0;
+      case "contains": return value !== null && text(value).includes(text(arg));
+      case "startsWith": return value !== null && text(value).startsWith(text(arg));
+      case "endsWith": return value !== null && text(value).endsWith(text(arg));
+      default: return true;
+    }
+  });
+}
+
+export class MemoryPrisma {
+  private tables = new Map<string, Row[]>();
+  private models = new Map<string, ModelMeta>();
+
+  constructor() {
+    for (const model of Prisma.dmmf.datamodel.models) {
+      this.models.set(model.name, model);
+      this.tables.set(model.name, []);
+    }
+  }
+
+  /** Build a PrismaClient-shaped object (prisma.productMap.findMany(...), prisma.$transaction(...)) */
+  client(): PrismaClient {
+    const delegates: Record<string, unknown> = {};
+    for (const model of this.models.values()) {
+      const key = model.name.charAt(0).toLowerCase() + model.name.slice(1);
+      delegates[key] = this.delegate(model);
+    }
+    return {
+      ...delegates,
+      $connect: async () => {},
+      $disconnect: async () => {},
+      $transaction: async (input: any) => (typeof input === "function" ? input(this.client()) : Promise.all(input)),
+      $queryRaw: async () => [],
+      $executeRaw: async () => 0,
+    } as unknown as PrismaClient;
+  }
+
+  /** Raw rows of a model, for assertions */
+  rows(modelName: string): Row[] {
+    return this.tables.get(modelName) ?? [];
+  }
+
+  reset() {
+    for (const name of this.tables.keys()) this.tables.set(name, []);
+  }
+
+  private delegate(model: ModelMeta) {
+    const table = () => this.tables.get(model.name)!;
+    const find = (args: any = {}) => this.sortAndPage(table().filter(row => this.matches(model, row, args.where)), args);
+    const shape = (row: Row | undefined, args: any = {}) => (row ? this.shape(model, row, args) : null);
+
+    return {
+      findUnique: async (args: any) => shape(find(args)[0], args),
+      findUniqueOrThrow: async (args: any) => this.orThrow(model, shape(find(args)[0], args)),
+      findFirst: async (args: any = {}) => shape(find(args)[0], args),
+      findFirstOrThrow: async (args: any = {}) => this.orThrow(model, shape(find(args)[0], args)),
+      findMany: async (args: any = {}) => find(args).map(row => this.shape(model, row, args)),
+      count: async (args: any = {}) => find({ where: args.where }).length,
+      create: async (args: any) => this.shape(model, this.insert(model, args.data), args),
+      createMany: async (args: any) => {
+        const data = Array.isArray(args.data) ? args.data : [args.data];
+        data.forEach((d: Row) => this.insert(model, d));
+        return { count: data.length };
+      },
+      update: async (args: any) => {
+        const row = find(args)[0];
+        if (!row) throw this.notFound(model);
+        return this.shape(model, this.apply(model, row, args.data), args);
+      },
+      updateMany: async (args: any) => {
+        const rows = find({ where: args.where });
+        rows.forEach(row => this.apply(model, row, args.data));
+        return { count: rows.length };
+      },
+      upsert: async (args: any) => {
+        const row = find(args)[0];
+        const result = row ? this.apply(model, row, args.update) : this.insert(model, args.create);
+        return this.shape(model, result, args);
+      },
+      delete: async (args: any) => {
+        const row = find(args)[0];
+        if (!row) throw this.notFound(model);
+        this.tables.set(model.name, table().filter(r => r !== row));
+        return this.shape(model, row, args);
+      },
+      deleteMany: async (args: any = {}) => {
+        const rows = new Set(find({ where: args.where }));
+        this.tables.set(model.name, table().filter(r => !rows.has(r)));
+        return { count: rows.size };
+      },
+      aggregate: async (args: any = {}) => {
+        const rows = find({ where: args.where });
+        const result: Row = {};
+        for (const op of ["_sum", "_avg", "_min", "_max"] as const) {
+          if (!args[op]) continue;
+          result[op] = {};
+          for (const field of Object.keys(args[op])) {
+            const values = rows.map(r => r[field]).filter(v => v !== null && v !== undefined);
+            result[op][field] = values.length === 0 ? null
+              : op === "_sum" ? values.reduce((s, v) => s + v, 0)
+              : op === "_avg" ? values.reduce((s, v) => s + v, 0) / values.length
+              : [...values].sort(compare)[op === "_min" ? 0 : values.length - 1];
+          }
+        }
+        if (args._count) result._count = rows.length;
+        return result;
+      },
+      groupBy: async (args: any) => {
+        const groups = new Map<string, Row[]>();
+        for (const row of find({ where: args.where })) {
+          const key = JSON.stringify(args.by.map((f: string) => row[f]));
+          groups.set(key, [...(groups.get(key) || []), row]);
+        }
+        return [...groups.values()].map(rows => {
+          const out: Row = Object.fromEntries(args.by.map((f: string) => [f, rows[0][f]]));
+          if (args._count) out._count = typeof args._count === "object"
+            ? Object.fromEntries(Object.keys(args._count).map(f => [f, rows.length]))
+            : rows.length;
+          if (args._sum) out._sum = Object.fromEntries(Object.keys(args._sum).map(f => [f, rows.reduce((s, r) => s + (r[f] || 0), 0)]));
+          return out;
+        });
+      },
+    };
+  }
+
+  private matches(model: ModelMeta, row: Row, where: any): boolean {
+    if (!where) return true;
+    return Object.entries(where as Record<string, any>).every(([key, filter]) => {
+      if (filter === undefined) return true;
+      if (key === "AND") return (Array.isArray(filter) ? filter : [filter]).every(w => this.matches(model, row, w));
+      if (key === "OR") return (filter as any[]).some(w => this.matches(model, row, w));
+      if (key === "NOT") return !(Array.isArray(filter) ? filter : [filter]).some(w => this.matches(model, row, w));
+
+      const field = model.fields.find(f => f.name === key);
+      if (!field) {
+        // Compound unique input, e.g. { shop_date: { shop, date } }
+        return isPlainObject(filter) && this.matches(model, row, filter);
+      }
+      if (field.kind === "object") {
+        const related = this.related(model, field, row);
+        if (Array.isArray(related)) {
+          if (filter.some) return related.some(r => this.matches(this.models.get(field.type)!, r, filter.some));
+          if (filter.none) return !related.some(r => this.matches(this.models.get(field.type)!, r, filter.none));
+          if (filter.every) return related.every(r => this.matches(this.models.get(field.type)!, r, filter.every));
+          return true;
+        }
+        return filter === null ? !related : !!related && this.matches(this.models.get(field.type)!, related, filter);
+      }
+      return matchesFilter(row[key] ?? null, filter);
+    });
+  }
+
+  private sortAndPage(rows: Row[], args: any): Row[] {
+    let result = [...rows];
+    const orderBy = args.orderBy ? (Array.isArray(args.orderBy) ? args.orderBy : [args.orderBy]) : [];
+    if (orderBy.length) {
+      result.sort((a, b) => {
+        for (const order of orderBy) {
+          const [field, direction] = Object.entries(order)[0] as [string, any];
+          const dir = (typeof direction === "object" ? direction.sort : direction) === "desc" ? -1 : 1;
+          const c = compare(a[field], b[field]);
+          if (c !== 0) return c * dir;
+        }
+        return 0;
+      });
+    }
+    if (args.skip) result = result.slice(args.skip);
+    if (args.take !== undefined) result = result.slice(0, args.take);
+    return result;
+  }
+
+  private insert(model: ModelMeta, data: Row): Row {
+    const row: Row = {};
+    const now = new Date();
+    for (const field of model.fields) {
+      if (field.kind === "object") continue;
+      if (data[field.name] !== undefined) {
+        row[field.name] = data[field.name];
+        continue;
+      }
+      const def: any = field.default;
+      if (field.isUpdatedAt) row[field.name] = now;
+      else if (def && typeof def === "object" && "name" in def) {
+        row[field.name] = def.name === "now" ? now
+          : def.name === "uuid" || def.name === "cuid" ? randomUUID()
+          : def.name === "autoincrement" ? this.rows(model.name).length + 1
+          : null;
+      } else if (def !== undefined) {
+        row[field.name] = field.type === "DateTime" ? new Date(def) : def;
+      } else {
+        row[field.name] = null;
+      }
+    }
+    this.assertUnique(model, row);
+    this.tables.get(model.name)!.push(row);
+
+    // Nested creates for list relations: { tiers: { create: [...] } }
+    for (const field of model.fields) {
+      const nested = data[field.name]?.create;
+      if (field.kind !== "object" || !nested) continue;
+      const target = this.models.get(field.type)!;
+      const back = target.fields.find(f => f.kind === "object" && f.relationName === field.relationName)!;
+      for (const child of Array.isArray(nested) ? nested : [nested]) {
+        const links = Object.fromEntries((back.relationFromFields || []).map((from, i) => [from, row[back.relationToFields![i]]]));
+        this.insert(target, { ...child, ...links });
+      }
+    }
+    return row;
+  }
+
+  private apply(model: ModelMeta, row: Row, data: Row = {}): Row {
+    const next = { ...row };
+    for (const [key, value] of Object.entries(data)) {
+      const field = model.fields.find(f => f.name === key);
+      if (!field || field.kind === "object" || value === undefined) continue;
+      if (isPlainObject(value) && ("increment" in value || "decrement" in value || "set" in value || "multiply" in value)) {
+        if ("set" in value) next[key] = value.set;
+        if ("increment" in value) next[key] = (next[key] || 0) + value.increment;
+        if ("decrement" in value) next[key] = (next[key] || 0) - value.decrement;
+        if ("multiply" in value) next[key] = (next[key] || 0) * value.multiply;
+      } else {
+        next[key] = value;
+      }
+    }
+    const updatedAt = model.fields.find(f => f.isUpdatedAt);
+    if (updatedAt && data[updatedAt.name] === undefined) next[updatedAt.name] = new Date();
+    this.assertUnique(model, next, row);
+    Object.assign(row, next);
+    return row;
+  }
+
+  private assertUnique(model: ModelMeta, row: Row, self?: Row) {
+    const keys = [
+      ...model.fields.filter(f => f.isId || f.isUnique).map(f => [f.name]),
+      ...model.uniqueFields.map(fields => [...fields]),
+    ];
+    for (const fields of keys) {
+      const clash = this.rows(model.name).find(other =>
+        other !== self && other !== row && fields.every(f => row[f] !== null && compare(other[f], row[f]) === 0)
+      );
+      if (clash) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `Unique constraint failed on the fields: (${fields.join(",")})`,
+          { code: "P2002", clientVersion: "memory", meta: { target: fields } }
+        );
+      }
+    }
+  }
+
+  private related(model: ModelMeta, field: ModelMeta["fields"][number], row: Row): Row | Row[] | null {
+    const target = this.models.get(field.type)!;
+    if (field.relationFromFields?.length) {
+      return this.rows(target.name).find(r =>
+        field.relationFromFields!.every((from, i) => compare(r[field.relationToFields![i]], row[from]) === 0)
+      ) ?? null;
+    }
+    const back = target.fields.find(f => f.kind === "object" && f.relationName === field.relationName && f !== field)!;
+    const children = this.rows(target.name).filter(r =>
+      back.relationFromFields!.every((from, i) => compare(r[from], row[back.relationToFields![i]]) === 0)
+    );
+    return field.isList ? children : children[0] ?? null;
+  }
+
+  private shape(model: ModelMeta, row: Row, args: any = {}): Row {
+    const out: Row = {};
+    const selection = args.select as Record<string, any> | undefined;
+    for (const field of model.fields) {
+      if (field.kind === "object") continue;
+      if (!selection || selection[field.name]) out[field.name] = row[field.name];
+    }
+    const relations = { ...(args.include || {}), ...(selection || {}) };
+    for (const [name, spec] of Object.entries(relations) as Array<[string, any]>) {
+      const field = model.fields.find(f => f.name === name);
+      if (!spec) continue;
+      if (name === "_count") {
+        out._count = Object.fromEntries(Object.keys(spec.select || {}).map(rel => {
+          const related = this.related(model, model.fields.find(f => f.name === rel)!, row);
+          return [rel, Array.isArray(related) ? related.length : related ? 1 : 0];
+        }));
+        continue;
+      }
+      if (field?.kind !== "object") continue;
+      const target = this.models.get(field.type)!;
+      const nestedArgs = spec === true ? {} : spec;
+      const related = this.related(model, field, row);
+      out[name] = Array.isArray(related)
+        ? this.sortAndPage(related.filter(r => this.matches(target, r, nestedArgs.where)), nestedArgs).map(r => this.shape(target, r, nestedArgs))
+        : related && this.shape(target, related, nestedArgs);
+    }
+    return out;
+  }
+
+  private orThrow<T>(model: ModelMeta, value: T | null): T {
+    if (value === null) throw this.notFound(model);
+    return value;
+  }
+
+  private notFound(model: ModelMeta) {
+    return new Prisma.PrismaClientKnownRequestError(`No ${model.name} found`, { code: "P2025", clientVersion: "memory" });
+  }
+}
+
+/**
+ * Install an in-memory client as the global Prisma instance. Must run before
+ * app/db.server.ts is first imported.
+ */
+export function installMemoryPrisma(): MemoryPrisma {
+  const memory = new MemoryPrisma();
+  global.prismaGlobal = memory.client();
+  return memory;
+}
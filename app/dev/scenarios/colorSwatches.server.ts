@@ -0,0 +1,41 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Color swatches: color metaobjects
+export const colorSwatchesScenarios: HarnessScenario[] = [
+  {
+    name: "swatches: color options link to shared color metaobjects with hex codes and swatch images",
+    async run(ctx) {
+      const shop = "swatches.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1300000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const swatchOf = (color: string) => Array.from(admin.metaobjects.values()).find(m => m.type === "ss_color" && m.fields.label === color);
+
+      await ctx.services.importer.importStyle(admin, 39, shop, { selection: { colors: ["White", "Black"], sizes: [], warehouses: [], minStock: 0 } });
+      const [product] = Array.from(admin.products.values());
+      const black = swatchOf("Black");
+      check(black?.fields.color === "#000000" && black.fields.swatch_image.startsWith("https://www.ssactivewear.com/Images/ColorSwatch/")
+        && black.fields.text_color === "#FFFFFF" && black.handle === "black", `black swatch: ${JSON.stringify(black)}`);
+      check(product.options[0].linkedMetafield?.namespace === "ss_swatch" && product.options[0].values.join() === "White,Black",
+        `color option: ${JSON.stringify(product.options[0])}`);
+      check(admin.metafieldDefinitions.get("PRODUCT.ss_swatch.colors")?.type === "list.metaobject_reference", "swatch metafield definition missing");
+
+      // A color added later joins the linked option
+      await ctx.services.importer.importStyle(admin, 39, shop, { selection: { colors: [], sizes: [], warehouses: [], minStock: 0 } });
+      const colors = product.options[0].values;
+      check(colors.length === 3 && colors.every(c => swatchOf(c)) && product.variants.some(v => v.selectedOptions[0].value === colors[2]),
+        `added color not linked: ${JSON.stringify(product.options[0])}`);
+
+      // Products made again in the same colors reuse the swatches, and merchant edits are kept
+      black.fields.color = "#111111";
+      const before = admin.metaobjects.size;
+      admin.products.delete(product.id);
+      await global.prismaGlobal.productMap.deleteMany({ where: { shop } });
+      await ctx.services.importer.importStyle(admin, 39, shop, { split: "color" });
+      check(admin.metaobjects.size === before && swatchOf("Black")!.fields.color === "#111111", `swatches recreated: ${admin.metaobjects.size}`);
+      const split = Array.from(admin.products.values());
+      check(split.length === 3 && split.every(p => p.options[0].linkedMetafield), "split products not linked");
+    },
+  },
+];
@@ -0,0 +1,49 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Descriptions: templates and spec metafields
+export const descriptionsScenarios: HarnessScenario[] = [
+  {
+    name: "descriptions: imports render the shop's template from S&S specs and write spec metafields",
+    async run(ctx) {
+      const shop = "descriptions.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 900000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+
+      const bad = await ctx.services.descriptions.save(shop, "{{title}} {{#fabric}}{{price}}", true).then(() => null, (e: Error) => e);
+      check(bad && /Unknown placeholder \{\{price\}\}/.test(bad.message) && /never closed/.test(bad.message), `bad template: ${bad?.message}`);
+      const { renderDescription, SAMPLE_STYLE_DETAILS } = await import("../../services/descriptionTemplate");
+      const spaced = renderDescription("{{ #fabric }}<p>{{ fabric }}</p>{{ /fabric }}{{ #caseQty }}{{caseQty}}{{/caseQty}}", { ...SAMPLE_STYLE_DETAILS, caseQty: null });
+      check(spaced === `<p>${SAMPLE_STYLE_DETAILS.fabric}</p>`, `sections with spaces: ${spaced}`);
+
+      await ctx.services.importer.importStyle(admin, 4025, shop);
+      const [product] = Array.from(admin.products.values());
+      const html = product.descriptionHtml;
+      check(html.includes("<li><strong>Fabric:</strong> 100% Airlume combed and ring-spun cotton</li>") && html.includes("Made in:</strong> Nicaragua"),
+        `description details: ${html}`);
+      check(html.includes("<th>Chest Width</th>") && !html.includes("Sustainable style") && !html.includes("{{"), `description size chart: ${html}`);
+      const field = (key: string) => product.metafields.find(m => m.namespace === "ss_specs" && m.key === key)?.value;
+      check(field("fabric_weight") === "4.2 oz" && field("country_of_origin") === "Nicaragua" && field("case_quantity") === "72" && field("sustainable") === "false",
+        `spec metafields: ${JSON.stringify(product.metafields)}`);
+      const table = JSON.parse(field("spec_table") || "{}");
+      check(table.sizes?.join() === "XS,S,M,L,XL,2XL" && table.rows?.map((r: any) => r.name).join() === "Body Length,Chest Width", `spec table: ${field("spec_table")}`);
+      check(Array.from(admin.metafieldDefinitions.keys()).filter(k => k.includes("ss_specs")).length === 6, "spec metafield definitions not created");
+
+      // Re-imports refresh the metafields but keep the description the merchant may have edited
+      await ctx.services.descriptions.save(shop, "<p>{{brand}} {{styleName}}</p>", true);
+      product.descriptionHtml = "<p>Edited by the merchant</p>";
+      product.metafields = product.metafields.filter(m => m.key !== "fabric");
+      await ctx.services.importer.importStyle(admin, 4025, shop);
+      check(product.descriptionHtml === "<p>Edited by the merchant</p>" && field("fabric"), `re-import: ${product.descriptionHtml}`);
+
+      const plan = await ctx.services.importer.previewImport(admin, 39, shop);
+      check(plan.descriptionHtml === "<p>Gildan 2000</p>" && plan.specMetafields.some(m => m.key === "sustainable" && m.value === "true"),
+        `plan description: ${plan.descriptionHtml}`);
+      await ctx.services.descriptions.save(shop, "<p>{{title}}</p>", false);
+      await ctx.services.importer.importStyle(admin, 39, shop);
+      const tee = Array.from(admin.products.values()).find(p => p.id !== product.id)!;
+      check(tee.descriptionHtml === "<p>Ultra Cotton™ T-Shirt</p>" && tee.metafields.every(m => m.namespace !== "ss_specs"), `without metafields: ${JSON.stringify(tee.metafields)}`);
+    },
+  },
+];
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Image mirroring: S&S photos copied to storage
+export const imageMirrorScenarios: HarnessScenario[] = [
+  {
+    name: "images: chosen photo kinds are mirrored to storage, deduplicated by content, linked by color and failures reported",
+    async run(ctx) {
+      const shop = "images.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1400000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const hashOf = (body: string | Buffer) => crypto.createHash("sha256").update(body).digest("hex");
+      const colors = new Map(ctx.sim.fixtures.products.filter(p => p.styleID === 39).map(p => [p.colorName, p]));
+      const [first, ...others] = Array.from(colors.values());
+
+      // Every on-model photo is the same picture, and one back photo is missing on S&S
+      const sameModel = Buffer.from("the same on-model photo");
+      for (const p of colors.values()) ctx.sim.images.set(`/${p.colorOnModelFrontImage}`, sameModel);
+      ctx.sim.inject({ path: first.colorBackImage, status: 404 });
+
+      const result = await ctx.services.importer.importStyle(admin, 39, shop, { images: ["front", "back", "onModel"] });
+      const product = admin.products.get(result.shopifyProduct.id)!;
+      check(result.failedImages.length === 1 && result.failedImages[0].kind === "back" && result.failedImages[0].color === first.colorName
+        && /404/.test(result.failedImages[0].error), `failed images: ${JSON.stringify(result.failedImages)}`);
+      check(/1 image failed: .*Back \(not copied to storage: HTTP 404\)/.test(result.message), `failure not in the report: ${result.message}`);
+
+      // Style image, a front per color, the backs that exist and a single on-model photo
+      check(product.media.length === 1 + colors.size + others.length + 1, `expected ${colors.size + others.length + 2} images, got ${product.media.length}`);
+      check(product.media.every(m => m.url.startsWith("https://storage.harness.test/ss-images/")), "images were not mirrored");
+      const stored = await fs.readdir(path.join(ctx.services.storageDir, "ss-images"));
+      check(stored.includes(`${hashOf(sameModel)}.jpg`), `mirrored files: ${stored.join(", ")}`);
+
+      // Variants show their color's front photo, matched by color rather than by alt text
+      const mediaByHash = new Map(product.media.map(m => [m.url.split("/").pop()!.split(".")[0], m.id]));
+      for (const variant of product.variants) {
+        const color = colors.get(variant.selectedOptions[0].value)!;
+        check(variant.mediaId === mediaByHash.get(hashOf(`simulated photo /${color.colorFrontImage}`)), `${variant.sku} shows the wrong image`);
+      }
+
+      // Updating keeps the colors' images; nothing is uploaded again
+      const before = product.media.length;
+      const again = await ctx.services.importer.importStyle(admin, 39, shop, { images: ["front", "back", "onModel"] });
+      check(again.mode === "updated" && again.failedImages.length === 0 && product.media.length === before, `update uploaded ${product.media.length - before} images`);
+    },
+  },
+];
@@ -0,0 +1,63 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Import jobs: checkpoints, resume and orphan cleanup
+export const importJobsScenarios: HarnessScenario[] = [
+  {
+    name: "resume: an import that fails part way resumes from its checkpoint, orphaned drafts are cleaned up",
+    async run(ctx) {
+      // A separate shop and Shopify store so the products of earlier scenarios do not interfere
+      const shop = "resume.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 500000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const jobs = () => ctx.db.rows("ImportJob").filter(j => j.shop === shop);
+
+      admin.failNext("inventorySetQuantities", "Internal error");
+      const failed = await ctx.services.importer.importStyle(admin, 39, shop, { tags: ["resumed"] }).then(() => null, (e: Error) => e);
+      check(failed && /inventory/i.test(failed.message), `expected the inventory step to fail, got ${failed?.message}`);
+      const [job] = jobs();
+      check(job?.status === "failed" && job.step === "inventory" && job.productId, `job not checkpointed: ${JSON.stringify(job)}`);
+      check(ctx.db.rows("ProductMap").every(m => m.shop !== shop), "a failed import should not be mapped yet");
+      const draft = admin.products.get(job.productId)!;
+      const mediaBefore = draft.media.length;
+
+      const result = await ctx.services.importer.importStyle(admin, 39, shop, { tags: ["resumed"] });
+      check(result.shopifyProduct.id === job.productId && admin.products.size === 1, "resume created a second product");
+      check(jobs().length === 1 && jobs()[0].status === "completed" && jobs()[0].attempts === 2, `job after resume: ${JSON.stringify(jobs()[0])}`);
+      check(draft.media.length === mediaBefore, "resume uploaded the images again");
+      check(draft.variants.every(v => admin.available(v) !== undefined), "inventory not set on resume");
+      check(draft.status === "ACTIVE" && draft.tags.includes("resumed"), "resume did not publish and tag the product");
+      check(ctx.db.rows("ProductMap").some(m => m.shop === shop && m.shopifyProductId === draft.id), "resumed import not mapped");
+
+      // A failed import nobody resumes leaves a draft that cleanup deletes
+      admin.failNext("inventorySetQuantities", "Internal error");
+      await ctx.services.importer.importStyle(admin, 4025, shop).catch(() => null);
+      const orphan = jobs().find(j => j.styleId === 4025)!;
+      check(orphan.status === "failed" && admin.products.has(orphan.productId), "expected an orphaned draft");
+      const unfinished = await ctx.services.importJobs.listUnfinished(shop);
+      check(unfinished.length === 1 && unfinished[0].id === orphan.id, `expected 1 unfinished job, got ${unfinished.length}`);
+
+      // A queue worker that still holds the style may be filling the draft - it is not deleted under it
+      const leased = await global.prismaGlobal.importQueue.create({
+        data: { shop, styleId: 4025, status: "processing", lockedUntil: new Date(Date.now() + 60_000) },
+      });
+      const refused = await ctx.services.importJobs.cleanupOrphans(admin, shop);
+      check(refused.discarded === 0 && /import queue/.test(refused.errors[0]) && admin.products.has(orphan.productId), `cleanup under a lease: ${JSON.stringify(refused)}`);
+      await global.prismaGlobal.importQueue.delete({ where: { id: leased.id } });
+
+      const cleanup = await ctx.services.importJobs.cleanupOrphans(admin, shop);
+      check(cleanup.discarded === 1 && cleanup.deletedProducts === 1, `cleanup: ${JSON.stringify(cleanup)}`);
+      check(!admin.products.has(orphan.productId) && admin.products.has(draft.id), "cleanup deleted the wrong products");
+
+      // Two imports of the same style starting together: only one of them gets a job
+      const started = await Promise.allSettled([1, 2].map(() => ctx.services.importJobs.begin(shop, 6000, {})));
+      const winners = started.filter(r => r.status === "fulfilled");
+      check(winners.length === 1 && started.some(r => r.status === "rejected" && /already being imported/.test(String(r.reason))),
+        `concurrent begin: ${JSON.stringify(started.map(r => r.status))}`);
+      await ctx.services.importJobs.fail((winners[0] as PromiseFulfilledResult<{ id: string }>).value.id, "stopped by the harness");
+      const retried = await Promise.allSettled([1, 2].map(() => ctx.services.importJobs.begin(shop, 6000, {})));
+      check(retried.filter(r => r.status === "fulfilled").length === 1, `concurrent resume: ${JSON.stringify(retried.map(r => r.status))}`);
+    },
+  },
+];
@@ -0,0 +1,47 @@
+import { check } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Import queue worker
+export const importQueueScenarios: HarnessScenario[] = [
+  {
+    name: "import queue: the worker imports queued styles with their options and reclaims abandoned rows",
+    after: ["import", "pricing"],
+    async run(ctx) {
+      const queue = global.prismaGlobal.importQueue;
+      const rule = await global.prismaGlobal.priceRule.findFirstOrThrow({ where: { shop: ctx.shop, name: "Everything +20%" } });
+      const at = (minutes: number) => new Date(Date.now() - minutes * 60_000);
+
+      const tagged = await queue.create({
+        data: { shop: ctx.shop, styleId: 39, status: "queued", priceRuleId: rule.id, tags: "summer, bulk", collection: "summer-tees", createdAt: at(5) },
+      });
+      // Left in "processing" by a worker that died half an hour ago
+      const abandoned = await queue.create({
+        data: { shop: ctx.shop, styleId: 4025, status: "processing", attempts: 1, collection: "no-such-collection", lockedUntil: at(30), createdAt: at(4) },
+      });
+      const missing = await queue.create({ data: { shop: ctx.shop, styleId: 999999, status: "queued", createdAt: at(3) } });
+      const notStarted = await queue.create({ data: { shop: ctx.shop, styleId: 39, status: "pending", createdAt: at(2) } });
+
+      const worker = new ctx.services.ImportQueueWorker(async () => ctx.admin, ctx.services.importer);
+      const processed = await worker.run(ctx.shop);
+      check(processed === 3, `expected 3 rows processed, got ${processed}`);
+
+      const row = (id: string) => ctx.db.rows("ImportQueue").find(r => r.id === id)!;
+      const done = row(tagged.id);
+      check(done.status === "completed" && done.processedAt && !done.lockedUntil, `tagged row ended as ${done.status}: ${done.error}`);
+      check(done.productId === ctx.state.productId, "completed row does not point at the product");
+      const product = ctx.admin.products.get(ctx.state.productId)!;
+      check(product.tags.includes("summer") && product.tags.includes("bulk"), `queue tags not applied: ${product.tags.join()}`);
+      check(ctx.admin.collections.get("gid://shopify/Collection/1")!.productIds.includes(product.id), "product not added to the collection");
+      const map = ctx.db.rows("ProductMap").find(m => m.shopifyProductId === product.id);
+      check(map?.priceRuleId === rule.id, "the queued price rule was not used");
+
+      const reclaimed = row(abandoned.id);
+      check(reclaimed.status === "completed" && reclaimed.attempts === 2, `abandoned row: ${reclaimed.status}, attempt ${reclaimed.attempts}`);
+      check(/no-such-collection/.test(reclaimed.progress), `missing collection not reported: ${reclaimed.progress}`);
+
+      check(row(missing.id).status === "failed" && row(missing.id).error, "unknown style should fail with an error");
+      check(row(notStarted.id).status === "pending", "the worker picked up a row nobody started");
+      check(!(await worker.hasWork(ctx.shop)), "queue still has claimable rows");
+    },
+  },
+];
@@ -0,0 +1,226 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Importing styles: first imports, re-imports in place, the dry run, split products and subsets
+export const importerScenarios: HarnessScenario[] = [
+  {
+    name: "import: style 39 creates product, variants, media, inventory and ProductMap",
+    async run(ctx) {
+      const result = await ctx.services.importer.importStyle(ctx.admin, 39, ctx.shop);
+      const product = ctx.admin.products.get(result.shopifyProduct.id);
+      const expected = ctx.sim.fixtures.products.filter(p => p.styleID === 39);
+
+      check(product, "product was not created in Shopify");
+      check(product.variants.length === expected.length, `expected ${expected.length} variants, got ${product.variants.length}`);
+      check(product.status === "ACTIVE", `expected ACTIVE product, got ${product.status}`);
+      check(product.publishedTo.length === 1, "product was not published to the Online Store");
+      check(product.media.length > 0, "no media was attached");
+      check(product.variants.every(v => v.mediaId), "some variants have no color image");
+
+      for (const ssProduct of expected) {
+        const variant = product.variants.find(v => v.sku === ssProduct.sku);
+        check(variant, `missing variant ${ssProduct.sku}`);
+        check(ctx.admin.available(variant) === ssProduct.qty, `stock mismatch for ${ssProduct.sku}`);
+        const item = variant.inventoryItem;
+        check(item.unitCost?.amount === ssProduct.customerPrice.toFixed(2) && item.measurement.weight?.value === ssProduct.unitWeight
+          && item.countryCodeOfOrigin === "NI" && variant.barcode === ssProduct.gtin, `inventory item of ${ssProduct.sku}: ${JSON.stringify(item)}`);
+      }
+
+      const maps = ctx.db.rows("ProductMap");
+      check(maps.length === 1 && maps[0].ssStyleId === "39", "ProductMap row not written");
+      const variantMaps = ctx.db.rows("VariantMap");
+      check(variantMaps.length === expected.length, `expected ${expected.length} VariantMap rows, got ${variantMaps.length}`);
+      check(variantMaps.every(m => expected.some(p => p.sku === m.ssSku && p.skuID_Master === m.ssSkuId)), "VariantMap rows do not match S&S SKUs");
+      ctx.state.productId = product.id;
+    },
+  },
+  {
+    name: "reimport: re-importing style 39 updates the product in place",
+    after: ["import"],
+    async run(ctx) {
+      const product = ctx.admin.products.get(ctx.state.productId)!;
+      const variantsBefore = product.variants.length;
+      const mediaBefore = product.media.length;
+      const catalog = ctx.sim.fixtures.products;
+
+      // Merchant edits that must survive
+      product.title = "Merchant Title";
+      product.tags = ["merchant-tag"];
+
+      // S&S changes: a price increase, a discontinued color and a new color
+      const [repriced, merchantPriced] = catalog.filter(p => p.styleID === 39 && p.colorName === "White");
+      for (const p of [repriced, merchantPriced]) {
+        p.piecePrice += 1;
+        p.customerPrice += 1;
+      }
+      product.variants.find(v => v.sku === merchantPriced.sku)!.price = "19.50";
+      const discontinued = catalog.filter(p => p.styleID === 39 && p.colorName === "Navy").map(p => p.sku);
+      for (let i = catalog.length - 1; i >= 0; i--) {
+        if (discontinued.includes(catalog[i].sku)) catalog.splice(i, 1);
+      }
+      const added = catalog
+        .filter(p => p.styleID === 39 && p.colorName === "Black")
+        .map(p => ({
+          ...p,
+          sku: p.sku.replace(/^B00760\d\d/, "B0076099"),
+          skuID_Master: p.skuID_Master + 900,
+          colorName: "Heather Red",
+          colorFrontImage: "Images/Color/99999_f_fm.jpg",
+          colorBackImage: "Images/Color/99999_b_fm.jpg",
+        }));
+      catalog.push(...added);
+      await ctx.services.ssCache.invalidateStyle(39);
+
+      const result = await ctx.services.importer.importStyle(ctx.admin, 39, ctx.shop);
+      check(result.mode === "updated", `expected an update, got ${result.mode}`);
+      check(result.shopifyProduct.id === product.id, "re-import created a second product");
+      check(ctx.admin.products.size === 1, `expected 1 Shopify product, found ${ctx.admin.products.size}`);
+      check(ctx.db.rows("ProductMap").length === 1, "re-import wrote a second ProductMap");
+
+      check(product.title === "Merchant Title" && product.tags.join() === "merchant-tag", "merchant edits were overwritten");
+      check(product.variants.length === variantsBefore + added.length, `expected ${variantsBefore + added.length} variants, got ${product.variants.length}`);
+      check(product.options[0].values.includes("Heather Red"), "new color missing from product options");
+
+      const repricedVariant = product.variants.find(v => v.sku === repriced.sku)!;
+      check(repricedVariant.price === repriced.piecePrice.toFixed(2), `price not updated: ${repricedVariant.price}`);
+      check(repricedVariant.inventoryItem.unitCost?.amount === repriced.customerPrice.toFixed(2), `cost not updated: ${JSON.stringify(repricedVariant.inventoryItem)}`);
+      check(ctx.db.rows("VariantMap").find(m => m.shopifyVariantId === repricedVariant.id)?.price === repriced.piecePrice.toFixed(2), "written price not recorded");
+      // A price the merchant set in Shopify is theirs, and stays theirs on the next re-import too
+      const edited = product.variants.find(v => v.sku === merchantPriced.sku)!;
+      check(edited.price === "19.50" && /1 variants keep the price/.test(result.message), `merchant price overwritten: ${edited.price} (${result.message})`);
+      const plan = await ctx.services.importer.previewImport(ctx.admin, 39, ctx.shop);
+      check(plan.variants.find(v => v.sku === merchantPriced.sku)?.action === "unchanged" && plan.warnings.some(w => /keep the price/.test(w)),
+        `preview of a merchant price: ${JSON.stringify(plan.variants.find(v => v.sku === merchantPriced.sku))}`);
+      for (const sku of discontinued) {
+        const variant = product.variants.find(v => v.sku === sku)!;
+        check(ctx.admin.available(variant) === 0, `discontinued ${sku} still has stock`);
+      }
+      for (const p of added) {
+        const variant = product.variants.find(v => v.sku === p.sku);
+        check(variant?.mediaId, `new variant ${p.sku} missing or without image`);
+        check(ctx.admin.available(variant) === p.qty, `stock not set for new variant ${p.sku}`);
+      }
+      check(product.media.length === mediaBefore + 2, `expected 2 new images, got ${product.media.length - mediaBefore}`);
+    },
+  },
+  {
+    name: "preview: the dry run plans variants, prices, images and retirements without writing anything",
+    after: ["reimport"],
+    async run(ctx) {
+      const { importPlanCsv } = await import("../../services/importPlan");
+      const callsBefore = ctx.admin.calls.length;
+      const tables = ["ProductMap", "VariantMap", "SSStyleCache", "ImportJob"];
+      const rowsBefore = tables.map(t => ctx.db.rows(t).length);
+      const product = ctx.admin.products.get(ctx.state.productId)!;
+      const priceBefore = product.variants.map(v => v.price).join();
+
+      // Reprice one SKU in S&S so the plan has a price change to show
+      const repriced = ctx.sim.fixtures.products.find(p => p.styleID === 39 && p.colorName === "White")!;
+      repriced.piecePrice += 2;
+      await ctx.services.ssCache.invalidateStyle(39);
+
+      const plan = await ctx.services.importer.previewImport(ctx.admin, 39, ctx.shop, {
+        sizeMarkups: { S: { type: "fixed", value: 1 } },
+      });
+      const mutations = ctx.admin.calls.slice(callsBefore).filter(c => !["product", "productOperation", "locations", "publications"].includes(c.operation));
+      check(mutations.length === 0, `preview called ${mutations.map(c => c.operation).join(", ")}`);
+      check(tables.every((t, i) => ctx.db.rows(t).length === rowsBefore[i]), "preview wrote to the database");
+      check(product.variants.map(v => v.price).join() === priceBefore, "preview changed prices");
+
+      check(plan.mode === "update" && plan.productId === product.id, `expected an update plan, got ${plan.mode}`);
+      check(plan.colors.length > 0 && plan.sizes.length > 0, "option matrix missing");
+      const white = plan.variants.find(v => v.sku === repriced.sku)!;
+      check(white.action === "update" && white.currentPrice !== white.price, `repriced SKU planned as ${white.action}`);
+      check(plan.retired.length > 0, "discontinued variants from the reimport scenario should be retired");
+      check(plan.variants.every(v => v.stock >= 0 && Number(v.price) > 0), "plan has variants without stock or price");
+
+      const csv = importPlanCsv(plan).split("\n");
+      check(csv[0].startsWith("Action,Product,SKU,Color,Size") && csv.length === 1 + plan.variants.length + plan.dropped.length + plan.retired.length,
+        `CSV has ${csv.length} lines`);
+    },
+  },
+  {
+    name: "split: a style split by color becomes linked sibling products that re-import in place",
+    async run(ctx) {
+      const shop = "split.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 700000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const maps = () => ctx.db.rows("ProductMap").filter(m => m.shop === shop);
+      // Style 39 has White, Black and Heather Red by now (see the reimport scenario)
+      const colors = Array.from(new Set(ctx.sim.fixtures.products.filter(p => p.styleID === 39).map(p => p.colorName)));
+
+      const plan = await ctx.services.importer.previewImport(admin, 39, shop, { split: "color" });
+      check(plan.split === "color" && plan.products.length === colors.length && plan.products.every(p => p.mode === "create"),
+        `plan: ${JSON.stringify(plan.products)}`);
+
+      const result = await ctx.services.importer.importStyle(admin, 39, shop, { split: "color" });
+      const products = Array.from(admin.products.values());
+      check(result.mode === "created" && products.length === colors.length, `expected ${colors.length} products, got ${products.length}`);
+      check(products.every(p => p.title.startsWith("Ultra Cotton™ T-Shirt - ") && p.options.find(o => o.name === "Color")?.values.length === 1),
+        `products: ${products.map(p => p.title).join()}`);
+      check(maps().length === colors.length && maps().every(m => m.splitBy === "color" && m.ssGroupKey), `maps: ${JSON.stringify(maps())}`);
+
+      const ids = products.map(p => p.id).sort().join();
+      for (const product of products) {
+        const field = (key: string) => product.metafields.find(m => m.namespace === "ss_style" && m.key === key)?.value;
+        check(JSON.parse(field("siblings") || "[]").sort().join() === ids, `${product.title} siblings: ${field("siblings")}`);
+        check(field("style_id") === "39" && product.title.endsWith(` - ${field("group")}`), `${product.title} metafields: ${JSON.stringify(product.metafields)}`);
+      }
+      check(Array.from(admin.metafieldDefinitions.keys()).filter(k => k.includes("ss_style")).length === 3, "sibling metafield definitions not created");
+
+      // Without a split the re-import keeps the one the style was imported with
+      const again = await ctx.services.importer.importStyle(admin, 39, shop);
+      check(again.mode === "updated" && admin.products.size === colors.length && maps().length === colors.length, `re-import: ${again.message}`);
+      const switched = await ctx.services.importer.importStyle(admin, 39, shop, { split: "single" }).then(() => null, (e: Error) => e);
+      check(switched && /already imported as/.test(switched.message), "changing the split of an imported style should be refused");
+
+      // Style 4025: Athletic Heather (Greys) and Heather Forest (Greens)
+      await ctx.services.importer.importStyle(admin, 4025, shop, { split: "colorFamily" });
+      const families = maps().filter(m => m.ssStyleId === "4025");
+      check(families.map(m => m.ssGroupKey).sort().join() === "greens,greys" && families.every(m => m.splitBy === "colorFamily"),
+        `color families: ${JSON.stringify(families)}`);
+    },
+  },
+  {
+    name: "selection: a color/size/warehouse subset is imported, remembered and respected by re-imports",
+    async run(ctx) {
+      const shop = "selection.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1000000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const selection = { colors: ["Heather Forest"], sizes: ["S", "M", "L"], warehouses: ["IL", "KS"], minStock: 0 };
+      const chosen = ctx.sim.fixtures.products.filter(p => p.styleID === 4025 && p.colorName === "Heather Forest" && selection.sizes.includes(p.sizeName));
+      const stockOf = (sku: string) => chosen.find(p => p.sku === sku)!.warehouses
+        .filter(w => selection.warehouses.includes(w.warehouseAbbr)).reduce((sum, w) => sum + w.qty, 0);
+
+      const none = await ctx.services.importer.importStyle(admin, 4025, shop, { selection: { ...selection, colors: ["Neon Pink"] } }).then(() => null, (e: Error) => e);
+      check(none && /match the selected/.test(none.message), "an empty selection should be refused");
+
+      await ctx.services.importer.importStyle(admin, 4025, shop, { selection });
+      const [product] = Array.from(admin.products.values());
+      check(product.variants.length === chosen.length && product.options[0].values.join() === "Heather Forest", `variants: ${product.variants.map(v => v.sku).join()}`);
+      for (const variant of product.variants) {
+        check(admin.available(variant) === stockOf(variant.sku), `${variant.sku} stock counts other warehouses: ${admin.available(variant)}`);
+      }
+      const [map] = ctx.db.rows("ProductMap").filter(m => m.shop === shop);
+      check(JSON.parse(map.selection).colors.join() === "Heather Forest", `selection not saved: ${map.selection}`);
+
+      // Re-imports without a selection keep the saved one instead of adding the other colors and sizes
+      const plan = await ctx.services.importer.previewImport(admin, 4025, shop);
+      check(plan.selection.sizes.join() === "S,M,L" && plan.unselected === 12 - chosen.length && plan.variants.every(v => v.action !== "create"),
+        `remembered selection: ${JSON.stringify(plan.selection)}, ${plan.unselected} unselected`);
+      await ctx.services.importer.importStyle(admin, 4025, shop);
+      check(product.variants.length === chosen.length, `re-import added variants: ${product.variants.length}`);
+
+      // SKUs under the minimum stock are skipped; one already imported goes to zero stock
+      const lowest = chosen.reduce((a, b) => (stockOf(a.sku) <= stockOf(b.sku) ? a : b));
+      const minimum = { ...selection, minStock: stockOf(lowest.sku) + 1 };
+      const stricter = await ctx.services.importer.previewImport(admin, 4025, shop, { selection: minimum });
+      check(stricter.dropped.some(d => d.sku === lowest.sku) && stricter.retired.some(r => r.sku === lowest.sku && r.reason === "Under the minimum stock"),
+        `minimum stock plan: ${JSON.stringify({ dropped: stricter.dropped, retired: stricter.retired })}`);
+      await ctx.services.importer.importStyle(admin, 4025, shop, { selection: minimum });
+      check(admin.available(product.variants.find(v => v.sku === lowest.sku)!) === 0, `${lowest.sku} kept its stock`);
+      check(JSON.parse(ctx.db.rows("ProductMap").find(m => m.shop === shop)!.selection).minStock === minimum.minStock, "minimum stock not saved");
+    },
+  },
+];
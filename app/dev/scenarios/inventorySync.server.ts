@@ -0,0 +1,41 @@
+import { check, HarnessAssertionError } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Inventory sync: S&S stock changes reach Shopify, rejected credentials stop the run
+export const inventorySyncScenarios: HarnessScenario[] = [
+  {
+    name: "inventory: sync picks up S&S stock changes and survives transient 503s",
+    after: ["import"],
+    async run(ctx) {
+      const changed = ctx.sim.fixtures.products.find(p => p.styleID === 39)!;
+      changed.warehouses[0].qty += 25;
+      changed.qty += 25;
+      ctx.sim.inject({ method: "GET", path: "/products", status: 503, times: 2 });
+
+      const result = await ctx.services.inventorySync.syncAllInventory(ctx.admin, ctx.shop);
+      check(result.updated === 1 && result.failed === 0, `expected 1 updated/0 failed, got ${JSON.stringify(result)}`);
+
+      const variant = ctx.admin.products.get(ctx.state.productId)!.variants.find(v => v.sku === changed.sku)!;
+      check(ctx.admin.available(variant) === changed.qty, `stock for ${changed.sku} not updated`);
+      const stockRequests = ctx.sim.requests.filter(r => r.path.startsWith("/products") && r.query.styleid);
+      check(stockRequests.length === 3, `expected 2 failed + 1 successful stock request, saw ${stockRequests.length}`);
+      check(stockRequests[2].query.fields === "Sku,StyleID,Qty,Warehouses", `stock request did not limit fields: ${stockRequests[2].query.fields}`);
+    },
+  },
+  {
+    name: "auth: rejected credentials abort the inventory sync",
+    after: ["import"],
+    async run(ctx) {
+      await ctx.services.saveSSAccount(ctx.shop, { accountNumber: ctx.sim.userId, apiKey: "wrong-key", defaultShipping: "1", testMode: false });
+      try {
+        await ctx.services.inventorySync.syncAllInventory(ctx.admin, ctx.shop);
+        check(false, "sync should have failed with bad credentials");
+      } catch (error) {
+        if (error instanceof HarnessAssertionError) throw error;
+        check(error instanceof ctx.services.SSAuthError, `expected SSAuthError, got ${error}`);
+      } finally {
+        await ctx.services.saveSSAccount(ctx.shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      }
+    },
+  },
+];
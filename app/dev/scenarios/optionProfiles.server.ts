@@ -0,0 +1,41 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Option profiles: option names and size order
+export const optionProfilesScenarios: HarnessScenario[] = [
+  {
+    name: "options: option profiles rename the options and override S&S size order, re-imports keep the product's names",
+    async run(ctx) {
+      const { sortSizes } = await import("../../services/optionProfiles");
+      const sorted = sortSizes([{ name: "XL", sizeOrder: "B4" }, { name: "OSFA" }, { name: "S", sizeOrder: "B1" }, { name: "YM", sizeOrder: "A2" }]);
+      check(sorted.map(s => s.name).join() === "YM,S,XL,OSFA", `S&S size order: ${sorted.map(s => s.name).join()}`);
+
+      const shop = "options.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 800000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const profile = await ctx.services.optionProfiles.save(shop, {
+        name: "Boutique", colorOptionName: "Colour", sizeOptionName: "Fit", sizeOrder: "2xl\nXL, 2XL", isDefault: true,
+      });
+      check(profile.sizeOrder === "2xl\nXL", `size order not cleaned up: ${JSON.stringify(profile.sizeOrder)}`);
+      const clash = await ctx.services.optionProfiles.save(shop, { name: "Bad", colorOptionName: "Size", sizeOptionName: "size", sizeOrder: "", isDefault: false })
+        .then(() => null, (e: Error) => e);
+      check(clash, "option names that clash should be refused");
+
+      await ctx.services.importer.importStyle(admin, 4025, shop);
+      const [product] = Array.from(admin.products.values());
+      check(product.options.map(o => o.name).join() === "Colour,Fit", `options: ${product.options.map(o => o.name).join()}`);
+      const fit = product.options[1].values.join();
+      check(fit === "2XL,XL,XS,S,M,L", `Fit order: ${fit}`);
+      check(product.variants.every(v => v.selectedOptions.map(o => o.name).join() === "Colour,Fit"), "variants use other option names");
+      const variantCount = product.variants.length;
+
+      // The profile changing later does not rename options of products already in the store
+      await ctx.services.optionProfiles.save(shop, { ...profile, colorOptionName: "Shade", sizeOrder: profile.sizeOrder || "" });
+      const again = await ctx.services.importer.importStyle(admin, 4025, shop);
+      check(again.mode === "updated" && product.variants.length === variantCount, `re-import added variants: ${again.message}`);
+      const plan = await ctx.services.importer.previewImport(admin, 4025, shop);
+      check(plan.optionNames.color === "Colour" && plan.variants.every(v => v.action !== "create"), `plan option names: ${JSON.stringify(plan.optionNames)}`);
+    },
+  },
+];
@@ -0,0 +1,92 @@
+import { check } from "../check.server";
+import type { HarnessContext, HarnessScenario } from "../harness.server";
+
+// Order sync: Shopify orders are submitted to S&S by SKU or through the VariantMap
+
+async function createOrderJob(ctx: HarnessContext, skus: string[], name: string) {
+  const order = ctx.admin.seedOrder({
+    name,
+    email: "buyer@example.com",
+    shippingAddress: {
+      address1: "123 Main St", address2: null, city: "Lockport", zip: "60441",
+      province: "Illinois", provinceCode: "IL", country: "United States", firstName: "Jane", lastName: "Doe",
+    },
+    lineItems: skus.map(sku => ({ sku, quantity: 2, variant: { id: "gid://shopify/ProductVariant/1", sku } })),
+  });
+  return global.prismaGlobal.orderJob.create({
+    data: { shop: ctx.shop, shopifyOrderId: order.id, shopifyOrderNumber: name, status: "pending" },
+  });
+}
+
+export const orderSyncScenarios: HarnessScenario[] = [
+  {
+    name: "orders: Shopify order is submitted to S&S by SKU",
+    async run(ctx) {
+      const skus = ctx.sim.fixtures.products.filter(p => p.styleID === 39).slice(0, 2).map(p => p.sku);
+      const job = await createOrderJob(ctx, skus, "#1001");
+
+      await ctx.services.orderSync.processOrder(ctx.admin, job.id);
+
+      const saved = ctx.db.rows("OrderJob").find(j => j.id === job.id)!;
+      check(saved.status === "submitted", `expected submitted, got ${saved.status}: ${saved.logs}`);
+      const ssOrder = ctx.sim.fixtures.orders.find(o => o.orderNumber === saved.ssOrderNumber);
+      check(ssOrder, "order did not reach S&S");
+      check(ssOrder.poNumber === "#1001", "poNumber not passed through");
+      check((ssOrder.lines || []).map(l => l.sku).join() === skus.join(), "S&S lines do not match the Shopify order");
+      ctx.state.orderJobId = job.id;
+    },
+  },
+  {
+    name: "orders: S&S outage leaves the job pending, bad SKU marks it failed",
+    async run(ctx) {
+      const sku = ctx.sim.fixtures.products[0].sku;
+      const outage = await createOrderJob(ctx, [sku], "#1002");
+      ctx.sim.inject({ method: "POST", path: "/orders", status: 503 });
+      await ctx.services.orderSync.processOrder(ctx.admin, outage.id).catch(() => undefined);
+      const pending = ctx.db.rows("OrderJob").find(j => j.id === outage.id)!;
+      check(pending.status === "pending", `expected pending after 503, got ${pending.status}`);
+
+      const invalid = await createOrderJob(ctx, ["NOT-A-SKU"], "#1003");
+      await ctx.services.orderSync.processOrder(ctx.admin, invalid.id).catch(() => undefined);
+      const failed = ctx.db.rows("OrderJob").find(j => j.id === invalid.id)!;
+      check(failed.status === "error", `expected error for unknown SKU, got ${failed.status}`);
+    },
+  },
+  {
+    name: "variant map: orders resolve through VariantMap after SKU edits, backfill rebuilds it",
+    after: ["import"],
+    async run(ctx) {
+      const variant = ctx.admin.products.get(ctx.state.productId)!.variants[0];
+      const originalSku = variant.sku;
+      variant.sku = "MERCHANT-EDIT";
+      try {
+        const order = ctx.admin.seedOrder({
+          name: "#1004",
+          email: "buyer@example.com",
+          shippingAddress: { address1: "123 Main St", city: "Lockport", zip: "60441", provinceCode: "IL", firstName: "Jane", lastName: "Doe" },
+          lineItems: [{ sku: "MERCHANT-EDIT", quantity: 1, variant: { id: variant.id, sku: "MERCHANT-EDIT" } }],
+        });
+        const job = await global.prismaGlobal.orderJob.create({
+          data: { shop: ctx.shop, shopifyOrderId: order.id, shopifyOrderNumber: "#1004", status: "pending" },
+        });
+        await ctx.services.orderSync.processOrder(ctx.admin, job.id);
+        const ssOrder = ctx.sim.fixtures.orders.find(o => o.poNumber === "#1004");
+        check(ssOrder?.lines?.[0]?.sku === originalSku, `expected S&S line for ${originalSku}, got ${ssOrder?.lines?.[0]?.sku}`);
+      } finally {
+        variant.sku = originalSku;
+      }
+
+      // Backfill rebuilds this shop's rows for SKUs S&S still sells (other scenarios import for other shops
+      // and discontinue colors)
+      const productMapIds = ctx.db.rows("ProductMap").filter(m => m.shop === ctx.shop).map(m => m.id);
+      const sold = new Set(ctx.sim.fixtures.products.map(p => p.sku));
+      const shopRows = () => ctx.db.rows("VariantMap").filter(r => productMapIds.includes(r.productMapId) && sold.has(r.ssSku)).length;
+      const before = shopRows();
+      check(before > 0, "no VariantMap rows to rebuild");
+      await global.prismaGlobal.variantMap.deleteMany({ where: { productMapId: { in: productMapIds } } });
+      const result = await ctx.services.importer.backfillVariantMaps(ctx.admin, ctx.shop);
+      check(result.failed === 0, `backfill failed: ${result.errors.join(" | ")}`);
+      check(shopRows() === before, `backfill restored ${shopRows()}/${before} rows`);
+    },
+  },
+];
@@ -0,0 +1,70 @@
+import { check } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Pricing: price rules, formulas and the margin floor
+export const pricingScenarios: HarnessScenario[] = [
+  {
+    name: "pricing: the winning PriceRule prices every variant and is recorded on the ProductMap",
+    async run(ctx) {
+      const rules = global.prismaGlobal.priceRule;
+      await rules.create({ data: { shop: ctx.shop, name: "Everything +20%", type: "percentage", value: 20, applyTo: "all", priority: 1 } });
+      const brandRule = await rules.create({
+        data: { shop: ctx.shop, name: "Bella x2", type: "multiplier", value: 2, applyTo: "brand", applyToValue: "BELLA + CANVAS", roundTo: 0.99, minMargin: 60, priority: 1 },
+      });
+      await rules.create({ data: { shop: ctx.shop, name: "Inactive", type: "fixed", value: 100, applyTo: "all", priority: 0, isActive: false } });
+
+      const result = await ctx.services.importer.importStyle(ctx.admin, 4025, ctx.shop);
+      check(result.priceRuleId === brandRule.id, `expected the brand rule to win, got ${result.priceRuleId}`);
+      const map = ctx.db.rows("ProductMap").find(m => m.shop === ctx.shop && m.ssStyleId === "4025");
+      check(map?.priceRuleId === brandRule.id, "winning rule not recorded on ProductMap");
+
+      const product = ctx.admin.products.get(result.shopifyProduct.id)!;
+      for (const ssProduct of ctx.sim.fixtures.products.filter(p => p.styleID === 4025)) {
+        // x2 is a 50% margin, so the 60% floor (cost / 0.4) applies before rounding up to .99
+        const floor = ssProduct.piecePrice / 0.4;
+        const expected = Math.floor(floor) + 0.99 < floor ? Math.floor(floor) + 1.99 : Math.floor(floor) + 0.99;
+        const variant = product.variants.find(v => v.sku === ssProduct.sku);
+        check(variant?.price === expected.toFixed(2), `${ssProduct.sku}: expected ${expected.toFixed(2)}, got ${variant?.price}`);
+      }
+    },
+  },
+  {
+    name: "formula: formula rules are validated, sandboxed and used on re-import",
+    after: ["pricing"],
+    async run(ctx) {
+      const { validateFormula } = await import("../../services/priceFormula");
+      for (const bad of ["piecePrice *", "cost * 2", "process.exit(1)", "constructor.constructor('x')()", "brand", "max()"]) {
+        check(!validateFormula(bad).ok, `formula "${bad}" should be rejected`);
+      }
+      const sample = validateFormula(`brand == "gildan" && contains(category, "shirt") ? round(piecePrice * 1.5, 1) : 0`);
+      check(sample.ok && sample.price === 15, `sample formula evaluated to ${JSON.stringify(sample)}`);
+
+      const formula = `size == "2XL" ? customerPrice * 3 : max(customerPrice * 1.8, mapPrice)`;
+      const rule = await global.prismaGlobal.priceRule.create({
+        data: { shop: ctx.shop, name: "Formula", type: "formula", value: 0, formula, applyTo: "category", applyToValue: "T-Shirts", roundTo: 0.99, minMargin: 0, priority: 0 },
+      });
+
+      const result = await ctx.services.importer.importStyle(ctx.admin, 4025, ctx.shop);
+      check(result.mode === "updated" && result.priceRuleId === rule.id, `expected an update priced by the formula rule, got ${result.mode}/${result.priceRuleId}`);
+
+      const charm = (price: number) => (Math.floor(price) + 0.99 < price ? Math.floor(price) + 1.99 : Math.floor(price) + 0.99).toFixed(2);
+      const product = ctx.admin.products.get(result.shopifyProduct.id)!;
+      for (const ssProduct of ctx.sim.fixtures.products.filter(p => p.styleID === 4025)) {
+        const raw = ssProduct.sizeName === "2XL" ? ssProduct.customerPrice * 3 : Math.max(ssProduct.customerPrice * 1.8, ssProduct.mapPrice);
+        const variant = product.variants.find(v => v.sku === ssProduct.sku);
+        check(variant?.price === charm(raw), `${ssProduct.sku} (${ssProduct.sizeName}): expected ${charm(raw)}, got ${variant?.price}`);
+      }
+
+      // Formulas are also run without S&S prices, and one that still breaks on a variant prices it without the rule
+      check(!validateFormula("customerPrice * 1.5 + 100 / mapPrice").ok, "a formula dividing by a missing MAP should be rejected");
+      const fragile = await global.prismaGlobal.priceRule.create({
+        data: { shop: ctx.shop, name: "Fragile", type: "formula", value: 0, formula: `size == "2XL" ? 1 / 0 : customerPrice * 2`, applyTo: "all", roundTo: 0, minMargin: 0, priority: 99 },
+      });
+      const plan = await ctx.services.importer.previewImport(ctx.admin, 4025, ctx.shop, { priceRuleId: fragile.id });
+      const broken = plan.variants.filter(v => v.size === "2XL");
+      check(broken.length > 0 && broken.every(v => Number(v.price) === v.cost), `2XL variants: ${JSON.stringify(broken.map(v => v.price))}`);
+      check(plan.warnings.some(w => /"Fragile" could not price/.test(w)), `warnings: ${plan.warnings.join("; ")}`);
+      await global.prismaGlobal.priceRule.delete({ where: { id: fragile.id } });
+    },
+  },
+];
@@ -0,0 +1,54 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Product links: matching products made outside the app
+export const productLinksScenarios: HarnessScenario[] = [
+  {
+    name: "links: products made outside the app are matched by SKU, GTIN and cross reference and linked in bulk",
+    async run(ctx) {
+      const shop = "links.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1200000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const [bySku, byGtin, byRef] = ctx.sim.fixtures.products.filter(p => p.styleID === 39);
+      ctx.sim.fixtures.crossRefs.push({
+        yourSku: "MY-TEE-3", skuID: byRef.skuID_Master, sku: byRef.sku, gtin: byRef.gtin,
+        brandName: byRef.brandName, styleName: byRef.styleName, colorName: byRef.colorName, sizeName: byRef.sizeName,
+      });
+
+      const tee = admin.seedProduct("Our Classic Tee", [
+        { sku: bySku.sku.toLowerCase(), options: ["Black", "S"] },
+        { sku: "MY-TEE-2", barcode: byGtin.gtin, options: ["Black", "M"] },
+        { sku: "MY-TEE-3", options: ["Black", "L"] },
+        { sku: "MY-TEE-4", options: ["Black", "XL"] },
+      ]);
+      admin.seedProduct("Gift Card", [{ sku: "GIFT-25" }]);
+      await ctx.services.importer.importStyle(admin, 4025, shop);
+
+      const scan = await ctx.services.productLinks.scan(admin, shop);
+      check(scan.scanned === 3 && scan.alreadyLinked === 1 && scan.noMatch.map(p => p.title).join() === "Gift Card", `scan: ${JSON.stringify(scan)}`);
+      const [proposal] = scan.proposals;
+      check(proposal.productId === tee.id && proposal.styleId === 39 && proposal.unmatched === 1, `proposal: ${JSON.stringify(proposal)}`);
+      check(proposal.variants.map(v => `${v.ssSku}:${v.method}`).join() === `${bySku.sku}:sku,${byGtin.sku}:gtin,${byRef.sku}:crossref`,
+        `matches: ${proposal.variants.map(v => `${v.ssSku}:${v.method}`).join()}`);
+
+      const result = await ctx.services.productLinks.link(shop, scan.proposals);
+      check(result.products === 1 && result.variants === 3, `link: ${JSON.stringify(result)}`);
+      const map = ctx.db.rows("ProductMap").find(m => m.shopifyProductId === tee.id);
+      check(map?.shop === shop && map.ssStyleId === "39", `ProductMap: ${JSON.stringify(map)}`);
+      check(ctx.db.rows("VariantMap").filter(m => m.productMapId === map.id).length === 3, "VariantMaps not created");
+
+      const again = await ctx.services.productLinks.link(shop, scan.proposals);
+      check(again.products === 0 && /already linked/.test(again.skipped[0]), `second link: ${JSON.stringify(again)}`);
+      check((await ctx.services.productLinks.scan(admin, shop)).proposals.length === 0, "linked product proposed again");
+
+      // The sync stocks linked variants through their VariantMap, whatever their Shopify SKU
+      const sync = await ctx.services.inventorySync.syncAllInventory(admin, shop);
+      check(sync.failed === 0, `sync: ${JSON.stringify(sync)}`);
+      for (const [variant, ss] of [[tee.variants[1], byGtin], [tee.variants[2], byRef]] as const) {
+        check(admin.available(variant) === ss.qty, `${variant.sku} has ${admin.available(variant)}, expected ${ss.qty}`);
+      }
+      check(admin.available(tee.variants[3]) === undefined, "unmatched variant was stocked");
+    },
+  },
+];
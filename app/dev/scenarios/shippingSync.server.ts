@@ -0,0 +1,19 @@
+import { check } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Shipping sync: S&S shipments update the order job with tracking
+export const shippingSyncScenarios: HarnessScenario[] = [
+  {
+    name: "shipping: shipped S&S order updates the job with tracking",
+    after: ["orders"],
+    async run(ctx) {
+      const job = ctx.db.rows("OrderJob").find(j => j.id === ctx.state.orderJobId)!;
+      ctx.sim.shipOrder(job.ssOrderNumber, "1ZHARNESS0001");
+
+      const result = await ctx.services.shippingSync.syncShippingStatus();
+      check(result.updated === 1, `expected 1 shipped order, got ${JSON.stringify(result)}`);
+      check(job.status === "shipped", `expected shipped, got ${job.status}`);
+      check(JSON.parse(job.logs).trackingNumber === "1ZHARNESS0001", "tracking number not stored");
+    },
+  },
+];
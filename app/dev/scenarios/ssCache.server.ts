@@ -0,0 +1,36 @@
+import { check } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// S&S response cache: coalescing and invalidation
+export const ssCacheScenarios: HarnessScenario[] = [
+  {
+    name: "cache: concurrent product lookups share one S&S request until invalidated",
+    async run(ctx) {
+      const productRequests = () => ctx.sim.requests.filter(r => r.path.startsWith("/products") && r.query.style === "4025").length;
+      await ctx.services.ssCache.invalidateStyle(4025); // other shops on the same S&S account may have cached it
+      const before = productRequests();
+      const [a, b] = await Promise.all([
+        ctx.services.getSSClient(ctx.shop).then(client => client.getProducts(4025)),
+        ctx.services.getSSClient(ctx.shop).then(client => client.getProducts(4025)),
+      ]);
+      await (await ctx.services.getSSClient(ctx.shop)).getProducts(4025);
+      check(a.length > 0 && a.length === b.length, "cached lookups returned different results");
+      check(productRequests() - before === 1, `expected 1 S&S request, saw ${productRequests() - before}`);
+
+      await ctx.services.ssCache.invalidateStyle(4025);
+      await (await ctx.services.getSSClient(ctx.shop)).getProducts(4025);
+      check(productRequests() - before === 2, "invalidateStyle did not force a fresh request");
+
+      // Spec lookups for several styles are cached under one key, and must go with either style
+      const specRequests = () => ctx.sim.requests.filter(r => r.path.startsWith("/specs")).length;
+      const client = await ctx.services.getSSClient(ctx.shop);
+      await client.getSpecsByStyle([39, 4025]);
+      const specsBefore = specRequests();
+      await client.getSpecsByStyle([39, 4025]);
+      check(specRequests() === specsBefore, "multi-style specs were not cached");
+      await ctx.services.ssCache.invalidateStyle(4025);
+      await client.getSpecsByStyle([39, 4025]);
+      check(specRequests() === specsBefore + 1, "invalidateStyle left a multi-style spec entry behind");
+    },
+  },
+];
@@ -0,0 +1,45 @@
+import { check } from "../check.server";
+import type { HarnessScenario } from "../harness.server";
+
+// S&S client: multi-style lookups and per-shop accounts
+export const ssactivewearScenarios: HarnessScenario[] = [
+  {
+    name: "batch: multi-style lookups are chunked and skip unknown styles",
+    async run(ctx) {
+      const client = await ctx.services.getSSClient(ctx.shop);
+      const before = ctx.sim.requests.length;
+      const unknown = Array.from({ length: 60 }, (_, i) => 90000 + i);
+
+      const styles = await client.getStylesByIds([39, 4025, ...unknown], ["styleID", "title"]);
+      check(styles.length === 2, `expected 2 styles, got ${styles.length}`);
+      check(Object.keys(styles[0]).sort().join() === "styleID,title", `fields not applied: ${Object.keys(styles[0])}`);
+      check(ctx.sim.requests.length - before === 2, `expected 62 ids in 2 requests, saw ${ctx.sim.requests.length - before}`);
+
+      const products = await client.getProductsByStyles([39, 4025], ["sku", "styleID", "piecePrice"]);
+      const expected = ctx.sim.fixtures.products.filter(p => p.styleID === 39 || p.styleID === 4025).length;
+      check(products.length === expected, `expected ${expected} products, got ${products.length}`);
+    },
+  },
+  {
+    name: "accounts: shops without saved credentials get none, the env account only serves the fallback shop",
+    async run(ctx) {
+      const env = { ...process.env };
+      Object.assign(process.env, { SSACTIVEWEAR_USER: ctx.sim.userId, SSACTIVEWEAR_KEY: ctx.sim.apiKey, SS_ENV_FALLBACK_SHOP: "single.myshopify.com" });
+      try {
+        const stranger = await ctx.services.getSSAccountSettings("stranger.myshopify.com");
+        check(stranger.source === "none" && !stranger.accountNumber, `shop without an account: ${JSON.stringify(stranger)}`);
+        const failed = await (await ctx.services.getSSClient("stranger.myshopify.com")).getStyleDetails(39).then(() => null, (e: Error) => e);
+        check(failed instanceof ctx.services.SSAuthError, `shop without an account reached S&S: ${failed}`);
+
+        const single = await ctx.services.getSSAccountSettings("single.myshopify.com");
+        check(single.source === "env" && single.accountNumber === ctx.sim.userId, `fallback shop: ${JSON.stringify(single)}`);
+        check((await (await ctx.services.getSSClient("single.myshopify.com")).getStyleDetails(39)).length === 1, "fallback shop could not reach S&S");
+      } finally {
+        for (const key of ["SSACTIVEWEAR_USER", "SSACTIVEWEAR_KEY", "SS_ENV_FALLBACK_SHOP"]) {
+          if (env[key] === undefined) delete process.env[key];
+          else process.env[key] = env[key];
+        }
+      }
+    },
+  },
+];
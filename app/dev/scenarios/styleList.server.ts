@@ -0,0 +1,60 @@
+import { check } from "../check.server";
+import { createFakeAdmin } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Style lists: part number lists queued with per-row settings
+export const styleListScenarios: HarnessScenario[] = [
+  {
+    name: "lists: a CSV of part numbers is resolved on S&S, reported row by row and queued with per-row settings",
+    async run(ctx) {
+      const shop = "lists.myshopify.com";
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1500000 });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      const rule = await global.prismaGlobal.priceRule.create({
+        data: { shop, name: "Bella +50%", type: "percentage", value: 50, applyTo: "brand", applyToValue: "BELLA + CANVAS", priority: 1 },
+      });
+
+      const csv = [
+        "\uFEFFPart Number,Markup,Price Rule,Tags,Collection,Split,Notes",
+        "Gildan 2000,35%,,basics; tees,tees,,first row",
+        `"30017",$4.50,bella +50%,"premium, soft",,One product per color,`,
+        "gildan  2000,10%,,,,,",
+        "NOPE 123,,,,,,",
+        "39,abc,,,,,",
+        "4025,,No Such Rule,,,sideways,",
+      ].join("\r\n");
+      const report = await ctx.services.styleLists.check(shop, csv);
+      const statuses = report.rows.map(r => `${r.line}:${r.status}`).join();
+      check(statuses === "2:ready,3:ready,4:duplicate,5:unmatched,6:invalid,7:invalid", `statuses: ${statuses}`);
+      check(report.ready === 2 && report.ignoredColumns.join() === "Notes", `report: ${JSON.stringify(report)}`);
+      const [gildan, bella, , , badMarkup, badSettings] = report.rows;
+      check(gildan.styleId === 39 && gildan.markup?.type === "percentage" && gildan.tags.join() === "basics,tees", `row 2: ${JSON.stringify(gildan)}`);
+      check(bella.styleId === 4025 && bella.markup?.type === "fixed" && bella.priceRuleId === rule.id && bella.split === "color", `row 3: ${JSON.stringify(bella)}`);
+      check(/not a percentage/.test(badMarkup.problems.join()), `row 6: ${badMarkup.problems.join()}`);
+      check(badSettings.problems.length === 2, `row 7: ${badSettings.problems.join()}`);
+
+      // Only the ready rows are queued, with their own settings; listing them again reports them as queued
+      const { added } = await ctx.services.styleLists.enqueue(shop, csv);
+      const rows = ctx.db.rows("ImportQueue").filter(r => r.shop === shop);
+      check(added === 2 && rows.length === 2 && rows.every(r => r.status === "pending"), `queued: ${JSON.stringify(rows)}`);
+      const bellaRow = rows.find(r => r.styleId === 4025)!;
+      check(bellaRow.priceRuleId === rule.id && bellaRow.split === "color" && bellaRow.tags === "premium, soft"
+        && JSON.parse(bellaRow.sizeMarkups)["*"].value === 4.5, `4025 row: ${JSON.stringify(bellaRow)}`);
+      check(ctx.db.rows("SSStyleCache").some(s => s.styleId === 4025 && s.partNumber === "30017"), "listed style not cached for the queue table");
+      const pasted = await ctx.services.styleLists.check(shop, "Gildan 2000, 30017\nnope");
+      check(pasted.rows.map(r => r.status).join() === "queued,queued,unmatched", `pasted: ${pasted.rows.map(r => r.status).join()}`);
+
+      // The worker prices every size with the row's markup
+      const gildanRow = rows.find(r => r.styleId === 39)!;
+      await global.prismaGlobal.importQueue.update({ where: { id: gildanRow.id }, data: { status: "queued" } });
+      const worker = new ctx.services.ImportQueueWorker(async () => admin, ctx.services.importer);
+      check(await worker.run(shop) === 1, "the queued list row was not processed");
+      const product = admin.products.get(ctx.db.rows("ImportQueue").find(r => r.id === gildanRow.id)!.productId)!;
+      for (const variant of product.variants) {
+        const ss = ctx.sim.fixtures.products.find(p => p.sku === variant.sku)!;
+        check(variant.price === (ss.piecePrice * 1.35).toFixed(2), `${variant.sku} priced ${variant.price}, expected ${(ss.piecePrice * 1.35).toFixed(2)}`);
+      }
+      check(product.tags.includes("basics") && product.tags.includes("tees"), `list tags not applied: ${product.tags.join()}`);
+    },
+  },
+];
@@ -0,0 +1,52 @@
+import { check } from "../check.server";
+import { createFakeAdmin, type FakeVariant } from "../fakeShopifyAdmin.server";
+import type { HarnessScenario } from "../harness.server";
+
+// Warehouse locations: per-warehouse stock
+export const warehouseLocationsScenarios: HarnessScenario[] = [
+  {
+    name: "locations: mapped warehouses stock their own location, the rest is aggregated",
+    async run(ctx) {
+      const shop = "locations.myshopify.com";
+      const [main, chicago] = [{ id: "gid://shopify/Location/1", name: "Main" }, { id: "gid://shopify/Location/2", name: "Chicago" }];
+      const admin = createFakeAdmin({ synchronousProductSet: true, firstId: 1100000, locations: [main, chicago] });
+      await ctx.services.saveSSAccount(shop, { accountNumber: ctx.sim.userId, apiKey: ctx.sim.apiKey, defaultShipping: "1", testMode: false });
+      await ctx.services.warehouseLocations.save(shop, { IL: chicago.id, KS: null, NV: "gid://shopify/Location/404" });
+
+      const routing = await ctx.services.warehouseLocations.routing(admin, shop);
+      check(routing.byWarehouse.get("IL") === chicago.id && !routing.byWarehouse.has("NV") && routing.locationIds.join() === `${main.id},${chicago.id}`,
+        `routing: ${JSON.stringify([...routing.byWarehouse])}`);
+
+      const expectStock = (product: { variants: FakeVariant[] }, when: string) => {
+        for (const variant of product.variants) {
+          const ss = ctx.sim.fixtures.products.find(p => p.sku === variant.sku)!;
+          const il = ss.warehouses.filter(w => w.warehouseAbbr === "IL").reduce((sum, w) => sum + w.qty, 0);
+          const rest = ss.warehouses.reduce((sum, w) => sum + w.qty, 0) - il;
+          check(admin.available(variant, chicago.id) === il && admin.available(variant, main.id) === rest,
+            `${when}: ${variant.sku} has ${admin.available(variant, chicago.id)}/${admin.available(variant, main.id)}, expected ${il}/${rest}`);
+        }
+      };
+
+      await ctx.services.ssCache.invalidateStyle(39); // stock changed by earlier scenarios
+      await ctx.services.importer.importStyle(admin, 39, shop);
+      const [product] = Array.from(admin.products.values());
+      expectStock(product, "import");
+      check(admin.calls.some(c => c.operation === "inventoryActivate"), "variants were not stocked at the mapped location");
+
+      const moved = ctx.sim.fixtures.products.find(p => p.styleID === 39 && p.warehouses.some(w => w.warehouseAbbr === "IL"))!;
+      moved.warehouses.find(w => w.warehouseAbbr === "IL")!.qty += 7;
+      moved.qty += 7;
+      const result = await ctx.services.inventorySync.syncAllInventory(admin, shop);
+      check(result.updated === 1 && result.failed === 0, `sync: ${JSON.stringify(result)}`);
+      expectStock(product, "sync");
+
+      // Back to a single location: everything is summed into the default one again
+      await ctx.services.warehouseLocations.save(shop, { IL: null });
+      await ctx.services.inventorySync.syncAllInventory(admin, shop);
+      for (const variant of product.variants) {
+        const ss = ctx.sim.fixtures.products.find(p => p.sku === variant.sku)!;
+        check(admin.available(variant, main.id) === ss.warehouses.reduce((sum, w) => sum + w.qty, 0), `aggregate: ${variant.sku}`);
+      }
+    },
+  },
+];
@@ -0,0 +1,247 @@
+import type {
+  SSCategory,
+  SSCrossRef,
+  SSDaysInTransit,
+  SSOrder,
+  SSPaymentProfile,
+  SSProduct,
+  SSSpec,
+  SSStyle,
+  SSTrackingData,
+} from "../services/ssactivewear";
+
+/**
+ * Fixture catalog for the offline S&S simulator.
+ * Shapes follow the sample payloads in api.md; prices and stock are made up.
+ */
+
+export interface SSBrandFixture {
+  brandID: number;
+  name: string;
+  image: string;
+  noeRetailing: boolean;
+}
+
+export interface SSFixtures {
+  categories: SSCategory[];
+  brands: SSBrandFixture[];
+  styles: SSStyle[];
+  products: SSProduct[];
+  specs: SSSpec[];
+  orders: SSOrder[];
+  tracking: SSTrackingData[];
+  daysInTransit: SSDaysInTransit[];
+  crossRefs: SSCrossRef[];
+  paymentProfiles: Record<string, SSPaymentProfile[]>;
+}
+
+const WAREHOUSES = ["IL", "KS", "NV"];
+
+interface StyleSeed {
+  style: SSStyle & { brandID: number };
+  skuPrefix: string;
+  colors: Array<{ name: string; code: string; family: string; hex: string; image: number }>;
+  sizes: Array<{ name: string; code: string; order: string; priceBump: number }>;
+  piecePrice: number;
+  caseQty: number;
+  unitWeight: number;
+  countryOfOrigin: string;
+  fabric: string;
+  fabricWeight: string;
+}
+
+const SEEDS: StyleSeed[] = [
+  {
+    style: {
+      styleID: 39,
+      brandID: 35,
+      partNumber: "00760",
+      brandName: "Gildan",
+      styleName: "2000",
+      title: "Ultra Cotton™ T-Shirt",
+      description: "6.0 oz., pre-shrunk 100% cotton. Double-needle stitched neckline, bottom hem and sleeves.",
+      baseCategory: "T-Shirts",
+      categories: "21,57,71,79,87",
+      brandImage: "Images/Brand/35_fl.jpg",
+      styleImage: "Images/Style/39_fl.jpg",
+      sustainableStyle: true,
+    },
+    skuPrefix: "B00760",
+    colors: [
+      { name: "White", code: "00", family: "Neutrals", hex: "#FFFFFF", image: 17130 },
+      { name: "Black", code: "03", family: "Neutrals", hex: "#000000", image: 17131 },
+      { name: "Navy", code: "51", family: "Blues", hex: "#1F2A44", image: 17132 },
+    ],
+    sizes: [
+      { name: "S", code: "3", order: "B1", priceBump: 0 },
+      { name: "M", code: "4", order: "B2", priceBump: 0 },
+      { name: "L", code: "5", order: "B3", priceBump: 0 },
+      { name: "XL", code: "6", order: "B4", priceBump: 0 },
+      { name: "2XL", code: "7", order: "B5", priceBump: 1.5 },
+      { name: "3XL", code: "8", order: "B6", priceBump: 2.5 },
+    ],
+    piecePrice: 3.12,
+    caseQty: 72,
+    unitWeight: 0.4444,
+    countryOfOrigin: "NI,DO,HT",
+    fabric: "100% Cotton",
+    fabricWeight: "6.0 oz",
+  },
+  {
+    style: {
+      styleID: 4025,
+      brandID: 5,
+      partNumber: "30017",
+      brandName: "BELLA + CANVAS",
+      styleName: "3001",
+      title: "Unisex Jersey Tee",
+      description: "4.2 oz., 100% Airlume combed and ring-spun cotton. Retail fit, side-seamed.",
+      baseCategory: "T-Shirts",
+      categories: "21,87",
+      brandImage: "Images/Brand/5_fl.jpg",
+      styleImage: "Images/Style/4025_fl.jpg",
+      sustainableStyle: false,
+    },
+    skuPrefix: "B30017",
+    colors: [
+      { name: "Athletic Heather", code: "AH", family: "Greys", hex: "#B5B5B5", image: 40251 },
+      { name: "Heather Forest", code: "HF", family: "Greens", hex: "#3B4F3C", image: 40252 },
+    ],
+    sizes: [
+      { name: "XS", code: "2", order: "B0", priceBump: 0 },
+      { name: "S", code: "3", order: "B1", priceBump: 0 },
+      { name: "M", code: "4", order: "B2", priceBump: 0 },
+      { name: "L", code: "5", order: "B3", priceBump: 0 },
+      { name: "XL", code: "6", order: "B4", priceBump: 0 },
+      { name: "2XL", code: "7", order: "B5", priceBump: 2 },
+    ],
+    piecePrice: 4.35,
+    caseQty: 72,
+    unitWeight: 0.3125,
+    countryOfOrigin: "NI",
+    fabric: "100% Airlume combed and ring-spun cotton",
+    fabricWeight: "4.2 oz",
+  },
+];
+
+function buildProducts(): SSProduct[] {
+  const products: SSProduct[] = [];
+
+  for (const seed of SEEDS) {
+    seed.colors.forEach((color, ci) => {
+      seed.sizes.forEach((size, si) => {
+        // Stable per style/color/size so ids survive fixture edits elsewhere
+        const masterSkuId = seed.style.styleID * 1000 + ci * seed.sizes.length + si;
+        const piecePrice = +(seed.piecePrice + size.priceBump).toFixed(2);
+        // Deterministic stock so runs are reproducible
+        const warehouses = WAREHOUSES.map((abbr, wi) => ({
+          warehouseAbbr: abbr,
+          skuID: masterSkuId * 10 + wi,
+          qty: ((ci + 1) * 97 + (si + 1) * 31 + wi * 53) % 400,
+          closeout: false,
+          dropship: false,
+          returnable: true,
+        }));
+        products.push({
+          sku: `${seed.skuPrefix}${color.code}${size.code}`,
+          gtin: `00821780${String(masterSkuId).padStart(6, "0")}`,
+          skuID_Master: masterSkuId,
+          styleID: seed.style.styleID,
+          brandName: seed.style.brandName,
+          styleName: seed.style.styleName,
+          colorName: color.name,
+          colorCode: color.code,
+          colorGroupName: color.name,
+          colorFamily: color.family,
+          colorSwatchImage: `Images/ColorSwatch/${color.image}_fm.jpg`,
+          colorSwatchTextColor: color.hex === "#FFFFFF" ? "#000000" : "#FFFFFF",
+          colorFrontImage: `Images/Color/${color.image}_f_fm.jpg`,
+          colorSideImage: `Images/Color/${color.image}_fm.jpg`,
+          colorBackImage: `Images/Color/${color.image}_b_fm.jpg`,
+          colorDirectSideImage: "",
+          colorOnModelFrontImage: `Images/Color/${color.image}_omf_fm.jpg`,
+          colorOnModelSideImage: "",
+          colorOnModelBackImage: "",
+          color1: color.hex,
+          color2: "",
+          sizeName: size.name,
+          sizeCode: size.code,
+          sizeOrder: size.order,
+          caseQty: seed.caseQty,
+          unitWeight: seed.unitWeight,
+          mapPrice: +(piecePrice * 2.5).toFixed(2),
+          piecePrice,
+          dozenPrice: +(piecePrice * 0.95).toFixed(2),
+          casePrice: +(piecePrice * 0.9).toFixed(2),
+          customerPrice: +(piecePrice * 0.88).toFixed(2),
+          qty: warehouses.reduce((sum, w) => sum + w.qty, 0),
+          countryOfOrigin: seed.countryOfOrigin,
+          warehouses,
+        });
+      });
+    });
+  }
+  return products;
+}
+
+function buildSpecs(): SSSpec[] {
+  const specs: SSSpec[] = [];
+  for (const seed of SEEDS) {
+    seed.sizes.forEach((size, i) => {
+      // Measurements differ by size, fabric specs are the same for every size
+      const values: Array<[string, string]> = [
+        ["Body Length", String(28 + i)],
+        ["Chest Width", String(18 + i)],
+        ["Fabric", seed.fabric],
+        ["Fabric Weight", seed.fabricWeight],
+      ];
+      for (const [specName, value] of values) {
+        specs.push({
+          specID: specs.length + 1,
+          styleID: seed.style.styleID,
+          partNumber: seed.style.partNumber,
+          brandName: seed.style.brandName,
+          styleName: seed.style.styleName,
+          sizeName: size.name,
+          sizeOrder: size.order,
+          specName,
+          value,
+        });
+      }
+    });
+  }
+  return specs;
+}
+
+export function createSSFixtures(): SSFixtures {
+  return {
+    categories: [
+      { categoryID: 21, name: "T-Shirts", image: "deprecated" },
+      { categoryID: 57, name: "Short Sleeve", image: "deprecated" },
+      { categoryID: 87, name: "Unisex", image: "deprecated" },
+    ],
+    brands: [
+      { brandID: 35, name: "Gildan", image: "Images/Brand/35_fm.png", noeRetailing: false },
+      { brandID: 5, name: "BELLA + CANVAS", image: "Images/Brand/5_fm.png", noeRetailing: false },
+    ],
+    styles: SEEDS.map(seed => ({ ...seed.style })),
+    products: buildProducts(),
+    specs: buildSpecs(),
+    orders: [],
+    tracking: [],
+    daysInTransit: [
+      {
+        zipCode: "60440",
+        warehouses: [
+          { warehouseAbbr: "IL", cutOffTime: "4:00 CT", daysInTransit: 1 },
+          { warehouseAbbr: "KS", cutOffTime: "4:00 CT", daysInTransit: 2 },
+          { warehouseAbbr: "NV", cutOffTime: "4:00 PT", daysInTransit: 4 },
+        ],
+      },
+    ],
+    crossRefs: [],
+    paymentProfiles: {
+      "test@abc.com": [{ profileID: 123456789, profileType: "Credit Card", name: "Test Card 1234 (Jane Doe)" }],
+    },
+  };
+}
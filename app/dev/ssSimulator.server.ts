@@ -0,0 +1,362 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type { SSOrder, SSTrackingData } from "../services/ssactivewear";
+import { createSSFixtures, type SSFixtures } from "./ssFixtures";
+
+/**
+ * Offline S&S Activewear API simulator
+ * Serves the /v2 endpoints the app uses from fixtures, with basic auth, comma-separated
+ * identifiers, ?fields= projection and injectable failures, and the product photos under /Images.
+ *
+ *   const sim = await startSSSimulator();
+ *   process.env.SSACTIVEWEAR_API_URL = sim.baseURL;
+ *   sim.inject({ path: "/products", status: 503, times: 2 });
+ */
+
+export interface SSFailure {
+  method?: string;           // GET, POST... (default: any)
+  path: string | RegExp;     // substring or pattern matched against the request path
+  status: number;
+  times?: number;            // how many requests to fail (default 1, Infinity for all)
+  headers?: Record<string, string>;
+  body?: unknown;
+  delayMs?: number;
+}
+
+export interface SSRequestLogEntry {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+  status: number;
+}
+
+export interface SSSimulatorOptions {
+  port?: number;             // 0 = random free port
+  userId?: string;
+  apiKey?: string;
+  fixtures?: SSFixtures;
+  latencyMs?: number;
+}
+
+export interface SSSimulator {
+  baseURL: string;
+  imageURL: string;          // stands in for https://www.ssactivewear.com/, where the product photos are
+  /** Photo bodies by path ("/Images/Color/..."); other photos get a body unique to their path */
+  images: Map<string, Buffer>;
+  userId: string;
+  apiKey: string;
+  fixtures: SSFixtures;
+  requests: SSRequestLogEntry[];
+  inject(failure: SSFailure): void;
+  clearFailures(): void;
+  /** Mark an order as shipped so tracking/order lookups return a tracking number */
+  shipOrder(orderNumber: string, trackingNumber?: string): void;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(`HTTP ${status}`);
+  }
+}
+
+const NOT_FOUND_BODY = {
+  errors: [{ field: "Identifier", message: "Requested item(s) were not found or have been discontinued." }],
+};
+
+function splitIds(value: string | undefined): string[] {
+  return (value || "").split(",").map(v => decodeURIComponent(v).trim()).filter(Boolean);
+}
+
+function sameText(a: unknown, b: string): boolean {
+  return String(a ?? "").toLowerCase() === b.toLowerCase();
+}
+
+// ?fields=Sku,Qty -> keep only those keys (field names are case-insensitive)
+function project<T extends object>(items: T[], fields?: string): Array<Partial<T>> {
+  if (!fields) return items;
+  const wanted = new Set(fields.split(",").map(f => f.trim().toLowerCase()));
+  return items.map(item =>
+    Object.fromEntries(Object.entries(item).filter(([key]) => wanted.has(key.toLowerCase()))) as Partial<T>
+  );
+}
+
+function requireFound<T>(items: T[]): T[] {
+  if (items.length === 0) throw new HttpError(404, NOT_FOUND_BODY);
+  return items;
+}
+
+export async function startSSSimulator(options: SSSimulatorOptions = {}): Promise<SSSimulator> {
+  const userId = options.userId ?? "sim-account";
+  const apiKey = options.apiKey ?? "sim-key";
+  const fixtures = options.fixtures ?? createSSFixtures();
+  const failures: Array<SSFailure & { remaining: number }> = [];
+  const requests: SSRequestLogEntry[] = [];
+  const images = new Map<string, Buffer>();
+  let nextOrderNumber = 9490000;
+
+  const styleMatches = (identifier: string) => fixtures.styles.filter(s =>
+    String(s.styleID) === identifier ||
+    sameText(s.partNumber, identifier) ||
+    sameText(`${s.brandName} ${s.styleName}`, identifier)
+  );
+  const styleIdsFor = (identifiers: string[]) => new Set(identifiers.flatMap(id => styleMatches(id).map(s => s.styleID)));
+  const productMatches = (identifier: string) => fixtures.products.filter(p =>
+    p.sku === identifier || String(p.skuID_Master) === identifier || p.gtin === identifier ||
+    fixtures.crossRefs.some(c => c.yourSku === identifier && c.sku === p.sku)
+  );
+
+  function route(method: string, segments: string[], query: Record<string, string>, body: any): { status?: number; data: unknown; contentType?: string } {
+    const [resource = "", idPart] = segments;
+    const ids = splitIds(idPart);
+    const key = resource.toLowerCase();
+
+    if (key === "categories" && method === "GET") {
+      const items = ids.length ? fixtures.categories.filter(c => ids.includes(String(c.categoryID))) : fixtures.categories;
+      return { data: project(ids.length ? requireFound(items) : items, query.fields) };
+    }
+
+    if (key === "brands" && method === "GET") {
+      const items = ids.length ? fixtures.brands.filter(b => ids.includes(String(b.brandID))) : fixtures.brands;
+      return { data: project(ids.length ? requireFound(items) : items, query.fields) };
+    }
+
+    if (key === "styles" && method === "GET") {
+      let items = fixtures.styles;
+      if (ids.length) items = items.filter(s => styleIdsFor(ids).has(s.styleID));
+      if (query.styleid) items = items.filter(s => splitIds(query.styleid).includes(String(s.styleID)));
+      if (query.partnumber) items = items.filter(s => splitIds(query.partnumber).some(pn => sameText(s.partNumber, pn)));
+      if (query.search) {
+        const term = query.search.toLowerCase();
+        items = items.filter(s =>
+          `${s.brandName} ${s.styleName} ${s.title} ${s.partNumber}`.toLowerCase().includes(term) ||
+          term.split(/\s+/).every(word => `${s.brandName} ${s.styleName}`.toLowerCase().includes(word))
+        );
+      }
+      const filtered = ids.length || query.styleid || query.partnumber;
+      return { data: project(filtered ? requireFound(items) : items, query.fields) };
+    }
+
+    if ((key === "products" || key === "inventory") && method === "GET") {
+      let items = fixtures.products;
+      if (ids.length) items = items.filter(p => ids.some(id => productMatches(id).includes(p)));
+      if (query.style) items = items.filter(p => styleIdsFor(splitIds(query.style)).has(p.styleID));
+      if (query.styleid) items = items.filter(p => splitIds(query.styleid).includes(String(p.styleID)));
+      if (query.partnumber) {
+        const styleIds = new Set(fixtures.styles.filter(s => splitIds(query.partnumber).includes(s.partNumber)).map(s => s.styleID));
+        items = items.filter(p => styleIds.has(p.styleID));
+      }
+      const warehouses = query.warehouses ? splitIds(query.warehouses) : null;
+      const shaped = items.map(p => {
+        const wh = warehouses ? p.warehouses.filter(w => warehouses.includes(w.warehouseAbbr)) : p.warehouses;
+        return key === "inventory"
+          ? { sku: p.sku, gtin: p.gtin, skuID_Master: p.skuID_Master, yourSku: "", styleID: p.styleID, warehouses: wh }
+          : { ...p, warehouses: wh };
+      });
+      const filtered = ids.length || query.style || query.styleid || query.partnumber;
+      return { data: project(filtered ? requireFound(shaped) : shaped, query.fields) };
+    }
+
+    if (key === "specs" && method === "GET") {
+      let items = fixtures.specs;
+      if (ids.length) items = items.filter(s => ids.includes(String(s.specID)));
+      if (query.style) items = items.filter(s => styleIdsFor(splitIds(query.style)).has(s.styleID));
+      return { data: project(items, query.fields) };
+    }
+
+    if (key === "daysintransit" && method === "GET") {
+      const items = ids.length ? fixtures.daysInTransit.filter(d => ids.includes(d.zipCode)) : fixtures.daysInTransit;
+      return { data: ids.length ? requireFound(items) : items };
+    }
+
+    if (key === "orders") {
+      if (method === "GET") {
+        let items = fixtures.orders;
+        if (ids.length) {
+          items = items.filter(o => ids.some(id => [o.orderNumber, o.poNumber, o.invoiceNumber, o.guid].includes(id)));
+          return { data: project(requireFound(items), query.fields) };
+        }
+        if (!sameText(query.all, "true")) items = items.filter(o => !o.invoiceNumber);
+        return { data: project(items, query.fields) };
+      }
+      if (method === "POST") return { data: placeOrder(body) };
+      if (method === "DELETE") {
+        const order = fixtures.orders.find(o => o.orderNumber === ids[0]);
+        if (!order) throw new HttpError(404, NOT_FOUND_BODY);
+        order.orderStatus = "Cancelled";
+        return { data: [order] };
+      }
+    }
+
+    if (key.startsWith("trackingdataby") && method === "GET") {
+      const byInvoice = key === "trackingdatabyinvoice";
+      const items = fixtures.tracking.filter(t => ids.includes(byInvoice ? t.invoiceNumber : t.orderNumber));
+      return { data: [items] }; // S&S wraps tracking results in an extra array
+    }
+
+    if (key === "crossref") {
+      const yourSku = ids[0];
+      if (method === "GET") {
+        const items = ids.length ? fixtures.crossRefs.filter(c => ids.includes(c.yourSku)) : fixtures.crossRefs;
+        return { data: project(items, query.fields) };
+      }
+      if (method === "PUT") {
+        const identifier = query.identifier || "";
+        const product = productMatches(identifier)[0];
+        if (!yourSku || !product) throw new HttpError(400, { errors: [{ field: "Identifier", message: "Invalid identifier" }] });
+        const existing = fixtures.crossRefs.find(c => c.yourSku === yourSku);
+        const ref = {
+          yourSku, skuID: product.skuID_Master, sku: product.sku, gtin: product.gtin,
+          brandName: product.brandName, styleName: product.styleName, colorName: product.colorName, sizeName: product.sizeName,
+        };
+        if (existing) Object.assign(existing, ref);
+        else fixtures.crossRefs.push(ref);
+        return { status: existing ? 200 : 201, data: "" };
+      }
+      if (method === "DELETE") {
+        fixtures.crossRefs = fixtures.crossRefs.filter(c => c.yourSku !== yourSku);
+        return { status: 204, data: "" };
+      }
+    }
+
+    if (key === "paymentprofiles" && method === "GET") {
+      return { data: [fixtures.paymentProfiles[(query.email || "").toLowerCase()] || []] };
+    }
+
+    if (key === "invoices" && method === "GET") {
+      const id = ids[0] || query.ordernumber || query.guid;
+      if (!id) throw new HttpError(404, NOT_FOUND_BODY);
+      return { data: Buffer.from(`%PDF-1.4\n% simulated invoice ${id}\n%%EOF\n`), contentType: "application/pdf" };
+    }
+
+    throw new HttpError(404, { errors: [{ field: "Resource", message: `Unknown resource /${segments.join("/")}` }] });
+  }
+
+  function placeOrder(payload: any): SSOrder[] {
+    if (!payload?.shippingAddress || !Array.isArray(payload?.lines) || payload.lines.length === 0) {
+      throw new HttpError(400, { errors: [{ field: "Lines", message: "shippingAddress and lines are required" }] });
+    }
+    const lines = payload.lines.map((line: any, i: number) => {
+      const product = productMatches(String(line.identifier))[0];
+      if (!product) {
+        throw new HttpError(400, { errors: [{ field: "Identifier", message: `Invalid identifier ${line.identifier}` }] });
+      }
+      return {
+        lineNumber: i + 1, type: "S", skuID: product.skuID_Master, sku: product.sku, gtin: product.gtin, yourSku: "",
+        qtyOrdered: line.qty, qtyShipped: 0, price: product.customerPrice, brandName: product.brandName,
+        styleName: product.styleName, title: product.styleName, colorName: product.colorName,
+        sizeName: product.sizeName, returnable: true,
+      };
+    });
+    const subtotal = +lines.reduce((sum: number, l: any) => sum + l.price * l.qtyOrdered, 0).toFixed(2);
+    const order: SSOrder = {
+      guid: `00000000-0000-4000-8000-${String(nextOrderNumber).padStart(12, "0")}`,
+      companyName: "Simulator", warehouseAbbr: "IL", orderNumber: String(nextOrderNumber++), invoiceNumber: "",
+      poNumber: payload.poNumber || "", customerNumber: "00002", orderDate: new Date().toISOString(),
+      orderType: "API", terms: "Net 30", orderStatus: payload.testOrder ? "Cancelled" : "InProgress",
+      dropship: false, shippingCarrier: "UPS", shippingMethod: String(payload.shippingMethod || "1"),
+      shipBlind: !!payload.shipBlind, shippingCollectNumber: "", shippingAddress: payload.shippingAddress,
+      subtotal, shipping: 0, cod: 0, tax: 0, smallOrderFee: 0, total: subtotal,
+      totalPieces: lines.reduce((sum: number, l: any) => sum + l.qtyOrdered, 0), totalLines: lines.length,
+      totalWeight: 0, totalBoxes: 1, lines,
+    };
+    fixtures.orders.push(order);
+    return [order];
+  }
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", async () => {
+      const method = (req.method || "GET").toUpperCase();
+      const url = new URL(req.url || "/", "http://localhost");
+      const query: Record<string, string> = {};
+      url.searchParams.forEach((value, key) => { query[key.toLowerCase()] = value; });
+      const path = url.pathname.replace(/^\/v2/i, "");
+      const segments = path.split("/").filter(Boolean);
+      let body: unknown;
+      try {
+        body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : undefined;
+      } catch {
+        body = undefined;
+      }
+
+      const send = (status: number, data: unknown, headers: Record<string, string> = {}, contentType = "application/json") => {
+        requests.push({ method, path, query, body, status });
+        const payload = Buffer.isBuffer(data) ? data : data === "" ? "" : JSON.stringify(data);
+        res.writeHead(status, { "Content-Type": contentType, ...headers });
+        res.end(payload);
+      };
+
+      if (options.latencyMs) await new Promise(r => setTimeout(r, options.latencyMs));
+
+      const failure = failures.find(f =>
+        f.remaining > 0 &&
+        (!f.method || f.method.toUpperCase() === method) &&
+        (typeof f.path === "string" ? path.toLowerCase().includes(f.path.toLowerCase()) : f.path.test(path))
+      );
+      if (failure) {
+        failure.remaining--;
+        if (failure.delayMs) await new Promise(r => setTimeout(r, failure.delayMs));
+        return send(failure.status, failure.body ?? { errors: [{ field: "Simulator", message: `Injected ${failure.status}` }] }, failure.headers);
+      }
+
+      // Photos are public, like on the S&S website
+      if (method === "GET" && /^\/images\//i.test(path)) {
+        const image = images.get(path) ?? Buffer.from(`simulated photo ${path}`);
+        return send(200, image, {}, path.toLowerCase().endsWith(".png") ? "image/png" : "image/jpeg");
+      }
+
+      const [scheme, encoded] = (req.headers.authorization || "").split(" ");
+      const [user, key] = scheme === "Basic" && encoded ? Buffer.from(encoded, "base64").toString().split(":") : [];
+      if (user !== userId || key !== apiKey) {
+        return send(401, { errors: [{ field: "Authorization", message: "Invalid credentials" }] });
+      }
+
+      try {
+        const result = route(method, segments, query, body);
+        send(result.status ?? 200, result.data, {}, result.contentType);
+      } catch (error) {
+        if (error instanceof HttpError) return send(error.status, error.body);
+        send(500, { errors: [{ field: "Simulator", message: error instanceof Error ? error.message : String(error) }] });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v2`,
+    imageURL: `http://127.0.0.1:${port}/`,
+    images,
+    userId,
+    apiKey,
+    fixtures,
+    requests,
+    inject(failure) {
+      failures.push({ ...failure, remaining: failure.times ?? 1 });
+    },
+    clearFailures() {
+      failures.length = 0;
+    },
+    shipOrder(orderNumber, trackingNumber = `1ZSIM${orderNumber}`) {
+      const order = fixtures.orders.find(o => o.orderNumber === orderNumber);
+      if (!order) throw new Error(`Simulator has no order ${orderNumber}`);
+      order.orderStatus = "Shipped";
+      order.trackingNumber = trackingNumber;
+      order.shipDate = new Date().toISOString();
+      order.invoiceNumber = order.invoiceNumber || `INV${orderNumber}`;
+      const tracking: SSTrackingData = {
+        carrierName: order.shippingCarrier, trackingNumber, origin: "LOCKPORT, IL",
+        actualDeliveryDateTime: null, signedBy: "", latestCheckpoint: null,
+        orderNumber, invoiceNumber: order.invoiceNumber,
+      };
+      fixtures.tracking.push(tracking);
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+}
@@ -6,10 +6,14 @@ import {
   type EntryContext,
 } from "@remix-run/node";
 import { isbot } from "isbot";
+import { importQueueWorker } from "./services/importQueue.server";
 import { addDocumentResponseHeaders } from "./shopify.server";
 
 export const streamTimeout = 5000;
 
+// Pick up bulk imports that were running when the server last stopped
+importQueueWorker.resumeAfterBoot();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
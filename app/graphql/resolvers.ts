@@ -1,18 +1,27 @@
+import { GraphQLError } from "graphql";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { getSSClient } from "../services/ssClient.server";
 
-const client = new SSActiveWearClient();
+export interface GraphQLContext {
+  shop: string | null; // ?shop= of the request, like the other public api routes
+}
+
+// S&S calls run on the shop's own account and request budget - there is no shared account to fall back to
+async function clientFor(context: GraphQLContext) {
+  if (!context.shop) throw new GraphQLError("The shop parameter is required");
+  return getSSClient(context.shop);
+}
 
 export const resolvers = {
   Query: {
-    searchStyles: async (_: any, { term }: { term?: string }) => {
-      return await client.getStyles(term);
+    searchStyles: async (_: any, { term }: { term?: string }, context: GraphQLContext) => {
+      return await (await clientFor(context)).getStyles(term);
     },
-    getStyleDetails: async (_: any, { styleId }: { styleId: number }) => {
-      return await client.getStyleDetails(styleId);
+    getStyleDetails: async (_: any, { styleId }: { styleId: number }, context: GraphQLContext) => {
+      return await (await clientFor(context)).getStyleDetails(styleId);
     },
-    getInventory: async (_: any, { skus }: { skus: string[] }) => {
-      return await client.getInventory(skus);
+    getInventory: async (_: any, { skus }: { skus: string[] }, context: GraphQLContext) => {
+      return await (await clientFor(context)).getInventory(skus);
     },
     // Check if product was imported from SSActiveWear
     isProductImported: async (_: any, { shopifyProductId }: { shopifyProductId: string }) => {
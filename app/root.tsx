@@ -1,12 +1,21 @@
+import { json } from "@remix-run/node";
 import {
     Links,
     Meta,
     Outlet,
     Scripts,
     ScrollRestoration,
+    useLoaderData,
 } from "@remix-run/react";
+import { getPublicConfig } from "./config";
+
+export const loader = async () => {
+  return json({ ENV: getPublicConfig() });
+};
 
 export default function App() {
+  const { ENV } = useLoaderData<typeof loader>();
+
   return (
     <html>
       <head>
@@ -23,6 +32,10 @@ export default function App() {
       <body>
         <Outlet />
         <ScrollRestoration />
+        {/* Public config for browser code (see app/config.ts) */}
+        <script
+          dangerouslySetInnerHTML={{ __html: `window.ENV = ${JSON.stringify(ENV)};` }}
+        />
         <Scripts />
       </body>
     </html>
@@ -1,69 +1,26 @@
-import { HeadObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
 import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getStorage, type StorageDriver } from "../services/storage.server";
 
-// R2 Configuration
-const R2_ACCESS_KEY_ID = process.env.R2_ACCESS_KEY_ID || "";
-const R2_SECRET_ACCESS_KEY = process.env.R2_SECRET_ACCESS_KEY || "";
-const R2_ENDPOINT = process.env.R2_ENDPOINT || "";
-const R2_BUCKET = process.env.R2_BUCKET || "";
-const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL || "";
-
-let r2Client: S3Client | null = null;
-
-function getR2Client(): S3Client | null {
-  if (!R2_ACCESS_KEY_ID || !R2_SECRET_ACCESS_KEY || !R2_ENDPOINT) {
-    return null;
-  }
-
-  if (!r2Client) {
-    r2Client = new S3Client({
-      region: "auto",
-      endpoint: R2_ENDPOINT,
-      credentials: {
-        accessKeyId: R2_ACCESS_KEY_ID,
-        secretAccessKey: R2_SECRET_ACCESS_KEY,
-      },
-    });
-  }
-  return r2Client;
-}
-
-// Convert SSActiveWear path to R2 key
-function pathToR2Key(imagePath: string): string {
+// Convert SSActiveWear path to storage key
+function pathToStorageKey(imagePath: string): string {
   // e.g., "Images/Style/16_fm.jpg" -> "ssactivewear/style/16_fm.jpg"
   return `ssactivewear/${imagePath.toLowerCase().replace("images/", "")}`;
 }
 
-// Check if image exists in R2
-async function checkR2Cache(client: S3Client, key: string): Promise<boolean> {
-  try {
-    await client.send(new HeadObjectCommand({
-      Bucket: R2_BUCKET,
-      Key: key,
-    }));
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Upload image to R2
-async function uploadToR2(client: S3Client, key: string, buffer: ArrayBuffer, contentType: string): Promise<void> {
+// Save image to storage
+async function saveToStorage(storage: StorageDriver, key: string, buffer: ArrayBuffer, contentType: string): Promise<void> {
   try {
-    await client.send(new PutObjectCommand({
-      Bucket: R2_BUCKET,
-      Key: key,
-      Body: new Uint8Array(buffer),
-      ContentType: contentType,
-      CacheControl: "public, max-age=31536000", // Cache for 1 year
-    }));
-    console.log(`[Image Proxy] Cached to R2: ${key}`);
+    await storage.put(key, new Uint8Array(buffer), {
+      contentType,
+      cacheControl: "public, max-age=31536000", // Cache for 1 year
+    });
+    console.log(`[Image Proxy] Cached to ${storage.name} storage: ${key}`);
   } catch (error) {
-    console.error(`[Image Proxy] Failed to cache to R2:`, error);
+    console.error(`[Image Proxy] Failed to cache to ${storage.name} storage:`, error);
   }
 }
 
-// Proxy SSActiveWear images through our server with R2 caching
+// Proxy SSActiveWear images through our server with storage caching
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const imagePath = url.searchParams.get("path");
@@ -72,18 +29,14 @@ export async function loader({ request }: LoaderFunctionArgs) {
     return new Response("Missing image path", { status: 400 });
   }
 
-  const r2 = getR2Client();
-  const r2Key = pathToR2Key(imagePath);
+  const storage = getStorage();
+  const storageKey = pathToStorageKey(imagePath);
 
-  // Check R2 cache first
-  if (r2 && R2_PUBLIC_URL) {
-    const exists = await checkR2Cache(r2, r2Key);
-    if (exists) {
-      // Redirect to R2 public URL
-      const r2Url = `${R2_PUBLIC_URL}/${r2Key}`;
-      console.log(`[Image Proxy] Serving from R2: ${r2Url}`);
-      return Response.redirect(r2Url, 302);
-    }
+  // Check storage cache first
+  if (await storage.exists(storageKey)) {
+    const storedUrl = storage.publicUrl(storageKey);
+    console.log(`[Image Proxy] Serving from ${storage.name} storage: ${storedUrl}`);
+    return Response.redirect(storedUrl, 302);
   }
 
   // Fetch from SSActiveWear
@@ -110,10 +63,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
     const contentType = response.headers.get("content-type") || "image/jpeg";
     const imageBuffer = await response.arrayBuffer();
 
-    // Upload to R2 for future requests (non-blocking)
-    if (r2) {
-      uploadToR2(r2, r2Key, imageBuffer, contentType).catch(() => {});
-    }
+    // Save to storage for future requests (non-blocking)
+    saveToStorage(storage, storageKey, imageBuffer, contentType).catch(() => {});
 
     return new Response(imageBuffer, {
       headers: {
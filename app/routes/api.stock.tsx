@@ -1,7 +1,7 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { getSSClient } from "../services/ssClient.server";
 
 // Public API endpoint for real-time stock data
 // Used by theme widget to show stock levels and availability matrix
@@ -42,6 +42,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     "Cache-Control": "public, max-age=60", // Cache for 1 minute
   };
 
+  // Stock is read with the shop's own S&S account - there is no shared account to fall back to
+  if (!shop) {
+    return json(
+      { success: false, error: "shop required" },
+      { headers: corsHeaders }
+    );
+  }
+
   if (!styleId && !shopifyProductId) {
     return json(
       { success: false, error: "styleId or productId required" },
@@ -53,7 +61,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     let ssStyleId = styleId;
 
     // If productId provided, look up the style mapping
-    if (shopifyProductId && shop) {
+    if (shopifyProductId) {
       const productMap = await prisma.productMap.findFirst({
         where: {
           shop,
@@ -84,7 +92,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     });
 
     // Get inventory from SSActiveWear - use getInventoryByStyle for style-based lookup
-    const ssClient = new SSActiveWearClient();
+    const ssClient = await getSSClient(shop);
     const inventory = await ssClient.getInventoryByStyle(parseInt(ssStyleId));
 
     if (!inventory || !Array.isArray(inventory)) {
@@ -0,0 +1,29 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getStorage } from "../services/storage.server";
+
+// Serve files kept by the local storage driver (S3/R2 objects are served by the bucket's public URL)
+export async function loader({ params }: LoaderFunctionArgs) {
+  const storage = getStorage();
+  const key = params["*"];
+
+  if (storage.name !== "local" || !key) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const object = await storage.get(key);
+    if (!object) {
+      return new Response("Not found", { status: 404 });
+    }
+    return new Response(new Uint8Array(object.body), {
+      headers: {
+        "Content-Type": object.contentType,
+        "Cache-Control": "public, max-age=31536000",
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  } catch (error) {
+    console.error(`[Storage] Failed to serve ${key}:`, error);
+    return new Response("Not found", { status: 404 });
+  }
+}
@@ -1,20 +1,6 @@
-import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json, unstable_parseMultipartFormData } from "@remix-run/node";
-
-// Cloudflare R2 configuration
-// Cloudflare R2 configuration (Hardcoded for reliability)
-const R2 = new S3Client({
-  region: "auto",
-  endpoint: "https://3b964e63af3f0e752c640e35dab68c9b.r2.cloudflarestorage.com",
-  credentials: {
-    accessKeyId: "407a988b60e3771bc982048523562047",
-    secretAccessKey: "e343c33e70b5c0ba965b4d7d4d5605693239122f704d1d219a4fec860cf7384b",
-  },
-});
-
-const BUCKET_NAME = "ssactivewearorder";
-const PUBLIC_URL = "https://img-ssa-e.techifyboost.com";
+import { saveUpload } from "../services/storage.server";
 
 // Custom upload handler for multipart form data
 async function uploadHandler(
@@ -36,22 +22,8 @@ async function uploadHandler(
   }
   const buffer = Buffer.concat(chunks);
 
-  // Generate unique filename
-  const ext = part.contentType.split("/")[1] || "png";
-  const filename = `designs/${crypto.randomUUID()}.${ext}`;
-
-  // Upload to R2
-  await R2.send(
-    new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: filename,
-      Body: buffer,
-      ContentType: part.contentType,
-    })
-  );
-
-  // Return public URL
-  return `${PUBLIC_URL}/${filename}`;
+  // Upload to storage and return its public URL
+  return saveUpload(buffer, part.contentType);
 }
 
 // Health Check Loader: Visit /apps/ssactiveorder/api/upload to verify deployment
@@ -105,7 +77,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       {
         success: false,
         error: error instanceof Error ? error.message : "Unknown Server Error",
-        details: "Check server logs for R2 client issues"
+        details: "Check server logs for storage issues"
       },
       {
         status: 200, // Return 200 so client JS can parse the JSON error
@@ -1,5 +1,5 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
-import { json, useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import { json, useActionData, useLoaderData, useNavigation, useRevalidator, useSubmit } from "@remix-run/react";
 import { TitleBar } from "@shopify/app-bridge-react";
 import {
     Badge,
@@ -9,7 +9,9 @@ import {
     Button,
     Card,
     Checkbox,
+    DataTable,
     Divider,
+    DropZone,
     EmptyState,
     Icon,
     IndexTable,
@@ -29,16 +31,22 @@ import {
     SearchIcon,
     XIcon
 } from "@shopify/polaris-icons";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import prisma from "../db.server";
+import { importJobs } from "../services/importJobs.server";
+import { importQueueWorker } from "../services/importQueue.server";
+import { SPLIT_OPTIONS } from "../services/importPlan";
+import { optionProfiles } from "../services/optionProfiles.server";
 import { SSActiveWearClient } from "../services/ssactivewear";
+import { MAX_LIST_ROWS, STYLE_LIST_STATUS_LABELS, type CheckedStyleRow, type StyleListReport } from "../services/styleList";
+import { styleLists } from "../services/styleList.server";
 import { authenticate } from "../shopify.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
-  const [queue, priceRules] = await Promise.all([
+  const [queue, priceRules, unfinishedJobs, profiles] = await Promise.all([
     prisma.importQueue.findMany({
       where: { shop },
       orderBy: { createdAt: 'desc' },
@@ -48,10 +56,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       where: { shop, isActive: true },
       orderBy: { priority: 'asc' },
     }),
+    importJobs.listUnfinished(shop),
+    optionProfiles.list(shop),
   ]);
 
+  // Restart the worker if queued rows were left without one (e.g. after a restart)
+  if (!importQueueWorker.isRunning(shop) && await importQueueWorker.hasWork(shop)) {
+    void importQueueWorker.run(shop);
+  }
+
   // Get style details for queued items
-  const styleIds = queue.map(q => q.styleId);
+  const styleIds = [...queue.map(q => q.styleId), ...unfinishedJobs.map(j => j.styleId)];
   const styles = await prisma.sSStyleCache.findMany({
     where: { styleId: { in: styleIds } },
   });
@@ -67,11 +82,30 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     };
   });
 
-  return json({ queue: queueWithDetails, priceRules });
+  const interrupted = unfinishedJobs.map(job => {
+    const style = styles.find(s => s.styleId === job.styleId);
+    return {
+      id: job.id,
+      styleId: job.styleId,
+      styleName: style?.styleName || `Style ${job.styleId}`,
+      step: job.step,
+      productId: job.productId,
+      error: job.error || (job.status === "running" ? "Stopped responding" : null),
+      attempts: job.attempts,
+      updatedAt: job.updatedAt,
+    };
+  });
+
+  return json({
+    queue: queueWithDetails,
+    priceRules,
+    interrupted,
+    profiles: profiles.map(p => ({ id: p.id, name: p.isDefault ? `${p.name} (default)` : p.name })),
+  });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const action = formData.get("action") as string;
@@ -99,6 +133,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const priceRuleId = formData.get("priceRuleId") as string || null;
     const tags = formData.get("tags") as string || null;
     const collection = formData.get("collection") as string || null;
+    const split = formData.get("split") as string || null;
+    const optionProfileId = formData.get("optionProfileId") as string || null;
 
     // Check for existing items
     const existing = await prisma.importQueue.findMany({
@@ -118,6 +154,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         priceRuleId,
         tags,
         collection,
+        split,
+        optionProfileId,
         status: "pending",
       })),
     });
@@ -128,6 +166,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
   }
 
+  // A buyer's list of part numbers: check it, then queue the rows that check out with their own settings
+  if (action === "checkList" || action === "queueList") {
+    const text = formData.get("list") as string || "";
+    try {
+      if (action === "checkList") {
+        return json({ success: true, listReport: await styleLists.check(shop, text) });
+      }
+      const { report, added } = await styleLists.enqueue(shop, text);
+      return json({
+        success: added > 0,
+        message: added > 0 ? `Added ${added} styles to import queue` : "No rows of the list could be queued",
+        listReport: report,
+      });
+    } catch (error) {
+      return json({ success: false, message: error instanceof Error ? error.message : "Failed to read the list" });
+    }
+  }
+
   if (action === "removeFromQueue") {
     const queueId = formData.get("queueId") as string;
     await prisma.importQueue.delete({ where: { id: queueId } });
@@ -156,23 +212,88 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ success: true, message: "Cleared failed imports" });
   }
 
-  // Note: Actual import processing would happen in a background job
-  // For now, we'll just mark items as processing
+  // Hand pending (or failed, for Retry) rows to the background worker
   if (action === "startImport") {
     const ids = JSON.parse(formData.get("ids") as string || "[]");
 
     const whereClause = ids.length > 0
-      ? { id: { in: ids }, shop, status: "pending" }
+      ? { id: { in: ids }, shop, status: { in: ["pending", "failed"] } }
       : { shop, status: "pending" };
 
-    await prisma.importQueue.updateMany({
+    const { count } = await prisma.importQueue.updateMany({
       where: whereClause,
-      data: { status: "processing" },
+      data: { status: "queued", attempts: 0, error: null, progress: null, processedAt: null },
     });
+    if (count === 0) {
+      return json({ success: false, message: "Nothing to import - the selected styles are already running or done" });
+    }
+
+    void importQueueWorker.run(shop);
 
     return json({
       success: true,
-      message: "Import started! Products will be imported in the background.",
+      message: `Import started for ${count} styles. They are imported one at a time in the background.`,
+    });
+  }
+
+  // Interrupted imports: resume from the last checkpoint through the queue, or delete the draft they left
+  if (action === "resumeJob") {
+    const job = (await importJobs.listUnfinished(shop)).find(j => j.id === formData.get("jobId"));
+    if (!job) return json({ success: false, message: "That import is no longer interrupted" });
+
+    // A worker may still hold the style (its job only looks stale) - queueing it again would import it twice
+    const running = await prisma.importQueue.findFirst({
+      where: { shop, styleId: job.styleId, status: { in: ["queued", "processing"] } },
+    });
+    if (running) {
+      return json({ success: false, message: `Style ${job.styleId} is already ${running.status === "queued" ? "queued" : "being imported"}` });
+    }
+
+    const stored = importJobs.storedOptions(job);
+    const data = {
+      status: "queued",
+      attempts: 0,
+      error: null,
+      progress: null,
+      processedAt: null,
+      priceRuleId: stored.priceRuleId ?? null,
+      tags: stored.tags?.join(", ") || null,
+      collection: stored.collection ?? null,
+      split: stored.split ?? null,
+      optionProfileId: stored.optionProfileId ?? null,
+      selection: stored.selection ? JSON.stringify(stored.selection) : null,
+      images: stored.images?.join(",") || null,
+      sizeMarkups: stored.sizeMarkups ? JSON.stringify(stored.sizeMarkups) : null,
+    };
+    // Re-queue the style's newest row only; older rows are the history of earlier imports
+    const latest = await prisma.importQueue.findFirst({
+      where: { shop, styleId: job.styleId, status: { in: ["pending", "failed", "completed"] } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (latest) {
+      await prisma.importQueue.update({ where: { id: latest.id }, data });
+    } else {
+      await prisma.importQueue.create({ data: { shop, styleId: job.styleId, ...data } });
+    }
+    void importQueueWorker.run(shop);
+    return json({ success: true, message: `Resuming style ${job.styleId} from "${job.step}"` });
+  }
+
+  if (action === "discardJob") {
+    try {
+      const { deletedProduct } = await importJobs.discard(admin, shop, formData.get("jobId") as string);
+      return json({ success: true, message: deletedProduct ? "Deleted the unfinished draft product" : "Discarded the interrupted import" });
+    } catch (error) {
+      return json({ success: false, message: error instanceof Error ? error.message : "Failed to discard import" });
+    }
+  }
+
+  if (action === "cleanupJobs") {
+    const result = await importJobs.cleanupOrphans(admin, shop);
+    return json({
+      success: result.errors.length === 0,
+      message: `Discarded ${result.discarded} interrupted imports, deleted ${result.deletedProducts} draft products`
+        + (result.errors.length > 0 ? `. Failed: ${result.errors.join("; ")}` : ""),
     });
   }
 
@@ -180,10 +301,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function BulkImportPage() {
-  const { queue, priceRules } = useLoaderData<typeof loader>();
+  const { queue, priceRules, interrupted, profiles } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const submit = useSubmit();
+  const revalidator = useRevalidator();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<any[]>([]);
@@ -191,6 +313,11 @@ export default function BulkImportPage() {
   const [selectedPriceRule, setSelectedPriceRule] = useState("");
   const [tags, setTags] = useState("");
   const [collection, setCollection] = useState("");
+  const [split, setSplit] = useState("");
+  const [optionProfileId, setOptionProfileId] = useState("");
+  const [listText, setListText] = useState("");
+  const [listFile, setListFile] = useState<string | null>(null);
+  const [listReport, setListReport] = useState<StyleListReport | null>(null);
 
   const isLoading = navigation.state === "submitting";
 
@@ -204,10 +331,19 @@ export default function BulkImportPage() {
 
   // Stats
   const pendingCount = queue.filter(q => q.status === "pending").length;
-  const processingCount = queue.filter(q => q.status === "processing").length;
+  const processingCount = queue.filter(q => q.status === "queued" || q.status === "processing").length;
   const completedCount = queue.filter(q => q.status === "completed").length;
   const failedCount = queue.filter(q => q.status === "failed").length;
 
+  // Poll for per-item progress while the worker has rows in hand
+  useEffect(() => {
+    if (processingCount === 0) return;
+    const timer = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, 3000);
+    return () => clearInterval(timer);
+  }, [processingCount, revalidator]);
+
   const handleSearch = useCallback(() => {
     if (!searchQuery.trim()) return;
     const formData = new FormData();
@@ -221,6 +357,52 @@ export default function BulkImportPage() {
     setSearchResults(actionData.searchResults);
   }
 
+  useEffect(() => {
+    if (actionData && "listReport" in actionData && actionData.listReport) {
+      setListReport(actionData.listReport);
+      if (actionData.success) {
+        setListText("");
+        setListFile(null);
+      }
+    }
+  }, [actionData]);
+
+  const handleListDrop = useCallback(async (_files: File[], acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    setListText(await file.text());
+    setListFile(file.name);
+    setListReport(null);
+  }, []);
+
+  const handleListChange = useCallback((value: string) => {
+    setListText(value);
+    setListFile(null);
+    setListReport(null);
+  }, []);
+
+  const handleList = useCallback((action: "checkList" | "queueList") => {
+    if (!listText.trim()) return;
+    const formData = new FormData();
+    formData.set("action", action);
+    formData.set("list", listText);
+    submit(formData, { method: "POST" });
+  }, [listText, submit]);
+
+  const listRowSettings = (row: CheckedStyleRow) => [
+    row.markup && (row.markup.type === "percentage" ? `+${row.markup.value}%` : `+$${row.markup.value.toFixed(2)}`),
+    row.priceRule && `Rule: ${row.priceRule}`,
+    row.tags.length > 0 && `Tags: ${row.tags.join(", ")}`,
+    row.collection && `Collection: ${row.collection}`,
+    row.split && `Split: ${row.split}`,
+    row.optionProfile && `Profile: ${row.optionProfile}`,
+  ].filter(Boolean).join(" · ");
+
+  const getListStatusBadge = (row: CheckedStyleRow) => {
+    const tone = row.status === "ready" ? "success" : row.status === "queued" ? "info" : row.status === "duplicate" ? "attention" : "critical";
+    return <Badge tone={tone}>{STYLE_LIST_STATUS_LABELS[row.status]}</Badge>;
+  };
+
   const handleAddToQueue = useCallback(() => {
     if (selectedStyles.length === 0) return;
     const formData = new FormData();
@@ -229,11 +411,13 @@ export default function BulkImportPage() {
     formData.set("priceRuleId", selectedPriceRule);
     formData.set("tags", tags);
     formData.set("collection", collection);
+    formData.set("split", split);
+    formData.set("optionProfileId", optionProfileId);
     submit(formData, { method: "POST" });
     setSelectedStyles([]);
     setSearchResults([]);
     setSearchQuery("");
-  }, [selectedStyles, selectedPriceRule, tags, collection, submit]);
+  }, [selectedStyles, selectedPriceRule, tags, collection, split, optionProfileId, submit]);
 
   const handleRemove = useCallback((queueId: string) => {
     const formData = new FormData();
@@ -257,6 +441,15 @@ export default function BulkImportPage() {
     submit(formData, { method: "POST" });
   }, [submit]);
 
+  const handleJobAction = useCallback((action: "resumeJob" | "discardJob" | "cleanupJobs", jobId?: string) => {
+    if (action === "discardJob" && !confirm("Delete the unfinished draft product left by this import?")) return;
+    if (action === "cleanupJobs" && !confirm(`Discard ${interrupted.length} interrupted imports and delete their draft products?`)) return;
+    const formData = new FormData();
+    formData.set("action", action);
+    if (jobId) formData.set("jobId", jobId);
+    submit(formData, { method: "POST" });
+  }, [submit, interrupted.length]);
+
   const handleClearCompleted = useCallback(() => {
     const formData = new FormData();
     formData.set("action", "clearCompleted");
@@ -281,6 +474,8 @@ export default function BulkImportPage() {
     switch (status) {
       case 'pending':
         return <Badge tone="attention"><InlineStack gap="100"><Icon source={ClockIcon} />Pending</InlineStack></Badge>;
+      case 'queued':
+        return <Badge tone="info">Queued</Badge>;
       case 'processing':
         return <Badge tone="info">Processing...</Badge>;
       case 'completed':
@@ -328,7 +523,20 @@ export default function BulkImportPage() {
         <Text as="span" variant="bodySm">{item.partNumber}</Text>
       </IndexTable.Cell>
       <IndexTable.Cell>
-        {getStatusBadge(item.status)}
+        <BlockStack gap="050">
+          {getStatusBadge(item.status)}
+          {item.status === "processing" && item.progress && (
+            <Text as="span" variant="bodySm" tone="subdued">
+              {item.progress}{item.attempts > 1 ? ` (attempt ${item.attempts})` : ""}
+            </Text>
+          )}
+          {item.status === "completed" && item.progress && (
+            <Text as="span" variant="bodySm" tone="subdued">{item.progress}</Text>
+          )}
+          {item.status === "failed" && item.error && (
+            <Text as="span" variant="bodySm" tone="critical">{item.error}</Text>
+          )}
+        </BlockStack>
       </IndexTable.Cell>
       <IndexTable.Cell>
         {item.tags && (
@@ -403,7 +611,7 @@ export default function BulkImportPage() {
           <Layout.Section variant="oneQuarter">
             <Card>
               <BlockStack gap="200">
-                <Text as="h3" variant="headingSm" tone="subdued">Processing</Text>
+                <Text as="h3" variant="headingSm" tone="subdued">In Progress</Text>
                 <Text as="p" variant="heading2xl" tone="info">{processingCount}</Text>
               </BlockStack>
             </Card>
@@ -426,6 +634,39 @@ export default function BulkImportPage() {
           </Layout.Section>
         </Layout>
 
+        {/* Interrupted Imports */}
+        {interrupted.length > 0 && (
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <BlockStack gap="100">
+                  <Text as="h2" variant="headingMd">Interrupted Imports</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    These imports stopped part way. Resume continues from the last completed step; discard deletes the draft product they left.
+                  </Text>
+                </BlockStack>
+                <Button tone="critical" onClick={() => handleJobAction("cleanupJobs")} loading={isLoading}>Discard All</Button>
+              </InlineStack>
+              <Divider />
+              {interrupted.map(job => (
+                <InlineStack key={job.id} align="space-between" blockAlign="center">
+                  <BlockStack gap="050">
+                    <Text as="span" variant="bodyMd" fontWeight="semibold">{job.styleName}</Text>
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      Stopped at: {job.step}{job.productId ? " (draft product created)" : ""} · attempt {job.attempts} · {new Date(job.updatedAt).toLocaleString()}
+                    </Text>
+                    {job.error && <Text as="span" variant="bodySm" tone="critical">{job.error}</Text>}
+                  </BlockStack>
+                  <InlineStack gap="200">
+                    <Button size="slim" onClick={() => handleJobAction("resumeJob", job.id)}>Resume</Button>
+                    <Button size="slim" variant="plain" tone="critical" onClick={() => handleJobAction("discardJob", job.id)}>Discard</Button>
+                  </InlineStack>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          </Card>
+        )}
+
         {/* Search Section */}
         <Card>
           <BlockStack gap="400">
@@ -516,6 +757,32 @@ export default function BulkImportPage() {
                             placeholder="new, summer, sale"
                           />
                         </Layout.Section>
+                        <Layout.Section variant="oneHalf">
+                          <Select
+                            label="Import as"
+                            options={[
+                              { label: "Same as the last import (one product for new styles)", value: "" },
+                              ...SPLIT_OPTIONS,
+                            ]}
+                            value={split}
+                            onChange={setSplit}
+                            helpText="Split large styles into one product per color, linked as siblings"
+                          />
+                        </Layout.Section>
+                        {profiles.length > 0 && (
+                          <Layout.Section variant="oneHalf">
+                            <Select
+                              label="Option profile"
+                              options={[
+                                { label: "Shop default", value: "" },
+                                ...profiles.map(p => ({ label: p.name, value: p.id })),
+                              ]}
+                              value={optionProfileId}
+                              onChange={setOptionProfileId}
+                              helpText="Option names and size order of new products"
+                            />
+                          </Layout.Section>
+                        )}
                       </Layout>
                       <Button variant="primary" onClick={handleAddToQueue} loading={isLoading}>
                         Add {selectedStyles.length} Products to Queue
@@ -528,6 +795,79 @@ export default function BulkImportPage() {
           </BlockStack>
         </Card>
 
+        {/* Import from a List */}
+        <Card>
+          <BlockStack gap="400">
+            <BlockStack gap="100">
+              <Text as="h2" variant="headingMd">Import from a List</Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                Upload a CSV or paste part numbers ("Gildan 5000", "00760" or S&amp;S style IDs), one per line. With a header row,
+                a part_number column can be joined by markup (35% or 4.50), price_rule, tags, collection, split and option_profile
+                columns that apply to that style only. Up to {MAX_LIST_ROWS} rows per list.
+              </Text>
+            </BlockStack>
+            <DropZone onDrop={handleListDrop} accept=".csv,.txt,text/csv,text/plain" type="file" allowMultiple={false} label="CSV file">
+              {listFile ? (
+                <Box padding="400">
+                  <Text as="p" variant="bodySm" alignment="center">{listFile}</Text>
+                </Box>
+              ) : (
+                <DropZone.FileUpload actionHint="or drop a .csv file" />
+              )}
+            </DropZone>
+            <TextField
+              label="Part numbers"
+              value={listText}
+              onChange={handleListChange}
+              multiline={6}
+              autoComplete="off"
+              placeholder={"part_number,markup,tags,collection\nGildan 5000,35%,basics,tees\nBC3001,4.50,premium,tees"}
+            />
+            <InlineStack gap="200">
+              <Button onClick={() => handleList("checkList")} loading={isLoading} disabled={!listText.trim()}>Check List</Button>
+              {listReport && listReport.ready > 0 && (
+                <Button variant="primary" onClick={() => handleList("queueList")} loading={isLoading}>
+                  {`Add ${listReport.ready} Styles to Queue`}
+                </Button>
+              )}
+            </InlineStack>
+
+            {listReport && (
+              <>
+                <Divider />
+                {listReport.warnings.length > 0 && (
+                  <Banner tone="warning">
+                    {listReport.warnings.map((warning, idx) => <p key={idx}>{warning}</p>)}
+                  </Banner>
+                )}
+                {listReport.ignoredColumns.length > 0 && (
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Ignored columns: {listReport.ignoredColumns.join(", ")}
+                  </Text>
+                )}
+                {listReport.rows.length > 0 && (
+                  <DataTable
+                    columnContentTypes={["numeric", "text", "text", "text", "text"]}
+                    headings={["Row", "Part #", "S&S style", "Settings", "Status"]}
+                    rows={listReport.rows.map(row => [
+                      row.line,
+                      row.partNumber || "-",
+                      row.styleName ? `${row.styleName} (${row.styleId})` : "-",
+                      listRowSettings(row) || "Defaults",
+                      <BlockStack gap="050" key={`${row.line}-${row.partNumber}`}>
+                        {getListStatusBadge(row)}
+                        {row.problems.map((problem, idx) => (
+                          <Text as="span" variant="bodySm" tone={row.status === "ready" || row.status === "queued" ? "subdued" : "critical"} key={idx}>{problem}</Text>
+                        ))}
+                      </BlockStack>,
+                    ])}
+                  />
+                )}
+              </>
+            )}
+          </BlockStack>
+        </Card>
+
         {/* Import Queue */}
         <Card>
           <BlockStack gap="400">
@@ -20,6 +20,8 @@ import {
 } from "@shopify/polaris";
 import { useCallback, useEffect, useState } from "react";
 import prisma from "../db.server";
+import { compileFormula, FORMULA_VARIABLES, validateFormula } from "../services/priceFormula";
+import { formulaContextFor } from "../services/pricing";
 import { authenticate } from "../shopify.server";
 
 interface ProductPreview {
@@ -99,12 +101,26 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 };
 
+// Formula adjustments run per style; only the cached base price is known here, so every S&S price variable is the base price
+function formulaPrice(formula: string, style: any): number {
+  return compileFormula(formula).evaluate(formulaContextFor(style.basePrice || 0, {
+    brand: style.brandName,
+    category: style.baseCategory,
+  }));
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
   const formData = await request.formData();
   const actionName = formData.get("action") as string;
 
+  const formula = (formData.get("formula") as string || "").trim();
+  if (formData.get("adjustType") === "formula") {
+    const check = validateFormula(formula);
+    if (!check.ok) return json<ActionData>({ success: false, message: `Invalid formula: ${check.error}` });
+  }
+
   if (actionName === "preview") {
     const adjustType = formData.get("adjustType") as string;
     const adjustValue = parseFloat(formData.get("adjustValue") as string) || 0;
@@ -122,7 +138,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const styles = await (prisma.sSStyleCache as any).findMany({
       where,
-      select: { styleId: true, styleName: true, brandName: true, basePrice: true },
+      select: { styleId: true, styleName: true, brandName: true, baseCategory: true, basePrice: true },
     });
 
     const styleMap = new Map(styles.map((s: any) => [s.styleId.toString(), s]));
@@ -142,6 +158,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         case 'fixed_decrease': newPrice -= adjustValue; break;
         case 'multiplier': newPrice *= adjustValue; break;
         case 'set_fixed': newPrice = adjustValue; break;
+        case 'formula':
+          try {
+            newPrice = formulaPrice(formula, style);
+          } catch (error) {
+            console.warn(`[BulkPrice] Formula failed for style ${style.styleId}:`, error);
+          }
+          break;
       }
 
       switch (roundTo) {
@@ -191,7 +214,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const styles = await (prisma.sSStyleCache as any).findMany({
       where,
-      select: { styleId: true, basePrice: true },
+      select: { styleId: true, brandName: true, baseCategory: true, basePrice: true },
     });
 
     const styleMap = new Map(styles.map((s: any) => [s.styleId.toString(), s]));
@@ -211,6 +234,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         case 'fixed_decrease': newPrice -= adjustValue; break;
         case 'multiplier': newPrice *= adjustValue; break;
         case 'set_fixed': newPrice = adjustValue; break;
+        case 'formula':
+          try {
+            newPrice = formulaPrice(formula, style);
+          } catch (error) {
+            console.warn(`[BulkPrice] Formula failed for style ${style.styleId}:`, error);
+          }
+          break;
       }
 
       switch (roundTo) {
@@ -261,6 +291,7 @@ export default function BulkPriceUpdatePage() {
 
   const [adjustType, setAdjustType] = useState('percent_increase');
   const [adjustValue, setAdjustValue] = useState('20');
+  const [formula, setFormula] = useState('');
   const [brandFilter, setBrandFilter] = useState('');
   const [roundTo, setRoundTo] = useState('0.99');
   const [confirmModalOpen, setConfirmModalOpen] = useState(false);
@@ -277,12 +308,14 @@ export default function BulkPriceUpdatePage() {
   }, [actionData, shopify]);
 
   const handlePreview = useCallback(() => {
-    submit({ action: "preview", adjustType, adjustValue, brandFilter, roundTo }, { method: "POST" });
-  }, [adjustType, adjustValue, brandFilter, roundTo, submit]);
+    submit({ action: "preview", adjustType, adjustValue, formula, brandFilter, roundTo }, { method: "POST" });
+  }, [adjustType, adjustValue, formula, brandFilter, roundTo, submit]);
 
   const handleApply = useCallback(() => {
-    submit({ action: "apply", adjustType, adjustValue, brandFilter, roundTo }, { method: "POST" });
-  }, [adjustType, adjustValue, brandFilter, roundTo, submit]);
+    submit({ action: "apply", adjustType, adjustValue, formula, brandFilter, roundTo }, { method: "POST" });
+  }, [adjustType, adjustValue, formula, brandFilter, roundTo, submit]);
+
+  const formulaCheck = adjustType === 'formula' ? validateFormula(formula) : null;
 
   const previewData = actionData?.success && actionData.action === 'preview' ? actionData : null;
 
@@ -310,8 +343,22 @@ export default function BulkPriceUpdatePage() {
                       { label: 'Decrease by $', value: 'fixed_decrease' },
                       { label: 'Multiply by', value: 'multiplier' },
                       { label: 'Set to fixed price', value: 'set_fixed' },
+                      { label: 'Formula', value: 'formula' },
                     ]} value={adjustType} onChange={setAdjustType} />
-                  <TextField label="Amount" type="number" value={adjustValue} onChange={setAdjustValue} autoComplete="off" />
+                  {adjustType === 'formula' ? (
+                    <TextField
+                      label="Formula"
+                      value={formula}
+                      onChange={setFormula}
+                      autoComplete="off"
+                      monospaced
+                      placeholder="max(piecePrice * 1.8, 9.99)"
+                      error={formula && formulaCheck?.ok === false ? formulaCheck.error : undefined}
+                      helpText={`Same language as formula price rules (${FORMULA_VARIABLES.map(v => v.name).join(", ")}). Uses each style's base price; size-specific prices are set on import.`}
+                    />
+                  ) : (
+                    <TextField label="Amount" type="number" value={adjustValue} onChange={setAdjustValue} autoComplete="off" />
+                  )}
                 </BlockStack>
               </Layout.Section>
               <Layout.Section variant="oneHalf">
@@ -327,7 +374,7 @@ export default function BulkPriceUpdatePage() {
                 </BlockStack>
               </Layout.Section>
             </Layout>
-            <InlineStack gap="300"><Button onClick={handlePreview} loading={isLoading}>Preview Changes</Button></InlineStack>
+            <InlineStack gap="300"><Button onClick={handlePreview} loading={isLoading} disabled={formulaCheck?.ok === false}>Preview Changes</Button></InlineStack>
           </BlockStack>
         </Card>
 
@@ -25,7 +25,9 @@ import {
 } from "@shopify/polaris";
 import { SearchIcon } from "@shopify/polaris-icons";
 import { useCallback, useState } from "react";
+import { getSSClient } from "../services/ssClient.server";
 import { SSActiveWearClient, type SSProduct, type SSStyle, type SSWarehouse } from "../services/ssactivewear";
+import { WAREHOUSE_NAMES } from "../services/warehouses";
 import { authenticate } from "../shopify.server";
 
 // Popular brands for quick access
@@ -56,19 +58,6 @@ const PRODUCT_CATEGORIES = [
   { label: "Activewear", value: "activewear" },
 ];
 
-// Warehouse name mapping
-const WAREHOUSE_NAMES: Record<string, string> = {
-  "IL": "Illinois",
-  "NV": "Nevada",
-  "PA": "Pennsylvania",
-  "KS": "Kansas",
-  "NJ": "New Jersey",
-  "TX": "Texas",
-  "GA": "Georgia",
-  "CA": "California",
-  "MA": "Massachusetts",
-};
-
 interface ColorGroup {
   colorName: string;
   colorCode: string;
@@ -95,7 +84,7 @@ interface ProductDetails {
 }
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const url = new URL(request.url);
   const search = url.searchParams.get("search") || "";
@@ -105,7 +94,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const page = parseInt(url.searchParams.get("page") || "1");
   const mode = url.searchParams.get("mode") || "search"; // search, brands, browse
 
-  const client = new SSActiveWearClient();
+  const client = await getSSClient(session.shop);
 
   // Fetch product details for modal
   if (detailStyleId) {
@@ -0,0 +1,238 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import { TitleBar } from "@shopify/app-bridge-react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  InlineStack,
+  Layout,
+  Page,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { useEffect, useMemo, useState } from "react";
+import {
+  renderDescription,
+  SAMPLE_STYLE_DETAILS,
+  TEMPLATE_PLACEHOLDERS,
+  validateTemplate,
+  type StyleDetails,
+} from "../services/descriptionTemplate";
+import { descriptions, SPECS_NAMESPACE } from "../services/descriptions.server";
+import { getSSClient } from "../services/ssClient.server";
+import { authenticate } from "../shopify.server";
+
+interface LoaderData {
+  template: string;
+  writeMetafields: boolean;
+  customized: boolean;
+  preview: StyleDetails;
+  previewStyleId: string | null;
+  previewError: string | null;
+  metafields: Array<{ key: string; value: string }>;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const settings = await descriptions.settings(shop);
+
+  // Preview with a real style when one is given, else with sample data
+  const previewStyleId = new URL(request.url).searchParams.get("styleId");
+  let preview = SAMPLE_STYLE_DETAILS;
+  let previewError: string | null = null;
+  if (previewStyleId) {
+    try {
+      const ssClient = await getSSClient(shop);
+      const [style] = await ssClient.getStyleDetails(Number(previewStyleId));
+      if (!style) throw new Error(`Style ${previewStyleId} not found`);
+      preview = await descriptions.styleDetails(shop, style, await ssClient.getProducts(style.styleID));
+    } catch (error) {
+      previewError = error instanceof Error ? error.message : "Could not load the style";
+    }
+  }
+
+  return json<LoaderData>({
+    template: settings.template,
+    writeMetafields: settings.writeMetafields,
+    customized: settings.customized,
+    preview,
+    previewStyleId,
+    previewError,
+    metafields: descriptions.specMetafields(preview).map(m => ({ key: m.key, value: m.value })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action") as string;
+
+  try {
+    if (action === "save") {
+      await descriptions.save(session.shop, String(formData.get("template") || ""), formData.get("writeMetafields") === "true");
+      return json({ success: true, message: "Description template saved" });
+    }
+    if (action === "reset") {
+      await descriptions.reset(session.shop);
+      return json({ success: true, message: "Restored the default template" });
+    }
+  } catch (error) {
+    return json({ success: false, message: error instanceof Error ? error.message : "Could not save the template" });
+  }
+  return json({ success: false, message: "Unknown action" });
+};
+
+export default function DescriptionsPage() {
+  const data = useLoaderData<LoaderData>();
+  const actionData = useActionData<typeof action>();
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [template, setTemplate] = useState(data.template);
+  const [writeMetafields, setWriteMetafields] = useState(data.writeMetafields);
+  const [styleId, setStyleId] = useState(data.previewStyleId || "");
+  const pendingAction = nav.state === "submitting" ? nav.formData?.get("action") : null;
+
+  // Saving or resetting reloads the template from the server
+  useEffect(() => {
+    setTemplate(data.template);
+    setWriteMetafields(data.writeMetafields);
+  }, [data.template, data.writeMetafields]);
+
+  const problems = useMemo(() => validateTemplate(template), [template]);
+  const previewHtml = useMemo(() => renderDescription(template, data.preview), [template, data.preview]);
+  const dirty = template !== data.template || writeMetafields !== data.writeMetafields;
+
+  const handleSave = () => submit({ action: "save", template, writeMetafields: String(writeMetafields) }, { method: "post" });
+  const handleReset = () => submit({ action: "reset" }, { method: "post" });
+  const handlePreviewStyle = () => {
+    const next = new URLSearchParams(searchParams);
+    if (styleId.trim()) next.set("styleId", styleId.trim());
+    else next.delete("styleId");
+    setSearchParams(next);
+  };
+
+  return (
+    <Page>
+      <TitleBar title="Product Descriptions" />
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {actionData?.message && (
+              <Banner tone={actionData.success ? "success" : "critical"}>
+                <p>{actionData.message}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">Description template</Text>
+                  <Badge tone={data.customized ? "info" : undefined}>{data.customized ? "Custom" : "Default"}</Badge>
+                </InlineStack>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Used for the description of newly imported products. Re-imports leave existing descriptions alone.
+                </Text>
+                <TextField
+                  label="Template (HTML)"
+                  value={template}
+                  onChange={setTemplate}
+                  multiline={16}
+                  monospaced
+                  autoComplete="off"
+                  error={problems.length > 0 ? problems.join("; ") : undefined}
+                />
+                <Checkbox
+                  label={`Write spec metafields (${SPECS_NAMESPACE}.fabric, fabric_weight, country_of_origin, case_quantity, sustainable, spec_table)`}
+                  helpText="Themes can read these to show fabric, origin and a size chart. Refreshed on every import."
+                  checked={writeMetafields}
+                  onChange={setWriteMetafields}
+                />
+                <InlineStack gap="200">
+                  <Button
+                    variant="primary"
+                    onClick={handleSave}
+                    disabled={!dirty || problems.length > 0}
+                    loading={pendingAction === "save"}
+                  >
+                    Save
+                  </Button>
+                  <Button onClick={handleReset} disabled={!data.customized} loading={pendingAction === "reset"}>
+                    Restore default
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="end" gap="200">
+                  <Text as="h2" variant="headingMd">
+                    Preview{data.previewStyleId && !data.previewError ? `: ${data.preview.title}` : " with sample data"}
+                  </Text>
+                  <InlineStack gap="200" blockAlign="end">
+                    <TextField
+                      label="S&S style ID"
+                      labelHidden
+                      placeholder="S&S style ID"
+                      value={styleId}
+                      onChange={setStyleId}
+                      autoComplete="off"
+                    />
+                    <Button onClick={handlePreviewStyle} loading={nav.state === "loading"}>Preview style</Button>
+                  </InlineStack>
+                </InlineStack>
+                {data.previewError && (
+                  <Banner tone="warning">
+                    <p>{data.previewError} - showing sample data.</p>
+                  </Banner>
+                )}
+                <Box padding="400" background="bg-surface-secondary" borderRadius="200">
+                  <div dangerouslySetInnerHTML={{ __html: previewHtml }} />
+                </Box>
+                <Text as="h3" variant="headingSm">Metafields</Text>
+                {data.metafields.length > 0 ? (
+                  <BlockStack gap="100">
+                    {data.metafields.map(m => (
+                      <Text as="p" variant="bodySm" key={m.key}>
+                        <strong>{SPECS_NAMESPACE}.{m.key}:</strong> {m.value.length > 120 ? `${m.value.slice(0, 120)}…` : m.value}
+                      </Text>
+                    ))}
+                  </BlockStack>
+                ) : (
+                  <Text as="p" variant="bodySm" tone="subdued">No specs to write for this style.</Text>
+                )}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">Placeholders</Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                {"{{name}}"} inserts a value. {"{{#name}}...{{/name}}"} keeps its content only when the value is not empty.
+              </Text>
+              {TEMPLATE_PLACEHOLDERS.map(p => (
+                <BlockStack gap="050" key={p.name}>
+                  <InlineStack gap="100" blockAlign="center">
+                    <Text as="span" variant="bodySm" fontWeight="semibold">{`{{${p.name}}}`}</Text>
+                    {p.html && <Badge size="small">HTML</Badge>}
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">{p.description}</Text>
+                </BlockStack>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -8,6 +8,7 @@ import {
     Box,
     Button,
     Card,
+    ChoiceList,
     Divider,
     InlineStack,
     Layout,
@@ -21,16 +22,37 @@ import {
 } from "@shopify/polaris";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { ImporterService } from "../services/importer.server";
+import {
+  DEFAULT_IMAGE_KINDS,
+  IMAGE_KIND_OPTIONS,
+  imageKindLabel,
+  importPlanCsv,
+  parseImageKinds,
+  parseSelection,
+  SPLIT_OPTIONS,
+  type FailedImage,
+  type ImageKind,
+  type ImportPlan,
+  type ImportSelection,
+  type SplitStrategy,
+} from "../services/importPlan";
+import { sortSizes, type ResolvedOptionProfile } from "../services/optionProfiles";
+import { optionProfiles } from "../services/optionProfiles.server";
+import { getSSClient } from "../services/ssClient.server";
 import { SSActiveWearClient, type SSStyle } from "../services/ssactivewear";
 import { authenticate } from "../shopify.server";
 
-const R2_IMAGE_BASE = "https://img-ssa-e.techifyboost.com";
+const PLACEHOLDER_IMAGE = "https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png";
 
 interface LoaderData {
   style: SSStyle | null;
   products: any[];
   styleId: string | null;
   uploadLocations: Array<{ name: string; label: string; icon: string }>;
+  existingProductId?: string | null;
+  existingSplit?: SplitStrategy | null; // how the style was split on its last import
+  existingSelection?: ImportSelection | null; // colors / sizes / warehouses the style was imported with
+  profiles?: Array<ResolvedOptionProfile & { isDefault: boolean }>;
   error?: string;
 }
 
@@ -39,6 +61,9 @@ interface ActionData {
   error?: string;
   message?: string;
   productId?: string;
+  mode?: "created" | "updated";
+  failedImages?: FailedImage[];
+  plan?: ImportPlan;
 }
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -51,11 +76,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
     return json<LoaderData>({ style: null, products: [], styleId: null, uploadLocations: [{ name: "full_front", label: "Front", icon: "full_front" }, { name: "full_back", label: "Back", icon: "full_back" }] });
   }
 
-  const client = new SSActiveWearClient();
+  const client = await getSSClient(session.shop);
   try {
     const styles = await client.getStyles();
     const style = styles.find((s: SSStyle) => s.styleID === Number(styleId)) || null;
     const products = await client.getProducts(Number(styleId));
+    const profiles = (await optionProfiles.list(session.shop)).map(p => ({ ...optionProfiles.toResolved(p), isDefault: p.isDefault }));
 
     // Fetch upload locations from DB — default to Front/Back if none configured
     const defaultLocations = [
@@ -63,6 +89,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
       { name: "full_back", label: "Back", icon: "full_back" },
     ];
     let uploadLocations = defaultLocations;
+    let existingProductId: string | null = null;
+    let existingSplit: SplitStrategy | null = null;
+    let existingSelection: ImportSelection | null = null;
     try {
       const { default: prismaClient } = await import("../db.server");
       // Look for locations for any product matching this style
@@ -70,6 +99,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
         where: { shop: session.shop, ssStyleId: String(styleId) },
       });
       if (productMap) {
+        existingProductId = productMap.shopifyProductId;
+        existingSplit = (productMap.splitBy || "single") as SplitStrategy;
+        existingSelection = parseSelection(productMap.selection);
         const dbLocations = await prismaClient.productUploadLocation.findMany({
           where: { shop: session.shop, shopifyProductId: productMap.shopifyProductId },
           orderBy: { sortOrder: "asc" },
@@ -82,7 +114,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
       // Use defaults
     }
 
-    return json<LoaderData>({ style, products, styleId, uploadLocations });
+    return json<LoaderData>({ style, products, styleId, uploadLocations, existingProductId, existingSplit, existingSelection, profiles });
   } catch (error) {
     console.error("Failed to fetch style details:", error);
     return json<LoaderData>({ style: null, products: [], styleId, uploadLocations: [{ name: "full_front", label: "Front", icon: "full_front" }, { name: "full_back", label: "Back", icon: "full_back" }], error: "Failed to fetch from SSActiveWear" });
@@ -95,6 +127,11 @@ export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
   const styleId = formData.get("styleId") as string;
   const markupData = formData.get("markupData") as string;
+  const intent = formData.get("intent") as string;
+  const split = formData.get("split") as string || null;
+  const optionProfileId = formData.get("optionProfileId") as string || null;
+  const selection = parseSelection(formData.get("selection") as string) ?? undefined;
+  const images = parseImageKinds(formData.get("images"));
 
   if (!styleId) {
     return json<ActionData>({ error: "Style ID required" });
@@ -107,12 +144,26 @@ export async function action({ request }: ActionFunctionArgs) {
   } catch { /* ignore */ }
 
   const importer = new ImporterService();
+
+  // Dry run: read-only plan of what the import would do
+  if (intent === "preview") {
+    try {
+      const plan = await importer.previewImport(admin, Number(styleId), shop, { sizeMarkups, split, optionProfileId, selection, images });
+      return json<ActionData>({ plan });
+    } catch (error: any) {
+      console.error("Import preview failed:", error?.message);
+      return json<ActionData>({ error: `Preview failed: ${error?.message || "Unknown error"}` });
+    }
+  }
+
   try {
-    const result = await importer.importStyle(admin, Number(styleId), shop, sizeMarkups);
+    const result = await importer.importStyle(admin, Number(styleId), shop, { sizeMarkups, split, optionProfileId, selection, images });
     return json<ActionData>({
       success: true,
       message: result?.message || `Successfully imported style ${styleId}`,
       productId: result?.shopifyProduct?.id,
+      mode: result?.mode,
+      failedImages: result?.failedImages,
     });
   } catch (error: any) {
     const errorMessage = error?.message || "Unknown error occurred";
@@ -123,6 +174,8 @@ export async function action({ request }: ActionFunctionArgs) {
       userMessage = "Import timed out. The product may have too many variants. Please try again.";
     } else if (errorMessage.includes("rate limit") || errorMessage.includes("429")) {
       userMessage = "Rate limit reached. Please wait a moment and try again.";
+    } else if (errorMessage.includes("already imported as") || errorMessage.includes("match the selected")) {
+      userMessage = errorMessage;
     } else if (errorMessage.includes("not found")) {
       userMessage = "Product not found in SSActiveWear catalog.";
     } else if (errorMessage.includes("permission") || errorMessage.includes("Access denied")) {
@@ -141,14 +194,26 @@ export default function ImportPage() {
   const shopify = useAppBridge();
 
   const style = loaderData?.style;
-  const products = loaderData?.products || [];
+  const products = useMemo(() => loaderData?.products || [], [loaderData]);
   const styleId = loaderData?.styleId;
+  const existingProductId = loaderData?.existingProductId;
+  const existingSplit = loaderData?.existingSplit;
+  const existingSelection = loaderData?.existingSelection;
+  const profiles = loaderData?.profiles || [];
 
-  const isImporting = nav.state === "submitting";
+  const isSubmitting = nav.state === "submitting";
+  const isPreviewing = isSubmitting && nav.formData?.get("intent") === "preview";
+  const isImporting = isSubmitting && !isPreviewing;
+  const plan = actionData?.plan;
 
   // Modal state
   const [modalOpen, setModalOpen] = useState(false);
   const [expandedColors, setExpandedColors] = useState<Record<string, boolean>>({});
+  const [chosenSplit, setSplit] = useState<string>("single");
+  const split = existingSplit || chosenSplit;
+  const [optionProfileId, setOptionProfileId] = useState(() => profiles.find(p => p.isDefault)?.id || "");
+  const selectedProfile = profiles.find(p => p.id === optionProfileId);
+  const [imageKinds, setImageKinds] = useState<ImageKind[]>(DEFAULT_IMAGE_KINDS);
 
   // Markup state: per-size { type: 'percentage'|'fixed', value: number }
   const [sizeMarkups, setSizeMarkups] = useState<Record<string, { type: string; value: string }>>({});
@@ -162,7 +227,7 @@ export default function ImportPage() {
 
   useEffect(() => {
     if (actionData?.success) {
-      shopify.toast.show("Product imported successfully!");
+      shopify.toast.show(actionData.mode === "updated" ? "Product updated successfully!" : "Product imported successfully!");
       setModalOpen(false);
     } else if (actionData?.error) {
       shopify.toast.show(actionData.error, { isError: true });
@@ -180,22 +245,51 @@ export default function ImportPage() {
     return groups;
   }, [products]);
 
-  // Get unique sizes (sorted)
+  // Get unique sizes, in the order the import will create them
   const uniqueSizes = useMemo(() => {
-    const sizeOrder = ['xxs', 'xs', 's', 'm', 'l', 'xl', '2xl', '3xl', '4xl', '5xl'];
-    const sizes = [...new Set(products.map((p: any) => p.sizeName))];
-    return sizes.sort((a, b) => {
-      const aIdx = sizeOrder.indexOf(a.toLowerCase().trim());
-      const bIdx = sizeOrder.indexOf(b.toLowerCase().trim());
-      if (aIdx >= 0 && bIdx >= 0) return aIdx - bIdx;
-      if (aIdx >= 0) return -1;
-      if (bIdx >= 0) return 1;
-      return a.localeCompare(b);
+    const sizes = new Map<string, string>();
+    products.forEach((p: any) => {
+      if (!sizes.has(p.sizeName)) sizes.set(p.sizeName, p.sizeOrder || "");
     });
-  }, [products]);
+    const entries = Array.from(sizes, ([name, sizeOrder]) => ({ name, sizeOrder }));
+    return sortSizes(entries, selectedProfile?.sizeOrder).map(s => s.name);
+  }, [products, selectedProfile]);
 
   const uniqueColors = Object.keys(colorGroups).length;
 
+  // What to import: starts from the style's last selection, else everything
+  const allColors = useMemo(() => Object.keys(colorGroups), [colorGroups]);
+  const allWarehouses = useMemo(
+    () => Array.from(new Set<string>(products.flatMap((p: any) => (p.warehouses || []).map((w: any) => w.warehouseAbbr)))).sort(),
+    [products]
+  );
+  const [selectedColors, setSelectedColors] = useState<string[]>(() =>
+    existingSelection?.colors.length ? existingSelection.colors : Array.from(new Set<string>(products.map((p: any) => p.colorName || "Unknown"))));
+  const [selectedSizes, setSelectedSizes] = useState<string[]>(() =>
+    existingSelection?.sizes.length ? existingSelection.sizes : Array.from(new Set<string>(products.map((p: any) => p.sizeName))));
+  const [selectedWarehouses, setSelectedWarehouses] = useState<string[]>(() =>
+    existingSelection?.warehouses.length ? existingSelection.warehouses : allWarehouses);
+  const [minStock, setMinStock] = useState(String(existingSelection?.minStock || 0));
+
+  const selection = useMemo((): ImportSelection => {
+    // Everything selected is sent as an empty list, so colors S&S adds later are imported too
+    const subset = (chosen: string[], all: string[]) => (all.every(v => chosen.includes(v)) ? [] : chosen);
+    return {
+      colors: subset(selectedColors, allColors),
+      sizes: subset(selectedSizes, uniqueSizes),
+      warehouses: subset(selectedWarehouses, allWarehouses),
+      minStock: Math.max(0, parseInt(minStock) || 0),
+    };
+  }, [selectedColors, selectedSizes, selectedWarehouses, minStock, allColors, uniqueSizes, allWarehouses]);
+
+  const selectedSkuCount = useMemo(() => products.filter((p: any) => {
+    if (!selectedColors.includes(p.colorName || "Unknown") || !selectedSizes.includes(p.sizeName)) return false;
+    const stock = p.warehouses
+      ? p.warehouses.filter((w: any) => selectedWarehouses.includes(w.warehouseAbbr)).reduce((sum: number, w: any) => sum + (w.qty || 0), 0)
+      : p.qty || 0;
+    return stock >= selection.minStock;
+  }).length, [products, selectedColors, selectedSizes, selectedWarehouses, selection.minStock]);
+
   // Initialize markups for all sizes
   useEffect(() => {
     if (uniqueSizes.length > 0 && Object.keys(sizeMarkups).length === 0) {
@@ -231,7 +325,7 @@ export default function ImportPage() {
     setExpandedColors(prev => ({ ...prev, [colorName]: !prev[colorName] }));
   }, []);
 
-  const handleImport = useCallback(() => {
+  const submitImport = useCallback((intent: "import" | "preview") => {
     // Convert to numeric values for backend
     const markupPayload: Record<string, { type: string; value: number }> = {};
     Object.entries(sizeMarkups).forEach(([size, data]) => {
@@ -239,10 +333,31 @@ export default function ImportPage() {
     });
 
     submit(
-      { styleId: styleId || "", markupData: JSON.stringify(markupPayload) },
+      { styleId: styleId || "", markupData: JSON.stringify(markupPayload), intent, split, optionProfileId, selection: JSON.stringify(selection), images: imageKinds.join(",") },
       { method: "post" }
     );
-  }, [sizeMarkups, styleId, submit]);
+  }, [sizeMarkups, styleId, split, optionProfileId, selection, imageKinds, submit]);
+
+  const handleImport = useCallback(() => submitImport("import"), [submitImport]);
+  const handlePreview = useCallback(() => submitImport("preview"), [submitImport]);
+
+  const handleDownloadPlan = useCallback(() => {
+    if (!plan) return;
+    const blob = new Blob([importPlanCsv(plan)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `import-plan-${plan.styleId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [plan]);
+
+  const planCounts = useMemo(() => ({
+    create: plan?.variants.filter(v => v.action === "create").length ?? 0,
+    update: plan?.variants.filter(v => v.action === "update").length ?? 0,
+    unchanged: plan?.variants.filter(v => v.action === "unchanged").length ?? 0,
+    newImages: plan?.images.filter(i => i.status === "new").length ?? 0,
+  }), [plan]);
 
   if (!styleId) {
     return (
@@ -270,8 +385,30 @@ export default function ImportPage() {
       <BlockStack gap="600">
         {/* Success Banner */}
         {actionData?.success && (
-          <Banner title="Product imported successfully!" tone="success">
-            <p>Your product has been created in Shopify.</p>
+          <Banner title={actionData.mode === "updated" ? "Product updated successfully!" : "Product imported successfully!"} tone="success">
+            <p>{actionData.message || "Your product has been created in Shopify."}</p>
+          </Banner>
+        )}
+        {actionData?.success && !!actionData.failedImages?.length && (
+          <Banner title={`${actionData.failedImages.length} images could not be added`} tone="warning">
+            <BlockStack gap="100">
+              {actionData.failedImages.map(f => (
+                <Text as="p" variant="bodySm" key={`${f.url}-${f.color}`}>
+                  {f.color ? `${f.color} · ` : ""}{imageKindLabel(f.kind)}: {f.error}
+                </Text>
+              ))}
+              <Text as="p" variant="bodySm" tone="subdued">Importing the style again retries the colors that have no image.</Text>
+            </BlockStack>
+          </Banner>
+        )}
+
+        {/* Already imported */}
+        {existingProductId && !actionData?.success && (
+          <Banner title="Already imported" tone="info">
+            <p>
+              This style is already in your store. Importing again updates the existing product with new
+              colors, sizes, prices and images from SSActiveWear. Your title, description, tags and images are kept.
+            </p>
           </Banner>
         )}
 
@@ -291,7 +428,7 @@ export default function ImportPage() {
                 <Box background="bg-surface-secondary" padding="600" borderRadius="200">
                   <div style={{ display: "flex", justifyContent: "center" }}>
                     <Thumbnail
-                      source={style?.styleImage ? SSActiveWearClient.buildImageUrl(style.styleImage, 'medium') : `${R2_IMAGE_BASE}/placeholder.jpg`}
+                      source={style?.styleImage ? SSActiveWearClient.buildImageUrl(style.styleImage, 'medium') : PLACEHOLDER_IMAGE}
                       alt={style?.title || "Product"}
                       size="large"
                     />
@@ -345,7 +482,7 @@ export default function ImportPage() {
                   onClick={() => setModalOpen(true)}
                   disabled={actionData?.success}
                 >
-                  Import to Shopify
+                  {existingProductId ? "Update from SSActiveWear" : "Import to Shopify"}
                 </Button>
               </BlockStack>
             </Card>
@@ -452,12 +589,13 @@ export default function ImportPage() {
         onClose={() => setModalOpen(false)}
         title={`Import: ${style?.title || "Product"}`}
         primaryAction={{
-          content: isImporting ? "Importing..." : "Confirm Import",
+          content: isImporting ? (existingProductId ? "Updating..." : "Importing...") : (existingProductId ? "Confirm Update" : "Confirm Import"),
           loading: isImporting,
           onAction: handleImport,
-          disabled: actionData?.success,
+          disabled: actionData?.success || selectedSkuCount === 0,
         }}
         secondaryActions={[
+          { content: "Preview Plan", onAction: handlePreview, loading: isPreviewing, disabled: isImporting },
           { content: "Cancel", onAction: () => setModalOpen(false) },
         ]}
       >
@@ -466,13 +604,99 @@ export default function ImportPage() {
             {/* Summary */}
             <Banner tone="info">
               <p>
-                <strong>{products.length}</strong> variants across{" "}
-                <strong>{uniqueColors}</strong> colors and{" "}
-                <strong>{uniqueSizes.length}</strong> sizes will be imported.
+                <strong>{selectedSkuCount}</strong> of {products.length} variants across{" "}
+                <strong>{selectedColors.length}</strong> colors and{" "}
+                <strong>{selectedSizes.length}</strong> sizes will be imported.
                 Configure per-size markup below before importing.
               </p>
             </Banner>
 
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingMd">What to import</Text>
+              <InlineStack gap="800" align="start" blockAlign="start" wrap>
+                <BlockStack gap="100">
+                  <div style={{ maxHeight: "240px", overflowY: "auto" }}>
+                    <ChoiceList
+                      allowMultiple
+                      title={`Colors (${selectedColors.length} of ${allColors.length})`}
+                      choices={allColors.map(c => ({ label: c, value: c }))}
+                      selected={selectedColors}
+                      onChange={setSelectedColors}
+                    />
+                  </div>
+                  <InlineStack gap="200">
+                    <Button variant="plain" onClick={() => setSelectedColors(allColors)}>All</Button>
+                    <Button variant="plain" onClick={() => setSelectedColors([])}>None</Button>
+                  </InlineStack>
+                </BlockStack>
+                <ChoiceList
+                  allowMultiple
+                  title="Sizes"
+                  choices={uniqueSizes.map(size => ({ label: size, value: size }))}
+                  selected={selectedSizes}
+                  onChange={setSelectedSizes}
+                />
+                {allWarehouses.length > 0 && (
+                  <ChoiceList
+                    allowMultiple
+                    title="Count stock from"
+                    choices={allWarehouses.map(w => ({ label: w, value: w }))}
+                    selected={selectedWarehouses}
+                    onChange={setSelectedWarehouses}
+                  />
+                )}
+              </InlineStack>
+              <TextField
+                label="Minimum stock"
+                type="number"
+                min={0}
+                value={minStock}
+                onChange={setMinStock}
+                autoComplete="off"
+                helpText="SKUs with less stock in the selected warehouses are skipped"
+              />
+              {existingProductId && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  The selection is kept for later updates. Variants already in your store that are no longer selected go to zero stock.
+                </Text>
+              )}
+            </BlockStack>
+
+            <Select
+              label="Import as"
+              options={SPLIT_OPTIONS}
+              value={split}
+              onChange={setSplit}
+              disabled={!!existingSplit}
+              helpText={existingSplit
+                ? "Kept from the first import of this style"
+                : "Styles with many colors can be split into linked products, one per color or color family"}
+            />
+
+            <ChoiceList
+              allowMultiple
+              title="Images per color"
+              choices={IMAGE_KIND_OPTIONS.map(o => ({
+                ...o,
+                helpText: o.value === "onModel" ? "Front, side and back photos on a model" : undefined,
+              }))}
+              selected={imageKinds}
+              onChange={kinds => setImageKinds(kinds.length > 0 ? (kinds as ImageKind[]) : DEFAULT_IMAGE_KINDS)}
+            />
+
+            {profiles.length > 0 && (
+              <Select
+                label="Option profile"
+                options={[
+                  { label: "S&S defaults", value: "" },
+                  ...profiles.map(p => ({ label: p.isDefault ? `${p.name} (default)` : p.name, value: p.id ?? "" })),
+                ]}
+                value={optionProfileId}
+                onChange={setOptionProfileId}
+                helpText={`Options: ${selectedProfile?.optionNames.color ?? "Color"} / ${selectedProfile?.optionNames.size ?? "Size"}.${existingProductId ? " Products already in your store keep their option names." : ""}`}
+              />
+            )}
+
             {isImporting && (
               <BlockStack gap="200">
                 <Text as="p" variant="bodySm" tone="subdued" alignment="center">
@@ -482,6 +706,116 @@ export default function ImportPage() {
               </BlockStack>
             )}
 
+            {/* Dry-run plan */}
+            {plan && (
+              <Card>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <Text as="h3" variant="headingMd">🔍 Import Plan (dry run)</Text>
+                    <Button size="slim" onClick={handleDownloadPlan}>Download CSV</Button>
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {plan.split !== "single"
+                      ? `${plan.products.length} linked products`
+                      : plan.mode === "update" ? "Updates the existing product" : "Creates a new product"} ·{" "}
+                    {plan.priceRule ? `Priced by "${plan.priceRule.name}"` : "No price rule"} ·{" "}
+                    {plan.colors.length} colors × {plan.sizes.length} sizes. Run the preview again after changing markups.
+                  </Text>
+                  {plan.split !== "single" && (
+                    <BlockStack gap="100">
+                      {plan.products.map(p => (
+                        <InlineStack key={p.title} gap="200" blockAlign="center">
+                          <Badge tone={p.mode === "update" ? "info" : "success"}>{p.mode === "update" ? "Update" : "Create"}</Badge>
+                          <Text as="span" variant="bodySm">{p.title} · {p.variantCount} variants</Text>
+                        </InlineStack>
+                      ))}
+                    </BlockStack>
+                  )}
+                  <InlineStack gap="200" wrap>
+                    <Badge tone="success">{`${planCounts.create} new variants`}</Badge>
+                    {plan.mode === "update" && <Badge tone="info">{`${planCounts.update} price changes`}</Badge>}
+                    {plan.mode === "update" && <Badge>{`${planCounts.unchanged} unchanged`}</Badge>}
+                    {plan.retired.length > 0 && <Badge tone="warning">{`${plan.retired.length} discontinued`}</Badge>}
+                    {plan.dropped.length > 0 && <Badge tone="attention">{`${plan.dropped.length} skipped`}</Badge>}
+                    {plan.unselected > 0 && <Badge>{`${plan.unselected} not selected`}</Badge>}
+                    <Badge>{`${planCounts.newImages} new images`}</Badge>
+                  </InlineStack>
+                  {plan.warnings.length > 0 && (
+                    <Banner tone="warning">
+                      <BlockStack gap="100">
+                        {plan.warnings.map(w => <Text as="p" key={w}>{w}</Text>)}
+                      </BlockStack>
+                    </Banner>
+                  )}
+                  <Text as="p" variant="bodySm">
+                    <strong>{plan.optionNames.color}:</strong> {plan.colors.join(", ")}
+                  </Text>
+                  <Text as="p" variant="bodySm">
+                    <strong>{plan.optionNames.size}:</strong> {plan.sizes.join(", ")}
+                  </Text>
+                  <Text as="p" variant="bodySm">
+                    <strong>Spec metafields:</strong>{" "}
+                    {plan.specMetafields.length > 0 ? plan.specMetafields.map(m => m.key).join(", ") : "none"}
+                  </Text>
+                  <details>
+                    <summary style={{ cursor: "pointer", fontSize: "13px" }}>
+                      Description{plan.mode === "update" ? " (new products only - existing products keep theirs)" : ""}
+                    </summary>
+                    <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+                      <div style={{ fontSize: "13px" }} dangerouslySetInnerHTML={{ __html: plan.descriptionHtml }} />
+                    </Box>
+                  </details>
+                  <div style={{ maxHeight: "300px", overflowY: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+                      <thead>
+                        <tr style={{ borderBottom: "2px solid #e5e7eb", position: "sticky", top: 0, background: "#fff" }}>
+                          <th style={{ padding: "6px 8px", textAlign: "left" }}>Action</th>
+                          <th style={{ padding: "6px 8px", textAlign: "left" }}>SKU</th>
+                          <th style={{ padding: "6px 8px", textAlign: "left" }}>Color / Size</th>
+                          <th style={{ padding: "6px 8px", textAlign: "right" }}>Cost</th>
+                          <th style={{ padding: "6px 8px", textAlign: "right" }}>Price</th>
+                          <th style={{ padding: "6px 8px", textAlign: "right" }}>Compare At</th>
+                          <th style={{ padding: "6px 8px", textAlign: "right" }}>Stock</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {plan.variants.map((v, idx) => (
+                          <tr key={v.sku} style={{ borderBottom: "1px solid #f3f4f6", backgroundColor: idx % 2 === 0 ? "#fafafa" : "#fff" }}>
+                            <td style={{ padding: "5px 8px" }}>{v.action}</td>
+                            <td style={{ padding: "5px 8px", fontFamily: "monospace", fontSize: "11px" }}>{v.sku}</td>
+                            <td style={{ padding: "5px 8px" }}>{v.color} / {v.size}</td>
+                            <td style={{ padding: "5px 8px", textAlign: "right", fontFamily: "monospace" }}>${v.cost.toFixed(2)}</td>
+                            <td style={{ padding: "5px 8px", textAlign: "right", fontFamily: "monospace", fontWeight: 700 }}>
+                              {v.currentPrice && Number(v.currentPrice) !== Number(v.price) && (
+                                <span style={{ color: "#6b7280", textDecoration: "line-through", marginRight: "4px" }}>${v.currentPrice}</span>
+                              )}
+                              ${v.price}
+                            </td>
+                            <td style={{ padding: "5px 8px", textAlign: "right", fontFamily: "monospace" }}>{v.compareAtPrice ? `$${v.compareAtPrice}` : "—"}</td>
+                            <td style={{ padding: "5px 8px", textAlign: "right" }}>{v.stock}</td>
+                          </tr>
+                        ))}
+                        {plan.dropped.map(d => (
+                          <tr key={`dropped-${d.sku}`} style={{ borderBottom: "1px solid #f3f4f6", color: "#b45309" }}>
+                            <td style={{ padding: "5px 8px" }}>skip</td>
+                            <td style={{ padding: "5px 8px", fontFamily: "monospace", fontSize: "11px" }}>{d.sku}</td>
+                            <td style={{ padding: "5px 8px" }} colSpan={5}>{d.color} / {d.size} — {d.reason}</td>
+                          </tr>
+                        ))}
+                        {plan.retired.map(r => (
+                          <tr key={`retired-${r.variantId}`} style={{ borderBottom: "1px solid #f3f4f6", color: "#b91c1c" }}>
+                            <td style={{ padding: "5px 8px" }}>retire</td>
+                            <td style={{ padding: "5px 8px", fontFamily: "monospace", fontSize: "11px" }}>{r.sku}</td>
+                            <td style={{ padding: "5px 8px" }} colSpan={5}>{r.reason}, stock set to 0</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </BlockStack>
+              </Card>
+            )}
+
             {/* Per-Size Markup Configuration */}
             <Card>
               <BlockStack gap="400">
@@ -25,7 +25,8 @@ import {
 } from "@shopify/polaris-icons";
 import { useCallback } from "react";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { ImporterService } from "../services/importer.server";
+import { getSSClient } from "../services/ssClient.server";
 import { authenticate } from "../shopify.server";
 
 interface SyncLog {
@@ -54,6 +55,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Get imported products count
   const productsCount = await prisma.productMap.count({ where: { shop } });
 
+  // Products imported before variants were mapped (order lines fall back to Shopify SKUs for these)
+  const unmappedCount = await prisma.productMap.count({ where: { shop, variants: { none: {} } } });
+
   // Get last sync info
   const lastSync = syncLogs[0];
 
@@ -90,6 +94,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       completedAt: l.completedAt?.toISOString() || null,
     })),
     productsCount,
+    unmappedCount,
     lastSync: lastSync ? {
       status: lastSync.status,
       productsUpdated: lastSync.productsUpdated,
@@ -154,7 +159,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const errors: string[] = [];
 
     // Initialize SSActiveWear client
-    const ssClient = new SSActiveWearClient();
+    const ssClient = await getSSClient(shop);
 
     // Get first location once (for all products)
     let locationId: string | null = null;
@@ -346,18 +351,32 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
   }
 
+  if (action === "backfillVariantMaps") {
+    try {
+      const result = await new ImporterService().backfillVariantMaps(admin, shop);
+      return json({
+        success: result.failed === 0,
+        message: `Mapped ${result.variants} variants across ${result.products} products` +
+          (result.failed > 0 ? `, ${result.failed} failed: ${result.errors.slice(0, 3).join(" | ")}` : ""),
+      });
+    } catch (error: any) {
+      console.error("[InventorySync] VariantMap backfill failed:", error);
+      return json({ success: false, message: `Variant mapping failed: ${error?.message || error}` });
+    }
+  }
+
   return json({ success: false, message: "Unknown action" });
 };
 
 export default function InventorySyncPage() {
-  const { syncLogs, productsCount, lastSync, isRunning, recentProducts } = useLoaderData<typeof loader>();
+  const { syncLogs, productsCount, unmappedCount, lastSync, isRunning, recentProducts } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const submit = useSubmit();
 
   const isLoading = navigation.state === "submitting";
 
-  const handleSync = useCallback((type: 'syncAll' | 'syncIncremental') => {
+  const handleSync = useCallback((type: 'syncAll' | 'syncIncremental' | 'backfillVariantMaps') => {
     const formData = new FormData();
     formData.set("action", type);
     submit(formData, { method: "POST" });
@@ -501,6 +520,24 @@ export default function InventorySyncPage() {
                 </Card>
               </Layout.Section>
             </Layout>
+            <Divider />
+            <InlineStack align="space-between" blockAlign="center">
+              <BlockStack gap="100">
+                <Text as="h3" variant="headingSm">Variant Mapping</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {unmappedCount > 0
+                    ? `${unmappedCount} products were imported before variants were mapped to S&S SKUs. Orders for them are matched by Shopify SKU only.`
+                    : "All imported variants are mapped to their S&S SKUs, so orders still reach S&S if you edit SKUs in Shopify."}
+                </Text>
+              </BlockStack>
+              <Button
+                onClick={() => handleSync('backfillVariantMaps')}
+                loading={isLoading}
+                disabled={productsCount === 0}
+              >
+                Rebuild Variant Mapping
+              </Button>
+            </InlineStack>
           </BlockStack>
         </Card>
 
@@ -0,0 +1,213 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import { TitleBar } from "@shopify/app-bridge-react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  EmptyState,
+  IndexTable,
+  InlineStack,
+  Layout,
+  Page,
+  Text,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import { useMemo } from "react";
+import { MATCH_METHOD_LABELS, type LinkMatchMethod, type LinkProposal, type LinkScan } from "../services/productLinks";
+import { productLinks } from "../services/productLinks.server";
+import { authenticate } from "../shopify.server";
+
+interface LoaderData {
+  scan: LinkScan | null;
+  error: string | null;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const params = new URL(request.url).searchParams;
+  if (!params.has("scan")) return json<LoaderData>({ scan: null, error: null });
+
+  try {
+    const scan = await productLinks.scan(admin, session.shop, params.get("cursor") || null);
+    return json<LoaderData>({ scan, error: null });
+  } catch (error) {
+    return json<LoaderData>({ scan: null, error: error instanceof Error ? error.message : "Scan failed" });
+  }
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  try {
+    const proposals: LinkProposal[] = JSON.parse(String(formData.get("proposals") || "[]"));
+    if (proposals.length === 0) return json({ success: false, message: "Select at least one product to link" });
+    const result = await productLinks.link(session.shop, proposals);
+    const message = `Linked ${result.products} products (${result.variants} variants)`
+      + (result.skipped.length ? `. Skipped: ${result.skipped.join("; ")}` : "");
+    return json({ success: result.products > 0, message });
+  } catch (error) {
+    return json({ success: false, message: error instanceof Error ? error.message : "Linking failed" });
+  }
+};
+
+function methodBadges(proposal: LinkProposal) {
+  const counts = new Map<LinkMatchMethod, number>();
+  proposal.variants.forEach(v => counts.set(v.method, (counts.get(v.method) || 0) + 1));
+  return Array.from(counts.entries()).map(([method, count]) => (
+    <Badge key={method} tone={method === "sku" ? "success" : "info"}>{`${MATCH_METHOD_LABELS[method]}: ${count}`}</Badge>
+  ));
+}
+
+export default function LinkProductsPage() {
+  const { scan, error } = useLoaderData<LoaderData>();
+  const actionData = useActionData<typeof action>();
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const proposals = useMemo(() => scan?.proposals || [], [scan]);
+  const rows = useMemo(() => proposals.map(p => ({ id: p.productId })), [proposals]);
+  const { selectedResources, allResourcesSelected, handleSelectionChange, clearSelection } = useIndexResourceState(rows);
+  const isLinking = nav.state === "submitting";
+  const isScanning = nav.state === "loading" && !isLinking;
+
+  const startScan = (cursor?: string | null) => {
+    const next = new URLSearchParams({ scan: "1" });
+    if (cursor) next.set("cursor", cursor);
+    setSearchParams(next);
+  };
+
+  const handleLink = () => {
+    const chosen = proposals.filter(p => allResourcesSelected || selectedResources.includes(p.productId));
+    submit({ proposals: JSON.stringify(chosen) }, { method: "post" });
+    clearSelection();
+  };
+
+  const rowMarkup = proposals.map((proposal, index) => (
+    <IndexTable.Row id={proposal.productId} key={proposal.productId} selected={selectedResources.includes(proposal.productId)} position={index}>
+      <IndexTable.Cell>
+        <Text as="span" variant="bodyMd" fontWeight="semibold">{proposal.title}</Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <BlockStack gap="050">
+          <Text as="span" variant="bodyMd">{proposal.styleName}</Text>
+          <Text as="span" variant="bodySm" tone="subdued">Style {proposal.styleId}</Text>
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <BlockStack gap="050">
+          <Text as="span" variant="bodyMd">
+            {proposal.variants.length} of {proposal.variants.length + proposal.unmatched + proposal.otherStyles} variants
+          </Text>
+          <Text as="span" variant="bodySm" tone="subdued">
+            {proposal.variants.slice(0, 3).map(v => `${v.title} → ${v.ssSku}`).join(", ")}
+            {proposal.variants.length > 3 ? ", …" : ""}
+          </Text>
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <InlineStack gap="100" wrap>{methodBadges(proposal)}</InlineStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <BlockStack gap="050">
+          {proposal.unmatched > 0 && <Badge tone="attention">{`${proposal.unmatched} not found on S&S`}</Badge>}
+          {proposal.otherStyles > 0 && <Badge tone="warning">{`${proposal.otherStyles} of another style`}</Badge>}
+        </BlockStack>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page>
+      <TitleBar title="Link Products" />
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {actionData?.message && (
+              <Banner tone={actionData.success ? "success" : "critical"}>
+                <p>{actionData.message}</p>
+              </Banner>
+            )}
+            {error && (
+              <Banner tone="critical">
+                <p>{error}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Link existing products to S&amp;S</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Products created by hand or by another app are not known to the app, so their orders are not sent to
+                  S&amp;S and their stock is not synced. Scan the shop to match their variants to S&amp;S by SKU,
+                  barcode (GTIN) or your S&amp;S cross references, review the matches and link them. Nothing in Shopify is changed.
+                </Text>
+                <InlineStack gap="200">
+                  <Button variant="primary" onClick={() => startScan()} loading={isScanning && !searchParams.get("cursor")}>
+                    {scan ? "Scan again" : "Scan products"}
+                  </Button>
+                  {scan?.nextCursor && (
+                    <Button onClick={() => startScan(scan.nextCursor)} loading={isScanning && !!searchParams.get("cursor")}>
+                      Scan next products
+                    </Button>
+                  )}
+                </InlineStack>
+                {scan && (
+                  <Text as="p" variant="bodySm">
+                    Scanned {scan.scanned} products: {scan.alreadyLinked} already linked, {scan.proposals.length} matched,
+                    {" "}{scan.noMatch.length} without a match.
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+
+            {scan && (
+              <Card padding="0">
+                {proposals.length === 0 ? (
+                  <EmptyState heading="No products to link" image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png">
+                    <p>None of the unlinked products on this page matched an S&amp;S product.</p>
+                  </EmptyState>
+                ) : (
+                  <IndexTable
+                    resourceName={{ singular: "product", plural: "products" }}
+                    itemCount={proposals.length}
+                    selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+                    onSelectionChange={handleSelectionChange}
+                    promotedBulkActions={[{ content: isLinking ? "Linking…" : "Link selected", onAction: handleLink }]}
+                    headings={[
+                      { title: "Shopify product" },
+                      { title: "S&S style" },
+                      { title: "Matched" },
+                      { title: "Matched by" },
+                      { title: "Warnings" },
+                    ]}
+                  >
+                    {rowMarkup}
+                  </IndexTable>
+                )}
+              </Card>
+            )}
+
+            {scan && scan.noMatch.length > 0 && (
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h2" variant="headingMd">Without a match</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    No variant SKU or barcode of these products is known to S&amp;S. Set their SKUs to S&amp;S SKUs, or add
+                    cross references in your S&amp;S account, and scan again.
+                  </Text>
+                  {scan.noMatch.map(p => (
+                    <Text as="p" variant="bodySm" key={p.productId}>{p.title}</Text>
+                  ))}
+                </BlockStack>
+              </Card>
+            )}
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -26,6 +26,8 @@ import {
 } from "@shopify/polaris-icons";
 import { useCallback, useState } from "react";
 import prisma from "../db.server";
+import { FORMULA_FUNCTIONS, FORMULA_VARIABLES, SAMPLE_FORMULA_CONTEXT, validateFormula } from "../services/priceFormula";
+import { priceWithRule, type PricingRule } from "../services/pricing";
 import { authenticate } from "../shopify.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -47,9 +49,23 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     select: { categoryId: true, name: true },
   });
 
-  return json({ priceRules, brands, categories });
+  // How many imported products each rule priced
+  const usage = await prisma.productMap.groupBy({
+    by: ["priceRuleId"],
+    where: { shop, priceRuleId: { not: null } },
+    _count: { _all: true },
+  });
+  const productCounts: Record<string, number> = {};
+  usage.forEach(u => { if (u.priceRuleId) productCounts[u.priceRuleId] = u._count._all; });
+
+  return json({ priceRules, brands, categories, productCounts });
 };
 
+function parseNumber(value: FormDataEntryValue | null, fallback: number): number {
+  const parsed = parseFloat(value as string);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
@@ -57,14 +73,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const action = formData.get("action") as string;
 
   if (action === "create" || action === "update") {
+    const type = formData.get("type") as string;
+    const formula = type === "formula" ? ((formData.get("formula") as string) || "").trim() : null;
+    if (formula !== null) {
+      const check = validateFormula(formula);
+      if (!check.ok) {
+        return json({ success: false, message: `Invalid formula: ${check.error}` });
+      }
+    }
+
     const data = {
       shop,
       name: formData.get("name") as string,
-      type: formData.get("type") as string,
+      type,
       value: parseFloat(formData.get("value") as string) || 0,
+      formula,
       applyTo: formData.get("applyTo") as string,
       applyToValue: formData.get("applyToValue") as string || null,
-      roundTo: parseFloat(formData.get("roundTo") as string) || 0.99,
+      roundTo: parseNumber(formData.get("roundTo"), 0.99), // 0 is valid (whole dollars)
       minMargin: parseFloat(formData.get("minMargin") as string) || 0,
       isActive: formData.get("isActive") === "true",
       priority: parseInt(formData.get("priority") as string) || 0,
@@ -105,7 +131,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function PriceRulesPage() {
-  const { priceRules, brands, categories } = useLoaderData<typeof loader>();
+  const { priceRules, brands, categories, productCounts } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const submit = useSubmit();
@@ -117,6 +143,7 @@ export default function PriceRulesPage() {
   const [name, setName] = useState("");
   const [type, setType] = useState("percentage");
   const [value, setValue] = useState("25");
+  const [formula, setFormula] = useState("");
   const [applyTo, setApplyTo] = useState("all");
   const [applyToValue, setApplyToValue] = useState("");
   const [roundTo, setRoundTo] = useState("0.99");
@@ -130,6 +157,7 @@ export default function PriceRulesPage() {
     setName("");
     setType("percentage");
     setValue("25");
+    setFormula("");
     setApplyTo("all");
     setApplyToValue("");
     setRoundTo("0.99");
@@ -149,6 +177,7 @@ export default function PriceRulesPage() {
     setName(rule.name);
     setType(rule.type);
     setValue(rule.value.toString());
+    setFormula(rule.formula || "");
     setApplyTo(rule.applyTo);
     setApplyToValue(rule.applyToValue || "");
     setRoundTo(rule.roundTo.toString());
@@ -165,6 +194,7 @@ export default function PriceRulesPage() {
     formData.set("name", name);
     formData.set("type", type);
     formData.set("value", value);
+    formData.set("formula", formula);
     formData.set("applyTo", applyTo);
     formData.set("applyToValue", applyToValue);
     formData.set("roundTo", roundTo);
@@ -174,7 +204,7 @@ export default function PriceRulesPage() {
     submit(formData, { method: "POST" });
     setModalOpen(false);
     resetForm();
-  }, [editingRule, name, type, value, applyTo, applyToValue, roundTo, minMargin, isActive, priority, submit, resetForm]);
+  }, [editingRule, name, type, value, formula, applyTo, applyToValue, roundTo, minMargin, isActive, priority, submit, resetForm]);
 
   const handleDelete = useCallback((ruleId: string) => {
     if (!confirm("Delete this price rule?")) return;
@@ -196,6 +226,7 @@ export default function PriceRulesPage() {
       case "percentage": return "Percentage Markup";
       case "fixed": return "Fixed Amount";
       case "multiplier": return "Multiplier";
+      case "formula": return "Formula";
       default: return t;
     }
   };
@@ -207,15 +238,18 @@ export default function PriceRulesPage() {
     return a;
   };
 
-  const calculateExample = (t: string, v: number) => {
-    const cost = 10;
-    let price = cost;
-    if (t === "percentage") price = cost * (1 + v / 100);
-    else if (t === "fixed") price = cost + v;
-    else if (t === "multiplier") price = cost * v;
-    return price.toFixed(2);
+  // Same calculation the importer uses, including rounding and the margin floor
+  const calculateExample = (rule: PricingRule) => {
+    try {
+      const price = priceWithRule(SAMPLE_FORMULA_CONTEXT.piecePrice, rule, undefined, SAMPLE_FORMULA_CONTEXT);
+      return price === null ? "—" : price.toFixed(2);
+    } catch {
+      return "—";
+    }
   };
 
+  const formulaCheck = type === "formula" ? validateFormula(formula) : null;
+
   return (
     <Page
       backAction={{ url: "/app" }}
@@ -234,6 +268,11 @@ export default function PriceRulesPage() {
             {actionData.message}
           </Banner>
         )}
+        {actionData && !actionData.success && (
+          <Banner tone="critical" onDismiss={() => {}}>
+            {actionData.message}
+          </Banner>
+        )}
 
         {/* How It Works */}
         <Card>
@@ -241,12 +280,14 @@ export default function PriceRulesPage() {
             <Text as="h2" variant="headingMd">How Price Rules Work</Text>
             <Text as="p" variant="bodyMd" tone="subdued">
               When you import products, these rules automatically calculate the selling price based on SSActiveWear's wholesale cost.
-              Rules are applied in priority order (lowest number first). The first matching rule is used.
+              Rules are applied in priority order (lowest number first); at equal priority a brand or category rule wins over an
+              "All Products" rule. The first matching rule is used, then prices are raised to the minimum margin and rounded.
             </Text>
             <InlineStack gap="400">
               <Badge tone="info">Percentage: Cost × (1 + %)</Badge>
               <Badge tone="info">Fixed: Cost + Amount</Badge>
               <Badge tone="info">Multiplier: Cost × Value</Badge>
+              <Badge tone="info">Formula: e.g. max(customerPrice * 1.8, mapPrice)</Badge>
             </InlineStack>
           </BlockStack>
         </Card>
@@ -283,7 +324,7 @@ export default function PriceRulesPage() {
                             )}
                           </InlineStack>
                           <Text as="p" variant="bodySm" tone="subdued">
-                            Priority: {rule.priority}
+                            Priority: {rule.priority} · Priced {productCounts[rule.id] || 0} imported products
                           </Text>
                         </BlockStack>
                         <InlineStack gap="200">
@@ -307,7 +348,7 @@ export default function PriceRulesPage() {
                         <BlockStack gap="050">
                           <Text as="span" variant="bodySm" tone="subdued">Value</Text>
                           <Text as="span" variant="bodyMd">
-                            {rule.type === "percentage" ? `${rule.value}%` : rule.type === "multiplier" ? `×${rule.value}` : `$${rule.value}`}
+                            {rule.type === "formula" ? <code>{rule.formula}</code> : rule.type === "percentage" ? `${rule.value}%` : rule.type === "multiplier" ? `×${rule.value}` : `$${rule.value}`}
                           </Text>
                         </BlockStack>
                         <BlockStack gap="050">
@@ -316,12 +357,12 @@ export default function PriceRulesPage() {
                         </BlockStack>
                         <BlockStack gap="050">
                           <Text as="span" variant="bodySm" tone="subdued">Round To</Text>
-                          <Text as="span" variant="bodyMd">.{rule.roundTo.toString().split('.')[1] || '99'}</Text>
+                          <Text as="span" variant="bodyMd">.{rule.roundTo.toFixed(2).split('.')[1]}</Text>
                         </BlockStack>
                         <BlockStack gap="050">
                           <Text as="span" variant="bodySm" tone="subdued">Example</Text>
                           <Text as="span" variant="bodyMd">
-                            $10.00 → ${calculateExample(rule.type, rule.value)}
+                            $10.00 → ${calculateExample(rule)}
                           </Text>
                         </BlockStack>
                       </InlineStack>
@@ -342,6 +383,7 @@ export default function PriceRulesPage() {
             content: editingRule ? "Save Changes" : "Create Rule",
             onAction: handleSubmit,
             loading: isLoading,
+            disabled: formulaCheck?.ok === false,
           }}
           secondaryActions={[
             {
@@ -367,19 +409,37 @@ export default function PriceRulesPage() {
                     { label: "Percentage Markup", value: "percentage" },
                     { label: "Fixed Amount", value: "fixed" },
                     { label: "Multiplier", value: "multiplier" },
+                    { label: "Formula", value: "formula" },
                   ]}
                   value={type}
                   onChange={setType}
                 />
+                {type !== "formula" && (
+                  <TextField
+                    label={type === "percentage" ? "Percentage (%)" : type === "fixed" ? "Amount ($)" : "Multiplier"}
+                    type="number"
+                    value={value}
+                    onChange={setValue}
+                    autoComplete="off"
+                    suffix={type === "percentage" ? "%" : type === "fixed" ? "$" : "×"}
+                  />
+                )}
+              </FormLayout.Group>
+
+              {type === "formula" && (
                 <TextField
-                  label={type === "percentage" ? "Percentage (%)" : type === "fixed" ? "Amount ($)" : "Multiplier"}
-                  type="number"
-                  value={value}
-                  onChange={setValue}
+                  label="Formula"
+                  value={formula}
+                  onChange={setFormula}
                   autoComplete="off"
-                  suffix={type === "percentage" ? "%" : type === "fixed" ? "$" : "×"}
+                  monospaced
+                  multiline={2}
+                  placeholder="max(customerPrice * 1.8, mapPrice)"
+                  error={formula && formulaCheck?.ok === false ? formulaCheck.error : undefined}
+                  helpText={`Variables: ${FORMULA_VARIABLES.map(v => v.name).join(", ")}. Functions: ${FORMULA_FUNCTIONS.join(", ")}. ` +
+                    `Compare text with == (e.g. size == "2XL" ? piecePrice * 2 : piecePrice * 1.8).`}
                 />
-              </FormLayout.Group>
+              )}
 
               <Select
                 label="Apply To"
@@ -455,9 +515,20 @@ export default function PriceRulesPage() {
                 <BlockStack gap="200">
                   <Text as="h4" variant="headingSm">Preview</Text>
                   <Text as="p" variant="bodyMd">
-                    If wholesale cost is <strong>$10.00</strong>, selling price will be{" "}
-                    <strong>${calculateExample(type, parseFloat(value) || 0)}</strong>
+                    If wholesale cost is <strong>${SAMPLE_FORMULA_CONTEXT.piecePrice.toFixed(2)}</strong>, selling price will be{" "}
+                    <strong>${calculateExample({
+                      type,
+                      value: parseFloat(value) || 0,
+                      formula,
+                      roundTo: parseFloat(roundTo),
+                      minMargin: parseFloat(minMargin) || 0,
+                    })}</strong>
                   </Text>
+                  {type === "formula" && (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Sample variant: {FORMULA_VARIABLES.map(v => `${v.name} = ${JSON.stringify(SAMPLE_FORMULA_CONTEXT[v.name])}`).join(", ")}
+                    </Text>
+                  )}
                 </BlockStack>
               </Card>
             </BlockStack>
@@ -29,7 +29,8 @@ import {
 } from "@shopify/polaris-icons";
 import { useCallback, useEffect, useState } from "react";
 import prisma from "../db.server";
-import { SSActiveWearClient, type SSProduct } from "../services/ssactivewear";
+import { getSSClient } from "../services/ssClient.server";
+import type { SSProduct } from "../services/ssactivewear";
 import { authenticate } from "../shopify.server";
 
 interface ColorVariant {
@@ -95,7 +96,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   let sizeOptions: Map<string, SizeOption[]> = new Map();
 
   if (styleId) {
-    const ssClient = new SSActiveWearClient();
+    const ssClient = await getSSClient(shop);
     try {
       selectedStyleProducts = await ssClient.getProducts(parseInt(styleId));
 
@@ -66,6 +66,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     const stats = apiStats.get(rl.apiName)!;
     stats.totalRequests += rl.requestCount;
+
+    // Rows are per-minute windows - only show the most recent window for each endpoint
+    if (stats.endpoints.some(ep => ep.endpoint === rl.endpoint)) return;
     stats.endpoints.push({
       endpoint: rl.endpoint,
       requestCount: rl.requestCount,
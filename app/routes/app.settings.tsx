@@ -3,10 +3,12 @@ import { json } from "@remix-run/node";
 import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
 import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
 import {
+  Badge,
   BlockStack,
   Box,
   Button,
   Card,
+  Checkbox,
   Divider,
   FormLayout,
   Icon,
@@ -20,14 +22,20 @@ import {
 import { CheckCircleIcon, XCircleIcon } from "@shopify/polaris-icons";
 import { useEffect, useState } from "react";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { optionProfiles } from "../services/optionProfiles.server";
+import { getSSAccountSettings, getSSClient, getStoredSSCredentials, saveSSAccount, testSSCredentials } from "../services/ssClient.server";
+import { warehouseLocations, type ShopLocation } from "../services/warehouseLocations.server";
+import { WAREHOUSE_NAMES, warehouseLabel } from "../services/warehouses";
 import { authenticate } from "../shopify.server";
 
 interface LoaderData {
   settings: {
     ssActivewearUser: string;
     ssActivewearKeyConfigured: boolean;
+    credentialSource: "shop" | "env" | "none";
     defaultShippingMethod: string;
+    testMode: boolean;
+    lastVerifiedAt: string | null;
     r2BucketUrl: string;
   };
   apiStatus: {
@@ -36,6 +44,9 @@ interface LoaderData {
     categoryCount: number;
   };
   uploadLocations: any[];
+  profiles: Array<{ id: string; name: string; colorOptionName: string; sizeOptionName: string; sizeOrder: string; isDefault: boolean }>;
+  shopLocations: ShopLocation[];
+  warehouseMapping: Record<string, string>; // warehouse abbreviation -> location GID
 }
 
 const SS_SHIPPING_METHODS = [
@@ -73,13 +84,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
     // Definition likely already exists
   }
 
-  // Fetch API status - client reads from SSACTIVEWEAR_USER/KEY env vars
-  const ssUser = process.env.SSACTIVEWEAR_USER || "";
-  const ssKey = process.env.SSACTIVEWEAR_KEY || "";
+  // Fetch API status using this shop's S&S account
+  const account = await getSSAccountSettings(shop);
   let apiStatus = { connected: false, message: "No credentials configured", categoryCount: 0 };
 
   try {
-    const client = new SSActiveWearClient();
+    const client = await getSSClient(shop);
     const categories = await client.getCategories();
     apiStatus = {
       connected: true,
@@ -91,10 +101,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 
   const settings = {
-    ssActivewearUser: ssUser,
-    ssActivewearKeyConfigured: !!ssKey,
-    defaultShippingMethod: process.env.SS_DEFAULT_SHIPPING || "1",
-    r2BucketUrl: process.env.R2_PUBLIC_URL || "https://img-ssa-e.techifyboost.com",
+    ssActivewearUser: account.accountNumber,
+    ssActivewearKeyConfigured: account.apiKeyConfigured,
+    credentialSource: account.source,
+    defaultShippingMethod: account.defaultShipping,
+    testMode: account.testMode,
+    lastVerifiedAt: account.lastVerifiedAt?.toISOString() || null,
+    r2BucketUrl: process.env.STORAGE_PUBLIC_URL || process.env.R2_PUBLIC_URL || "",
   };
 
   let uploadLocations = [];
@@ -107,7 +120,26 @@ export async function loader({ request }: LoaderFunctionArgs) {
     console.error("UploadLocation query failed:", e);
   }
 
-  return json<LoaderData>({ settings, apiStatus, uploadLocations });
+  const profiles = (await optionProfiles.list(shop)).map(p => ({
+    id: p.id,
+    name: p.name,
+    colorOptionName: p.colorOptionName,
+    sizeOptionName: p.sizeOptionName,
+    sizeOrder: p.sizeOrder || "",
+    isDefault: p.isDefault,
+  }));
+
+  let shopLocations: ShopLocation[] = [];
+  try {
+    shopLocations = await warehouseLocations.locations(admin);
+  } catch (e) {
+    console.error("Locations query failed:", e);
+  }
+  const warehouseMapping = Object.fromEntries(
+    (await warehouseLocations.list(shop)).map(m => [m.warehouseAbbr, m.locationId])
+  );
+
+  return json<LoaderData>({ settings, apiStatus, uploadLocations, profiles, shopLocations, warehouseMapping });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
@@ -116,6 +148,46 @@ export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
   const actionType = formData.get("action");
 
+  if (actionType === "save_ss_account") {
+    const accountNumber = String(formData.get("accountNumber") || "").trim();
+    const apiKey = String(formData.get("apiKey") || "").trim();
+    const defaultShipping = String(formData.get("defaultShipping") || "1");
+    const testMode = formData.get("testMode") === "true";
+
+    if (!accountNumber) {
+      return json({ success: false, message: "Account number is required" });
+    }
+
+    // Verify before saving - a blank key means "keep the stored one". Only the shop's own key is
+    // kept: the env fallback account's key must never be copied into a shop's row.
+    const [stored, account] = await Promise.all([getStoredSSCredentials(shop), getSSAccountSettings(shop)]);
+    const keyToTest = apiKey || (account.source === "shop" && stored?.userId === accountNumber ? stored.apiKey : "");
+    if (!keyToTest) {
+      return json({ success: false, message: "API key is required" });
+    }
+
+    const test = await testSSCredentials({ userId: accountNumber, apiKey: keyToTest });
+    if (!test.ok) {
+      return json({ success: false, message: `Credentials not saved: ${test.message}` });
+    }
+
+    try {
+      await saveSSAccount(shop, { accountNumber, apiKey: keyToTest, defaultShipping, testMode, verified: true });
+      return json({ success: true, message: "SSActiveWear account saved" });
+    } catch (e: any) {
+      return json({ success: false, message: e.message });
+    }
+  }
+
+  if (actionType === "test_ss_connection") {
+    const credentials = await getStoredSSCredentials(shop);
+    if (!credentials) {
+      return json({ success: false, message: "No credentials configured" });
+    }
+    const test = await testSSCredentials(credentials);
+    return json({ success: test.ok, message: test.message });
+  }
+
   if (actionType === "save_upload_locations") {
     const locations = JSON.parse(formData.get("locations") as string);
 
@@ -169,9 +241,112 @@ export async function action({ request }: ActionFunctionArgs) {
     }
   }
 
+  if (actionType === "save_option_profile") {
+    try {
+      const profile = await optionProfiles.save(shop, {
+        id: (formData.get("id") as string) || null,
+        name: String(formData.get("name") || ""),
+        colorOptionName: String(formData.get("colorOptionName") || ""),
+        sizeOptionName: String(formData.get("sizeOptionName") || ""),
+        sizeOrder: String(formData.get("sizeOrder") || ""),
+        isDefault: formData.get("isDefault") === "true",
+      });
+      return json({ success: true, message: `Option profile "${profile.name}" saved`, profileSaved: true });
+    } catch (e: any) {
+      return json({ success: false, message: e.message });
+    }
+  }
+
+  if (actionType === "delete_option_profile") {
+    await optionProfiles.remove(shop, String(formData.get("id")));
+    return json({ success: true, message: "Option profile deleted" });
+  }
+
+  if (actionType === "save_warehouse_locations") {
+    try {
+      await warehouseLocations.save(shop, JSON.parse(formData.get("mapping") as string));
+      return json({ success: true, message: "Warehouse locations saved" });
+    } catch (e: any) {
+      return json({ success: false, message: e.message });
+    }
+  }
+
   return json({ success: true, message: "Settings saved successfully" });
 }
 
+function SSAccountCard({ settings }: { settings: LoaderData["settings"] }) {
+  const [accountNumber, setAccountNumber] = useState(settings.ssActivewearUser);
+  const [apiKey, setApiKey] = useState("");
+  const [defaultShipping, setDefaultShipping] = useState(settings.defaultShippingMethod);
+  const [testMode, setTestMode] = useState(settings.testMode);
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const pendingAction = nav.state === "submitting" ? nav.formData?.get("action") : null;
+
+  const handleSave = () => {
+    const formData = new FormData();
+    formData.set("action", "save_ss_account");
+    formData.set("accountNumber", accountNumber);
+    formData.set("apiKey", apiKey);
+    formData.set("defaultShipping", defaultShipping);
+    formData.set("testMode", String(testMode));
+    submit(formData, { method: "post" });
+    setApiKey("");
+  };
+
+  const handleTest = () => {
+    const formData = new FormData();
+    formData.set("action", "test_ss_connection");
+    submit(formData, { method: "post" });
+  };
+
+  const sourceBadge = settings.credentialSource === "shop"
+    ? <Badge tone="success">Shop account</Badge>
+    : settings.credentialSource === "env"
+      ? <Badge tone="attention">Using server default account</Badge>
+      : <Badge tone="critical">Not configured</Badge>;
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between">
+          <Text as="h2" variant="headingMd">SSActiveWear Account</Text>
+          {sourceBadge}
+        </InlineStack>
+        <Divider />
+        <FormLayout>
+          <TextField label="Account number" value={accountNumber} onChange={setAccountNumber} autoComplete="off" />
+          <TextField
+            label="API key"
+            type="password"
+            value={apiKey}
+            onChange={setApiKey}
+            autoComplete="off"
+            placeholder={settings.ssActivewearKeyConfigured && settings.credentialSource === "shop" ? "•••••••• (leave blank to keep current key)" : ""}
+            helpText="Stored encrypted. Find it under API Access in your ssactivewear.com account."
+          />
+          <Select label="Default shipping method" options={SS_SHIPPING_METHODS} value={defaultShipping} onChange={setDefaultShipping} />
+          <Checkbox
+            label="Test mode"
+            helpText="Orders are sent with testOrder=true and cancelled by S&S automatically."
+            checked={testMode}
+            onChange={setTestMode}
+          />
+        </FormLayout>
+        {settings.lastVerifiedAt && (
+          <Text as="p" variant="bodySm" tone="subdued">
+            Last verified {new Date(settings.lastVerifiedAt).toLocaleString()}
+          </Text>
+        )}
+        <InlineStack align="end" gap="200">
+          <Button onClick={handleTest} loading={pendingAction === "test_ss_connection"}>Test connection</Button>
+          <Button variant="primary" onClick={handleSave} loading={pendingAction === "save_ss_account"}>Save account</Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
+
 function UploadLocationsCard({ initialLocations }: { initialLocations: any[] }) {
   const [locations, setLocations] = useState(initialLocations && initialLocations.length > 0 ? initialLocations : [
     { label: "Front", iconType: "front" },
@@ -230,8 +405,169 @@ function UploadLocationsCard({ initialLocations }: { initialLocations: any[] })
   );
 }
 
+const AGGREGATE = "";
+
+function WarehouseLocationsCard({ shopLocations, warehouseMapping }: { shopLocations: ShopLocation[]; warehouseMapping: Record<string, string> }) {
+  const [mapping, setMapping] = useState<Record<string, string>>(warehouseMapping);
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const isSaving = nav.state === "submitting" && nav.formData?.get("action") === "save_warehouse_locations";
+
+  useEffect(() => setMapping(warehouseMapping), [warehouseMapping]);
+
+  // Known warehouses plus any mapped one S&S has added since
+  const warehouses = Array.from(new Set([...Object.keys(WAREHOUSE_NAMES), ...Object.keys(warehouseMapping)]));
+  const defaultLocation = shopLocations[0];
+  const options = [
+    { label: `Aggregate into ${defaultLocation?.name || "the default location"}`, value: AGGREGATE },
+    ...shopLocations.map(l => ({ label: l.name, value: l.id })),
+  ];
+
+  const handleSave = () => {
+    const formData = new FormData();
+    formData.set("action", "save_warehouse_locations");
+    formData.set("mapping", JSON.stringify(Object.fromEntries(warehouses.map(abbr => [abbr, mapping[abbr] || null]))));
+    submit(formData, { method: "post" });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">Warehouse Locations</Text>
+        <Text as="p" variant="bodySm" tone="subdued">
+          The Shopify location that gets each S&amp;S warehouse&apos;s stock. Imports and inventory syncs write per-location
+          quantities; aggregated warehouses are summed into {defaultLocation?.name || "the first location"}.
+        </Text>
+        <Divider />
+        {shopLocations.length === 0 ? (
+          <Text as="p" tone="subdued">Could not load the shop&apos;s locations.</Text>
+        ) : (
+          <InlineGrid columns={3} gap="300">
+            {warehouses.map(abbr => (
+              <Select
+                key={abbr}
+                label={warehouseLabel(abbr)}
+                options={options}
+                value={mapping[abbr] && shopLocations.some(l => l.id === mapping[abbr]) ? mapping[abbr] : AGGREGATE}
+                onChange={v => setMapping(prev => ({ ...prev, [abbr]: v }))}
+              />
+            ))}
+          </InlineGrid>
+        )}
+        <InlineStack align="end">
+          <Button variant="primary" onClick={handleSave} loading={isSaving} disabled={shopLocations.length === 0}>Save Warehouse Locations</Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
+
+type ProfileDraft = Omit<LoaderData["profiles"][number], "id"> & { id: string | null };
+
+const NEW_PROFILE: ProfileDraft = { id: null, name: "", colorOptionName: "Color", sizeOptionName: "Size", sizeOrder: "", isDefault: false };
+
+function OptionProfilesCard({ profiles }: { profiles: LoaderData["profiles"] }) {
+  const [editing, setEditing] = useState<ProfileDraft | null>(null);
+  const actionData = useActionData<any>();
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const pendingAction = nav.state === "submitting" ? nav.formData?.get("action") : null;
+
+  useEffect(() => {
+    if (actionData?.profileSaved) setEditing(null);
+  }, [actionData]);
+
+  const update = (field: keyof ProfileDraft, value: string | boolean) =>
+    setEditing(prev => prev && { ...prev, [field]: value });
+
+  const handleSave = () => {
+    if (!editing) return;
+    const formData = new FormData();
+    formData.set("action", "save_option_profile");
+    formData.set("id", editing.id || "");
+    formData.set("name", editing.name);
+    formData.set("colorOptionName", editing.colorOptionName);
+    formData.set("sizeOptionName", editing.sizeOptionName);
+    formData.set("sizeOrder", editing.sizeOrder);
+    formData.set("isDefault", String(editing.isDefault));
+    submit(formData, { method: "post" });
+  };
+
+  const handleDelete = (id: string) => {
+    const formData = new FormData();
+    formData.set("action", "delete_option_profile");
+    formData.set("id", id);
+    submit(formData, { method: "post" });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between">
+          <Text as="h2" variant="headingMd">Option Profiles</Text>
+          <Button onClick={() => setEditing(NEW_PROFILE)} size="slim">Add Profile</Button>
+        </InlineStack>
+        <Text as="p" variant="bodySm" tone="subdued">
+          Names of the color and size options and the order sizes are listed in on imported products.
+          Without a profile imports use "Color" / "Size" and S&amp;S&apos;s size order.
+        </Text>
+        <Divider />
+        {profiles.length === 0 && !editing && (
+          <Text as="p" tone="subdued">No option profiles yet.</Text>
+        )}
+        {profiles.map(profile => (
+          <InlineStack key={profile.id} align="space-between" blockAlign="center">
+            <BlockStack gap="050">
+              <InlineStack gap="200">
+                <Text as="span" fontWeight="semibold">{profile.name}</Text>
+                {profile.isDefault && <Badge tone="success">Default</Badge>}
+              </InlineStack>
+              <Text as="span" variant="bodySm" tone="subdued">
+                {profile.colorOptionName} / {profile.sizeOptionName}
+                {profile.sizeOrder ? ` · ${profile.sizeOrder.split("\n").join(", ")}` : " · S&S size order"}
+              </Text>
+            </BlockStack>
+            <InlineStack gap="200">
+              <Button size="slim" onClick={() => setEditing(profile)}>Edit</Button>
+              <Button size="slim" tone="critical" variant="plain" onClick={() => handleDelete(profile.id)}
+                loading={pendingAction === "delete_option_profile" && nav.formData?.get("id") === profile.id}>
+                Delete
+              </Button>
+            </InlineStack>
+          </InlineStack>
+        ))}
+        {editing && (
+          <Box background="bg-surface-secondary" padding="300" borderRadius="200">
+            <FormLayout>
+              <TextField label="Profile name" value={editing.name} onChange={v => update("name", v)} autoComplete="off" />
+              <FormLayout.Group>
+                <TextField label="Color option name" value={editing.colorOptionName} onChange={v => update("colorOptionName", v)} autoComplete="off" placeholder="Colour" />
+                <TextField label="Size option name" value={editing.sizeOptionName} onChange={v => update("sizeOptionName", v)} autoComplete="off" placeholder="Fit" />
+              </FormLayout.Group>
+              <TextField
+                label="Size order"
+                value={editing.sizeOrder}
+                onChange={v => update("sizeOrder", v)}
+                multiline={4}
+                autoComplete="off"
+                placeholder={"YXS\nYS\nYM\nS\nM\nL"}
+                helpText="One size per line. Listed sizes come first in this order, the rest follow S&S's size order."
+              />
+              <Checkbox label="Use for imports by default" checked={editing.isDefault} onChange={v => update("isDefault", v)} />
+              <InlineStack align="end" gap="200">
+                <Button onClick={() => setEditing(null)}>Cancel</Button>
+                <Button variant="primary" onClick={handleSave} loading={pendingAction === "save_option_profile"}>Save Profile</Button>
+              </InlineStack>
+            </FormLayout>
+          </Box>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
 export default function SettingsPage() {
-  const { settings, apiStatus, uploadLocations } = useLoaderData<LoaderData>();
+  const { settings, apiStatus, uploadLocations, profiles, shopLocations, warehouseMapping } = useLoaderData<LoaderData>();
   const actionData = useActionData<any>();
   const shopify = useAppBridge();
 
@@ -256,17 +592,13 @@ export default function SettingsPage() {
           </BlockStack>
         </Card>
 
+        <SSAccountCard settings={settings} />
+
         <UploadLocationsCard initialLocations={uploadLocations} />
 
-        <Card>
-          <BlockStack gap="400">
-            <Text as="h2" variant="headingMd">General Config</Text>
-            <FormLayout>
-              <TextField label="Account" value={settings.ssActivewearUser} disabled autoComplete="off" />
-              <Select label="Shipping" options={SS_SHIPPING_METHODS} value={settings.defaultShippingMethod} disabled />
-            </FormLayout>
-          </BlockStack>
-        </Card>
+        <OptionProfilesCard profiles={profiles} />
+
+        <WarehouseLocationsCard shopLocations={shopLocations} warehouseMapping={warehouseMapping} />
       </BlockStack>
     </Page>
   );
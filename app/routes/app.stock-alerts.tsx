@@ -26,7 +26,7 @@ import {
 } from "@shopify/polaris-icons";
 import { useCallback, useState } from "react";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { getSSClient } from "../services/ssClient.server";
 import { authenticate } from "../shopify.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -130,8 +130,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const skus = alerts.map(a => a.sku);
 
     try {
-      // SSActiveWearClient reads credentials from env automatically
-      const client = new SSActiveWearClient();
+      const client = await getSSClient(shop);
 
       const inventoryData = await client.getInventory(skus);
 
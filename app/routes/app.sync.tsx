@@ -13,7 +13,8 @@ import {
 } from "@shopify/polaris";
 import { useState } from "react";
 import db from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { ssCache } from "../services/ssCache.server";
+import { getSSClient } from "../services/ssClient.server";
 import { authenticate } from "../shopify.server";
 
 interface SyncStatus {
@@ -46,7 +47,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
     orderBy: { startedAt: 'desc' },
   });
 
+  const responseCache = await ssCache.stats();
+
   return json({
+    responseCache,
     syncStatus: {
       brands: {
         count: brandsCount,
@@ -67,11 +71,17 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("action");
 
-  const client = new SSActiveWearClient();
+  const client = await getSSClient(session.shop);
+
+  if (action === "clear-response-cache") {
+    const styleId = formData.get("styleId")?.toString().trim();
+    const removed = styleId ? await ssCache.invalidateStyle(styleId) : await ssCache.invalidate();
+    return json({ success: true, message: `Cleared ${removed} cached API responses` });
+  }
 
   if (action === "sync-brands") {
     const log = await db.catalogSyncLog.create({
@@ -189,6 +199,9 @@ export async function action({ request }: ActionFunctionArgs) {
         count++;
       }
 
+      // Style details may have changed - don't serve the old ones from the response cache
+      await ssCache.invalidate("style");
+
       await db.catalogSyncLog.update({
         where: { id: log.id },
         data: { status: 'completed', itemsCount: count, completedAt: new Date() },
@@ -208,7 +221,7 @@ export async function action({ request }: ActionFunctionArgs) {
 }
 
 export default function CatalogSyncPage() {
-  const { syncStatus } = useLoaderData<typeof loader>();
+  const { syncStatus, responseCache } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
   const [isAutoRefreshing, setIsAutoRefreshing] = useState(false);
 
@@ -270,6 +283,17 @@ export default function CatalogSyncPage() {
                         </Button>
                       </fetcher.Form>,
                     ],
+                    [
+                      `API responses (${responseCache.driver})`,
+                      responseCache.entries.toString(),
+                      `${responseCache.hits} hits / ${responseCache.misses} misses`,
+                      <fetcher.Form method="post" style={{ display: "inline" }} key="response-cache">
+                        <input type="hidden" name="action" value="clear-response-cache" />
+                        <Button submit size="slim" loading={isSyncing && fetcher.formData?.get("action") === "clear-response-cache"}>
+                          Clear
+                        </Button>
+                      </fetcher.Form>,
+                    ],
                   ]}
                 />
               </BlockStack>
@@ -27,6 +27,7 @@ export default function App() {
         <Link to="/app/catalog">Browse Catalog</Link>
         <Link to="/app/favorites">Favorites</Link>
         <Link to="/app/bulk-import">Bulk Import</Link>
+        <Link to="/app/link-products">Link Products</Link>
         <Link to="/app/orders">Orders</Link>
         <Link to="/app/tracking">Tracking</Link>
         <Link to="/app/price-rules">Price Rules</Link>
@@ -44,6 +45,7 @@ export default function App() {
         <Link to="/app/activity-log">Activity Log</Link>
         <Link to="/app/staff">Staff & Roles</Link>
         <Link to="/app/export">Backup/Export</Link>
+        <Link to="/app/descriptions">Product Descriptions</Link>
         <Link to="/app/size-charts">Size Charts</Link>
         <Link to="/app/upload-locations">Upload Locations</Link>
         <Link to="/app/settings">Settings</Link>
@@ -25,7 +25,7 @@ import {
 } from "@shopify/polaris-icons";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import prisma from "../db.server";
-import { SSActiveWearClient } from "../services/ssactivewear";
+import { getSSClient } from "../services/ssClient.server";
 import { authenticate } from "../shopify.server";
 
 // Types for serialized data
@@ -182,7 +182,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     let basePrice = 0;
 
     try {
-      const ssClient = new SSActiveWearClient();
+      const ssClient = await getSSClient(shop);
       const products = await ssClient.getProducts(parseInt(ssStyleId));
       if (products && products.length > 0) {
         basePrice = products[0].piecePrice || 0;
@@ -318,15 +318,29 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
     if (!rule) return json({ success: false, message: "Rule not found" });
 
-    const ssClient = new SSActiveWearClient();
+    const ssClient = await getSSClient(shop);
     let synced = 0;
     const errors: string[] = [];
 
+    // One batched request for every style in the rule, prices only
+    const basePrices = new Map<string, number>();
+    try {
+      const ssProducts = await ssClient.getProductsByStyles(
+        rule.products.map(p => p.ssStyleId),
+        ["styleID", "piecePrice"]
+      );
+      for (const p of ssProducts) {
+        // First SKU of each style sets the base price, as before
+        if (!basePrices.has(String(p.styleID))) basePrices.set(String(p.styleID), p.piecePrice || 0);
+      }
+    } catch (e: any) {
+      return json({ success: false, message: `Could not fetch prices from S&S: ${e.message}` });
+    }
+
     for (const product of rule.products) {
       try {
-        const ssProducts = await ssClient.getProducts(parseInt(product.ssStyleId));
-        if (ssProducts && ssProducts.length > 0) {
-          const newBasePrice = ssProducts[0].piecePrice || 0;
+        if (basePrices.has(product.ssStyleId)) {
+          const newBasePrice = basePrices.get(product.ssStyleId)!;
 
           await prisma.volumePriceProduct.update({
             where: { id: product.id },
@@ -11,6 +11,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   // If this webhook already ran, the session may have been deleted previously.
   if (session) {
     await db.session.deleteMany({ where: { shop } });
+    await db.sSAccount.deleteMany({ where: { shop } });
   }
 
   return new Response();
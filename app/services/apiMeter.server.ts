@@ -0,0 +1,219 @@
+import prisma from "../db.server";
+import type { SSRequestMeter } from "./ssactivewear";
+
+export type MeteredApi = "ssactivewear" | "shopify";
+
+// Requests allowed per window. S&S enforces a per-account limit; the Shopify figure is a
+// nominal budget for the dashboard since the real limit is cost based (see throttleStatus).
+const LIMITS: Record<MeteredApi, { limitMax: number; windowMs: number }> = {
+  ssactivewear: { limitMax: Number(process.env.SS_RATE_LIMIT_PER_MINUTE) || 100, windowMs: 60_000 },
+  shopify: { limitMax: 1000, windowMs: 60_000 },
+};
+
+// Start spacing out requests once this share of the window budget is used
+const SLOWDOWN_RATIO = 0.8;
+// Flag the window as throttled once this share is used
+const THROTTLE_RATIO = 0.9;
+// Shopify: pause when the cost bucket drops below this share of its maximum
+const SHOPIFY_MIN_BUCKET_RATIO = 0.1;
+// ApiRateLimit rows are kept this long (the Rate Limits page shows the last 24 hours) and pruned at most this often
+const RETENTION_MS = (Number(process.env.API_METER_RETENTION_DAYS) || 7) * 24 * 60 * 60_000;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+
+interface WindowCounter {
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * API Meter Service
+ * Counts outbound S&S and Shopify calls in fixed windows, persists them to ApiRateLimit
+ * for the Rate Limits page, and paces callers before the upstream API starts rejecting them.
+ */
+export class ApiMeterService {
+  private counters = new Map<string, WindowCounter>();
+  private shopifyPausedUntil = new Map<string, number>();
+  private lastPrune = 0;
+
+  /**
+   * Meter for an SSActiveWearClient. `accountKey` identifies the S&S account whose
+   * budget is shared (defaults to the shop).
+   */
+  forSSClient(shop: string, accountKey: string = shop): SSRequestMeter {
+    return {
+      beforeRequest: () => this.acquire("ssactivewear", accountKey),
+      afterRequest: (endpoint: string, status?: number) => {
+        void this.record(shop, "ssactivewear", endpoint, status === 429, accountKey);
+      },
+    };
+  }
+
+  /**
+   * Wrap an admin context so every admin.graphql call is paced and recorded.
+   */
+  wrapAdmin<T extends { graphql: (...args: any[]) => Promise<any> }>(admin: T, shop: string): T {
+    if ((admin as any).__metered) return admin;
+    const graphql = admin.graphql.bind(admin);
+
+    const metered = async (query: string, options?: any) => {
+      await this.acquire("shopify", shop);
+      const pausedUntil = this.shopifyPausedUntil.get(shop) || 0;
+      if (pausedUntil > Date.now()) {
+        await this.delay(pausedUntil - Date.now());
+      }
+
+      const endpoint = this.graphqlOperationName(query);
+      let response: any;
+      try {
+        response = await graphql(query, options);
+      } catch (error: any) {
+        void this.record(shop, "shopify", endpoint, error?.response?.code === 429 || /throttled/i.test(error?.message || ""));
+        throw error;
+      }
+
+      // Read the cost extension without consuming the caller's body
+      let throttled = false;
+      try {
+        const body = await response.clone().json();
+        throttled = this.applyShopifyThrottleStatus(shop, body?.extensions?.cost?.throttleStatus);
+        if (body?.errors?.some?.((e: any) => e?.extensions?.code === "THROTTLED")) throttled = true;
+      } catch {
+        // Non-JSON or already consumed - count the request anyway
+      }
+      void this.record(shop, "shopify", endpoint, throttled);
+      return response;
+    };
+
+    return { ...admin, graphql: metered, __metered: true };
+  }
+
+  /**
+   * Reserve a slot in the current window, waiting if the budget is nearly used up.
+   */
+  private async acquire(apiName: MeteredApi, key: string): Promise<void> {
+    const { limitMax, windowMs } = LIMITS[apiName];
+    const counterKey = `${apiName}:${key}`;
+
+    for (;;) {
+      const now = Date.now();
+      const windowStart = now - (now % windowMs);
+      let counter = this.counters.get(counterKey);
+      if (!counter || counter.windowStart !== windowStart) {
+        counter = { windowStart, count: 0 };
+        this.counters.set(counterKey, counter);
+      }
+
+      const windowEnd = windowStart + windowMs;
+      if (counter.count >= limitMax) {
+        console.log(`[ApiMeter] ${apiName} budget used for ${key}, waiting ${windowEnd - now}ms`);
+        await this.delay(windowEnd - now + 10);
+        continue;
+      }
+
+      counter.count++;
+      const slowdownAt = Math.floor(limitMax * SLOWDOWN_RATIO);
+      if (counter.count > slowdownAt) {
+        // Spread the remaining budget evenly over what is left of the window
+        const remaining = limitMax - counter.count + 1;
+        await this.delay(Math.floor((windowEnd - now) / remaining));
+      }
+      return;
+    }
+  }
+
+  /**
+   * Upsert the ApiRateLimit row for the current window. `budgetKey` is the key acquire()
+   * counted the request under (the S&S account for S&S calls). Never throws - metering
+   * must not break the call it measures.
+   */
+  async record(shop: string, apiName: MeteredApi, endpoint: string, throttled: boolean = false, budgetKey: string = shop): Promise<void> {
+    const { limitMax, windowMs } = LIMITS[apiName];
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - (now.getTime() % windowMs));
+    const windowEnd = new Date(windowStart.getTime() + windowMs);
+
+    const counter = this.counters.get(`${apiName}:${budgetKey}`);
+    const nearLimit = !!counter && counter.windowStart === windowStart.getTime() && counter.count >= limitMax * THROTTLE_RATIO;
+
+    try {
+      const row = await prisma.apiRateLimit.upsert({
+        where: {
+          shop_apiName_endpoint_windowStart: { shop, apiName, endpoint, windowStart },
+        },
+        create: {
+          shop,
+          apiName,
+          endpoint,
+          requestCount: 1,
+          limitMax,
+          windowStart,
+          windowEnd,
+          lastRequest: now,
+          isThrottled: throttled || nearLimit,
+        },
+        update: {
+          requestCount: { increment: 1 },
+          lastRequest: now,
+          ...(throttled || nearLimit ? { isThrottled: true } : {}),
+        },
+      });
+
+      if (!row.isThrottled && row.requestCount >= limitMax * THROTTLE_RATIO) {
+        await prisma.apiRateLimit.update({ where: { id: row.id }, data: { isThrottled: true } });
+      }
+    } catch (error) {
+      console.warn(`[ApiMeter] Failed to record ${apiName} ${endpoint}:`, error instanceof Error ? error.message : error);
+    }
+    await this.prune(now);
+  }
+
+  /**
+   * Delete windows older than the retention period. Every metered call writes a row per endpoint
+   * and minute, so without this the table grows without bound. Runs at most once per interval
+   * per process; never throws.
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    if (now.getTime() - this.lastPrune < PRUNE_INTERVAL_MS) return 0;
+    this.lastPrune = now.getTime();
+    try {
+      const { count } = await prisma.apiRateLimit.deleteMany({
+        where: { windowEnd: { lt: new Date(now.getTime() - RETENTION_MS) } },
+      });
+      if (count > 0) console.log(`[ApiMeter] Pruned ${count} rate limit windows older than ${RETENTION_MS / 86_400_000} days`);
+      return count;
+    } catch (error) {
+      console.warn(`[ApiMeter] Failed to prune rate limit windows:`, error instanceof Error ? error.message : error);
+      return 0;
+    }
+  }
+
+  private applyShopifyThrottleStatus(
+    shop: string,
+    status?: { maximumAvailable: number; currentlyAvailable: number; restoreRate: number }
+  ): boolean {
+    if (!status?.maximumAvailable) return false;
+    const floor = status.maximumAvailable * SHOPIFY_MIN_BUCKET_RATIO;
+    if (status.currentlyAvailable >= floor) return false;
+
+    // Wait until the bucket refills back to the floor
+    const deficit = floor - status.currentlyAvailable;
+    const waitMs = Math.ceil((deficit / Math.max(status.restoreRate, 1)) * 1000);
+    this.shopifyPausedUntil.set(shop, Date.now() + waitMs);
+    console.log(`[ApiMeter] Shopify cost bucket low for ${shop} (${status.currentlyAvailable}/${status.maximumAvailable}), pausing ${waitMs}ms`);
+    return true;
+  }
+
+  private graphqlOperationName(query: string): string {
+    const named = query.match(/\b(query|mutation)\s+(\w+)/);
+    if (named) return named[2];
+    // Anonymous operation - use the first root field
+    const field = query.match(/{\s*(\w+)/);
+    return field ? field[1] : "graphql";
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+  }
+}
+
+export const apiMeter = new ApiMeterService();
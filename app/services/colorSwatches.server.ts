@@ -0,0 +1,182 @@
+import type { SSProduct } from "./ssactivewear";
+
+// Shop metaobjects of this type carry one color each; products link their Color option to them
+export const SWATCH_METAOBJECT_TYPE = "ss_color";
+
+// Product metafield the Color option is linked through. Shopify fills it with the product's colors,
+// so themes can read product.metafields.ss_swatch.colors.value.
+export const SWATCH_METAFIELD = { namespace: "ss_swatch", key: "colors" };
+
+type SwatchSource = Pick<SSProduct, "colorName" | "colorCode" | "color1" | "color2" | "colorSwatchImage" | "colorSwatchTextColor"> & {
+  normalizedColor?: string;
+};
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Color Swatch Service
+ * Creates or reuses a color metaobject per S&S color (hex codes and the swatch image), keyed by the
+ * color name so every style in that color shares it. Colors the shop already has are not overwritten,
+ * so swatches the merchant adjusted stay as they are.
+ */
+export class ColorSwatchService {
+  /**
+   * Swatch metaobject per color (option value -> metaobject GID), or null when the swatches could
+   * not be set up - the import then uses plain option values.
+   */
+  async swatchesFor(admin: any, products: SwatchSource[]): Promise<Map<string, string> | null> {
+    const colors = new Map<string, SwatchSource>();
+    for (const p of products) {
+      const name = (p.normalizedColor || p.colorName || "").trim();
+      if (name && !colors.has(name)) colors.set(name, p);
+    }
+    if (colors.size === 0) return null;
+
+    try {
+      await this.ensureDefinitions(admin);
+      const existing = await this.existingHandles(admin);
+      const swatches = new Map<string, string>();
+      for (const [name, source] of colors) {
+        const handle = this.handleFor(name);
+        swatches.set(name, existing.get(handle) ?? await this.create(admin, handle, name, source));
+      }
+      return swatches;
+    } catch (error) {
+      console.warn(`[ColorSwatches] Swatches not linked:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private handleFor(color: string): string {
+    return color.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "color";
+  }
+
+  private async create(admin: any, handle: string, label: string, source: SwatchSource): Promise<string> {
+    const image = source.colorSwatchImage
+      ? (source.colorSwatchImage.startsWith("http") ? source.colorSwatchImage : `https://www.ssactivewear.com/${source.colorSwatchImage}`)
+      : "";
+    const values: Record<string, string> = {
+      label,
+      color: HEX.test(source.color1 || "") ? source.color1 : "",
+      secondary_color: HEX.test(source.color2 || "") ? source.color2 : "",
+      text_color: HEX.test(source.colorSwatchTextColor || "") ? source.colorSwatchTextColor : "",
+      swatch_image: image,
+      ss_color_code: source.colorCode || "",
+    };
+
+    const response = await admin.graphql(`
+      mutation metaobjectCreate($metaobject: MetaobjectCreateInput!) {
+        metaobjectCreate(metaobject: $metaobject) {
+          metaobject { id }
+          userErrors { field message code }
+        }
+      }
+    `, {
+      variables: {
+        metaobject: {
+          type: SWATCH_METAOBJECT_TYPE,
+          handle,
+          fields: Object.entries(values).filter(([, value]) => value).map(([key, value]) => ({ key, value })),
+        },
+      },
+    });
+    const json = await response.json();
+    const error = json.errors?.[0]?.message || json.data?.metaobjectCreate?.userErrors?.[0]?.message;
+    const id = json.data?.metaobjectCreate?.metaobject?.id;
+    if (error || !id) throw new Error(`Could not create the swatch for ${label}: ${error || "no metaobject returned"}`);
+    return id;
+  }
+
+  // handle -> GID of the shop's color metaobjects
+  private async existingHandles(admin: any): Promise<Map<string, string>> {
+    const handles = new Map<string, string>();
+    let cursor: string | null = null;
+    do {
+      const response: Response = await admin.graphql(`
+        query($type: String!, $cursor: String) {
+          metaobjects(type: $type, first: 250, after: $cursor) {
+            nodes { id handle }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      `, { variables: { type: SWATCH_METAOBJECT_TYPE, cursor } });
+      const json = await response.json();
+      if (json.errors?.length) throw new Error(json.errors[0].message);
+      for (const node of json.data?.metaobjects?.nodes || []) handles.set(node.handle, node.id);
+      cursor = json.data?.metaobjects?.pageInfo?.hasNextPage ? json.data.metaobjects.pageInfo.endCursor : null;
+    } while (cursor);
+    return handles;
+  }
+
+  // The metaobject definition and the product metafield definition linked options need
+  private async ensureDefinitions(admin: any): Promise<void> {
+    const lookup = await admin.graphql(`
+      query($type: String!, $namespace: String!, $key: String!) {
+        metaobjectDefinitionByType(type: $type) { id }
+        metafieldDefinitions(first: 1, ownerType: PRODUCT, namespace: $namespace, key: $key) { nodes { id } }
+      }
+    `, { variables: { type: SWATCH_METAOBJECT_TYPE, ...SWATCH_METAFIELD } });
+    const lookupJson = await lookup.json();
+    if (lookupJson.errors?.length) throw new Error(lookupJson.errors[0].message);
+    let definitionId: string | undefined = lookupJson.data?.metaobjectDefinitionByType?.id;
+    if (definitionId && lookupJson.data?.metafieldDefinitions?.nodes?.length) return;
+
+    if (!definitionId) {
+      const response = await admin.graphql(`
+        mutation metaobjectDefinitionCreate($definition: MetaobjectDefinitionCreateInput!) {
+          metaobjectDefinitionCreate(definition: $definition) {
+            metaobjectDefinition { id }
+            userErrors { field message code }
+          }
+        }
+      `, {
+        variables: {
+          definition: {
+            type: SWATCH_METAOBJECT_TYPE,
+            name: "Color swatch",
+            displayNameKey: "label",
+            access: { storefront: "PUBLIC_READ" },
+            fieldDefinitions: [
+              { key: "label", name: "Color name", type: "single_line_text_field", required: true },
+              { key: "color", name: "Color", type: "color" },
+              { key: "secondary_color", name: "Second color", type: "color" },
+              { key: "text_color", name: "Text color on the swatch", type: "color" },
+              { key: "swatch_image", name: "Swatch image", type: "url" },
+              { key: "ss_color_code", name: "S&S color code", type: "single_line_text_field" },
+            ],
+          },
+        },
+      });
+      const json = await response.json();
+      const error = json.errors?.[0]?.message || json.data?.metaobjectDefinitionCreate?.userErrors?.[0]?.message;
+      definitionId = json.data?.metaobjectDefinitionCreate?.metaobjectDefinition?.id;
+      if (error || !definitionId) throw new Error(`Could not create the color swatch definition: ${error || "no definition returned"}`);
+      console.log(`[ColorSwatches] Created the ${SWATCH_METAOBJECT_TYPE} metaobject definition`);
+    }
+
+    const metafield = await admin.graphql(`
+      mutation metafieldDefinitionCreate($definition: MetafieldDefinitionInput!) {
+        metafieldDefinitionCreate(definition: $definition) {
+          createdDefinition { id }
+          userErrors { field message code }
+        }
+      }
+    `, {
+      variables: {
+        definition: {
+          ...SWATCH_METAFIELD,
+          name: "Color swatches",
+          ownerType: "PRODUCT",
+          type: "list.metaobject_reference",
+          validations: [{ name: "metaobject_definition_id", value: definitionId }],
+          access: { storefront: "PUBLIC_READ" },
+        },
+      },
+    });
+    const metafieldJson = await metafield.json();
+    const metafieldError = metafieldJson.errors?.[0] || metafieldJson.data?.metafieldDefinitionCreate?.userErrors?.find((e: any) => e.code !== "TAKEN");
+    if (metafieldError) throw new Error(`Could not create the color swatch metafield: ${metafieldError.message}`);
+  }
+}
+
+export const colorSwatches = new ColorSwatchService();
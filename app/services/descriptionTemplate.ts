@@ -0,0 +1,228 @@
+import { sortSizes } from "./optionProfiles";
+import type { SSProduct, SSSpec, SSStyle } from "./ssactivewear";
+
+/**
+ * Product descriptions from S&S style data and specs, rendered through a merchant-editable template.
+ * No server imports here - the template editor validates and previews with the same functions.
+ *
+ * Template syntax: {{name}} inserts a value, {{#name}}...{{/name}} keeps its content only when the
+ * value is not empty. Text values are HTML-escaped; description, details and specTable are HTML.
+ */
+
+// Everything the description template and the spec metafields are built from
+export interface StyleDetails {
+  title: string;
+  brand: string;
+  partNumber: string;
+  styleName: string;
+  description: string;           // S&S description, HTML
+  fabric: string;
+  fabricWeight: string;
+  countryOfOrigin: string;       // country names, comma separated
+  caseQty: number | null;
+  sustainable: boolean;
+  sizes: string[];
+  measurements: Array<{ name: string; values: string[] }>; // one value per size in `sizes`
+  details: Array<{ name: string; value: string }>;        // specs that are the same for every size
+}
+
+export const TEMPLATE_PLACEHOLDERS: Array<{ name: string; description: string; html?: boolean }> = [
+  { name: "title", description: "Style title" },
+  { name: "brand", description: "Brand name" },
+  { name: "partNumber", description: "S&S part number" },
+  { name: "styleName", description: "Style name (usually the brand's style number)" },
+  { name: "description", description: "S&S style description", html: true },
+  { name: "fabric", description: "Fabric / material content from the specs" },
+  { name: "fabricWeight", description: "Fabric weight from the specs" },
+  { name: "countryOfOrigin", description: "Countries the style is made in" },
+  { name: "caseQty", description: "Pieces per case" },
+  { name: "sustainable", description: "\"Yes\" for S&S sustainable styles, empty otherwise" },
+  { name: "sizes", description: "Available sizes, comma separated" },
+  { name: "details", description: "List of the other specs", html: true },
+  { name: "specTable", description: "Size chart of the measurements", html: true },
+];
+
+export const DEFAULT_DESCRIPTION_TEMPLATE = `<div class="product-description">
+  {{description}}
+  <h4>Product Details</h4>
+  <ul>
+    <li><strong>Brand:</strong> {{brand}}</li>
+    <li><strong>Style:</strong> {{partNumber}}</li>
+    {{#fabric}}<li><strong>Fabric:</strong> {{fabric}}</li>{{/fabric}}
+    {{#fabricWeight}}<li><strong>Weight:</strong> {{fabricWeight}}</li>{{/fabricWeight}}
+    {{#countryOfOrigin}}<li><strong>Made in:</strong> {{countryOfOrigin}}</li>{{/countryOfOrigin}}
+    {{#sustainable}}<li>Sustainable style</li>{{/sustainable}}
+  </ul>
+  {{#specTable}}<h4>Size Chart</h4>
+  {{specTable}}{{/specTable}}
+</div>`;
+
+// Stand-in style for the template editor's preview
+export const SAMPLE_STYLE_DETAILS: StyleDetails = {
+  title: "Unisex Jersey Tee",
+  brand: "BELLA + CANVAS",
+  partNumber: "3001",
+  styleName: "3001",
+  description: "<p>A soft, lightweight tee with a retail fit.</p>",
+  fabric: "100% Airlume combed and ring-spun cotton",
+  fabricWeight: "4.2 oz",
+  countryOfOrigin: "Nicaragua, Honduras",
+  caseQty: 72,
+  sustainable: true,
+  sizes: ["S", "M", "L", "XL"],
+  measurements: [
+    { name: "Body Length", values: ["28", "29", "30", "31"] },
+    { name: "Chest Width", values: ["18", "20", "22", "24"] },
+  ],
+  details: [{ name: "Fabric", value: "100% Airlume combed and ring-spun cotton" }, { name: "Fabric Weight", value: "4.2 oz" }],
+};
+
+// Spaces inside the braces are allowed everywhere ("{{ #fabric }}"), as they are for placeholders
+const SECTION = /{{\s*#(\w+)\s*}}([\s\S]*?){{\s*\/\1\s*}}/g;
+const TOKEN = /{{\s*([#/]?)(\w+)\s*}}/g;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Country codes as S&S lists them ("NI,DO") to names; unknown codes are kept as they are
+function countryNames(codes: string[]): string[] {
+  let names: Intl.DisplayNames | null = null;
+  try {
+    names = new Intl.DisplayNames(["en"], { type: "region" });
+  } catch { /* older runtimes: keep the codes */ }
+  return codes.map(code => {
+    try {
+      return names?.of(code) || code;
+    } catch {
+      return code;
+    }
+  });
+}
+
+function mostCommon(values: number[]): number | null {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best: number | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Collect the description data of a style. Specs that differ by size become size chart rows,
+ * specs that are the same for every size (fabric, weight) become details.
+ */
+export function buildStyleDetails(style: SSStyle, products: SSProduct[], specs: SSSpec[]): StyleDetails {
+  const sizeEntries = new Map<string, { name: string; sizeOrder: string }>();
+  for (const item of [...products, ...specs]) {
+    const name = item.sizeName?.trim();
+    if (name && !sizeEntries.has(name)) sizeEntries.set(name, { name, sizeOrder: item.sizeOrder || "" });
+  }
+  const sizes = sortSizes(Array.from(sizeEntries.values())).map(s => s.name);
+
+  const bySpec = new Map<string, Map<string, string>>(); // spec name -> size -> value
+  for (const spec of specs) {
+    const name = spec.specName?.trim();
+    const value = String(spec.value ?? "").trim();
+    if (!name || !value) continue;
+    if (!bySpec.has(name)) bySpec.set(name, new Map());
+    bySpec.get(name)!.set(spec.sizeName?.trim() || "", value);
+  }
+
+  const measurements: StyleDetails["measurements"] = [];
+  const details: StyleDetails["details"] = [];
+  for (const [name, values] of bySpec) {
+    const distinct = new Set(values.values());
+    if (distinct.size === 1) {
+      details.push({ name, value: Array.from(distinct)[0] });
+    } else {
+      measurements.push({ name, values: sizes.map(size => values.get(size) || "") });
+    }
+  }
+
+  const detail = (pattern: RegExp, exclude?: RegExp) =>
+    details.find(d => pattern.test(d.name) && !(exclude && exclude.test(d.name)))?.value || "";
+  const origins = Array.from(new Set(products.flatMap(p => (p.countryOfOrigin || "").split(",")).map(c => c.trim()).filter(Boolean)));
+
+  return {
+    title: style.title || "",
+    brand: style.brandName || "",
+    partNumber: style.partNumber || "",
+    styleName: style.styleName || "",
+    description: style.description || "",
+    fabric: detail(/fabric|material|content/i, /weight/i),
+    fabricWeight: detail(/weight/i),
+    countryOfOrigin: countryNames(origins).join(", "),
+    caseQty: mostCommon(products.map(p => p.caseQty).filter(q => q > 0)),
+    sustainable: !!style.sustainableStyle,
+    sizes,
+    measurements: measurements.filter(m => sizes.length > 0 && m.values.some(Boolean)),
+    details,
+  };
+}
+
+export function specTableHtml(details: StyleDetails): string {
+  if (details.measurements.length === 0) return "";
+  const head = details.sizes.map(s => `<th>${escapeHtml(s)}</th>`).join("");
+  const rows = details.measurements
+    .map(m => `<tr><th>${escapeHtml(m.name)}</th>${m.values.map(v => `<td>${escapeHtml(v)}</td>`).join("")}</tr>`)
+    .join("");
+  return `<table class="ss-spec-table"><thead><tr><th></th>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function templateValues(details: StyleDetails): Record<string, string> {
+  return {
+    title: escapeHtml(details.title),
+    brand: escapeHtml(details.brand),
+    partNumber: escapeHtml(details.partNumber),
+    styleName: escapeHtml(details.styleName),
+    description: details.description,
+    fabric: escapeHtml(details.fabric),
+    fabricWeight: escapeHtml(details.fabricWeight),
+    countryOfOrigin: escapeHtml(details.countryOfOrigin),
+    caseQty: details.caseQty ? String(details.caseQty) : "",
+    sustainable: details.sustainable ? "Yes" : "",
+    sizes: escapeHtml(details.sizes.join(", ")),
+    details: details.details.length > 0
+      ? `<ul>${details.details.map(d => `<li><strong>${escapeHtml(d.name)}:</strong> ${escapeHtml(d.value)}</li>`).join("")}</ul>`
+      : "",
+    specTable: specTableHtml(details),
+  };
+}
+
+export function renderDescription(template: string, details: StyleDetails): string {
+  const values = templateValues(details);
+  let html = template;
+  // Sections can be nested, so keep resolving until none are left
+  for (let pass = 0; pass < 10; pass++) {
+    const next = html.replace(SECTION, (_, name: string, inner: string) => (values[name] ? inner : ""));
+    if (next === html) break;
+    html = next;
+  }
+  return html.replace(TOKEN, (token, marker: string, name: string) => (marker ? "" : values[name] ?? token)).trim();
+}
+
+// Problems that would make the template render wrong: unknown placeholders and unbalanced sections
+export function validateTemplate(template: string): string[] {
+  const known = new Set(TEMPLATE_PLACEHOLDERS.map(p => p.name));
+  const problems: string[] = [];
+  const open: string[] = [];
+
+  for (const [, marker, name] of template.matchAll(TOKEN)) {
+    if (!known.has(name)) {
+      problems.push(`Unknown placeholder {{${marker}${name}}}`);
+      continue;
+    }
+    if (marker === "#") open.push(name);
+    if (marker === "/") {
+      if (open[open.length - 1] === name) open.pop();
+      else problems.push(`{{/${name}}} does not close an open {{#${name}}} section`);
+    }
+  }
+  open.forEach(name => problems.push(`{{#${name}}} is never closed`));
+
+  if (!template.trim()) problems.push("The template is empty");
+  return problems;
+}
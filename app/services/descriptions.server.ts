@@ -0,0 +1,103 @@
+import prisma from "../db.server";
+import { buildStyleDetails, DEFAULT_DESCRIPTION_TEMPLATE, renderDescription, validateTemplate, type StyleDetails } from "./descriptionTemplate";
+import { getSSClient } from "./ssClient.server";
+import type { SSProduct, SSSpec, SSStyle } from "./ssactivewear";
+
+export const SPECS_NAMESPACE = "ss_specs";
+
+// Product metafields written from the specs, readable by themes as product.metafields.ss_specs.*
+export const SPEC_METAFIELD_DEFINITIONS = [
+  { key: "fabric", name: "Fabric", type: "single_line_text_field" },
+  { key: "fabric_weight", name: "Fabric weight", type: "single_line_text_field" },
+  { key: "country_of_origin", name: "Country of origin", type: "single_line_text_field" },
+  { key: "case_quantity", name: "Case quantity", type: "number_integer" },
+  { key: "sustainable", name: "Sustainable style", type: "boolean" },
+  { key: "spec_table", name: "Size chart", type: "json" },
+];
+
+export interface ProductMetafield {
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+}
+
+// What an import writes besides variants and media
+export interface ProductContent {
+  descriptionHtml: string;
+  metafields: ProductMetafield[];
+}
+
+export interface DescriptionSettings {
+  template: string;
+  writeMetafields: boolean;
+  customized: boolean; // false while the shop uses the built-in template
+}
+
+/**
+ * Description Service
+ * The shop's description template and the spec metafields of imported products.
+ * Specs come from S&S /v2/specs/; a style without specs still gets a description from its style data.
+ */
+export class DescriptionService {
+  async settings(shop: string): Promise<DescriptionSettings> {
+    const saved = await prisma.descriptionTemplate.findUnique({ where: { shop } });
+    return saved
+      ? { template: saved.template, writeMetafields: saved.writeMetafields, customized: true }
+      : { template: DEFAULT_DESCRIPTION_TEMPLATE, writeMetafields: true, customized: false };
+  }
+
+  async save(shop: string, template: string, writeMetafields: boolean): Promise<void> {
+    const problems = validateTemplate(template);
+    if (problems.length > 0) throw new Error(problems.join("; "));
+    await prisma.descriptionTemplate.upsert({
+      where: { shop },
+      create: { shop, template, writeMetafields },
+      update: { template, writeMetafields },
+    });
+  }
+
+  /** Go back to the built-in template */
+  async reset(shop: string): Promise<void> {
+    await prisma.descriptionTemplate.deleteMany({ where: { shop } });
+  }
+
+  async styleDetails(shop: string, style: SSStyle, products: SSProduct[]): Promise<StyleDetails> {
+    let specs: SSSpec[] = [];
+    try {
+      const ssClient = await getSSClient(shop);
+      specs = (await ssClient.getSpecsByStyle([style.styleID])) || [];
+    } catch (e) {
+      console.warn(`[Descriptions] No specs for style ${style.styleID}:`, e instanceof Error ? e.message : e);
+    }
+    return buildStyleDetails(style, products, specs);
+  }
+
+  /** The description and spec metafields of a style, rendered with the shop's template */
+  async contentFor(shop: string, style: SSStyle, products: SSProduct[]): Promise<ProductContent> {
+    const [settings, details] = await Promise.all([this.settings(shop), this.styleDetails(shop, style, products)]);
+    return {
+      descriptionHtml: renderDescription(settings.template, details),
+      metafields: settings.writeMetafields ? this.specMetafields(details) : [],
+    };
+  }
+
+  // Metafields cannot be empty, so missing specs are left out
+  specMetafields(details: StyleDetails): ProductMetafield[] {
+    const values: Record<string, string> = {
+      fabric: details.fabric,
+      fabric_weight: details.fabricWeight,
+      country_of_origin: details.countryOfOrigin,
+      case_quantity: details.caseQty ? String(details.caseQty) : "",
+      sustainable: details.sustainable ? "true" : "false",
+      spec_table: details.measurements.length > 0
+        ? JSON.stringify({ sizes: details.sizes, rows: details.measurements })
+        : "",
+    };
+    return SPEC_METAFIELD_DEFINITIONS
+      .filter(d => values[d.key])
+      .map(d => ({ namespace: SPECS_NAMESPACE, key: d.key, type: d.type, value: values[d.key] }));
+  }
+}
+
+export const descriptions = new DescriptionService();
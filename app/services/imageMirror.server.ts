@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import { extensionForContentType, getStorage, type StorageDriver } from "./storage.server";
+
+const KEY_PREFIX = "ss-images";
+const FETCH_TIMEOUT_MS = 20_000;
+const MAX_BYTES = 20 * 1024 * 1024; // Shopify's image size limit
+
+// S&S serves product photos to browsers only
+const FETCH_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Accept": "image/avif,image/webp,image/apng,image/*,*/*;q=0.8",
+  "Referer": "https://www.ssactivewear.com/",
+};
+
+export interface MirroredImage {
+  url: string;   // public URL of our copy
+  hash: string;  // sha256 of the content, also the copy's file name
+}
+
+type FetchImage = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Image Mirror Service
+ * Copies S&S photos to our object storage before the importer hands them to Shopify, so Shopify
+ * fetches them from us instead of S&S. Copies are stored under the sha256 of their content:
+ * the same photo behind several URLs is stored once, and Shopify names the media after that file,
+ * which lets the importer recognise media it already made from it.
+ */
+export class ImageMirrorService {
+  private fetchImage: FetchImage;
+  private storage: () => StorageDriver;
+
+  constructor(fetchImage: FetchImage = (url, init) => fetch(url, init), storage: () => StorageDriver = getStorage) {
+    this.fetchImage = fetchImage;
+    this.storage = storage;
+  }
+
+  /** Download `source` and store it; throws with the reason when it is not an image we can use */
+  async mirror(source: string): Promise<MirroredImage> {
+    const response = await this.fetchImage(source, { headers: FETCH_HEADERS, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const contentType = (response.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+    if (!contentType.startsWith("image/")) throw new Error(`Not an image (${contentType || "no content type"})`);
+
+    const body = Buffer.from(await response.arrayBuffer());
+    if (body.length === 0) throw new Error("Empty image");
+    if (body.length > MAX_BYTES) throw new Error(`Image is larger than ${MAX_BYTES / 1024 / 1024} MB`);
+
+    const hash = crypto.createHash("sha256").update(body).digest("hex");
+    const key = `${KEY_PREFIX}/${hash}.${extensionForContentType(contentType)}`;
+    const storage = this.storage();
+    if (!(await storage.exists(key))) {
+      await storage.put(key, body, { contentType, cacheControl: "public, max-age=31536000, immutable" });
+    }
+    return { url: storage.publicUrl(key), hash };
+  }
+
+  /** Content hash of a copy from its URL, or of Shopify media made from one (Shopify keeps the file name) */
+  hashFromUrl(url: string | null | undefined): string | null {
+    const file = (url || "").split("?")[0].split("/").pop() || "";
+    return /^([0-9a-f]{64})/.exec(file)?.[1] ?? null;
+  }
+}
+
+export const imageMirror = new ImageMirrorService();
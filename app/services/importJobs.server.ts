@@ -0,0 +1,187 @@
+import { Prisma, type ImportJob } from "@prisma/client";
+import prisma from "../db.server";
+import type { ImageKind, ImportSelection } from "./importPlan";
+
+// Steps of a product-creating import, in order. A job's `step` is the next one to run.
+export const IMPORT_STEPS = ["product", "variants", "media", "inventory", "publish", "map", "done"] as const;
+export type ImportStep = typeof IMPORT_STEPS[number];
+
+// A running job that has not checkpointed for this long was interrupted (crash, deploy, timeout)
+const STALE_MS = 10 * 60_000;
+
+// The import options kept on a job so it can be resumed with the same settings
+export interface StoredImportOptions {
+  priceRuleId?: string | null;
+  tags?: string[];
+  collection?: string | null;
+  sizeMarkups?: Record<string, { type: string; value: number }>;
+  split?: string;
+  optionProfileId?: string | null;
+  selection?: ImportSelection | null;
+  images?: ImageKind[] | null;
+}
+
+type Checkpoint = Partial<Pick<ImportJob, "step" | "productId" | "operationId" | "variantCount" | "imageCount">>;
+
+/**
+ * Import Job Service
+ * Persists checkpoints of imports that create a Shopify product, so an import that died
+ * half way is resumed from its last step instead of building a second product, and the
+ * draft products of imports nobody resumes can be cleaned up.
+ */
+export class ImportJobService {
+  /**
+   * Pick up the style's interrupted job, or start a new one. `groupKey` picks the product
+   * of a style split into several products. Throws if another import of it is still making progress.
+   * The claim is atomic: the unique runningKey lets only one of two concurrent imports start a job,
+   * and a job is only taken over if nobody else touched it since it was read.
+   */
+  async begin(shop: string, styleId: number, options: StoredImportOptions, groupKey: string | null = null): Promise<ImportJob> {
+    const busy = (step?: string) => new Error(`Style ${styleId} is already being imported${step ? ` (step: ${step})` : ""}`);
+    const runningKey = `${shop}:${styleId}:${groupKey ?? ""}`;
+    const previous = await prisma.importJob.findFirst({
+      where: { shop, styleId, groupKey, status: { in: ["running", "failed"] } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (previous?.status === "running" && !this.isStale(previous)) {
+      throw busy(previous.step);
+    }
+
+    try {
+      if (previous) {
+        const claimed = await prisma.importJob.updateMany({
+          where: { id: previous.id, status: previous.status, updatedAt: previous.updatedAt },
+          data: { status: "running", runningKey, attempts: { increment: 1 }, error: null, options: JSON.stringify(options) },
+        });
+        if (claimed.count === 0) throw busy();
+        console.log(`[ImportJobs] Resuming import of style ${styleId} at step "${previous.step}" (attempt ${previous.attempts + 1})`);
+        return prisma.importJob.findUniqueOrThrow({ where: { id: previous.id } });
+      }
+
+      return await prisma.importJob.create({
+        data: { shop, styleId, groupKey, runningKey, options: JSON.stringify(options) },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") throw busy();
+      throw error;
+    }
+  }
+
+  async checkpoint(id: string, data: Checkpoint): Promise<void> {
+    await prisma.importJob.update({ where: { id }, data });
+  }
+
+  /** Mark a running job as alive between checkpoints, for steps that take minutes (media) */
+  async touch(id: string): Promise<void> {
+    await prisma.importJob.update({ where: { id }, data: { updatedAt: new Date() } });
+  }
+
+  async complete(id: string): Promise<void> {
+    await prisma.importJob.update({
+      where: { id },
+      data: { status: "completed", step: "done", runningKey: null, completedAt: new Date() },
+    });
+  }
+
+  async fail(id: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      await prisma.importJob.update({ where: { id }, data: { status: "failed", runningKey: null, error: message } });
+    } catch (e) {
+      console.warn(`[ImportJobs] Failed to record failure of ${id}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  /** Whether `step` has already been completed by the job */
+  isDone(job: Pick<ImportJob, "step">, step: ImportStep): boolean {
+    return IMPORT_STEPS.indexOf(job.step as ImportStep) > IMPORT_STEPS.indexOf(step);
+  }
+
+  isStale(job: Pick<ImportJob, "status" | "updatedAt">): boolean {
+    return job.status === "running" && Date.now() - new Date(job.updatedAt).getTime() > STALE_MS;
+  }
+
+  storedOptions(job: Pick<ImportJob, "options">): StoredImportOptions {
+    try {
+      return job.options ? JSON.parse(job.options) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /** Failed jobs plus running jobs that stopped checkpointing */
+  async listUnfinished(shop: string): Promise<ImportJob[]> {
+    const jobs = await prisma.importJob.findMany({
+      where: { shop, status: { in: ["running", "failed"] } },
+      orderBy: { updatedAt: "desc" },
+    });
+    return jobs.filter(job => job.status === "failed" || this.isStale(job));
+  }
+
+  /**
+   * Give up on a job and delete the draft product it left behind. A product that already
+   * has a ProductMap is a finished import and is never deleted.
+   */
+  async discard(admin: any, shop: string, jobId: string): Promise<{ deletedProduct: boolean }> {
+    const job = await prisma.importJob.findFirst({ where: { id: jobId, shop } });
+    if (!job) throw new Error("Import job not found");
+    if (job.status === "running" && !this.isStale(job)) {
+      throw new Error(`Style ${job.styleId} is still being imported`);
+    }
+    // The queue worker still holds the style: its job may only look stale between heartbeats
+    const leased = await prisma.importQueue.findFirst({
+      where: { shop, styleId: job.styleId, status: "processing", lockedUntil: { gt: new Date() } },
+    });
+    if (leased) throw new Error(`Style ${job.styleId} is still being imported by the import queue`);
+
+    let deletedProduct = false;
+    if (job.productId) {
+      const mapped = await prisma.productMap.findFirst({ where: { shopifyProductId: job.productId } });
+      if (!mapped) {
+        deletedProduct = await this.deleteProduct(admin, job.productId);
+      }
+    }
+
+    await prisma.importJob.update({ where: { id: job.id }, data: { status: "discarded", runningKey: null } });
+    console.log(`[ImportJobs] Discarded import of style ${job.styleId}${deletedProduct ? `, deleted ${job.productId}` : ""}`);
+    return { deletedProduct };
+  }
+
+  /** Discard every unfinished job of the shop; returns how many jobs and draft products were removed */
+  async cleanupOrphans(admin: any, shop: string): Promise<{ discarded: number; deletedProducts: number; errors: string[] }> {
+    const result = { discarded: 0, deletedProducts: 0, errors: [] as string[] };
+    for (const job of await this.listUnfinished(shop)) {
+      try {
+        const { deletedProduct } = await this.discard(admin, shop, job.id);
+        result.discarded++;
+        if (deletedProduct) result.deletedProducts++;
+      } catch (error) {
+        result.errors.push(`Style ${job.styleId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return result;
+  }
+
+  private async deleteProduct(admin: any, productId: string): Promise<boolean> {
+    const response = await admin.graphql(`
+      mutation productDelete($input: ProductDeleteInput!) {
+        productDelete(input: $input) {
+          deletedProductId
+          userErrors { field message }
+        }
+      }
+    `, { variables: { input: { id: productId } } });
+    const json = await response.json();
+
+    const error = json.errors?.[0]?.message || json.data?.productDelete?.userErrors?.[0]?.message;
+    if (error) {
+      // Already deleted by the merchant - nothing left to clean up
+      if (/does not exist|not found/i.test(error)) return false;
+      throw new Error(`Could not delete ${productId}: ${error}`);
+    }
+    return !!json.data?.productDelete?.deletedProductId;
+  }
+}
+
+export const importJobs = new ImportJobService();
@@ -0,0 +1,187 @@
+import type { OptionNames } from "./optionProfiles";
+
+/**
+ * Dry-run import plan produced by ImporterService.previewImport, and the import settings
+ * the import page offers. No server imports here - the page renders the plan and builds its CSV export.
+ */
+
+// How a style is turned into Shopify products
+export type SplitStrategy = "single" | "color" | "colorFamily";
+
+export const SPLIT_OPTIONS: Array<{ label: string; value: SplitStrategy }> = [
+  { label: "One product for the whole style", value: "single" },
+  { label: "One product per color", value: "color" },
+  { label: "One product per color family", value: "colorFamily" },
+];
+
+// The part of a style the shop carries. Empty lists mean all of them.
+export interface ImportSelection {
+  colors: string[];
+  sizes: string[];
+  warehouses: string[];        // S&S warehouse abbreviations whose stock counts
+  minStock: number;            // SKUs with less stock in those warehouses are left out
+}
+
+export const FULL_SELECTION: ImportSelection = { colors: [], sizes: [], warehouses: [], minStock: 0 };
+
+export function isFullSelection(selection: ImportSelection): boolean {
+  return !selection.colors.length && !selection.sizes.length && !selection.warehouses.length && !(selection.minStock > 0);
+}
+
+// ProductMap.selection / ImportQueue.selection; null when unset or unreadable
+export function parseSelection(json: string | null | undefined): ImportSelection | null {
+  if (!json) return null;
+  try {
+    const raw = JSON.parse(json);
+    const list = (value: unknown) => (Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : []);
+    return {
+      colors: list(raw.colors),
+      sizes: list(raw.sizes),
+      warehouses: list(raw.warehouses),
+      minStock: Math.max(0, Math.floor(Number(raw.minStock) || 0)),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Markup per size name, on top of the price rule ("percentage" or "fixed" amount)
+export type SizeMarkups = Record<string, { type: string; value: number }>;
+
+// Size markup key that applies to every size without a markup of its own
+export const ALL_SIZES = "*";
+
+// ImportQueue.sizeMarkups; undefined when unset or unreadable
+export function parseSizeMarkups(json: string | null | undefined): SizeMarkups | undefined {
+  if (!json) return undefined;
+  try {
+    const raw = JSON.parse(json);
+    const markups: SizeMarkups = {};
+    for (const [size, markup] of Object.entries<any>(raw && typeof raw === "object" ? raw : {})) {
+      const value = Number(markup?.value);
+      if (Number.isFinite(value) && value !== 0) markups[size] = { type: markup.type === "fixed" ? "fixed" : "percentage", value };
+    }
+    return markups;
+  } catch {
+    return undefined;
+  }
+}
+
+// S&S photos of a color an import can upload
+export type ImageKind = "front" | "back" | "side" | "onModel" | "directSide";
+
+export const IMAGE_KIND_OPTIONS: Array<{ label: string; value: ImageKind }> = [
+  { label: "Front", value: "front" },
+  { label: "Back", value: "back" },
+  { label: "Side", value: "side" },
+  { label: "On model", value: "onModel" },       // front, side and back on a model
+  { label: "Direct side", value: "directSide" },
+];
+
+export const DEFAULT_IMAGE_KINDS: ImageKind[] = ["front", "back"];
+
+// Known kinds of a posted list (array or comma-separated), in IMAGE_KIND_OPTIONS order; null when none is known
+export function parseImageKinds(value: unknown): ImageKind[] | null {
+  const list = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(",") : [];
+  const wanted = new Set(list.map(v => v.trim()));
+  const kinds = IMAGE_KIND_OPTIONS.map(o => o.value).filter(kind => wanted.has(kind));
+  return kinds.length > 0 ? kinds : null;
+}
+
+export function imageKindLabel(kind: ImageKind | null): string {
+  return IMAGE_KIND_OPTIONS.find(o => o.value === kind)?.label ?? "Style image";
+}
+
+// An image an import could not copy to storage or add to the product
+export interface FailedImage {
+  url: string;                 // S&S image URL
+  color: string | null;        // null for the main style image
+  kind: ImageKind | null;
+  error: string;
+}
+
+export type PlannedVariantAction = "create" | "update" | "unchanged";
+
+export interface PlannedVariant {
+  product: string;             // title of the Shopify product the variant belongs to
+  sku: string;
+  color: string;
+  size: string;
+  cost: number;
+  price: string;
+  compareAtPrice: string | null;
+  currentPrice: string | null; // price in Shopify today, for variants of an already imported product
+  stock: number;
+  barcode: string | null;
+  image: string | null;        // media the variant is attached to (by color)
+  action: PlannedVariantAction;
+}
+
+export interface DroppedVariant {
+  sku: string;
+  color: string;
+  size: string;
+  reason: string;
+}
+
+export interface PlannedImage {
+  url: string;
+  alt: string;
+  color: string | null;        // null for the main style image
+  kind: ImageKind | null;      // null for the style image and media already on the product
+  status: "new" | "existing" | "over limit";
+}
+
+export interface PlannedProduct {
+  title: string;
+  group: string | null;        // color / color family when the style is split
+  mode: "create" | "update";
+  productId: string | null;
+  variantCount: number;
+}
+
+export interface ImportPlan {
+  styleId: number;
+  title: string;
+  brand: string;
+  split: SplitStrategy;
+  products: PlannedProduct[];
+  mode: "create" | "update";   // "update" when any of the products already exists
+  productId: string | null;    // first existing product
+  priceRule: { id: string; name: string } | null;
+  optionProfile: string;       // name of the OptionProfile that names and orders the options
+  optionNames: OptionNames;    // names of the color / size options (an existing product keeps its own)
+  selection: ImportSelection;  // the requested selection, else the one the style was imported with
+  unselected: number;          // SKUs outside the selected colors / sizes
+  descriptionHtml: string;     // from the shop's description template; existing products keep theirs
+  specMetafields: Array<{ key: string; value: string }>; // ss_specs metafields written to every product
+  colors: string[];            // color option values, in order
+  sizes: string[];             // size option values, in order
+  variants: PlannedVariant[];
+  dropped: DroppedVariant[];
+  retired: Array<{ sku: string; variantId: string; reason: string }>; // variants set to zero stock on update
+  images: PlannedImage[];
+  warnings: string[];
+}
+
+
+function csvCell(value: unknown): string {
+  const text = String(value ?? "");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per planned variant, then the dropped and retired SKUs so the file shows the whole plan
+export function importPlanCsv(plan: ImportPlan): string {
+  const { color, size } = plan.optionNames;
+  const rows: unknown[][] = [["Action", "Product", "SKU", color, size, "Cost", "Current Price", "Price", "Compare At", "Stock", "Barcode", "Image", "Note"]];
+  for (const v of plan.variants) {
+    rows.push([v.action, v.product, v.sku, v.color, v.size, v.cost.toFixed(2), v.currentPrice, v.price, v.compareAtPrice, v.stock, v.barcode, v.image, ""]);
+  }
+  for (const d of plan.dropped) {
+    rows.push(["skip", "", d.sku, d.color, d.size, "", "", "", "", "", "", "", d.reason]);
+  }
+  for (const r of plan.retired) {
+    rows.push(["retire", "", r.sku, "", "", "", "", "", "", 0, "", "", `${r.reason}, stock set to 0`]);
+  }
+  return rows.map(row => row.map(csvCell).join(",")).join("\n");
+}
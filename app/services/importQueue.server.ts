@@ -0,0 +1,211 @@
+import type { ImportQueue } from "@prisma/client";
+import prisma from "../db.server";
+import { ImporterService } from "./importer.server";
+import { parseImageKinds, parseSelection, parseSizeMarkups } from "./importPlan";
+
+const LEASE_MS = 15 * 60_000;    // a processing row is picked up again if its worker goes quiet this long (outlasts ImportJob staleness)
+const MAX_ATTEMPTS = 3;          // give up on rows whose import keeps getting interrupted
+const ITEM_DELAY = 2000;         // pause between styles so the Shopify cost bucket can refill
+const BOOT_RESUME_DELAY = 15_000;
+
+type AdminFactory = (shop: string) => Promise<any>;
+
+// Background imports have no request, so they use the shop's offline session.
+// shopify.server is loaded lazily to keep this module usable without the app config (dev harness).
+async function offlineAdmin(shop: string) {
+  const { unauthenticated } = await import("../shopify.server");
+  const { admin } = await unauthenticated.admin(shop);
+  return admin;
+}
+
+/**
+ * Import Queue Worker
+ * Imports the bulk import page's queued styles one at a time with ImporterService.
+ *
+ * Rows go pending -> queued (merchant started them) -> processing -> completed/failed.
+ * A claim is a conditional update, so two app instances never import the same row, and the
+ * claim is a lease renewed on every progress step: rows left in "processing" by a restart
+ * or crash are picked up again once the lease runs out.
+ */
+export class ImportQueueWorker {
+  private running = new Map<string, Promise<number>>();
+  private bootResumeScheduled = false;
+  private adminFor: AdminFactory;
+  private importer: ImporterService;
+
+  constructor(adminFor: AdminFactory = offlineAdmin, importer: ImporterService = new ImporterService()) {
+    this.adminFor = adminFor;
+    this.importer = importer;
+  }
+
+  /**
+   * Process the shop's queue in the background. Returns the running drain when this
+   * process is already working on the shop; resolves to the number of rows processed.
+   */
+  run(shop: string): Promise<number> {
+    const existing = this.running.get(shop);
+    if (existing) return existing;
+
+    const drain = this.drain(shop)
+      .catch(error => {
+        console.error(`[ImportQueue] Worker for ${shop} stopped:`, error);
+        return 0;
+      })
+      .finally(() => this.running.delete(shop));
+    this.running.set(shop, drain);
+    return drain;
+  }
+
+  isRunning(shop: string): boolean {
+    return this.running.has(shop);
+  }
+
+  /** Whether the shop has rows a worker should pick up (queued, or processing with an expired lease) */
+  async hasWork(shop: string): Promise<boolean> {
+    return (await prisma.importQueue.count({ where: { shop, OR: this.claimableWhere(new Date()) } })) > 0;
+  }
+
+  /**
+   * Restart workers for every shop with unfinished rows. Runs once per process, shortly after
+   * boot, so imports interrupted by a deploy carry on without anyone opening the page.
+   */
+  resumeAfterBoot(): void {
+    if (this.bootResumeScheduled) return;
+    this.bootResumeScheduled = true;
+
+    const timer = setTimeout(async () => {
+      try {
+        const rows = await prisma.importQueue.findMany({
+          where: { OR: this.claimableWhere(new Date()) },
+          select: { shop: true },
+        });
+        for (const shop of new Set(rows.map(r => r.shop))) {
+          console.log(`[ImportQueue] Resuming queue for ${shop}`);
+          void this.run(shop);
+        }
+      } catch (error) {
+        console.warn("[ImportQueue] Failed to resume queues:", error instanceof Error ? error.message : error);
+      }
+    }, BOOT_RESUME_DELAY);
+    timer.unref?.();
+  }
+
+  private async drain(shop: string): Promise<number> {
+    let processed = 0;
+    for (;;) {
+      const item = await this.claimNext(shop);
+      if (!item) break;
+
+      if (processed > 0) await this.delay(ITEM_DELAY);
+      await this.processItem(item);
+      processed++;
+    }
+    if (processed > 0) console.log(`[ImportQueue] ${shop}: queue drained, ${processed} styles processed`);
+    return processed;
+  }
+
+  private claimableWhere(now: Date) {
+    return [
+      { status: "queued" },
+      { status: "processing", lockedUntil: null },
+      { status: "processing", lockedUntil: { lt: now } },
+    ];
+  }
+
+  // Oldest claimable row, taken over with a conditional update; null when nothing is left
+  private async claimNext(shop: string): Promise<ImportQueue | null> {
+    for (;;) {
+      const now = new Date();
+      const candidate = await prisma.importQueue.findFirst({
+        where: { shop, OR: this.claimableWhere(now) },
+        orderBy: { createdAt: "asc" },
+      });
+      if (!candidate) return null;
+
+      if (candidate.status === "processing" && candidate.attempts >= MAX_ATTEMPTS) {
+        const failed = await prisma.importQueue.updateMany({
+          where: { id: candidate.id, status: "processing", lockedUntil: candidate.lockedUntil },
+          data: {
+            status: "failed",
+            error: `Import was interrupted ${candidate.attempts} times`,
+            lockedUntil: null,
+            processedAt: now,
+          },
+        });
+        if (failed.count > 0) console.warn(`[ImportQueue] Giving up on style ${candidate.styleId} after ${candidate.attempts} attempts`);
+        continue;
+      }
+
+      const claimed = await prisma.importQueue.updateMany({
+        where: { id: candidate.id, status: candidate.status, lockedUntil: candidate.lockedUntil },
+        data: {
+          status: "processing",
+          attempts: { increment: 1 },
+          progress: "Starting",
+          error: null,
+          startedAt: now,
+          lockedUntil: new Date(now.getTime() + LEASE_MS),
+        },
+      });
+      // Another worker got there first - look again
+      if (claimed.count === 0) continue;
+
+      return { ...candidate, status: "processing", attempts: candidate.attempts + 1 };
+    }
+  }
+
+  private async processItem(item: ImportQueue): Promise<void> {
+    console.log(`[ImportQueue] Importing style ${item.styleId} for ${item.shop} (attempt ${item.attempts})`);
+
+    try {
+      const admin = await this.adminFor(item.shop);
+      const result = await this.importer.importStyle(admin, item.styleId, item.shop, {
+        sizeMarkups: parseSizeMarkups(item.sizeMarkups),
+        priceRuleId: item.priceRuleId,
+        tags: item.tags ? item.tags.split(",") : [],
+        collection: item.collection,
+        split: item.split,
+        optionProfileId: item.optionProfileId,
+        selection: parseSelection(item.selection) ?? undefined,
+        images: parseImageKinds(item.images),
+        onProgress: step => this.heartbeat(item.id, step),
+      });
+
+      await this.finish(item.id, {
+        status: "completed",
+        progress: result.message,
+        productId: result.shopifyProduct?.id ?? null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ImportQueue] Style ${item.styleId} failed:`, message);
+      await this.finish(item.id, { status: "failed", error: message, progress: null });
+    }
+  }
+
+  // Record the current step and extend the lease
+  private async heartbeat(id: string, step: string): Promise<void> {
+    await prisma.importQueue.update({
+      where: { id },
+      data: { progress: step, lockedUntil: new Date(Date.now() + LEASE_MS) },
+    });
+  }
+
+  private async finish(id: string, data: { status: string; progress: string | null; productId?: string | null; error?: string }) {
+    try {
+      await prisma.importQueue.update({
+        where: { id },
+        data: { ...data, lockedUntil: null, processedAt: new Date() },
+      });
+    } catch (error) {
+      // The row was removed from the queue while it was importing
+      console.warn(`[ImportQueue] Could not record result for ${id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const importQueueWorker = new ImportQueueWorker();
@@ -1,29 +1,162 @@
+import type { ImportJob, PriceRule } from "@prisma/client";
 import prisma from "../db.server";
-import { SSActiveWearClient, type SSProduct } from "./ssactivewear";
+import { apiMeter } from "./apiMeter.server";
+import { colorSwatches, SWATCH_METAFIELD } from "./colorSwatches.server";
+import { descriptions, SPEC_METAFIELD_DEFINITIONS, SPECS_NAMESPACE, type ProductContent, type ProductMetafield } from "./descriptions.server";
+import { imageMirror, type ImageMirrorService } from "./imageMirror.server";
+import { importJobs, type ImportStep } from "./importJobs.server";
+import { DEFAULT_OPTION_NAMES, sortSizes, type OptionNames, type ResolvedOptionProfile } from "./optionProfiles";
+import { optionProfiles } from "./optionProfiles.server";
+import { priceRuleService } from "./priceRules.server";
+import {
+  ALL_SIZES,
+  DEFAULT_IMAGE_KINDS,
+  FULL_SELECTION,
+  imageKindLabel,
+  isFullSelection,
+  parseSelection,
+  SPLIT_OPTIONS,
+  type DroppedVariant,
+  type FailedImage,
+  type ImageKind,
+  type ImportPlan,
+  type ImportSelection,
+  type PlannedProduct,
+  type PlannedVariant,
+  type SizeMarkups,
+  type SplitStrategy,
+} from "./importPlan";
+import { PriceFormulaError } from "./priceFormula";
+import { formulaContextFor, priceWithRule } from "./pricing";
+import { getSSClient } from "./ssClient.server";
+import type { SSProduct } from "./ssactivewear";
+import { warehouseLocations, type InventoryQuantity } from "./warehouseLocations.server";
 
-const ssClient = new SSActiveWearClient();
 const MAX_VARIANTS = 2000;
 const MAX_IMAGES = 50;
 const PRODUCT_SET_MAX = 50;      // İlk batch için productSet
 const BULK_BATCH_SIZE = 50;     // Sonraki batch'ler için
 const BATCH_DELAY = 500;        // Rate limit koruması
+const METAFIELDS_SET_MAX = 25;  // metafieldsSet limit per call
+const SIBLINGS_NAMESPACE = "ss_style";
+
+// S&S photo fields of each image kind, in gallery order
+const IMAGE_FIELDS: Record<ImageKind, Array<keyof SSProduct>> = {
+  front: ["colorFrontImage"],
+  back: ["colorBackImage"],
+  side: ["colorSideImage"],
+  onModel: ["colorOnModelFrontImage", "colorOnModelSideImage", "colorOnModelBackImage"],
+  directSide: ["colorDirectSideImage"],
+};
+
+// How variant prices are worked out for one import
+interface VariantPricingOptions {
+  rule: PriceRule | null;
+  sizeMarkups?: SizeMarkups;
+  category?: string; // style base category, for formula rules
+  formulaErrors: Map<string, string>; // SKU -> why the rule's formula could not price it (it got the unruled price)
+}
+
+// Per-import settings from the import page or a queued ImportQueue row
+export interface ImportOptions {
+  sizeMarkups?: SizeMarkups;
+  priceRuleId?: string | null; // price with this rule instead of resolving one for the style
+  tags?: string[];             // added to the product's tags
+  collection?: string | null;  // handle of a collection to add the product to
+  split?: string | null;       // SplitStrategy; defaults to the split the style was imported with before
+  optionProfileId?: string | null; // OptionProfile for option names and size order; the shop's default when empty
+  selection?: ImportSelection | null; // colors / sizes / warehouses / minimum stock; the style's last selection when undefined
+  images?: ImageKind[] | null; // photos of each color to upload; front and back when empty
+  onProgress?: (step: string) => void | Promise<void>;
+}
 
 interface ImportResult {
   productMap: any;
   shopifyProduct: any;
+  mode: "created" | "updated";
+  priceRuleId: string | null;
   variantCount: number;
   imageCount: number;
+  failedImages: FailedImage[]; // images that could not be mirrored or added, also summed up in the message
   message: string;
 }
 
+// One S&S photo of a color
+interface ColorImage {
+  url: string;
+  kind: ImageKind;
+  color: string; // S&S color name
+}
+
+// An image an import adds to the product
+interface PlannedMedia {
+  source: string; // S&S URL
+  alt: string;
+  colorKey: string | null;
+  color: string | null;
+  kind: ImageKind | null;
+}
+
+// Inventory item fields the importer keeps in line with S&S; absent when S&S has no value
+interface InventoryItemDetails {
+  cost?: string;
+  measurement?: { weight: { value: number; unit: "POUNDS" } };
+  countryCodeOfOrigin?: string;
+}
+
+// Current state of an already imported product, as read back from Shopify
+interface ExistingProduct {
+  id: string;
+  variants: Array<{
+    id: string;
+    sku: string;
+    price: string;
+    compareAtPrice: string | null;
+    barcode: string | null;
+    inventoryItem: InventoryItemDetails;
+    optionsKey: string; // normalized "color|size"
+    mediaId: string | null;
+  }>;
+  media: Array<{ id: string; alt: string; url: string | null }>;
+  optionNames: OptionNames; // the product's first two options, whatever the merchant named them
+  colorLinked: boolean;     // the color option is linked to the swatch metaobjects
+}
+
+// Prices the app wrote to a variant, by Shopify variant ID (VariantMap) or S&S SKU (about to be saved)
+type WrittenPrice = { price: string | null; compareAtPrice: string | null };
+
+// The S&S products that become one Shopify product. `key`/`label` are null when the style is not split.
+type ProductGroup = Omit<ReturnType<ImporterService["prepareData"]>, "dropped"> & {
+  key: string | null;   // ProductMap.ssGroupKey
+  label: string | null; // color / color family, appended to the product title
+  optionNames: OptionNames;
+};
+
 export class ImporterService {
-  async importStyle(admin: any, styleId: number, shop: string, sizeMarkups?: Record<string, { type: string; value: number }>): Promise<ImportResult> {
+  private mirror: ImageMirrorService;
+
+  constructor(mirror: ImageMirrorService = imageMirror) {
+    this.mirror = mirror;
+  }
+
+  async importStyle(admin: any, styleId: number, shop: string, options: ImportOptions = {}): Promise<ImportResult> {
     console.log(`[Importer] Starting import for style ${styleId}`);
+    const { sizeMarkups } = options;
+    const progress = async (step: string) => {
+      try {
+        await options.onProgress?.(step);
+      } catch (e) {
+        console.warn("[Importer] Progress callback failed:", e);
+      }
+    };
     if (sizeMarkups && Object.keys(sizeMarkups).length > 0) {
       console.log(`[Importer] Size markups:`, JSON.stringify(sizeMarkups));
     }
+    admin = apiMeter.wrapAdmin(admin, shop);
+    const ssClient = await getSSClient(shop);
 
     // 1. Fetch data
+    await progress("Fetching S&S data");
     const styleDetails = await ssClient.getStyleDetails(styleId);
     if (!styleDetails?.length) throw new Error(`Style ${styleId} not found`);
     const style = styleDetails[0];
@@ -33,6 +166,10 @@ export class ImporterService {
 
     console.log(`[Importer] "${style.title}" - ${products.length} SKUs`);
 
+    const priceRule = await priceRuleService.ruleForImport(shop, style, options.priceRuleId);
+    const pricing: VariantPricingOptions = { rule: priceRule, sizeMarkups, category: style.baseCategory, formulaErrors: new Map() };
+    console.log(`[Importer] Pricing: ${priceRule ? `rule "${priceRule.name}" (${priceRule.type} ${priceRule.value})` : "S&S piece price"}`);
+
     // Cache style info for quick-reorder
     try {
       const s = style as any;
@@ -63,119 +200,1003 @@ export class ImporterService {
       console.warn("[Importer] Failed to cache style:", e);
     }
 
-    // 2. Prepare data
-    const { normalizedProducts, uniqueColors, uniqueSizes, colorImages } = this.prepareData(products);
-    console.log(`[Importer] ${uniqueColors.length} colors, ${uniqueSizes.length} sizes, ${normalizedProducts.length} variants`);
+    // 2. Prepare data, one group per Shopify product
+    const split = await this.splitStrategy(shop, styleId, options.split);
+    const profile = await optionProfiles.resolve(shop, options.optionProfileId);
+    const selection = await this.importSelection(shop, styleId, options.selection);
+    const selected = this.applySelection(products, selection);
+    if (selected.products.length === 0) {
+      throw new Error(`None of the ${products.length} SKUs of style ${styleId} match the selected colors, sizes and minimum stock`);
+    }
+    if (!isFullSelection(selection)) {
+      console.log(`[Importer] Selection keeps ${selected.products.length} of ${products.length} SKUs`);
+    }
+
+    const images = options.images?.length ? options.images : DEFAULT_IMAGE_KINDS;
+    const { groups } = this.splitGroups(selected.products, split, profile);
+    const content = await descriptions.contentFor(shop, style, selected.products);
+    if (content.metafields.length > 0) {
+      await this.ensureMetafieldDefinitions(admin, SPECS_NAMESPACE, SPEC_METAFIELD_DEFINITIONS);
+    }
+    if (split === "single") {
+      return this.importGroup(admin, shop, style, groups[0], content, pricing, { ...options, split, selection, images }, progress);
+    }
+
+    console.log(`[Importer] Splitting by ${split} into ${groups.length} products`);
+    const results: Array<ImportResult & { group: string }> = [];
+    const failures: string[] = [];
+    for (const group of groups) {
+      try {
+        const result = await this.importGroup(admin, shop, style, group, content, pricing, { ...options, split, selection, images }, progress);
+        results.push({ ...result, group: group.label! });
+      } catch (error) {
+        // Carry on with the other colors; the failed ones are retried by the next import
+        console.error(`[Importer] ${group.label} failed:`, error instanceof Error ? error.message : error);
+        failures.push(`${group.label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const failedImages = results.flatMap(r => r.failedImages);
+    const problems = results.length > 0
+      ? [
+        ...await this.linkSiblings(admin, style.styleID, results.map(r => ({ productId: r.shopifyProduct.id, group: r.group }))),
+        ...this.imageProblems(failedImages),
+        ...this.pricingProblems(pricing),
+      ]
+      : [];
+    if (failures.length > 0) {
+      throw new Error(`Imported ${results.length} of ${groups.length} products of "${style.title}" (${failures.join("; ")})`);
+    }
+
+    const created = results.filter(r => r.mode === "created").length;
+    return {
+      productMap: results[0].productMap,
+      shopifyProduct: results[0].shopifyProduct,
+      mode: created > 0 ? "created" : "updated",
+      priceRuleId: pricing.rule?.id ?? null,
+      variantCount: results.reduce((sum, r) => sum + r.variantCount, 0),
+      imageCount: results.reduce((sum, r) => sum + r.imageCount, 0),
+      failedImages,
+      message: `"${style.title}" as ${results.length} products by ${split === "color" ? "color" : "color family"}: ${created} created, ${results.length - created} updated${problems.length > 0 ? ` (${problems.join("; ")})` : ""}`,
+    };
+  }
+
+  /** Create or update the Shopify product of one group (the whole style when it is not split) */
+  private async importGroup(
+    admin: any,
+    shop: string,
+    style: any,
+    group: ProductGroup,
+    content: ProductContent,
+    pricing: VariantPricingOptions,
+    options: ImportOptions,
+    progress: (step: string) => Promise<void>
+  ): Promise<ImportResult> {
+    const product = group.label ? { ...style, title: `${style.title} - ${group.label}` } : style;
+    const groupProgress = group.label ? (step: string) => progress(`${group.label}: ${step}`) : progress;
+    console.log(`[Importer] ${group.label ? `${group.label}: ` : ""}${group.uniqueColors.length} colors, ${group.uniqueSizes.length} sizes, ${group.normalizedProducts.length} variants`);
+
+    // Re-import: update the product this style was already imported as instead of creating a duplicate.
+    // The description is left alone since the merchant may have edited it; the spec metafields are refreshed.
+    const existing = await this.findExistingProduct(admin, shop, style.styleID, group.key);
+    if (existing) {
+      await groupProgress("Updating existing product");
+      const result = await this.updateExistingProduct(admin, existing.productMap, existing.product, product, group.normalizedProducts, group.colorImages, pricing, options);
+      const problems = [
+        ...await this.organizeProduct(admin, existing.product.id, options),
+        ...await this.setMetafields(admin, existing.product.id, content.metafields, "spec metafields not updated"),
+        ...this.imageProblems(result.failedImages),
+        ...this.pricingProblems(pricing),
+      ];
+      return problems.length > 0 ? { ...result, message: `${result.message} (${problems.join("; ")})` } : result;
+    }
+
+    // 3. Create the product as checkpointed steps, so a retry resumes instead of building a second product
+    const job = await importJobs.begin(shop, style.styleID, {
+      priceRuleId: options.priceRuleId,
+      tags: options.tags,
+      collection: options.collection,
+      sizeMarkups: options.sizeMarkups,
+      split: options.split ?? undefined,
+      optionProfileId: options.optionProfileId,
+      selection: options.selection,
+      images: options.images,
+    }, group.key);
+    try {
+      return await this.createWithCheckpoints(admin, job, product, group, content, pricing, options, groupProgress);
+    } catch (error) {
+      await importJobs.fail(job.id, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Dry run of importStyle: the option matrix, per-variant prices, stock and images an import
+   * would create or change. Only reads - no Shopify mutations and no database writes.
+   */
+  async previewImport(admin: any, styleId: number, shop: string, options: Pick<ImportOptions, "sizeMarkups" | "priceRuleId" | "split" | "optionProfileId" | "selection" | "images"> = {}): Promise<ImportPlan> {
+    admin = apiMeter.wrapAdmin(admin, shop);
+    const ssClient = await getSSClient(shop);
+
+    const styleDetails = await ssClient.getStyleDetails(styleId);
+    if (!styleDetails?.length) throw new Error(`Style ${styleId} not found`);
+    const style = styleDetails[0];
+    const products = await ssClient.getProducts(styleId);
+    if (!products?.length) throw new Error(`No products found for style ${styleId}`);
+
+    const rule = await priceRuleService.ruleForImport(shop, style, options.priceRuleId);
+    const pricing: VariantPricingOptions = { rule, sizeMarkups: options.sizeMarkups, category: style.baseCategory, formulaErrors: new Map() };
+    const split = await this.splitStrategy(shop, styleId, options.split);
+    const profile = await optionProfiles.resolve(shop, options.optionProfileId);
+    const selection = await this.importSelection(shop, styleId, options.selection);
+    const selected = this.applySelection(products, selection);
+    const { groups, dropped } = this.splitGroups(selected.products, split, profile);
+    const content = await descriptions.contentFor(shop, style, selected.products);
+
+    const plan: ImportPlan = {
+      styleId,
+      title: style.title,
+      brand: style.brandName,
+      split,
+      products: [],
+      mode: "create",
+      productId: null,
+      priceRule: rule ? { id: rule.id, name: rule.name } : null,
+      optionProfile: profile.name,
+      optionNames: profile.optionNames,
+      descriptionHtml: content.descriptionHtml,
+      specMetafields: content.metafields.map(m => ({ key: m.key, value: m.value })),
+      selection,
+      unselected: selected.unselected,
+      colors: [],
+      sizes: [],
+      variants: [],
+      dropped: [...selected.dropped, ...dropped],
+      retired: [],
+      images: [],
+      warnings: [],
+    };
+
+    let existingNames: OptionNames | null = null; // an existing product keeps its option names
+    const stillSold = new Set(products.map(p => p.sku));
+    const belowMinimum = new Set(selected.dropped.map(d => d.sku));
+    for (const group of groups) {
+      const { normalizedProducts, colorImages } = group;
+      const product = group.label ? { ...style, title: `${style.title} - ${group.label}` } : style;
+      const warn = (warning: string) => plan.warnings.push(group.label ? `${group.label}: ${warning}` : warning);
+
+      // Same lookup as findExistingProduct, minus the cleanup of stale mappings
+      let existing: ExistingProduct | null = null;
+      let mapped = new Map<string, string>();
+      let written = new Map<string, WrittenPrice>();
+      const productMap = await prisma.productMap.findFirst({
+        where: { shop, ssStyleId: String(styleId), ssGroupKey: group.key },
+        orderBy: { createdAt: "desc" },
+      });
+      if (productMap) {
+        existing = await this.fetchProductState(admin, productMap.shopifyProductId);
+        if (existing) {
+          mapped = await this.loadVariantMaps(productMap.id);
+          written = await this.loadWrittenPrices(productMap.id);
+          existingNames ??= existing.optionNames;
+        } else {
+          warn(`The product this style was imported as (${productMap.shopifyProductId}) no longer exists, a new one will be created`);
+        }
+      }
+
+      const matches = existing ? this.matchVariants(existing, normalizedProducts, mapped) : new Map<string, any>();
+      const currentBySku = new Map<string, ExistingProduct["variants"][number]>();
+      for (const [variantId, p] of matches) {
+        const variant = existing!.variants.find(v => v.id === variantId);
+        if (variant) currentBySku.set(p.sku, variant);
+      }
+
+      const { allMedia, colorMediaMap, overLimit } = this.planMedia(product, colorImages, options.images?.length ? options.images : DEFAULT_IMAGE_KINDS, existing ?? undefined);
+      const mediaColors = new Map(Array.from(colorMediaMap, ([colorKey, mediaId]) => [mediaId, colorKey]));
+      plan.images.push(
+        ...(existing?.media || []).map(m => ({ url: m.url || "", alt: m.alt, color: mediaColors.get(m.id) ?? null, kind: null, status: "existing" as const })),
+        ...allMedia.map(m => ({ url: m.source, alt: m.alt, color: m.color, kind: m.kind, status: "new" as const })),
+        ...overLimit.map(m => ({ url: m.source, alt: m.alt, color: m.color, kind: m.kind, status: "over limit" as const })),
+      );
+      if (overLimit.length > 0) warn(`${overLimit.length} images are over the ${MAX_IMAGES} image limit and will not be uploaded`);
+      const colorImage = (colorKey: string) => colorMediaMap.has(colorKey)
+        ? "(existing image)"
+        : allMedia.find(m => m.colorKey === colorKey)?.source ?? null;
+
+      let merchantPrices = 0;
+      plan.variants.push(...normalizedProducts.map((p): PlannedVariant => {
+        const current = currentBySku.get(p.sku);
+        const kept = !!current && this.merchantPriced(current, written.get(current.id));
+        if (kept) merchantPrices++;
+        const { price, compareAtPrice } = kept
+          ? { price: current.price, compareAtPrice: current.compareAtPrice ?? undefined }
+          : this.variantPricing(p, pricing);
+        const changed = !!current && (Number(current.price) !== Number(price) || Number(current.compareAtPrice || 0) !== Number(compareAtPrice || 0));
+        return {
+          product: product.title,
+          sku: p.sku,
+          color: p.normalizedColor,
+          size: p.normalizedSize,
+          cost: p.piecePrice || 0,
+          price,
+          compareAtPrice: compareAtPrice ?? null,
+          currentPrice: current?.price ?? null,
+          stock: p.totalStock,
+          barcode: p.gtin || null,
+          image: current ? null : colorImage(this.normalize(p.normalizedColor)),
+          action: !current ? "create" : changed ? "update" : "unchanged",
+        };
+      }));
+      if (merchantPrices > 0) warn(`${merchantPrices} variants keep the price the merchant set in Shopify`);
+
+      const retireReason = (sku: string) => belowMinimum.has(sku) ? "Under the minimum stock" : stillSold.has(sku) ? "Not selected" : "Discontinued by S&S";
+      plan.retired.push(...(existing?.variants || [])
+        .filter(v => (v.sku || mapped.has(v.id)) && !matches.has(v.id))
+        .map(v => ({ sku: v.sku, variantId: v.id, reason: retireReason(v.sku) })));
+
+      const planned: PlannedProduct = {
+        title: product.title,
+        group: group.label,
+        mode: existing ? "update" : "create",
+        productId: existing?.id ?? null,
+        variantCount: normalizedProducts.length,
+      };
+      plan.products.push(planned);
+      plan.colors.push(...group.uniqueColors.filter(c => !plan.colors.includes(c)));
+      plan.sizes.push(...group.uniqueSizes.filter(s => !plan.sizes.includes(s)));
+    }
+
+    const firstExisting = plan.products.find(p => p.productId);
+    if (firstExisting && existingNames) plan.optionNames = existingNames;
+    plan.mode = firstExisting ? "update" : "create";
+    plan.productId = firstExisting?.productId ?? null;
 
-    // 3. Split: first batch for productSet, rest for bulk create
-    const firstBatch = normalizedProducts.slice(0, PRODUCT_SET_MAX);
-    const remainingBatches = normalizedProducts.slice(PRODUCT_SET_MAX);
+    if (!rule && !Object.values(options.sizeMarkups || {}).some(m => m.value)) plan.warnings.push("No price rule applies - variants are priced at the S&S piece price");
+    if (plan.variants.some(v => Number(v.price) <= v.cost)) plan.warnings.push("Some variants are priced at or below cost");
+    plan.warnings.push(...this.pricingProblems(pricing));
+
+    return plan;
+  }
+
+  /**
+   * The create path of importStyle. Each step is checkpointed on the ImportJob; a resumed job
+   * skips the steps it finished and checks the product in Shopify for what is still missing.
+   */
+  private async createWithCheckpoints(
+    admin: any,
+    job: ImportJob,
+    style: any,
+    prepared: ProductGroup,
+    content: ProductContent,
+    pricing: VariantPricingOptions,
+    options: ImportOptions,
+    onStep: (step: string) => Promise<void>
+  ): Promise<ImportResult> {
+    const { normalizedProducts, uniqueColors, uniqueSizes, colorImages, optionNames } = prepared;
+    let step = job.step as ImportStep;
+    let productId = job.productId;
+    let variantCount = job.variantCount;
+    let imageCount = job.imageCount;
+    let failedImages: FailedImage[] = [];
+    let state: ExistingProduct | null = null;
+    const isDone = (s: ImportStep) => importJobs.isDone({ step }, s);
+    // Progress also keeps the job from looking stale, as mirroring images alone can take minutes
+    const progress = async (message: string) => {
+      await importJobs.touch(job.id);
+      await onStep(message);
+    };
+
+    if (productId) {
+      state = await this.fetchProductState(admin, productId);
+      if (!state) {
+        console.log(`[Importer] Draft ${productId} of the interrupted import is gone, starting over`);
+        productId = null;
+        step = "product";
+      }
+    } else if (job.operationId) {
+      // productSet may have finished after the previous attempt stopped polling
+      const created = await this.waitForProductOperation(admin, job.operationId, PRODUCT_SET_MAX)
+        .catch(e => {
+          console.log(`[Importer] Previous productSet operation unusable: ${e instanceof Error ? e.message : e}`);
+          return null;
+        });
+      if (created) {
+        productId = created.productId;
+        variantCount = created.createdCount;
+        step = "variants";
+        await importJobs.checkpoint(job.id, { productId, variantCount, step });
+        state = await this.fetchProductState(admin, productId);
+      }
+    }
+
+    // A linked color option needs the swatch of every color, also for the variants added later
+    const swatches = !isDone("product") || state?.colorLinked ? await colorSwatches.swatchesFor(admin, normalizedProducts) : null;
 
     // 4. Create product with first batch using productSet
-    const { productId, createdCount: initialCreated } = await this.createProductWithFirstBatch(admin, style, firstBatch, uniqueColors, uniqueSizes, sizeMarkups);
-    console.log(`[Importer] Product created: ${productId} with ${initialCreated}/${firstBatch.length} initial variants`);
+    if (!isDone("product")) {
+      await progress("Creating product");
+      const firstBatch = normalizedProducts.slice(0, PRODUCT_SET_MAX);
+      const created = await this.createProductWithFirstBatch(admin, style, firstBatch, uniqueColors, uniqueSizes, content, pricing, optionNames, swatches,
+        operationId => importJobs.checkpoint(job.id, { operationId }));
+      productId = created.productId;
+      variantCount = created.createdCount;
+      step = "variants";
+      await importJobs.checkpoint(job.id, { productId, variantCount, step });
+      console.log(`[Importer] Product created: ${productId} with ${created.createdCount}/${firstBatch.length} initial variants`);
+    }
+    if (!productId) throw new Error("Import job has no product to continue with");
 
     // 5. Add remaining variants in batches using productVariantsBulkCreate
-    let additionalCreated = 0;
-    if (remainingBatches.length > 0) {
-      additionalCreated = await this.addRemainingVariants(admin, productId, remainingBatches, sizeMarkups);
-      console.log(`[Importer] Added ${additionalCreated} additional variants`);
+    if (!isDone("variants")) {
+      // A resumed job adds whatever Shopify does not have yet
+      const have = state ? new Set(state.variants.map(v => v.sku)) : null;
+      const missing = have ? normalizedProducts.filter(p => !have.has(p.sku)) : normalizedProducts.slice(PRODUCT_SET_MAX);
+      if (missing.length > 0) {
+        await progress(`Adding ${missing.length} more variants`);
+        const base = variantCount;
+        const added = await this.addRemainingVariants(admin, productId, missing, pricing, state?.optionNames ?? optionNames, swatches,
+          created => importJobs.checkpoint(job.id, { variantCount: base + created }));
+        variantCount = base + added;
+        console.log(`[Importer] Added ${added} additional variants`);
+      }
+      step = "media";
+      await importJobs.checkpoint(job.id, { variantCount, step });
     }
 
-    const variantCount = initialCreated + additionalCreated;
-
-    // 6. Add images
-    const imageCount = await this.addImages(admin, productId, style, colorImages);
+    // 6. Add images (a resumed job keeps the images already uploaded and attaches them to every variant)
+    if (!isDone("media")) {
+      await progress("Adding images");
+      const current = state ? await this.fetchProductState(admin, productId) : null;
+      const media = await this.addImages(admin, productId, style, colorImages, options.images || DEFAULT_IMAGE_KINDS, current ? { ...current, variants: [] } : undefined, optionNames.color, progress);
+      imageCount += media.uploaded;
+      failedImages = media.failed;
+      step = "inventory";
+      await importJobs.checkpoint(job.id, { imageCount, step });
+    }
 
     // 7. Update inventory
-    await this.updateInventory(admin, productId, normalizedProducts);
+    if (!isDone("inventory")) {
+      await progress("Updating inventory");
+      await this.updateInventory(admin, job.shop, productId, normalizedProducts);
+      step = "publish";
+      await importJobs.checkpoint(job.id, { step });
+    }
 
-    // 8. Publish
-    await this.publishProduct(admin, productId);
+    // 8. Publish, tag and add to the requested collection
+    let problems: string[] = [];
+    if (!isDone("publish")) {
+      await progress("Publishing");
+      await this.publishProduct(admin, productId);
+      problems = await this.organizeProduct(admin, productId, options);
+      step = "map";
+      await importJobs.checkpoint(job.id, { step });
+    }
+
+    problems.push(...this.imageProblems(failedImages), ...this.pricingProblems(pricing));
 
     // 9. Save to DB
-    const productMap = await prisma.productMap.create({
-      data: {
-        shop,
+    const priceRuleId = pricing.rule?.id ?? null;
+    const productMap = await prisma.productMap.upsert({
+      where: { shopifyProductId: productId },
+      create: {
+        shop: job.shop,
         shopifyProductId: productId,
         ssStyleId: String(style.styleID),
+        priceRuleId,
+        splitBy: job.groupKey ? options.split : null,
+        ssGroupKey: job.groupKey,
+        selection: this.selectionColumn(options.selection),
       },
+      update: { priceRuleId, selection: this.selectionColumn(options.selection) },
     });
+    const written = new Map(normalizedProducts.map(p => [p.sku, this.writtenPrice(p, pricing)]));
+    await this.saveVariantMaps(admin, productMap.id, productId, normalizedProducts, written)
+      .catch(e => console.warn("[Importer] Failed to map variants:", e));
+    await importJobs.complete(job.id);
 
-    console.log(`[Importer] ✅ Complete: ${variantCount} variants, ${imageCount} images`);
+    console.log(`[Importer] ✅ Complete: ${variantCount} variants, ${imageCount} images${job.attempts > 1 ? ` (resumed, attempt ${job.attempts})` : ""}`);
 
     return {
       productMap,
       shopifyProduct: { id: productId },
+      mode: "created",
+      priceRuleId,
       variantCount,
       imageCount,
-      message: `Imported "${style.title}" with ${variantCount} variants`,
+      failedImages,
+      message: `Imported "${style.title}" with ${variantCount} variants${problems.length > 0 ? ` (${problems.join("; ")})` : ""}`,
     };
   }
 
-  private prepareData(products: SSProduct[]) {
+  /**
+   * The split a style is imported with: the requested one, or the one it was imported with before.
+   * Switching an imported style to another split would leave its old products behind, so that is refused.
+   */
+  private async splitStrategy(shop: string, styleId: number, requested?: string | null): Promise<SplitStrategy> {
+    const previous = await prisma.productMap.findFirst({
+      where: { shop, ssStyleId: String(styleId) },
+      orderBy: { createdAt: "desc" },
+    });
+    const current = previous ? ((previous.splitBy || "single") as SplitStrategy) : null;
+    const wanted = SPLIT_OPTIONS.find(o => o.value === requested);
+
+    if (wanted && current && wanted.value !== current) {
+      const currentLabel = SPLIT_OPTIONS.find(o => o.value === current)?.label ?? current;
+      throw new Error(`Style ${styleId} is already imported as "${currentLabel}". Delete its products in Shopify to import it as "${wanted.label}"`);
+    }
+    return wanted?.value ?? current ?? "single";
+  }
+
+  /**
+   * Partition a style's products into the Shopify products it is imported as. Each group is
+   * prepared on its own, so every product gets its own options, images and variant limit.
+   */
+  private splitGroups(products: SSProduct[], split: SplitStrategy, profile: ResolvedOptionProfile): { groups: ProductGroup[]; dropped: DroppedVariant[] } {
+    const { optionNames } = profile;
+    if (split === "single") {
+      const { dropped, ...prepared } = this.prepareData(products, profile.sizeOrder);
+      return { groups: [{ key: null, label: null, optionNames, ...prepared }], dropped };
+    }
+
+    const partitions = new Map<string, { label: string; products: SSProduct[] }>();
+    for (const p of products) {
+      const family = split === "colorFamily" ? (p.colorFamily || p.colorGroupName || "").trim() : "";
+      const label = family || (p.colorName || "").trim();
+      const key = this.normalize(label);
+      if (!partitions.has(key)) partitions.set(key, { label, products: [] });
+      partitions.get(key)!.products.push(p);
+    }
+
+    const groups: ProductGroup[] = [];
+    const dropped: DroppedVariant[] = [];
+    for (const [key, partition] of partitions) {
+      const { dropped: groupDropped, ...prepared } = this.prepareData(partition.products, profile.sizeOrder);
+      dropped.push(...groupDropped);
+      // SKUs without a color end up in a group of their own that has nothing to import
+      if (prepared.normalizedProducts.length > 0) groups.push({ key, label: partition.label, optionNames, ...prepared });
+    }
+    return { groups, dropped };
+  }
+
+  /** The requested selection, else the one the style was imported with before, else everything */
+  private async importSelection(shop: string, styleId: number, requested?: ImportSelection | null): Promise<ImportSelection> {
+    if (requested !== undefined) return requested ?? FULL_SELECTION;
+    const previous = await prisma.productMap.findFirst({
+      where: { shop, ssStyleId: String(styleId) },
+      orderBy: { createdAt: "desc" },
+    });
+    return parseSelection(previous?.selection) ?? FULL_SELECTION;
+  }
+
+  /**
+   * Narrow a style's SKUs to the selection. Stock only counts the selected warehouses, and SKUs
+   * under the minimum stock are dropped; `unselected` counts the SKUs of colors / sizes not selected.
+   */
+  private applySelection(products: SSProduct[], selection: ImportSelection): { products: SSProduct[]; dropped: DroppedVariant[]; unselected: number } {
+    const wanted = (values: string[]) => (values.length > 0 ? new Set(values.map(v => this.normalize(v))) : null);
+    const colors = wanted(selection.colors);
+    const sizes = wanted(selection.sizes);
+    const warehouses = wanted(selection.warehouses);
+
+    const result = { products: [] as SSProduct[], dropped: [] as DroppedVariant[], unselected: 0 };
+    for (const p of products) {
+      if ((colors && !colors.has(this.normalize(p.colorName))) || (sizes && !sizes.has(this.normalize(p.sizeName)))) {
+        result.unselected++;
+        continue;
+      }
+      let product = p;
+      if (warehouses && p.warehouses) {
+        const stocked = p.warehouses.filter(w => warehouses.has(this.normalize(w.warehouseAbbr)));
+        product = { ...p, warehouses: stocked, qty: stocked.reduce((sum, w) => sum + (w.qty || 0), 0) };
+      }
+      const stock = product.warehouses ? product.warehouses.reduce((sum, w) => sum + (w.qty || 0), 0) : product.qty || 0;
+      if (stock < selection.minStock) {
+        result.dropped.push({ sku: p.sku, color: p.colorName || "", size: p.sizeName || "", reason: `Only ${stock} in stock (minimum ${selection.minStock})` });
+        continue;
+      }
+      result.products.push(product);
+    }
+    return result;
+  }
+
+  // ProductMap.selection; an import of everything is stored as null
+  private selectionColumn(selection?: ImportSelection | null): string | null {
+    return selection && !isFullSelection(selection) ? JSON.stringify(selection) : null;
+  }
+
+  /**
+   * Point the products of a split style at each other with `ss_style` metafields, so the theme can
+   * show them as one style: `siblings` lists every product in order, `group` names this one's color.
+   * Problems are returned rather than thrown since the products themselves are in place.
+   */
+  private async linkSiblings(admin: any, styleId: number, products: Array<{ productId: string; group: string }>): Promise<string[]> {
+    await this.ensureMetafieldDefinitions(admin, SIBLINGS_NAMESPACE, [
+      { key: "siblings", name: "Style siblings", type: "list.product_reference" },
+      { key: "style_id", name: "S&S style ID", type: "number_integer" },
+      { key: "group", name: "Style color group", type: "single_line_text_field" },
+    ]);
+
+    const siblings = JSON.stringify(products.map(p => p.productId));
+    const problems: string[] = [];
+    for (const p of products) {
+      problems.push(...await this.setMetafields(admin, p.productId, [
+        { namespace: SIBLINGS_NAMESPACE, key: "siblings", type: "list.product_reference", value: siblings },
+        { namespace: SIBLINGS_NAMESPACE, key: "style_id", type: "number_integer", value: String(styleId) },
+        { namespace: SIBLINGS_NAMESPACE, key: "group", type: "single_line_text_field", value: p.group },
+      ], "siblings not linked"));
+    }
+    return problems;
+  }
+
+  /** Set metafields on a product; problems are returned (prefixed with `failure`) instead of thrown */
+  private async setMetafields(admin: any, productId: string, metafields: ProductMetafield[], failure: string): Promise<string[]> {
+    const inputs = metafields.map(m => ({ ownerId: productId, ...m }));
+    const problems: string[] = [];
+    for (let i = 0; i < inputs.length; i += METAFIELDS_SET_MAX) {
+      try {
+        const response = await admin.graphql(`
+          mutation metafieldsSet($metafields: [MetafieldsSetInput!]!) {
+            metafieldsSet(metafields: $metafields) {
+              metafields { id }
+              userErrors { field message }
+            }
+          }
+        `, { variables: { metafields: inputs.slice(i, i + METAFIELDS_SET_MAX) } });
+        const json = await response.json();
+        const error = json.errors?.[0]?.message || json.data?.metafieldsSet?.userErrors?.[0]?.message;
+        if (error) problems.push(`${failure}: ${error}`);
+      } catch (e) {
+        problems.push(`${failure}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    problems.forEach(p => console.warn(`[Importer] ${productId}: ${p}`));
+    return problems;
+  }
+
+  // Storefront-readable definitions for the metafields the importer writes; "already exists" on every import but the first
+  private async ensureMetafieldDefinitions(admin: any, namespace: string, definitions: Array<{ key: string; name: string; type: string }>) {
+    for (const definition of definitions) {
+      try {
+        await admin.graphql(`
+          mutation metafieldDefinitionCreate($definition: MetafieldDefinitionInput!) {
+            metafieldDefinitionCreate(definition: $definition) {
+              createdDefinition { id }
+              userErrors { field message code }
+            }
+          }
+        `, {
+          variables: {
+            definition: {
+              ...definition,
+              namespace,
+              ownerType: "PRODUCT",
+              access: { storefront: "PUBLIC_READ" },
+            },
+          },
+        });
+      } catch (e) { /* the metafields still work without a definition */ }
+    }
+  }
+
+  private async findExistingProduct(admin: any, shop: string, styleId: number, groupKey: string | null = null) {
+    const productMap = await prisma.productMap.findFirst({
+      where: { shop, ssStyleId: String(styleId), ssGroupKey: groupKey },
+      orderBy: { createdAt: "desc" },
+    });
+    if (!productMap) return null;
+
+    const product = await this.fetchProductState(admin, productMap.shopifyProductId);
+    if (!product) {
+      // Deleted in Shopify since the last import - drop the stale mapping and create it again
+      console.log(`[Importer] Product ${productMap.shopifyProductId} no longer exists, re-creating`);
+      await prisma.variantMap.deleteMany({ where: { productMapId: productMap.id } });
+      await prisma.productMap.delete({ where: { id: productMap.id } });
+      return null;
+    }
+
+    return { productMap, product };
+  }
+
+  private async fetchProductState(admin: any, productId: string): Promise<ExistingProduct | null> {
+    const state: ExistingProduct = { id: productId, variants: [], media: [], optionNames: DEFAULT_OPTION_NAMES, colorLinked: false };
+    let cursor: string | null = null;
+
+    do {
+      const response: Response = await admin.graphql(`
+        query($productId: ID!, $cursor: String) {
+          product(id: $productId) {
+            id
+            options { name position linkedMetafield { namespace key } }
+            media(first: 250) {
+              nodes { id alt ... on MediaImage { image { url } } }
+            }
+            variants(first: 100, after: $cursor) {
+              edges {
+                node {
+                  id
+                  sku
+                  price
+                  compareAtPrice
+                  barcode
+                  selectedOptions { name value }
+                  media(first: 1) { nodes { id } }
+                  inventoryItem {
+                    unitCost { amount }
+                    countryCodeOfOrigin
+                    measurement { weight { value unit } }
+                  }
+                }
+                cursor
+              }
+              pageInfo { hasNextPage }
+            }
+          }
+        }
+      `, { variables: { productId, cursor } });
+
+      const json = await response.json();
+      if (json.errors?.length) {
+        throw new Error(`Failed to load product ${productId}: ${json.errors[0].message}`);
+      }
+
+      const product = json.data?.product;
+      if (!product) return null;
+
+      if (!cursor) {
+        state.media = (product.media?.nodes || []).map((m: any) => ({ id: m.id, alt: m.alt || "", url: m.image?.url || null }));
+        const [color, size] = [...(product.options || [])].sort((a: any, b: any) => a.position - b.position);
+        if (color && size) state.optionNames = { color: color.name, size: size.name };
+        state.colorLinked = color?.linkedMetafield?.namespace === SWATCH_METAFIELD.namespace && color.linkedMetafield.key === SWATCH_METAFIELD.key;
+      }
+      for (const edge of product.variants?.edges || []) {
+        const option = (name: string) => edge.node.selectedOptions?.find((o: any) => o.name === name)?.value || "";
+        const item = edge.node.inventoryItem;
+        const weight = item?.measurement?.weight;
+        state.variants.push({
+          id: edge.node.id,
+          sku: edge.node.sku || "",
+          price: edge.node.price,
+          compareAtPrice: edge.node.compareAtPrice || null,
+          barcode: edge.node.barcode || null,
+          inventoryItem: {
+            cost: item?.unitCost?.amount != null ? Number(item.unitCost.amount).toFixed(2) : undefined,
+            measurement: weight?.unit === "POUNDS" ? { weight: { value: Number(weight.value), unit: "POUNDS" } } : undefined,
+            countryCodeOfOrigin: item?.countryCodeOfOrigin || undefined,
+          },
+          optionsKey: `${this.normalize(option(state.optionNames.color))}|${this.normalize(option(state.optionNames.size))}`,
+          mediaId: edge.node.media?.nodes?.[0]?.id || null,
+        });
+        cursor = edge.cursor;
+      }
+      if (!product.variants?.pageInfo?.hasNextPage) cursor = null;
+    } while (cursor);
+
+    return state;
+  }
+
+  /**
+   * Bring an already imported product in line with S&S without touching what the merchant owns:
+   * title, description, tags, status and existing images stay as they are.
+   * New colors/sizes are added, prices follow S&S unless the merchant changed them in Shopify, and
+   * discontinued SKUs are retired by zeroing their stock (variants are kept so order history and merchant edits survive).
+   */
+  private async updateExistingProduct(
+    admin: any,
+    productMap: any,
+    existing: ExistingProduct,
+    style: any,
+    products: any[],
+    colorImages: Map<string, ColorImage[]>,
+    pricing: VariantPricingOptions,
+    options: Pick<ImportOptions, "selection" | "images">
+  ): Promise<ImportResult> {
+    const productId = existing.id;
+    console.log(`[Importer] Style ${style.styleID} already imported as ${productId}, updating`);
+
+    const mapped = await this.loadVariantMaps(productMap.id);
+    const lastWritten = await this.loadWrittenPrices(productMap.id);
+    const matches = this.matchVariants(existing, products, mapped);
+    const matchedSkus = new Set(Array.from(matches.values(), p => p.sku));
+    const toCreate = products.filter(p => !matchedSkus.has(p.sku));
+    const toUpdate: any[] = [];
+    // Prices the app owns after this run, by S&S SKU; merchant-priced variants keep their recorded price
+    const written = new Map(toCreate.map(p => [p.sku, this.writtenPrice(p, pricing)]));
+    let merchantPrices = 0;
+
+    for (const variant of existing.variants) {
+      const p = matches.get(variant.id);
+      if (!p) continue;
+      const update: Record<string, any> = { id: variant.id };
+      if (this.merchantPriced(variant, lastWritten.get(variant.id))) {
+        merchantPrices++;
+      } else {
+        const { price, compareAtPrice } = this.variantPricing(p, pricing);
+        if (Number(variant.price) !== Number(price)) update.price = price;
+        if (Number(variant.compareAtPrice || 0) !== Number(compareAtPrice || 0)) update.compareAtPrice = compareAtPrice ?? null;
+        written.set(p.sku, { price, compareAtPrice: compareAtPrice ?? null });
+      }
+      // Barcodes the merchant set themselves are kept
+      if (p.gtin && !variant.barcode) update.barcode = p.gtin;
+      const details = this.inventoryItemDetails(p);
+      if (this.inventoryItemChanged(variant.inventoryItem, details)) update.inventoryItem = details;
+      if (Object.keys(update).length > 1) toUpdate.push(update);
+    }
+
+    // Variants with neither a SKU nor a mapping were added by the merchant, leave them alone.
+    // SKUs left out of the selection are retired the same way as discontinued ones.
+    const retired = existing.variants.filter(v => (v.sku || mapped.has(v.id)) && !matches.has(v.id));
+
+    // New colors of a product with swatches get theirs; products imported before swatches keep plain values
+    const swatches = toCreate.length > 0 && existing.colorLinked ? await colorSwatches.swatchesFor(admin, toCreate) : null;
+    const added = toCreate.length > 0 ? await this.addRemainingVariants(admin, productId, toCreate, pricing, existing.optionNames, swatches) : 0;
+    const updated = await this.updateVariants(admin, productId, toUpdate);
+    const media = await this.addImages(admin, productId, style, colorImages, options.images || DEFAULT_IMAGE_KINDS, existing, existing.optionNames.color);
+
+    // Discontinued SKUs go to zero stock (inventoryPolicy DENY keeps them unsellable)
+    await this.updateInventory(admin, productMap.shop, productId, [
+      ...products,
+      ...retired.map(v => ({ sku: v.sku, totalStock: 0 })),
+    ]);
+
+    const saved = await prisma.productMap.update({
+      where: { id: productMap.id },
+      data: { priceRuleId: pricing.rule?.id ?? null, selection: this.selectionColumn(options.selection), updatedAt: new Date() },
+    });
+    await this.saveVariantMaps(admin, saved.id, productId, products, written)
+      .catch(e => console.warn("[Importer] Failed to map variants:", e));
+
+    console.log(`[Importer] ✅ Updated: ${added} added, ${updated} updated, ${retired.length} retired, ${merchantPrices} merchant prices kept, ${media.uploaded} images`);
+
+    return {
+      productMap: saved,
+      shopifyProduct: { id: productId },
+      mode: "updated",
+      priceRuleId: pricing.rule?.id ?? null,
+      variantCount: existing.variants.length + added,
+      imageCount: media.uploaded,
+      failedImages: media.failed,
+      message: `Updated "${style.title}": ${added} new variants, ${updated} variants updated, ${retired.length} discontinued, ${media.uploaded} new images`
+        + (merchantPrices > 0 ? `. ${merchantPrices} variants keep the price set in Shopify` : ""),
+    };
+  }
+
+  /**
+   * Rebuild VariantMap for products imported before variants were mapped.
+   * Products are matched to S&S by SKU first, then by Color/Size.
+   */
+  async backfillVariantMaps(admin: any, shop: string): Promise<{ products: number; variants: number; failed: number; errors: string[] }> {
+    admin = apiMeter.wrapAdmin(admin, shop);
+    const ssClient = await getSSClient(shop);
+    const productMaps = await prisma.productMap.findMany({ where: { shop } });
+    const result = { products: 0, variants: 0, failed: 0, errors: [] as string[] };
+
+    const styleIds = Array.from(new Set(productMaps.map(m => Number(m.ssStyleId)).filter(id => !isNaN(id))));
+    const ssProducts = await ssClient.getProductsByStyles(styleIds);
+    const byStyle = new Map<number, SSProduct[]>();
+    for (const p of ssProducts) {
+      byStyle.set(p.styleID, [...(byStyle.get(p.styleID) || []), p]);
+    }
+
+    for (const productMap of productMaps) {
+      const styleProducts = byStyle.get(Number(productMap.ssStyleId));
+      if (!styleProducts?.length) {
+        result.failed++;
+        result.errors.push(`Style ${productMap.ssStyleId}: not found on S&S`);
+        continue;
+      }
+      try {
+        const { normalizedProducts } = this.prepareData(styleProducts);
+        result.variants += await this.saveVariantMaps(admin, productMap.id, productMap.shopifyProductId, normalizedProducts);
+        result.products++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push(`Style ${productMap.ssStyleId}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    console.log(`[Importer] VariantMap backfill: ${result.variants} variants across ${result.products} products, ${result.failed} failed`);
+    return result;
+  }
+
+  private async loadVariantMaps(productMapId: string): Promise<Map<string, string>> {
+    const rows = await prisma.variantMap.findMany({ where: { productMapId } });
+    return new Map(rows.map(r => [r.shopifyVariantId, r.ssSku]));
+  }
+
+  private async loadWrittenPrices(productMapId: string): Promise<Map<string, WrittenPrice>> {
+    const rows = await prisma.variantMap.findMany({ where: { productMapId } });
+    return new Map(rows.map(r => [r.shopifyVariantId, { price: r.price, compareAtPrice: r.compareAtPrice }]));
+  }
+
+  private writtenPrice(p: any, pricing: VariantPricingOptions): WrittenPrice {
+    const { price, compareAtPrice } = this.variantPricing(p, pricing);
+    return { price, compareAtPrice: compareAtPrice ?? null };
+  }
+
+  // The merchant changed the price in Shopify since the app last wrote it. Variants mapped
+  // before prices were recorded have no written price and still follow S&S.
+  private merchantPriced(variant: { price: string; compareAtPrice: string | null }, last?: WrittenPrice): boolean {
+    if (!last?.price) return false;
+    return Number(variant.price) !== Number(last.price) || Number(variant.compareAtPrice || 0) !== Number(last.compareAtPrice || 0);
+  }
+
+  // Pair Shopify variants with S&S products: VariantMap first (survives merchant SKU edits), then SKU, then Color/Size
+  private matchVariants(existing: ExistingProduct, products: any[], mapped: Map<string, string>): Map<string, any> {
+    const bySku = new Map(products.map(p => [p.sku, p]));
+    const byOptions = new Map(products.map(p => [`${this.normalize(p.normalizedColor)}|${this.normalize(p.normalizedSize)}`, p]));
+    const lookups: Array<(v: ExistingProduct["variants"][number]) => any> = [
+      v => bySku.get(mapped.get(v.id) || ""),
+      v => bySku.get(v.sku),
+      v => byOptions.get(v.optionsKey),
+    ];
+
+    const matches = new Map<string, any>(); // Shopify variant id -> S&S product
+    const used = new Set<string>();
+    for (const lookup of lookups) {
+      for (const variant of existing.variants) {
+        if (matches.has(variant.id)) continue;
+        const p = lookup(variant);
+        if (p && !used.has(p.sku)) {
+          matches.set(variant.id, p);
+          used.add(p.sku);
+        }
+      }
+    }
+    return matches;
+  }
+
+  // Record which S&S SKU each Shopify variant of the product stands for
+  /** Map the product's variants to S&S SKUs, recording the prices the app wrote (`written`, by SKU) */
+  private async saveVariantMaps(admin: any, productMapId: string, productId: string, products: any[], written?: Map<string, WrittenPrice>): Promise<number> {
+    const state = await this.fetchProductState(admin, productId);
+    if (!state) throw new Error(`Product ${productId} not found in Shopify`);
+
+    const mapped = await this.loadVariantMaps(productMapId);
+    const matches = this.matchVariants(state, products, mapped);
+
+    for (const [shopifyVariantId, p] of matches) {
+      const price = written?.get(p.sku);
+      if (mapped.get(shopifyVariantId) === p.sku && !price) continue;
+      const data = { ssSku: p.sku, ssSkuId: p.skuID_Master || null, productMapId, ...price };
+      await prisma.variantMap.upsert({
+        where: { shopifyVariantId },
+        create: { shopifyVariantId, ...data },
+        update: data,
+      });
+    }
+
+    // Variants deleted in Shopify no longer need a mapping
+    const variantIds = state.variants.map(v => v.id);
+    await prisma.variantMap.deleteMany({ where: { productMapId, shopifyVariantId: { notIn: variantIds } } });
+
+    console.log(`[Importer] Mapped ${matches.size}/${state.variants.length} variants of ${productId}`);
+    return matches.size;
+  }
+
+  private async updateVariants(admin: any, productId: string, variants: any[]): Promise<number> {
+    let totalUpdated = 0;
+
+    for (let i = 0; i < variants.length; i += BULK_BATCH_SIZE) {
+      const batch = variants.slice(i, i + BULK_BATCH_SIZE);
+      const batchNum = Math.floor(i / BULK_BATCH_SIZE) + 1;
+
+      try {
+        const response = await admin.graphql(`
+          mutation bulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+            productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+              productVariants { id }
+              userErrors { field message }
+            }
+          }
+        `, { variables: { productId, variants: batch } });
+
+        const json = await response.json();
+        const userErrors = json.errors || json.data?.productVariantsBulkUpdate?.userErrors || [];
+        if (userErrors.length > 0) {
+          console.log(`[Importer] Update batch ${batchNum} userErrors:`, userErrors[0].message);
+        } else {
+          totalUpdated += batch.length;
+        }
+
+        await this.delay(BATCH_DELAY);
+      } catch (err) {
+        console.log(`[Importer] Update batch ${batchNum} failed:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    return totalUpdated;
+  }
+
+  private prepareData(products: SSProduct[], sizeOrder: string[] = []) {
     const colorMap = new Map<string, string>();
-    const sizeMap = new Map<string, string>();
-    const colorImages = new Map<string, string[]>();
+    const sizeMap = new Map<string, { name: string; sizeOrder: string }>();
+    const colorImages = new Map<string, ColorImage[]>(); // every photo S&S has; the import picks its kinds
 
     products.forEach(p => {
       const colorKey = this.normalize(p.colorName);
       if (colorKey && !colorMap.has(colorKey)) {
-        colorMap.set(colorKey, p.colorName.trim());
-        const images: string[] = [];
-        if (p.colorFrontImage) images.push(this.fullUrl(p.colorFrontImage));
-        if (p.colorBackImage) images.push(this.fullUrl(p.colorBackImage));
+        const color = p.colorName.trim();
+        colorMap.set(colorKey, color);
+        const images = (Object.entries(IMAGE_FIELDS) as Array<[ImageKind, Array<keyof SSProduct>]>).flatMap(([kind, fields]) =>
+          fields.filter(field => p[field]).map(field => ({ url: this.fullUrl(String(p[field])), kind, color })));
         colorImages.set(colorKey, images);
       }
 
       const sizeKey = this.normalize(p.sizeName);
       if (sizeKey && !sizeMap.has(sizeKey)) {
-        sizeMap.set(sizeKey, p.sizeName.trim());
+        sizeMap.set(sizeKey, { name: p.sizeName.trim(), sizeOrder: p.sizeOrder || "" });
       }
     });
 
-    const sizeOrder = ['xxs', 'xs', 's', 'm', 'l', 'xl', '2xl', '3xl', '4xl', '5xl'];
-    const sortedSizes = Array.from(sizeMap.entries()).sort((a, b) => {
-      const aIdx = sizeOrder.indexOf(a[0]);
-      const bIdx = sizeOrder.indexOf(b[0]);
-      if (aIdx >= 0 && bIdx >= 0) return aIdx - bIdx;
-      return a[0].localeCompare(b[0]);
-    });
-
+    // S&S sizeOrder, with the option profile's size list taking precedence
     const uniqueColors = Array.from(colorMap.values());
-    const uniqueSizes = sortedSizes.map(([, v]) => v);
+    const uniqueSizes = sortSizes(Array.from(sizeMap.values()), sizeOrder).map(s => s.name);
 
-    const seenCombos = new Set<string>();
+    const seenCombos = new Map<string, string>(); // color|size -> SKU that got it
     const deduplicatedProducts: any[] = [];
+    const dropped: DroppedVariant[] = [];
+    const drop = (p: SSProduct, reason: string) =>
+      dropped.push({ sku: p.sku, color: p.colorName || "", size: p.sizeName || "", reason });
 
     for (const p of products) {
       const colorKey = this.normalize(p.colorName);
       const sizeKey = this.normalize(p.sizeName);
-      if (!colorKey || !sizeKey) continue;
+      if (!colorKey || !sizeKey) {
+        drop(p, "No color or size");
+        continue;
+      }
 
       const comboKey = `${colorKey}|${sizeKey}`;
-      if (seenCombos.has(comboKey)) continue;
+      if (seenCombos.has(comboKey)) {
+        drop(p, `Same color and size as ${seenCombos.get(comboKey)}`);
+        continue;
+      }
 
-      seenCombos.add(comboKey);
+      seenCombos.set(comboKey, p.sku);
       deduplicatedProducts.push({
         ...p,
         normalizedColor: colorMap.get(colorKey) || p.colorName.trim(),
-        normalizedSize: sizeMap.get(sizeKey) || p.sizeName.trim(),
+        normalizedSize: sizeMap.get(sizeKey)?.name || p.sizeName.trim(),
         totalStock: p.warehouses?.reduce((s, w) => s + (w.qty || 0), 0) || p.qty || 0,
       });
     }
 
+    deduplicatedProducts.slice(MAX_VARIANTS).forEach(p => drop(p, `Over the ${MAX_VARIANTS} variant limit`));
+
     return {
       normalizedProducts: deduplicatedProducts.slice(0, MAX_VARIANTS),
       uniqueColors,
       uniqueSizes,
-      colorImages
+      colorImages,
+      dropped,
+    };
+  }
+
+  /**
+   * Unit cost (the account's customer price), shipping weight and country of origin for the
+   * variant's inventory item, so Shopify's margin reports and weight-based shipping rates are right.
+   */
+  private inventoryItemDetails(p: any): InventoryItemDetails {
+    const cost = p.customerPrice || p.piecePrice || 0;
+    // S&S lists every country a style is made in ("NI,DO,HT"); Shopify takes one, so the first is used
+    const origin = String(p.countryOfOrigin || "").split(",")[0].trim().toUpperCase();
+    return {
+      ...(cost > 0 ? { cost: cost.toFixed(2) } : {}),
+      ...(p.unitWeight > 0 ? { measurement: { weight: { value: p.unitWeight, unit: "POUNDS" as const } } } : {}),
+      ...(/^[A-Z]{2}$/.test(origin) ? { countryCodeOfOrigin: origin } : {}),
     };
   }
 
-  private applyMarkup(basePrice: number, sizeName: string, sizeMarkups?: Record<string, { type: string; value: number }>): number {
+  private inventoryItemChanged(current: InventoryItemDetails, wanted: InventoryItemDetails): boolean {
+    return (!!wanted.cost && current.cost !== wanted.cost)
+      || (!!wanted.measurement && current.measurement?.weight.value !== wanted.measurement.weight.value)
+      || (!!wanted.countryCodeOfOrigin && current.countryCodeOfOrigin !== wanted.countryCodeOfOrigin);
+  }
+
+  private applyMarkup(basePrice: number, sizeName: string, sizeMarkups?: SizeMarkups): number {
     if (!sizeMarkups) return basePrice;
-    const markup = sizeMarkups[sizeName] || sizeMarkups[sizeName.trim()];
+    const markup = sizeMarkups[sizeName] || sizeMarkups[sizeName.trim()] || sizeMarkups[ALL_SIZES];
     if (!markup || !markup.value || markup.value === 0) return basePrice;
     if (markup.type === 'percentage') {
       return basePrice + (basePrice * markup.value / 100);
@@ -183,29 +1204,62 @@ export class ImporterService {
     return basePrice + markup.value;
   }
 
+  // Price rule markup (with per-size markups on top), rounding and margin floor; raw piece price + size markup without a rule
+  private variantPricing(p: any, pricing: VariantPricingOptions) {
+    const cost = p.piecePrice || 0;
+    const sizeMarkup = (price: number) => this.applyMarkup(price, p.normalizedSize, pricing.sizeMarkups);
+    const context = formulaContextFor(cost, {
+      dozenPrice: p.dozenPrice,
+      casePrice: p.casePrice,
+      customerPrice: p.customerPrice,
+      mapPrice: p.mapPrice,
+      salePrice: p.salePrice,
+      size: p.normalizedSize,
+      brand: p.brandName,
+      category: pricing.category,
+    });
+    let finalPrice: number;
+    try {
+      finalPrice = (pricing.rule && priceWithRule(cost, pricing.rule, sizeMarkup, context)) ?? sizeMarkup(cost);
+    } catch (error) {
+      // The formula cannot price this variant (e.g. it divides by a MAP the style does not have):
+      // price it without the rule and report it, rather than failing the import half way
+      if (!(error instanceof PriceFormulaError)) throw error;
+      pricing.formulaErrors.set(p.sku, error.message);
+      finalPrice = sizeMarkup(cost);
+    }
+    return {
+      price: finalPrice.toFixed(2),
+      compareAtPrice: p.mapPrice && p.mapPrice > finalPrice ? p.mapPrice.toFixed(2) : undefined,
+    };
+  }
+
   private async createProductWithFirstBatch(
     admin: any,
     style: any,
     products: any[],
     colors: string[],
     sizes: string[],
-    sizeMarkups?: Record<string, { type: string; value: number }>
+    content: ProductContent,
+    pricing: VariantPricingOptions,
+    names: OptionNames,
+    swatches: Map<string, string> | null,
+    onOperation?: (operationId: string) => Promise<void>
   ): Promise<{ productId: string; createdCount: number }> {
+    // Link the color option to the swatches only when every color has one
+    const linked = swatches && colors.every(c => swatches.has(c)) ? swatches : null;
     // ProductVariantSetInput - sku is direct field
-    const variants = products.map(p => {
-      const finalPrice = this.applyMarkup(p.piecePrice || 0, p.normalizedSize, sizeMarkups);
-      return {
+    const variants = products.map(p => ({
       sku: p.sku,
-      price: finalPrice.toFixed(2),
-      compareAtPrice: p.mapPrice && p.mapPrice > finalPrice ? p.mapPrice.toFixed(2) : undefined,
+      ...this.variantPricing(p, pricing),
       barcode: p.gtin || undefined,
       inventoryPolicy: "DENY",
-      inventoryItem: { tracked: true }, // Enable tracking
+      inventoryItem: { tracked: true, ...this.inventoryItemDetails(p) },
       optionValues: [
-        { optionName: "Color", name: p.normalizedColor },
-        { optionName: "Size", name: p.normalizedSize },
+        this.colorOptionValue(names, p.normalizedColor, linked),
+        { optionName: names.size, name: p.normalizedSize },
       ],
-    }});
+    }));
 
     // Use ASYNCHRONOUS mode to avoid timeout!
     const response = await admin.graphql(`
@@ -227,16 +1281,19 @@ export class ImporterService {
         synchronous: false,  // ASYNC MODE - prevents timeout!
         input: {
           title: style.title,
-          descriptionHtml: this.buildDescription(style, products),
+          descriptionHtml: content.descriptionHtml,
           vendor: style.brandName,
           productType: style.baseCategory || "Apparel",
           status: "DRAFT",
           tags: [style.brandName, style.baseCategory, "SSActiveWear", `ss-${style.styleID}`].filter(Boolean),
           productOptions: [
-            { name: "Color", position: 1, values: colors.map(c => ({ name: c })) },
-            { name: "Size", position: 2, values: sizes.map(s => ({ name: s })) },
+            linked
+              ? { name: names.color, position: 1, linkedMetafield: { ...SWATCH_METAFIELD, values: colors.map(c => linked.get(c)) } }
+              : { name: names.color, position: 1, values: colors.map(c => ({ name: c })) },
+            { name: names.size, position: 2, values: sizes.map(s => ({ name: s })) },
           ],
           variants,
+          metafields: content.metafields,
         },
       },
     });
@@ -267,7 +1324,12 @@ export class ImporterService {
     }
 
     console.log(`[Importer] Async operation started: ${operationId}`);
+    await onOperation?.(operationId);
 
+    return this.waitForProductOperation(admin, operationId, products.length);
+  }
+
+  private async waitForProductOperation(admin: any, operationId: string, expectedCount: number): Promise<{ productId: string; createdCount: number }> {
     // Poll until complete (max 5 minutes)
     const maxAttempts = 60;  // 60 * 5 seconds = 5 minutes
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
@@ -305,7 +1367,7 @@ export class ImporterService {
         }
         const productId = operation.product?.id;
         if (!productId) throw new Error("Operation complete but no product ID");
-        const createdCount = operation.product?.variantsCount?.count || products.length;
+        const createdCount = operation.product?.variantsCount?.count || expectedCount;
         return { productId, createdCount };
       }
 
@@ -319,27 +1381,37 @@ export class ImporterService {
     throw new Error("productSet operation timed out after 5 minutes");
   }
 
-  private async addRemainingVariants(admin: any, productId: string, products: any[], sizeMarkups?: Record<string, { type: string; value: number }>): Promise<number> {
+  /**
+   * Add variants in productVariantsBulkCreate batches. Batches whose request fails are retried by
+   * the next import, so they are reported by throwing once every batch has been tried.
+   */
+  private async addRemainingVariants(
+    admin: any,
+    productId: string,
+    products: any[],
+    pricing: VariantPricingOptions,
+    names: OptionNames,
+    swatches: Map<string, string> | null,
+    onBatch?: (createdSoFar: number) => Promise<void>
+  ): Promise<number> {
     let totalCreated = 0;
+    const failedBatches: string[] = [];
 
     for (let i = 0; i < products.length; i += BULK_BATCH_SIZE) {
       const batch = products.slice(i, i + BULK_BATCH_SIZE);
       const batchNum = Math.floor(i / BULK_BATCH_SIZE) + 1;
 
       // ProductVariantsBulkInput - sku MUST be inside inventoryItem (per Shopify 2025-10 docs)
-      const variants = batch.map(p => {
-        const finalPrice = this.applyMarkup(p.piecePrice || 0, p.normalizedSize, sizeMarkups);
-        return {
-        inventoryItem: { sku: p.sku, tracked: true },
-        price: finalPrice.toFixed(2),
-        compareAtPrice: p.mapPrice && p.mapPrice > finalPrice ? p.mapPrice.toFixed(2) : undefined,
+      const variants = batch.map(p => ({
+        inventoryItem: { sku: p.sku, tracked: true, ...this.inventoryItemDetails(p) },
+        ...this.variantPricing(p, pricing),
         barcode: p.gtin || undefined,
         inventoryPolicy: "DENY",
         optionValues: [
-          { optionName: "Color", name: p.normalizedColor },
-          { optionName: "Size", name: p.normalizedSize },
+          this.colorOptionValue(names, p.normalizedColor, swatches),
+          { optionName: names.size, name: p.normalizedSize },
         ],
-      }});
+      }));
 
       try {
         const response = await admin.graphql(`
@@ -352,6 +1424,7 @@ export class ImporterService {
         `, { variables: { productId, variants } });
 
         const json = await response.json();
+        if (json.errors?.length) throw new Error(json.errors[0].message);
         const created = json.data?.productVariantsBulkCreate?.productVariants?.length || 0;
         totalCreated += created;
 
@@ -359,96 +1432,189 @@ export class ImporterService {
           console.log(`[Importer] Batch ${batchNum} userErrors:`, json.data.productVariantsBulkCreate.userErrors[0].message);
         }
 
+        await onBatch?.(totalCreated);
         await this.delay(BATCH_DELAY);
       } catch (err) {
         console.log(`[Importer] Batch ${batchNum} failed:`, err instanceof Error ? err.message : err);
+        failedBatches.push(`batch ${batchNum}: ${err instanceof Error ? err.message : err}`);
       }
     }
 
+    if (failedBatches.length > 0) {
+      throw new Error(`Adding variants failed (${failedBatches.join("; ")})`);
+    }
     return totalCreated;
   }
 
-  private async addImages(admin: any, productId: string, style: any, colorImages: Map<string, string[]>): Promise<number> {
-    // Step 1: Upload all media and track color -> mediaId mapping
-    const colorMediaMap = new Map<string, string>(); // normalized color -> first media id
-    const allMedia: any[] = [];
-    const addedUrls = new Set<string>();
-    const urlToColor = new Map<string, string>(); // url -> normalized color
+  /**
+   * Media an import uploads: the style image, then each color's photos of the chosen kinds up to MAX_IMAGES.
+   * Colors whose variants already show an image keep it.
+   */
+  private planMedia(style: any, colorImages: Map<string, ColorImage[]>, kinds: ImageKind[], existing?: ExistingProduct) {
+    const colorMediaMap = new Map<string, string>(); // normalized color -> media id
+    const allMedia: PlannedMedia[] = [];
+    const overLimit: PlannedMedia[] = [];
+
+    // On re-import keep the image each color's variants already have and only add colors without one
+    for (const variant of existing?.variants || []) {
+      const colorKey = variant.optionsKey.split("|")[0];
+      if (variant.mediaId && colorKey && !colorMediaMap.has(colorKey)) {
+        colorMediaMap.set(colorKey, variant.mediaId);
+      }
+    }
 
     // Main style image first
-    if (style.styleImage) {
-      const url = this.fullUrl(style.styleImage);
-      allMedia.push({ originalSource: url, alt: style.title, mediaContentType: "IMAGE" });
-      addedUrls.add(url);
+    const addedUrls = new Set<string>();
+    if (style.styleImage && !existing?.media.length) {
+      const source = this.fullUrl(style.styleImage);
+      allMedia.push({ source, alt: style.title, colorKey: null, color: null, kind: null });
+      addedUrls.add(source);
     }
 
-    // Color images - track which URL belongs to which color
+    // Color images, in color order. Every color's first image makes the cut before any color's
+    // second one, so the image limit never leaves a color without an image.
+    const wanted = new Set(kinds);
+    const candidates: PlannedMedia[] = [];
+    const rank = new Map<PlannedMedia, number>(); // position among the color's images
     for (const [colorKey, images] of colorImages) {
-      if (allMedia.length >= MAX_IMAGES) break;
-      for (const url of images) {
-        if (allMedia.length >= MAX_IMAGES) break;
-        if (url && !addedUrls.has(url)) {
-          allMedia.push({ originalSource: url, alt: `${style.title} - ${colorKey}`, mediaContentType: "IMAGE" });
-          addedUrls.add(url);
-          if (!urlToColor.has(url)) {
-            urlToColor.set(url, colorKey);
-          }
-        }
+      if (colorMediaMap.has(colorKey)) continue;
+      for (const image of images) {
+        if (!wanted.has(image.kind) || addedUrls.has(image.url)) continue;
+        addedUrls.add(image.url);
+        const media: PlannedMedia = { source: image.url, alt: `${style.title} - ${colorKey}`, colorKey, color: image.color, kind: image.kind };
+        rank.set(media, candidates.filter(c => c.colorKey === colorKey).length);
+        candidates.push(media);
       }
     }
+    const kept = new Set([...candidates].sort((a, b) => rank.get(a)! - rank.get(b)!).slice(0, Math.max(0, MAX_IMAGES - allMedia.length)));
+    for (const media of candidates) (kept.has(media) ? allMedia : overLimit).push(media);
+
+    return { allMedia, colorMediaMap, overLimit };
+  }
+
+  /**
+   * Copy the planned images to our storage, add them to the product and attach each color's
+   * first image to its variants. Images that fail are returned, the rest of the import carries on.
+   */
+  private async addImages(
+    admin: any,
+    productId: string,
+    style: any,
+    colorImages: Map<string, ColorImage[]>,
+    kinds: ImageKind[],
+    existing?: ExistingProduct,
+    colorOption = DEFAULT_OPTION_NAMES.color,
+    onProgress?: (step: string) => Promise<void>
+  ): Promise<{ uploaded: number; failed: FailedImage[] }> {
+    const { allMedia, colorMediaMap } = this.planMedia(style, colorImages, kinds, existing);
+    const failed: FailedImage[] = [];
+    if (allMedia.length === 0 && colorMediaMap.size === 0) return { uploaded: 0, failed };
+
+    const fail = (media: PlannedMedia, error: string) => {
+      console.log(`[Importer] Image ${media.source} failed: ${error}`);
+      failed.push({ url: media.source, color: media.color, kind: media.kind, error });
+    };
 
-    if (allMedia.length === 0) return 0;
+    // Step 1: Mirror to our storage. Photos with the same content are uploaded once, and media
+    // already on the product made from the same file (an interrupted attempt) is reused.
+    const mediaByHash = new Map<string, string>();
+    for (const media of existing?.media || []) {
+      const hash = this.mirror.hashFromUrl(media.url);
+      if (hash && !mediaByHash.has(hash)) mediaByHash.set(hash, media.id);
+    }
+    const hashes = new Map<PlannedMedia, string>();
+    const uploads: Array<{ hash: string; originalSource: string; alt: string }> = [];
+    for (const [index, media] of allMedia.entries()) {
+      if (index > 0 && index % 10 === 0) await onProgress?.(`Copying images (${index}/${allMedia.length})`);
+      try {
+        const mirrored = await this.mirror.mirror(media.source);
+        hashes.set(media, mirrored.hash);
+        if (!mediaByHash.has(mirrored.hash) && !uploads.some(u => u.hash === mirrored.hash)) {
+          uploads.push({ hash: mirrored.hash, originalSource: mirrored.url, alt: media.alt });
+        }
+      } catch (error) {
+        fail(media, `not copied to storage: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
 
-    // Upload media in batches and collect media IDs
-    const uploadedMedia: Array<{ id: string; alt: string }> = [];
-    for (let i = 0; i < allMedia.length; i += 10) {
-      const batch = allMedia.slice(i, i + 10);
+    // Step 2: Create the media in batches. Shopify returns it in input order.
+    let uploaded = 0;
+    const uploadErrors = new Map<string, string>(); // hash -> why Shopify did not take it
+    for (let i = 0; i < uploads.length; i += 10) {
+      const batch = uploads.slice(i, i + 10);
       try {
         const response = await admin.graphql(`
           mutation addMedia($productId: ID!, $media: [CreateMediaInput!]!) {
             productCreateMedia(productId: $productId, media: $media) {
-              media {
-                ... on MediaImage {
-                  id
-                  alt
-                  image { url }
-                }
-              }
+              media { id }
+              mediaUserErrors { field message }
             }
           }
-        `, { variables: { productId, media: batch } });
+        `, { variables: { productId, media: batch.map(u => ({ originalSource: u.originalSource, alt: u.alt, mediaContentType: "IMAGE" })) } });
 
         const json = await response.json();
-        const mediaItems = json.data?.productCreateMedia?.media || [];
-        for (const m of mediaItems) {
-          if (m?.id) {
-            uploadedMedia.push({ id: m.id, alt: m.alt || "" });
+        if (json.errors?.length) throw new Error(json.errors[0].message);
+        const created: Array<{ id?: string } | null> = json.data?.productCreateMedia?.media || [];
+        for (const error of json.data?.productCreateMedia?.mediaUserErrors || []) {
+          const index = Number(error.field?.find((f: string) => /^\d+$/.test(f)));
+          const targets = batch[index] ? [batch[index]] : batch;
+          targets.forEach(u => uploadErrors.set(u.hash, error.message));
+        }
+        // Media of the inputs Shopify accepted, unless it answered for every input
+        const accepted = created.length === batch.length ? batch : batch.filter(u => !uploadErrors.has(u.hash));
+        for (const [index, u] of accepted.entries()) {
+          const id = created[index]?.id;
+          if (uploadErrors.has(u.hash)) continue;
+          if (id) {
+            mediaByHash.set(u.hash, id);
+            uploaded++;
+          } else {
+            uploadErrors.set(u.hash, "no media returned");
           }
         }
         await this.delay(300);
-      } catch (error) { /* continue */ }
+      } catch (error) {
+        batch.forEach(u => uploadErrors.set(u.hash, error instanceof Error ? error.message : String(error)));
+      }
     }
 
-    // Build colorKey -> mediaId map from alt text
-    for (const media of uploadedMedia) {
-      const altParts = media.alt.split(" - ");
-      if (altParts.length >= 2) {
-        const colorKey = altParts[altParts.length - 1].toLowerCase().trim();
-        if (!colorMediaMap.has(colorKey)) {
-          colorMediaMap.set(colorKey, media.id);
-        }
+    // Each color shows its first image that made it onto the product
+    for (const media of allMedia) {
+      const hash = hashes.get(media);
+      if (!hash) continue;
+      const mediaId = mediaByHash.get(hash);
+      if (!mediaId) {
+        fail(media, `not added to the product: ${uploadErrors.get(hash) || "no media returned"}`);
+      } else if (media.colorKey && !colorMediaMap.has(media.colorKey)) {
+        colorMediaMap.set(media.colorKey, mediaId);
       }
     }
 
-    // Step 2: Attach media to variants by color
+    // Step 3: Attach media to variants by color (existing variants keep the image the merchant picked)
     if (colorMediaMap.size > 0) {
-      await this.attachMediaToVariants(admin, productId, colorMediaMap);
+      const skipVariantIds = new Set(existing?.variants.map(v => v.id));
+      await this.attachMediaToVariants(admin, productId, colorMediaMap, colorOption, skipVariantIds);
     }
 
-    return uploadedMedia.length;
+    return { uploaded, failed };
+  }
+
+  // 'price rule "Margin" could not price 3 variants (...)' for the import report
+  private pricingProblems(pricing: VariantPricingOptions): string[] {
+    if (pricing.formulaErrors.size === 0) return [];
+    const [error] = pricing.formulaErrors.values();
+    const count = pricing.formulaErrors.size;
+    return [`price rule "${pricing.rule?.name}" could not price ${count} ${count === 1 ? "variant" : "variants"} (${error}), priced without the rule: ${Array.from(pricing.formulaErrors.keys()).slice(0, 5).join(", ")}${count > 5 ? ", …" : ""}`];
+  }
+
+  // "3 images failed: Black Back (HTTP 404), ..." for the import report
+  private imageProblems(failed: FailedImage[]): string[] {
+    if (failed.length === 0) return [];
+    const list = failed.map(f => `${f.color ? `${f.color} ` : ""}${imageKindLabel(f.kind)} (${f.error})`);
+    return [`${failed.length} ${failed.length === 1 ? "image" : "images"} failed: ${list.join(", ")}`];
   }
 
-  private async attachMediaToVariants(admin: any, productId: string, colorMediaMap: Map<string, string>) {
+  private async attachMediaToVariants(admin: any, productId: string, colorMediaMap: Map<string, string>, colorOption: string, skipVariantIds?: Set<string>) {
     // Get all variants with their color option
     const variants: Array<{ id: string; color: string }> = [];
     let cursor: string | null = null;
@@ -473,11 +1639,11 @@ export class ImporterService {
 
       const json = await response.json();
       for (const edge of json.data?.product?.variants?.edges || []) {
-        const colorOption = edge.node.selectedOptions?.find((o: any) => o.name === "Color");
-        if (colorOption) {
+        const color = edge.node.selectedOptions?.find((o: any) => o.name === colorOption);
+        if (color) {
           variants.push({
             id: edge.node.id,
-            color: colorOption.value.toLowerCase().trim()
+            color: this.normalize(color.value)
           });
         }
         cursor = edge.cursor;
@@ -488,6 +1654,7 @@ export class ImporterService {
     // Update variants with their color's media
     const variantsToUpdate: Array<{ id: string; mediaId: string }> = [];
     for (const variant of variants) {
+      if (skipVariantIds?.has(variant.id)) continue;
       const mediaId = colorMediaMap.get(variant.color);
       if (mediaId) {
         variantsToUpdate.push({ id: variant.id, mediaId });
@@ -517,16 +1684,13 @@ export class ImporterService {
     console.log(`[Importer] Attached media to ${variantsToUpdate.length} variants`);
   }
 
-  private async updateInventory(admin: any, productId: string, products: any[]) {
-    const locResponse = await admin.graphql(`query { locations(first: 1) { edges { node { id } } } }`);
-    const locJson = await locResponse.json();
-    const locationId = locJson.data?.locations?.edges?.[0]?.node?.id;
-    if (!locationId) return;
-
-    const stockMap = new Map<string, number>();
-    products.forEach(p => stockMap.set(p.sku, p.totalStock));
+  /** Write each SKU's stock per mapped location; SKUs without warehouse detail go to the default location */
+  private async updateInventory(admin: any, shop: string, productId: string, products: any[]) {
+    const routing = await warehouseLocations.routing(admin, shop);
+    const stockBySku = new Map<string, any>();
+    products.forEach(p => stockBySku.set(p.sku, p));
 
-    const items: Array<{ inventoryItemId: string; quantity: number }> = [];
+    const items: InventoryQuantity[] = [];
     let cursor: string | null = null;
 
     do {
@@ -544,38 +1708,20 @@ export class ImporterService {
       const json = await response.json();
       for (const edge of json.data?.product?.variants?.edges || []) {
         const { sku, inventoryItem } = edge.node;
-        if (sku && inventoryItem?.id && stockMap.has(sku)) {
-          items.push({ inventoryItemId: inventoryItem.id, quantity: stockMap.get(sku)! });
+        const product = sku ? stockBySku.get(sku) : undefined;
+        if (product && inventoryItem?.id) {
+          for (const [locationId, quantity] of warehouseLocations.quantities(routing, product.warehouses, product.totalStock)) {
+            items.push({ inventoryItemId: inventoryItem.id, locationId, quantity });
+          }
         }
         cursor = edge.cursor;
       }
       if (!json.data?.product?.variants?.pageInfo?.hasNextPage) cursor = null;
     } while (cursor);
 
-    for (let i = 0; i < items.length; i += 20) {
-      const batch = items.slice(i, i + 20);
-      try {
-        await admin.graphql(`
-          mutation($input: InventorySetQuantitiesInput!) {
-            inventorySetQuantities(input: $input) { userErrors { message } }
-          }
-        `, {
-          variables: {
-            input: {
-              ignoreCompareQuantity: true, // Required for Shopify 2025-10 API
-              reason: "correction",
-              name: "available",
-              quantities: batch.map(item => ({
-                inventoryItemId: item.inventoryItemId,
-                locationId,
-                quantity: item.quantity,
-              })),
-            },
-          },
-        });
-        await this.delay(100);
-      } catch (error) { /* continue */ }
-    }
+    const failed = await warehouseLocations.setQuantities(admin, items, 100);
+    // Without stock the product would sell nothing; fail so the step is retried
+    if (failed > 0) throw new Error(`Setting inventory failed for ${failed} of ${Math.ceil(items.length / 20)} batches`);
   }
 
   private async publishProduct(admin: any, productId: string) {
@@ -600,15 +1746,64 @@ export class ImporterService {
     } catch (error) { /* non-critical */ }
   }
 
-  private buildDescription(style: any, products: any[]): string {
-    return `<div class="product-description">
-  ${style.description || ""}
-  <h4>Product Details</h4>
-  <ul>
-    <li><strong>Brand:</strong> ${style.brandName}</li>
-    <li><strong>Style:</strong> ${style.partNumber}</li>
-  </ul>
-</div>`.trim();
+  /**
+   * Add the import's extra tags and collection. Problems are returned rather than thrown
+   * since the product itself is already in place.
+   */
+  private async organizeProduct(admin: any, productId: string, options: ImportOptions): Promise<string[]> {
+    const problems: string[] = [];
+
+    const tags = (options.tags || []).map(t => t.trim()).filter(Boolean);
+    if (tags.length > 0) {
+      try {
+        const response = await admin.graphql(`
+          mutation tagsAdd($id: ID!, $tags: [String!]!) {
+            tagsAdd(id: $id, tags: $tags) { userErrors { message } }
+          }
+        `, { variables: { id: productId, tags } });
+        const json = await response.json();
+        const error = json.errors?.[0]?.message || json.data?.tagsAdd?.userErrors?.[0]?.message;
+        if (error) problems.push(`tags not added: ${error}`);
+      } catch (e) {
+        problems.push(`tags not added: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    const handle = options.collection?.trim();
+    if (handle) {
+      try {
+        const lookup = await admin.graphql(`
+          query collectionByIdentifier($handle: String!) {
+            collectionByIdentifier(identifier: { handle: $handle }) { id }
+          }
+        `, { variables: { handle } });
+        const collectionId = (await lookup.json()).data?.collectionByIdentifier?.id;
+        if (!collectionId) {
+          problems.push(`collection "${handle}" not found`);
+        } else {
+          const response = await admin.graphql(`
+            mutation collectionAddProducts($id: ID!, $productIds: [ID!]!) {
+              collectionAddProducts(id: $id, productIds: $productIds) { userErrors { message } }
+            }
+          `, { variables: { id: collectionId, productIds: [productId] } });
+          const json = await response.json();
+          const error = json.errors?.[0]?.message || json.data?.collectionAddProducts?.userErrors?.[0]?.message;
+          // Adding a product that is already in the collection is not a problem on re-import
+          if (error && !/already/i.test(error)) problems.push(`not added to "${handle}": ${error}`);
+        }
+      } catch (e) {
+        problems.push(`not added to "${handle}": ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    problems.forEach(p => console.warn(`[Importer] ${productId}: ${p}`));
+    return problems;
+  }
+
+  // Linked options take the swatch metaobject instead of the color name
+  private colorOptionValue(names: OptionNames, color: string, swatches: Map<string, string> | null) {
+    const swatch = swatches?.get(color);
+    return swatch ? { optionName: names.color, linkedMetafieldValue: swatch } : { optionName: names.color, name: color };
   }
 
   private normalize(value: string): string {
@@ -1,7 +1,16 @@
 import prisma from "../db.server";
-import { SSActiveWearClient } from "./ssactivewear";
+import { apiMeter } from "./apiMeter.server";
+import { parseSelection } from "./importPlan";
+import { getSSClient } from "./ssClient.server";
+import { SSAuthError, type SSWarehouse } from "./ssactivewear";
+import { warehouseLocations, type InventoryQuantity, type InventoryRouting } from "./warehouseLocations.server";
 
-const ssClient = new SSActiveWearClient();
+const STYLE_BATCH_SIZE = 50; // styles per S&S request group; a failed group only fails its own products
+
+interface SkuStock {
+  qty: number;
+  warehouses?: SSWarehouse[];
+}
 
 /**
  * Inventory Sync Service
@@ -32,12 +41,14 @@ export class InventorySyncService {
 
     let updated = 0;
     let failed = 0;
+    admin = apiMeter.wrapAdmin(admin, shop);
+    const ssClient = await getSSClient(shop);
 
     try {
       // Get all imported products for this shop
       const productMaps = await prisma.productMap.findMany({
         where: { shop },
-        select: { id: true, shopifyProductId: true, ssStyleId: true },
+        select: { id: true, shopifyProductId: true, ssStyleId: true, selection: true },
       });
 
       await prisma.inventorySyncLog.update({
@@ -47,84 +58,54 @@ export class InventorySyncService {
 
       console.log(`[InventorySync] Starting sync for ${productMaps.length} products...`);
 
-      // Get location
-      const locResponse = await admin.graphql(`query { locations(first: 1) { edges { node { id } } } }`);
-      const locJson = await locResponse.json();
-      const locationId = locJson.data?.locations?.edges?.[0]?.node?.id;
-
-      if (!locationId) {
-        throw new Error("No location found");
-      }
+      // Where each S&S warehouse's stock goes
+      const routing = await warehouseLocations.routing(admin, shop);
 
-      // Process each product
+      // Group products by style so stock is fetched in batches, not one request per style
+      const mapsByStyle = new Map<number, typeof productMaps>();
       for (const productMap of productMaps) {
-        try {
-          const styleId = parseInt(productMap.ssStyleId);
-          if (isNaN(styleId)) continue;
+        const styleId = parseInt(productMap.ssStyleId);
+        if (isNaN(styleId)) continue;
+        mapsByStyle.set(styleId, [...(mapsByStyle.get(styleId) || []), productMap]);
+      }
+      const styleIds = [...mapsByStyle.keys()];
 
-          // Get inventory from SSActiveWear
-          const ssInventory = await ssClient.getInventoryByStyle(styleId);
+      for (let i = 0; i < styleIds.length; i += STYLE_BATCH_SIZE) {
+        const batch = styleIds.slice(i, i + STYLE_BATCH_SIZE);
 
-          // Build SKU -> quantity map
-          const stockMap = new Map<string, number>();
-          for (const item of ssInventory) {
-            const totalQty = item.warehouses?.reduce((sum, w) => sum + (w.qty || 0), 0) || 0;
-            stockMap.set(item.sku, totalQty);
+        // Build style -> (SKU -> stock per warehouse) from one batched, field-limited request
+        const stockByStyle = new Map<number, Map<string, SkuStock>>();
+        try {
+          const ssProducts = await ssClient.getProductsByStyles(batch, ["sku", "styleID", "qty", "warehouses"]);
+          for (const item of ssProducts) {
+            if (!stockByStyle.has(item.styleID)) stockByStyle.set(item.styleID, new Map());
+            stockByStyle.get(item.styleID)!.set(item.sku, { qty: item.qty || 0, warehouses: item.warehouses });
           }
+        } catch (error) {
+          // Bad credentials fail every style the same way - abort the whole sync
+          if (error instanceof SSAuthError) throw error;
+          failed += batch.reduce((sum, styleId) => sum + mapsByStyle.get(styleId)!.length, 0);
+          console.error(`[InventorySync] Failed to fetch stock for styles ${batch.join(",")}:`, error);
+          continue;
+        }
 
-          // Get Shopify variants
-          const varResponse = await admin.graphql(`
-            query($productId: ID!) {
-              product(id: $productId) {
-                variants(first: 100) {
-                  edges { node { sku inventoryItem { id } } }
-                }
-              }
+        for (const styleId of batch) {
+          for (const productMap of mapsByStyle.get(styleId)!) {
+            const stockMap = stockByStyle.get(styleId);
+            if (!stockMap) {
+              failed++;
+              console.warn(`[InventorySync] Style ${styleId} not found on S&S (discontinued?)`);
+              continue;
             }
-          `, { variables: { productId: productMap.shopifyProductId } });
-
-          const varJson = await varResponse.json();
-          const variants = varJson.data?.product?.variants?.edges || [];
-
-          // Build quantities array
-          const quantities: Array<{ inventoryItemId: string; locationId: string; quantity: number }> = [];
-
-          for (const edge of variants) {
-            const { sku, inventoryItem } = edge.node;
-            if (sku && inventoryItem?.id && stockMap.has(sku)) {
-              quantities.push({
-                inventoryItemId: inventoryItem.id,
-                locationId,
-                quantity: stockMap.get(sku)!,
-              });
+            try {
+              const warehouses = parseSelection(productMap.selection)?.warehouses ?? [];
+              await this.pushStock(admin, productMap, stockMap, routing, warehouses);
+              updated++;
+            } catch (error) {
+              failed++;
+              console.error(`[InventorySync] Failed to sync ${productMap.ssStyleId}:`, error);
             }
           }
-
-          // Update inventory in batches
-          for (let i = 0; i < quantities.length; i += 20) {
-            const batch = quantities.slice(i, i + 20);
-            await admin.graphql(`
-              mutation($input: InventorySetQuantitiesInput!) {
-                inventorySetQuantities(input: $input) {
-                  userErrors { message }
-                }
-              }
-            `, {
-              variables: {
-                input: {
-                  ignoreCompareQuantity: true,
-                  reason: "correction",
-                  name: "available",
-                  quantities: batch,
-                },
-              },
-            });
-          }
-
-          updated++;
-        } catch (error) {
-          failed++;
-          console.error(`[InventorySync] Failed to sync ${productMap.ssStyleId}:`, error);
         }
       }
 
@@ -160,4 +141,54 @@ export class InventorySyncService {
       logId: syncLog.id
     };
   }
+
+  /**
+   * Set available quantities on a Shopify product's variants, per location. `warehouses` is the
+   * product's import selection: when set, only those warehouses' stock is counted.
+   * Variants are matched by their VariantMap S&S SKU, else by their own SKU.
+   */
+  private async pushStock(
+    admin: any,
+    productMap: { id: string; shopifyProductId: string },
+    stockMap: Map<string, SkuStock>,
+    routing: InventoryRouting,
+    warehouses: string[]
+  ) {
+    const varResponse = await admin.graphql(`
+      query($productId: ID!) {
+        product(id: $productId) {
+          variants(first: 100) {
+            edges { node { id sku inventoryItem { id } } }
+          }
+        }
+      }
+    `, { variables: { productId: productMap.shopifyProductId } });
+
+    const varJson = await varResponse.json();
+    const variants = varJson.data?.product?.variants?.edges || [];
+    const selected = new Set(warehouses.map(w => w.toUpperCase()));
+    const variantMaps = await prisma.variantMap.findMany({ where: { productMapId: productMap.id }, select: { shopifyVariantId: true, ssSku: true } });
+    const ssSkus = new Map(variantMaps.map(m => [m.shopifyVariantId, m.ssSku]));
+
+    // Build quantities array
+    const quantities: InventoryQuantity[] = [];
+
+    for (const edge of variants) {
+      const { id, sku, inventoryItem } = edge.node;
+      const ssSku = ssSkus.get(id) || sku;
+      const stock = ssSku ? stockMap.get(ssSku) : undefined;
+      if (!stock || !inventoryItem?.id) continue;
+
+      const stocked = selected.size > 0 && stock.warehouses
+        ? stock.warehouses.filter(w => selected.has(w.warehouseAbbr?.toUpperCase()))
+        : stock.warehouses;
+      const total = stocked ? stocked.reduce((sum, w) => sum + (w.qty || 0), 0) : stock.qty;
+      for (const [locationId, quantity] of warehouseLocations.quantities(routing, stocked, total)) {
+        quantities.push({ inventoryItemId: inventoryItem.id, locationId, quantity });
+      }
+    }
+
+    const failed = await warehouseLocations.setQuantities(admin, quantities);
+    if (failed > 0) throw new Error(`Setting inventory failed for ${failed} of ${Math.ceil(quantities.length / 20)} batches`);
+  }
 }
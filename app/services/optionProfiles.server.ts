@@ -0,0 +1,81 @@
+import type { OptionProfile } from "@prisma/client";
+import prisma from "../db.server";
+import { DEFAULT_OPTION_PROFILE, parseSizeOrder, type ResolvedOptionProfile } from "./optionProfiles";
+
+export interface OptionProfileInput {
+  id?: string | null;
+  name: string;
+  colorOptionName: string;
+  sizeOptionName: string;
+  sizeOrder: string;
+  isDefault: boolean;
+}
+
+/**
+ * Option Profile Service
+ * Per-shop option names ("Colour", "Fit") and size order overrides for imported products.
+ * An import uses the profile it was given, else the shop's default profile, else S&S's own order.
+ */
+export class OptionProfileService {
+  async list(shop: string): Promise<OptionProfile[]> {
+    return prisma.optionProfile.findMany({
+      where: { shop },
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+    });
+  }
+
+  async resolve(shop: string, profileId?: string | null): Promise<ResolvedOptionProfile> {
+    const profile = (profileId && await prisma.optionProfile.findFirst({ where: { id: profileId, shop } }))
+      || await prisma.optionProfile.findFirst({ where: { shop, isDefault: true } });
+    if (profileId && profile?.id !== profileId) {
+      console.warn(`[OptionProfiles] Profile ${profileId} not found for ${shop}, using ${profile ? `"${profile.name}"` : "S&S defaults"}`);
+    }
+    return profile ? this.toResolved(profile) : DEFAULT_OPTION_PROFILE;
+  }
+
+  toResolved(profile: OptionProfile): ResolvedOptionProfile {
+    return {
+      id: profile.id,
+      name: profile.name,
+      optionNames: { color: profile.colorOptionName, size: profile.sizeOptionName },
+      sizeOrder: parseSizeOrder(profile.sizeOrder),
+    };
+  }
+
+  /** Create or update a profile; making it the default takes the flag off the shop's other profiles */
+  async save(shop: string, input: OptionProfileInput): Promise<OptionProfile> {
+    const data = {
+      name: input.name.trim(),
+      colorOptionName: input.colorOptionName.trim(),
+      sizeOptionName: input.sizeOptionName.trim(),
+      sizeOrder: parseSizeOrder(input.sizeOrder).join("\n") || null,
+      isDefault: input.isDefault,
+    };
+    if (!data.name) throw new Error("Profile name is required");
+    if (!data.colorOptionName || !data.sizeOptionName) throw new Error("Option names cannot be empty");
+    if (data.colorOptionName.toLowerCase() === data.sizeOptionName.toLowerCase()) {
+      throw new Error("The color and size options need different names");
+    }
+
+    if (input.id && !(await prisma.optionProfile.findFirst({ where: { id: input.id, shop } }))) {
+      throw new Error("Option profile not found");
+    }
+    const saved = input.id
+      ? await prisma.optionProfile.update({ where: { id: input.id }, data })
+      : await prisma.optionProfile.create({ data: { shop, ...data } });
+
+    if (saved.isDefault) {
+      await prisma.optionProfile.updateMany({
+        where: { shop, isDefault: true, id: { not: saved.id } },
+        data: { isDefault: false },
+      });
+    }
+    return saved;
+  }
+
+  async remove(shop: string, id: string): Promise<void> {
+    await prisma.optionProfile.deleteMany({ where: { id, shop } });
+  }
+}
+
+export const optionProfiles = new OptionProfileService();
@@ -0,0 +1,62 @@
+/**
+ * Option names and size ordering of imported products.
+ * No server imports here - the import page sorts its size list with the same rules as the importer.
+ */
+
+export interface OptionNames {
+  color: string;
+  size: string;
+}
+
+export const DEFAULT_OPTION_NAMES: OptionNames = { color: "Color", size: "Size" };
+
+// What an import needs from an OptionProfile (or the built-in defaults when the shop has none)
+export interface ResolvedOptionProfile {
+  id: string | null;
+  name: string;
+  optionNames: OptionNames;
+  sizeOrder: string[];
+}
+
+export const DEFAULT_OPTION_PROFILE: ResolvedOptionProfile = {
+  id: null,
+  name: "S&S defaults",
+  optionNames: DEFAULT_OPTION_NAMES,
+  sizeOrder: [],
+};
+
+// A size as S&S lists it: `sizeOrder` is S&S's sort code ("B1", "B2", ...), empty when unknown
+export interface SizeEntry {
+  name: string;
+  sizeOrder?: string | null;
+}
+
+const normalizeSize = (size: string) => size.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Profile size lists are stored one size per line; commas are accepted too
+export function parseSizeOrder(text: string | null | undefined): string[] {
+  const sizes = new Map<string, string>();
+  for (const size of (text || "").split(/[\n,]/).map(s => s.trim())) {
+    if (size && !sizes.has(normalizeSize(size))) sizes.set(normalizeSize(size), size);
+  }
+  return Array.from(sizes.values());
+}
+
+/**
+ * Sort sizes for the Size option: sizes in the profile's list first, in list order, then the rest
+ * by S&S sizeOrder, then alphabetically for sizes S&S gives no order for.
+ */
+export function sortSizes<T extends SizeEntry>(sizes: T[], profileOrder: string[] = []): T[] {
+  const rank = new Map(profileOrder.map((s, i) => [normalizeSize(s), i]));
+  const listed = (s: T) => rank.get(normalizeSize(s.name)) ?? Infinity;
+
+  return [...sizes].sort((a, b) => {
+    const byProfile = listed(a) - listed(b);
+    if (byProfile) return byProfile;
+    if (a.sizeOrder && b.sizeOrder) {
+      return a.sizeOrder.localeCompare(b.sizeOrder, undefined, { numeric: true }) || a.name.localeCompare(b.name);
+    }
+    if (a.sizeOrder || b.sizeOrder) return a.sizeOrder ? -1 : 1;
+    return a.name.localeCompare(b.name, undefined, { numeric: true });
+  });
+}
@@ -1,7 +1,7 @@
 import prisma from "../db.server";
-import { SSActiveWearClient } from "./ssactivewear";
-
-const ssClient = new SSActiveWearClient();
+import { apiMeter } from "./apiMeter.server";
+import { getSSAccountSettings, getSSClient } from "./ssClient.server";
+import { isRetryableSSError } from "./ssactivewear";
 
 export class OrderSyncService {
   async processOrder(admin: any, orderJobId: string) {
@@ -9,6 +9,10 @@ export class OrderSyncService {
     const job = await prisma.orderJob.findUnique({ where: { id: orderJobId } });
     if (!job) throw new Error("Job not found");
 
+    admin = apiMeter.wrapAdmin(admin, job.shop);
+    const ssClient = await getSSClient(job.shop);
+    const accountSettings = await getSSAccountSettings(job.shop);
+
     // 2. Fetch Order from Shopify
     // We need shipping address, line items, variants.
     const query = `
@@ -49,15 +53,22 @@ export class OrderSyncService {
     if (!order) throw new Error("Order not found in Shopify");
 
     // 3. Map to SSActiveWear Format
+    // Imported variants resolve through VariantMap so merchant SKU edits don't break fulfilment;
+    // anything that was never mapped falls back to its Shopify SKU
+    const variantIds = order.lineItems.edges.map((edge: any) => edge.node.variant?.id).filter(Boolean);
+    const variantMaps = variantIds.length > 0
+      ? await prisma.variantMap.findMany({ where: { shopifyVariantId: { in: variantIds } } })
+      : [];
+    const mappedVariants = new Map(variantMaps.map(m => [m.shopifyVariantId, m]));
+
     const lines = [];
     for (const edge of order.lineItems.edges) {
         const item = edge.node;
-        // Check if map exists or assume SKU match
-        // Ideally we check our VariantMap
-        // For now, use SKU as identifier
-        if (item.sku) {
+        const mapped = item.variant?.id ? mappedVariants.get(item.variant.id) : undefined;
+        const identifier = mapped ? String(mapped.ssSkuId || mapped.ssSku) : item.sku;
+        if (identifier) {
             lines.push({
-                identifier: item.sku,
+                identifier,
                 qty: item.quantity
             });
         }
@@ -77,12 +88,29 @@ export class OrderSyncService {
         },
         lines: lines,
         poNumber: order.name,
-        shippingMethod: process.env.SS_DEFAULT_SHIPPING || "1",
-        testOrder: process.env.SS_TEST_MODE === "true" // Controlled by env var (default: false in production)
+        shippingMethod: accountSettings.defaultShipping,
+        testOrder: accountSettings.testMode // Per-shop setting (default: false)
     };
 
     // 4. Send to SS
-    const ssResponse = await ssClient.placeOrder(ssOrderPayload);
+    let ssResponse: any;
+    try {
+      ssResponse = await ssClient.placeOrder(ssOrderPayload);
+    } catch (error: any) {
+      // Throttling / S&S outages leave the job pending so it can be approved again;
+      // auth and validation failures will not fix themselves, so mark the job as failed
+      const retryable = isRetryableSSError(error);
+      await prisma.orderJob.update({
+        where: { id: orderJobId },
+        data: {
+          status: retryable ? "pending" : "error",
+          logs: retryable
+            ? `S&S temporarily unavailable, retry later: ${error?.message}`
+            : `Submission failed: ${error?.message}`,
+        },
+      });
+      throw error;
+    }
 
     // FIX #7: Validate response before accessing
     const orderNumber = Array.isArray(ssResponse) && ssResponse[0]?.orderNumber
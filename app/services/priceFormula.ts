@@ -0,0 +1,385 @@
+/**
+ * Expression language for formula-type price rules, e.g. `max(customerPrice * 1.8, mapPrice)`.
+ * Formulas are parsed into a small AST and evaluated against a fixed set of variables and
+ * functions - there is no access to JavaScript, so a formula can only compute a price.
+ * No server imports here - the price rules editor validates and previews formulas in the browser.
+ */
+
+export interface FormulaContext {
+  piecePrice: number;
+  dozenPrice: number;
+  casePrice: number;
+  customerPrice: number;
+  mapPrice: number;
+  salePrice: number;
+  size: string;
+  brand: string;
+  category: string;
+}
+
+export const FORMULA_VARIABLES: Array<{ name: keyof FormulaContext; description: string }> = [
+  { name: "piecePrice", description: "S&S piece price" },
+  { name: "dozenPrice", description: "S&S dozen price" },
+  { name: "casePrice", description: "S&S case price" },
+  { name: "customerPrice", description: "Your account price" },
+  { name: "mapPrice", description: "Minimum advertised price (0 if none)" },
+  { name: "salePrice", description: "S&S sale price (0 if not on sale)" },
+  { name: "size", description: "Size name, e.g. \"2XL\"" },
+  { name: "brand", description: "Brand name" },
+  { name: "category", description: "Base category" },
+];
+
+export const FORMULA_FUNCTIONS = ["min", "max", "round", "floor", "ceil", "abs", "if", "contains"] as const;
+
+// Example values used to check formulas when they are saved and for the editor preview
+export const SAMPLE_FORMULA_CONTEXT: FormulaContext = {
+  piecePrice: 10,
+  dozenPrice: 9.5,
+  casePrice: 9,
+  customerPrice: 8.8,
+  mapPrice: 25,
+  salePrice: 0,
+  size: "L",
+  brand: "Gildan",
+  category: "T-Shirts",
+};
+
+// A variant S&S has no prices for (no MAP or sale price, nothing known yet) - formulas must still give a number
+export const ZERO_FORMULA_CONTEXT: FormulaContext = {
+  ...SAMPLE_FORMULA_CONTEXT,
+  piecePrice: 0,
+  dozenPrice: 0,
+  casePrice: 0,
+  customerPrice: 0,
+  mapPrice: 0,
+  salePrice: 0,
+};
+
+const MAX_FORMULA_LENGTH = 500;
+
+export class PriceFormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} (at character ${position + 1})`);
+    this.name = "PriceFormulaError";
+  }
+}
+
+type Value = number | string | boolean;
+
+type Node =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "variable"; name: keyof FormulaContext; pos: number }
+  | { kind: "unary"; op: string; operand: Node; pos: number }
+  | { kind: "binary"; op: string; left: Node; right: Node; pos: number }
+  | { kind: "ternary"; test: Node; then: Node; otherwise: Node }
+  | { kind: "call"; name: string; args: Node[]; pos: number };
+
+interface Token {
+  type: "number" | "string" | "name" | "op" | "end";
+  value: string;
+  pos: number;
+}
+
+const OPERATORS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "%", "(", ")", ",", "<", ">", "!", "?", ":"];
+const VARIABLE_NAMES = new Set<string>(FORMULA_VARIABLES.map(v => v.name));
+const FUNCTION_NAMES = new Set<string>(FORMULA_FUNCTIONS);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: "name", value: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === "\"") {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) throw new PriceFormulaError("Unterminated text", i);
+      tokens.push({ type: "string", value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const rest = source.slice(i);
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (!op) throw new PriceFormulaError(`Unexpected character "${ch}"`, i);
+    tokens.push({ type: "op", value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: "end", value: "", pos: source.length });
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first: ?: || && comparison +- */% unary
+class Parser {
+  private index = 0;
+  private tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Node {
+    const node = this.ternary();
+    const token = this.peek();
+    if (token.type !== "end") throw new PriceFormulaError(`Unexpected "${token.value}"`, token.pos);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(...ops: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === "op" && ops.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(op: string): Token {
+    const token = this.accept(op);
+    if (!token) {
+      const found = this.peek();
+      throw new PriceFormulaError(`Expected "${op}"${found.type === "end" ? " before the end" : ` but found "${found.value}"`}`, found.pos);
+    }
+    return token;
+  }
+
+  private ternary(): Node {
+    const test = this.binary(0);
+    if (!this.accept("?")) return test;
+    const then = this.ternary();
+    this.expect(":");
+    const otherwise = this.ternary();
+    return { kind: "ternary", test, then, otherwise };
+  }
+
+  private static LEVELS = [["||"], ["&&"], ["==", "!=", "<", "<=", ">", ">="], ["+", "-"], ["*", "/", "%"]];
+
+  private binary(level: number): Node {
+    if (level >= Parser.LEVELS.length) return this.unary();
+    let left = this.binary(level + 1);
+    let op: Token | null;
+    while ((op = this.accept(...Parser.LEVELS[level]))) {
+      const right = this.binary(level + 1);
+      left = { kind: "binary", op: op.value, left, right, pos: op.pos };
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    const op = this.accept("-", "+", "!");
+    if (op) return { kind: "unary", op: op.value, operand: this.unary(), pos: op.pos };
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    if (token.type === "number") return { kind: "number", value: parseFloat(token.value) };
+    if (token.type === "string") return { kind: "string", value: token.value };
+
+    if (token.type === "name") {
+      if (this.accept("(")) {
+        if (!FUNCTION_NAMES.has(token.value)) {
+          throw new PriceFormulaError(`Unknown function "${token.value}" (use ${FORMULA_FUNCTIONS.join(", ")})`, token.pos);
+        }
+        const args: Node[] = [];
+        if (!this.accept(")")) {
+          do {
+            args.push(this.ternary());
+          } while (this.accept(","));
+          this.expect(")");
+        }
+        checkArity(token.value, args.length, token.pos);
+        return { kind: "call", name: token.value, args, pos: token.pos };
+      }
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "number", value: token.value === "true" ? 1 : 0 };
+      }
+      if (!VARIABLE_NAMES.has(token.value)) {
+        throw new PriceFormulaError(`Unknown variable "${token.value}"`, token.pos);
+      }
+      return { kind: "variable", name: token.value as keyof FormulaContext, pos: token.pos };
+    }
+
+    if (token.type === "op" && token.value === "(") {
+      const node = this.ternary();
+      this.expect(")");
+      return node;
+    }
+
+    throw new PriceFormulaError(token.type === "end" ? "Formula ends unexpectedly" : `Unexpected "${token.value}"`, token.pos);
+  }
+}
+
+function checkArity(name: string, count: number, pos: number) {
+  const [min, max] = ({
+    min: [1, Infinity], max: [1, Infinity], round: [1, 2], floor: [1, 1], ceil: [1, 1], abs: [1, 1], if: [3, 3], contains: [2, 2],
+  } as Record<string, [number, number]>)[name];
+  if (count < min || count > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} or ${max}`;
+    throw new PriceFormulaError(`${name}() takes ${expected} argument${min === 1 && max === 1 ? "" : "s"}`, pos);
+  }
+}
+
+function num(value: Value, pos: number, what: string): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  throw new PriceFormulaError(`${what} needs a number, got text "${value}"`, pos);
+}
+
+function truthy(value: Value): boolean {
+  return typeof value === "string" ? value.length > 0 : !!value;
+}
+
+function evaluate(node: Node, ctx: FormulaContext): Value {
+  switch (node.kind) {
+    case "number":
+    case "string":
+      return node.value;
+    case "variable": {
+      const value = ctx[node.name];
+      return typeof value === "string" ? value : Number(value) || 0;
+    }
+    case "unary": {
+      const value = evaluate(node.operand, ctx);
+      if (node.op === "!") return !truthy(value);
+      const n = num(value, node.pos, `"${node.op}"`);
+      return node.op === "-" ? -n : n;
+    }
+    case "ternary":
+      return truthy(evaluate(node.test, ctx)) ? evaluate(node.then, ctx) : evaluate(node.otherwise, ctx);
+    case "binary": {
+      if (node.op === "&&") return truthy(evaluate(node.left, ctx)) && truthy(evaluate(node.right, ctx));
+      if (node.op === "||") return truthy(evaluate(node.left, ctx)) || truthy(evaluate(node.right, ctx));
+
+      const left = evaluate(node.left, ctx);
+      const right = evaluate(node.right, ctx);
+      if (node.op === "==" || node.op === "!=") {
+        // Text compares case-insensitively so `brand == "gildan"` matches "Gildan"
+        const same = typeof left === "string" || typeof right === "string"
+          ? String(left).trim().toLowerCase() === String(right).trim().toLowerCase()
+          : num(left, node.pos, node.op) === num(right, node.pos, node.op);
+        return node.op === "==" ? same : !same;
+      }
+
+      const a = num(left, node.pos, `"${node.op}"`);
+      const b = num(right, node.pos, `"${node.op}"`);
+      switch (node.op) {
+        case "+": return a + b;
+        case "-": return a - b;
+        case "*": return a * b;
+        case "/": return a / b;
+        case "%": return a % b;
+        case "<": return a < b;
+        case "<=": return a <= b;
+        case ">": return a > b;
+        case ">=": return a >= b;
+      }
+      throw new PriceFormulaError(`Unknown operator "${node.op}"`, node.pos);
+    }
+    case "call": {
+      if (node.name === "if") {
+        return truthy(evaluate(node.args[0], ctx)) ? evaluate(node.args[1], ctx) : evaluate(node.args[2], ctx);
+      }
+      const args = node.args.map(arg => evaluate(arg, ctx));
+      if (node.name === "contains") {
+        return String(args[0]).toLowerCase().includes(String(args[1]).toLowerCase());
+      }
+      const n = args.map(arg => num(arg, node.pos, `${node.name}()`));
+      switch (node.name) {
+        case "min": return Math.min(...n);
+        case "max": return Math.max(...n);
+        case "floor": return Math.floor(n[0]);
+        case "ceil": return Math.ceil(n[0]);
+        case "abs": return Math.abs(n[0]);
+        case "round": {
+          const factor = Math.pow(10, Math.max(0, Math.min(4, Math.round(n[1] ?? 0))));
+          return Math.round(n[0] * factor) / factor;
+        }
+      }
+      throw new PriceFormulaError(`Unknown function "${node.name}"`, node.pos);
+    }
+  }
+}
+
+export interface CompiledFormula {
+  source: string;
+  /** Price for one variant; throws PriceFormulaError when the result is not a usable number */
+  evaluate(ctx: FormulaContext): number;
+}
+
+const compiled = new Map<string, CompiledFormula>();
+
+export function compileFormula(source: string): CompiledFormula {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+
+  if (!source || !source.trim()) throw new PriceFormulaError("Formula is empty");
+  if (source.length > MAX_FORMULA_LENGTH) throw new PriceFormulaError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`);
+
+  const ast = new Parser(tokenize(source)).parse();
+  const formula: CompiledFormula = {
+    source,
+    evaluate(ctx) {
+      const result = evaluate(ast, ctx);
+      if (typeof result === "string") throw new PriceFormulaError(`Formula returned text "${result}" instead of a price`);
+      const price = Number(result);
+      if (!isFinite(price)) throw new PriceFormulaError("Formula did not return a finite number (division by zero?)");
+      return price;
+    },
+  };
+
+  if (compiled.size >= 200) compiled.clear();
+  compiled.set(source, formula);
+  return formula;
+}
+
+/**
+ * Parse the formula and run it against `sample`, then against ZERO_FORMULA_CONTEXT so a formula that
+ * breaks on missing prices is caught before an import meets one; returns the sample price or the first error
+ */
+export function validateFormula(source: string, sample: FormulaContext = SAMPLE_FORMULA_CONTEXT): { ok: true; price: number } | { ok: false; error: string } {
+  const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+  let formula: CompiledFormula;
+  let price: number;
+  try {
+    formula = compileFormula(source);
+    price = formula.evaluate(sample);
+  } catch (error) {
+    return { ok: false, error: message(error) };
+  }
+  try {
+    formula.evaluate(ZERO_FORMULA_CONTEXT);
+  } catch (error) {
+    return { ok: false, error: `${message(error)} when S&S has no price (e.g. a style without a MAP, mapPrice = 0)` };
+  }
+  return { ok: true, price };
+}
@@ -0,0 +1,88 @@
+import type { PriceRule } from "@prisma/client";
+import prisma from "../db.server";
+import { ruleProblem } from "./pricing";
+
+export interface PricedStyle {
+  styleID: number;
+  brandName?: string;
+  baseCategory?: string;
+  categories?: string | string[]; // comma separated category IDs
+}
+
+// At equal priority a brand/category rule beats a catch-all rule
+const SCOPE_RANK: Record<string, number> = { brand: 0, category: 0, all: 1 };
+
+/**
+ * Resolves which PriceRule prices a style.
+ * Rules are checked by priority (lowest number first), then scope, then newest first.
+ */
+export class PriceRuleService {
+  async resolveRule(shop: string, style: PricedStyle): Promise<PriceRule | null> {
+    const rules = await prisma.priceRule.findMany({
+      where: { shop, isActive: true },
+      orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+    });
+    if (rules.length === 0) return null;
+
+    const categories = await this.categoryKeys(style);
+    const candidates = rules
+      .filter(rule => this.matches(rule, style, categories))
+      .sort((a, b) => a.priority - b.priority || (SCOPE_RANK[a.applyTo] ?? 1) - (SCOPE_RANK[b.applyTo] ?? 1));
+
+    for (const rule of candidates) {
+      const problem = ruleProblem(rule);
+      if (!problem) return rule;
+      console.warn(`[PriceRules] Skipping rule "${rule.name}": ${problem}`);
+    }
+    return null;
+  }
+
+  /**
+   * The rule for one import: `priceRuleId` when the import asked for a specific rule
+   * (e.g. a queued bulk import), otherwise whatever resolveRule picks for the style.
+   */
+  async ruleForImport(shop: string, style: PricedStyle, priceRuleId?: string | null): Promise<PriceRule | null> {
+    if (priceRuleId) {
+      const rule = await prisma.priceRule.findFirst({ where: { id: priceRuleId, shop } });
+      const problem = rule ? ruleProblem(rule) : "rule not found";
+      if (!problem) return rule;
+      console.warn(`[PriceRules] Requested rule ${priceRuleId} cannot be used (${problem}), resolving by scope`);
+    }
+    return this.resolveRule(shop, style);
+  }
+
+  private matches(rule: PriceRule, style: PricedStyle, categories: Set<string>): boolean {
+    const target = (rule.applyToValue || "").trim().toLowerCase();
+    switch (rule.applyTo) {
+      case "all":
+        return true;
+      case "brand":
+        return !!target && target === (style.brandName || "").trim().toLowerCase();
+      case "category":
+        return !!target && categories.has(target);
+      default:
+        return false;
+    }
+  }
+
+  // Lower-cased base category plus every category ID and cached category name of the style
+  private async categoryKeys(style: PricedStyle): Promise<Set<string>> {
+    const keys = new Set<string>();
+    if (style.baseCategory) keys.add(style.baseCategory.trim().toLowerCase());
+
+    const raw = Array.isArray(style.categories) ? style.categories : (style.categories || "").split(",");
+    const ids = raw.map(id => Number(String(id).trim())).filter(id => id > 0);
+    ids.forEach(id => keys.add(String(id)));
+
+    if (ids.length > 0) {
+      const cached = await prisma.sSCategory.findMany({
+        where: { categoryId: { in: ids } },
+        select: { name: true },
+      });
+      cached.forEach(c => keys.add(c.name.trim().toLowerCase()));
+    }
+    return keys;
+  }
+}
+
+export const priceRuleService = new PriceRuleService();
@@ -0,0 +1,96 @@
+import { compileFormula, validateFormula, type FormulaContext } from "./priceFormula";
+
+/**
+ * Price calculation for PriceRule markups.
+ * No server imports here - the price rules page uses the same functions for its preview.
+ */
+
+export type PriceRuleType = "percentage" | "fixed" | "multiplier" | "formula";
+
+export interface PricingRule {
+  type: string;
+  value: number;
+  formula?: string | null; // expression for type "formula", see priceFormula.ts
+  roundTo: number;   // price ending, e.g. 0.99 -> $19.99, 0 -> whole dollars
+  minMargin: number; // minimum margin percentage on the selling price
+}
+
+// Formula variables for a variant; S&S prices that are not known fall back to the cost (MAP and sale price to 0)
+export function formulaContextFor(cost: number, fields: Partial<FormulaContext> = {}): FormulaContext {
+  return {
+    piecePrice: cost,
+    dozenPrice: cost,
+    casePrice: cost,
+    customerPrice: cost,
+    mapPrice: 0,
+    salePrice: 0,
+    size: "",
+    brand: "",
+    category: "",
+    ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined && v !== null)),
+  };
+}
+
+/**
+ * Selling price before rounding and the margin floor; null for rule types this module cannot price.
+ * Formula rules throw PriceFormulaError when the formula is invalid or does not produce a number.
+ */
+export function applyMarkup(cost: number, rule: Pick<PricingRule, "type" | "value" | "formula">, context?: FormulaContext): number | null {
+  switch (rule.type) {
+    case "percentage": return cost * (1 + rule.value / 100);
+    case "fixed": return cost + rule.value;
+    case "multiplier": return cost * rule.value;
+    case "formula": return compileFormula(rule.formula || "").evaluate(context ?? formulaContextFor(cost));
+    default: return null;
+  }
+}
+
+// Why a rule cannot price anything (unknown type, broken formula), or null when it can
+export function ruleProblem(rule: Pick<PricingRule, "type" | "formula">): string | null {
+  if (!["percentage", "fixed", "multiplier", "formula"].includes(rule.type)) {
+    return `type "${rule.type}" is not supported`;
+  }
+  if (rule.type === "formula") {
+    const result = validateFormula(rule.formula || "");
+    if (!result.ok) return result.error;
+  }
+  return null;
+}
+
+// Lowest price that still leaves `minMargin` percent of the selling price as margin
+export function marginFloor(cost: number, minMargin: number): number {
+  if (!minMargin || minMargin <= 0) return 0;
+  if (minMargin >= 100) return Infinity;
+  return cost / (1 - minMargin / 100);
+}
+
+// Round up to the next price ending in `roundTo` (0.99 -> 12.30 becomes 12.99, 0 -> 12.30 becomes 13.00)
+export function roundPrice(price: number, roundTo: number): number {
+  if (roundTo === null || roundTo === undefined || roundTo < 0 || isNaN(roundTo)) {
+    return Math.round(price * 100) / 100;
+  }
+  const ending = Math.round((roundTo % 1) * 100) / 100;
+  let rounded = Math.floor(price) + ending;
+  if (rounded < price - 0.000001) rounded += 1;
+  return Math.round(rounded * 100) / 100;
+}
+
+/**
+ * Selling price for `cost` under `rule`: markup, then `adjust` (per-size markups from the import form),
+ * then the minimum-margin floor, then rounding. Rounding only ever goes up, so the floor still holds.
+ */
+export function priceWithRule(
+  cost: number,
+  rule: PricingRule,
+  adjust?: (price: number) => number,
+  context?: FormulaContext
+): number | null {
+  const marked = applyMarkup(cost, rule, context);
+  if (marked === null) return null;
+
+  const adjusted = adjust ? adjust(marked) : marked;
+  const floor = marginFloor(cost, rule.minMargin);
+  if (!isFinite(floor)) return null;
+
+  return roundPrice(Math.max(adjusted, floor, 0.01), rule.roundTo);
+}
@@ -0,0 +1,200 @@
+import prisma from "../db.server";
+import type { LinkedVariant, LinkMatchMethod, LinkProposal, LinkResult, LinkScan } from "./productLinks";
+import { getSSClient } from "./ssClient.server";
+import type { SSProduct } from "./ssactivewear";
+
+const PAGE_SIZE = 50; // Shopify products per scan
+
+const MATCH_FIELDS = ["sku", "gtin", "skuID_Master", "styleID", "brandName", "styleName", "colorName", "sizeName"] as const;
+type MatchedProduct = Pick<SSProduct, typeof MATCH_FIELDS[number]>;
+
+interface ShopifyVariant {
+  id: string;
+  title: string;
+  sku: string | null;
+  barcode: string | null;
+}
+
+interface ShopifyProduct {
+  id: string;
+  title: string;
+  variants: ShopifyVariant[];
+}
+
+/**
+ * Product Link Service
+ * Finds Shopify products that were not imported by the app (no ProductMap) and proposes the S&S
+ * style they carry, by variant SKU, barcode (GTIN) or the account's S&S cross references.
+ * Linking writes ProductMap / VariantMap rows, so orders, inventory sync and re-imports pick the
+ * products up without importing them again.
+ */
+export class ProductLinkService {
+  /** Propose links for one page of the shop's products; pass `nextCursor` to scan the next page */
+  async scan(admin: any, shop: string, cursor: string | null = null): Promise<LinkScan> {
+    const page = await this.fetchProducts(admin, cursor);
+    const linked = new Set((await prisma.productMap.findMany({
+      where: { shopifyProductId: { in: page.products.map(p => p.id) } },
+      select: { shopifyProductId: true },
+    })).map(m => m.shopifyProductId));
+
+    const unlinked = page.products.filter(p => !linked.has(p.id));
+    const matches = await this.matchVariants(shop, unlinked.flatMap(p => p.variants));
+
+    const scan: LinkScan = { scanned: page.products.length, alreadyLinked: linked.size, proposals: [], noMatch: [], nextCursor: page.nextCursor };
+    for (const product of unlinked) {
+      const proposal = this.propose(product, matches);
+      if (proposal) scan.proposals.push(proposal);
+      else scan.noMatch.push({ productId: product.id, title: product.title });
+    }
+
+    console.log(`[ProductLinks] Scanned ${scan.scanned} products: ${scan.proposals.length} matched, ${scan.noMatch.length} without a match`);
+    return scan;
+  }
+
+  /**
+   * Create the ProductMap / VariantMap rows of reviewed proposals. Products linked in the meantime
+   * and variants that already belong to another product map are skipped.
+   */
+  async link(shop: string, proposals: LinkProposal[]): Promise<LinkResult> {
+    const result: LinkResult = { products: 0, variants: 0, skipped: [] };
+
+    for (const proposal of proposals) {
+      if (!proposal?.productId?.startsWith("gid://shopify/Product/") || !Number.isInteger(proposal.styleId)) {
+        result.skipped.push(`Invalid proposal for ${proposal?.title || proposal?.productId || "a product"}`);
+        continue;
+      }
+      const existing = await prisma.productMap.findUnique({ where: { shopifyProductId: proposal.productId } });
+      if (existing) {
+        result.skipped.push(`${proposal.title} is already linked to style ${existing.ssStyleId}`);
+        continue;
+      }
+
+      const variantIds = (proposal.variants || []).map(v => v.variantId);
+      const taken = new Set((await prisma.variantMap.findMany({
+        where: { shopifyVariantId: { in: variantIds } },
+        select: { shopifyVariantId: true },
+      })).map(m => m.shopifyVariantId));
+      const variants = (proposal.variants || []).filter(v => v.variantId && v.ssSku && !taken.has(v.variantId));
+      if (variants.length === 0) {
+        result.skipped.push(`${proposal.title} has no variants left to link`);
+        continue;
+      }
+
+      const productMap = await prisma.productMap.create({
+        data: { shop, shopifyProductId: proposal.productId, ssStyleId: String(proposal.styleId) },
+      });
+      await prisma.variantMap.createMany({
+        data: variants.map(v => ({ shopifyVariantId: v.variantId, ssSku: v.ssSku, ssSkuId: v.ssSkuId || null, productMapId: productMap.id })),
+      });
+      result.products++;
+      result.variants += variants.length;
+    }
+
+    console.log(`[ProductLinks] Linked ${result.products} products (${result.variants} variants), skipped ${result.skipped.length}`);
+    return result;
+  }
+
+  // The product's style is the one most of its variants matched; variants of other styles are left unmapped
+  private propose(product: ShopifyProduct, matches: Map<string, { ss: MatchedProduct; method: LinkMatchMethod }>): LinkProposal | null {
+    const byStyle = new Map<number, LinkedVariant[]>();
+    for (const variant of product.variants) {
+      const match = matches.get(variant.id);
+      if (!match) continue;
+      const linked: LinkedVariant = {
+        variantId: variant.id,
+        title: variant.title,
+        sku: variant.sku || "",
+        ssSku: match.ss.sku,
+        ssSkuId: match.ss.skuID_Master || null,
+        color: match.ss.colorName || "",
+        size: match.ss.sizeName || "",
+        method: match.method,
+      };
+      byStyle.set(match.ss.styleID, [...(byStyle.get(match.ss.styleID) || []), linked]);
+    }
+    if (byStyle.size === 0) return null;
+
+    const [styleId, variants] = Array.from(byStyle.entries()).reduce((best, entry) => (entry[1].length > best[1].length ? entry : best));
+    const sample = matches.get(variants[0].variantId)!.ss;
+    const matched = Array.from(byStyle.values()).reduce((sum, list) => sum + list.length, 0);
+    return {
+      productId: product.id,
+      title: product.title,
+      styleId,
+      styleName: `${sample.brandName || ""} ${sample.styleName || ""}`.trim(),
+      variants,
+      unmatched: product.variants.length - matched,
+      otherStyles: matched - variants.length,
+    };
+  }
+
+  /** S&S products of Shopify variants: by SKU first, then barcode, then the account's cross references */
+  private async matchVariants(shop: string, variants: ShopifyVariant[]): Promise<Map<string, { ss: MatchedProduct; method: LinkMatchMethod }>> {
+    const matches = new Map<string, { ss: MatchedProduct; method: LinkMatchMethod }>();
+    if (variants.length === 0) return matches;
+
+    const ssClient = await getSSClient(shop);
+    const skuOf = (v: ShopifyVariant) => (v.sku || "").trim().toUpperCase();
+    const barcodeOf = (v: ShopifyVariant) => (v.barcode || "").trim();
+
+    const found = await ssClient.getProductsByIdentifiers(
+      variants.flatMap(v => [skuOf(v), barcodeOf(v)]).filter(Boolean),
+      [...MATCH_FIELDS],
+    );
+    const bySku = new Map(found.map(p => [p.sku.toUpperCase(), p]));
+    const byGtin = new Map(found.filter(p => p.gtin).map(p => [p.gtin, p]));
+
+    const rest: ShopifyVariant[] = [];
+    for (const variant of variants) {
+      const sku = bySku.get(skuOf(variant));
+      const gtin = barcodeOf(variant) ? byGtin.get(barcodeOf(variant)) : undefined;
+      if (sku) matches.set(variant.id, { ss: sku, method: "sku" });
+      else if (gtin) matches.set(variant.id, { ss: gtin, method: "gtin" });
+      else if (skuOf(variant)) rest.push(variant);
+    }
+    if (rest.length === 0) return matches;
+
+    // SKUs the merchant set up as "Your Sku" cross references in their S&S account
+    try {
+      const refs = await ssClient.getCrossRefs(rest.map(skuOf));
+      const refSkus = new Map(refs.map(r => [r.yourSku.toUpperCase(), r.sku.toUpperCase()]));
+      const missing = Array.from(new Set(refSkus.values())).filter(sku => !bySku.has(sku));
+      if (missing.length > 0) {
+        for (const p of await ssClient.getProductsByIdentifiers(missing, [...MATCH_FIELDS])) bySku.set(p.sku.toUpperCase(), p);
+      }
+      for (const variant of rest) {
+        const ss = bySku.get(refSkus.get(skuOf(variant)) || "");
+        if (ss) matches.set(variant.id, { ss, method: "crossref" });
+      }
+    } catch (error) {
+      console.warn(`[ProductLinks] Cross references not checked:`, error instanceof Error ? error.message : error);
+    }
+    return matches;
+  }
+
+  // Products with more than 100 variants are matched on their first 100
+  private async fetchProducts(admin: any, cursor: string | null): Promise<{ products: ShopifyProduct[]; nextCursor: string | null }> {
+    const response = await admin.graphql(`
+      query($cursor: String) {
+        products(first: ${PAGE_SIZE}, after: $cursor, sortKey: TITLE) {
+          nodes {
+            id
+            title
+            variants(first: 100) { nodes { id title sku barcode } }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `, { variables: { cursor } });
+    const json = await response.json();
+    if (json.errors?.length) throw new Error(json.errors[0].message);
+
+    const connection = json.data?.products;
+    return {
+      products: (connection?.nodes || []).map((p: any) => ({ id: p.id, title: p.title, variants: p.variants?.nodes || [] })),
+      nextCursor: connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null,
+    };
+  }
+}
+
+export const productLinks = new ProductLinkService();
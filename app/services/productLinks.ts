@@ -0,0 +1,48 @@
+/**
+ * Proposed links between products that exist in Shopify without a ProductMap (made by hand or by
+ * another app) and S&S styles. No server imports here - the review page renders and posts them back.
+ */
+
+// How a variant was recognised, strongest first
+export type LinkMatchMethod = "sku" | "gtin" | "crossref";
+
+export const MATCH_METHOD_LABELS: Record<LinkMatchMethod, string> = {
+  sku: "SKU",
+  gtin: "GTIN / barcode",
+  crossref: "S&S cross reference",
+};
+
+export interface LinkedVariant {
+  variantId: string;
+  title: string;               // Shopify variant title ("Black / M")
+  sku: string;                 // Shopify SKU
+  ssSku: string;
+  ssSkuId: number | null;
+  color: string;               // S&S color and size, to review the match
+  size: string;
+  method: LinkMatchMethod;
+}
+
+export interface LinkProposal {
+  productId: string;
+  title: string;
+  styleId: number;
+  styleName: string;           // "Gildan 2000"
+  variants: LinkedVariant[];
+  unmatched: number;           // variants without an S&S match; they stay unmapped
+  otherStyles: number;         // variants that matched a different style than the product's
+}
+
+export interface LinkScan {
+  scanned: number;             // products looked at on this page
+  alreadyLinked: number;       // of those, products that already have a ProductMap
+  proposals: LinkProposal[];
+  noMatch: Array<{ productId: string; title: string }>;
+  nextCursor: string | null;   // scan the next page of products from here
+}
+
+export interface LinkResult {
+  products: number;
+  variants: number;
+  skipped: string[];           // why a proposal was not linked
+}
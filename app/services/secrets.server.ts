@@ -0,0 +1,36 @@
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+// CREDENTIALS_ENCRYPTION_KEY should be a long random string. Falls back to the app secret
+// so local dev works, but production must set its own key (rotating the app secret would
+// otherwise make stored credentials unreadable).
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY is not set");
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a secret for storage. Output: "v1:<iv>:<authTag>:<ciphertext>" (base64 parts).
+ */
+export function encryptSecret(plainText: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), encrypted.toString("base64")].join(":");
+}
+
+export function decryptSecret(stored: string): string {
+  const [version, iv, tag, data] = stored.split(":");
+  if (version !== VERSION || !iv || !tag || !data) {
+    throw new Error("Unrecognized encrypted secret format");
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+}
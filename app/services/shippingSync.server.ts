@@ -1,7 +1,5 @@
 import prisma from "../db.server";
-import { SSActiveWearClient } from "./ssactivewear";
-
-const ssClient = new SSActiveWearClient();
+import { getSSClient } from "./ssClient.server";
 
 /**
  * Shipping Sync Service
@@ -29,8 +27,9 @@ export class ShippingSyncService {
     for (const order of submittedOrders) {
       try {
         // Get order status from SSActiveWear
-        const ssOrders = await ssClient.getOrders(true); // Get all orders
-        const ssOrder = ssOrders.find((o: any) =>
+        const ssClient = await getSSClient(order.shop);
+        const ssOrders = await ssClient.getOrdersByIdentifier([order.ssOrderNumber!]);
+        const ssOrder = ssOrders.find(o =>
           o.orderNumber === order.ssOrderNumber ||
           o.poNumber === order.shopifyOrderNumber
         );
@@ -43,7 +42,7 @@ export class ShippingSyncService {
               status: "shipped",
               logs: JSON.stringify({
                 trackingNumber: ssOrder.trackingNumber,
-                carrier: ssOrder.carrier || "UPS",
+                carrier: ssOrder.shippingCarrier || "UPS",
                 shippedAt: ssOrder.shipDate || new Date().toISOString(),
                 updatedAt: new Date().toISOString(),
               }),
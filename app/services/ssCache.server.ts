@@ -0,0 +1,210 @@
+import prisma from "../db.server";
+import { ssCacheKey, type SSCacheKind, type SSResponseCache } from "./ssactivewear";
+
+/**
+ * S&S Response Cache
+ * TTL cache for style / product / spec lookups with request coalescing: concurrent callers
+ * asking for the same key share one in-flight S&S request. Stored in memory by default,
+ * or in the SSResponseCache table with SS_CACHE_DRIVER=postgres so entries are shared
+ * across instances and survive restarts.
+ */
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface CacheDriver {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  deleteMatching(prefix: string, match: (key: string) => boolean): Promise<number>;
+  count(): Promise<number>;
+}
+
+const MEMORY_MAX_ENTRIES = 500;
+const PURGE_EVERY_SETS = 100;
+
+class MemoryCacheDriver implements CacheDriver {
+  readonly name = "memory";
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    // Re-insert so the Map's insertion order doubles as least-recently-used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Copies in and out, so a caller mutating its result cannot change what others get
+    return { ...entry, value: structuredClone(entry.value) };
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, value: structuredClone(entry.value) });
+    while (this.entries.size > MEMORY_MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async deleteByPrefix(prefix: string) {
+    return this.deleteMatching(prefix, () => true);
+  }
+
+  async deleteMatching(prefix: string, match: (key: string) => boolean) {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix) && match(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async count() {
+    const now = Date.now();
+    return [...this.entries.values()].filter(e => e.expiresAt > now).length;
+  }
+}
+
+class PrismaCacheDriver implements CacheDriver {
+  readonly name = "postgres";
+  private sets = 0;
+
+  async get(key: string) {
+    const row = await prisma.sSResponseCache.findUnique({ where: { key } });
+    if (!row) return null;
+    return { value: JSON.parse(row.value), expiresAt: row.expiresAt.getTime() };
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    const data = { value: JSON.stringify(entry.value), expiresAt: new Date(entry.expiresAt) };
+    await prisma.sSResponseCache.upsert({ where: { key }, create: { key, ...data }, update: data });
+
+    // Expired rows are never read again; sweep them now and then
+    if (++this.sets % PURGE_EVERY_SETS === 0) {
+      await prisma.sSResponseCache.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    }
+  }
+
+  async deleteByPrefix(prefix: string) {
+    const result = await prisma.sSResponseCache.deleteMany({ where: { key: { startsWith: prefix } } });
+    return result.count;
+  }
+
+  async deleteMatching(prefix: string, match: (key: string) => boolean) {
+    const rows = await prisma.sSResponseCache.findMany({ where: { key: { startsWith: prefix } }, select: { key: true } });
+    const keys = rows.map(row => row.key).filter(match);
+    if (keys.length === 0) return 0;
+    const result = await prisma.sSResponseCache.deleteMany({ where: { key: { in: keys } } });
+    return result.count;
+  }
+
+  async count() {
+    return prisma.sSResponseCache.count({ where: { expiresAt: { gt: new Date() } } });
+  }
+}
+
+export interface SSCacheStats {
+  driver: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+}
+
+export class SSCacheService implements SSResponseCache {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+  private driver: CacheDriver;
+
+  constructor(driver: CacheDriver) {
+    this.driver = driver;
+  }
+
+  async wrap<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    const promise = this.lookup(key, ttlMs, load).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Drop cached responses. With no arguments clears everything; with a kind and id
+   * (e.g. "products", 39) clears that style for every S&S account.
+   */
+  async invalidate(kind?: SSCacheKind, id?: string | number): Promise<number> {
+    const prefix = kind ? ssCacheKey(kind, id) : "ss:";
+    try {
+      const removed = await this.driver.deleteByPrefix(prefix);
+      console.log(`[SSCache] Invalidated ${removed} entries (${prefix}*)`);
+      return removed;
+    } catch (error) {
+      console.error("[SSCache] Invalidate failed:", error instanceof Error ? error.message : error);
+      return 0;
+    }
+  }
+
+  /**
+   * Drop style, product and spec entries for one style, including spec lookups
+   * that asked for several styles at once ("ss:specs:39,40:...")
+   */
+  async invalidateStyle(styleId: string | number): Promise<number> {
+    const counts = await Promise.all((["style", "products"] as const).map(kind => this.invalidate(kind, styleId)));
+    const prefix = ssCacheKey("specs");
+    const id = encodeURIComponent(String(styleId));
+    try {
+      const removed = await this.driver.deleteMatching(prefix, key => key.slice(prefix.length).split(":")[0].split(",").includes(id));
+      console.log(`[SSCache] Invalidated ${removed} spec entries for style ${styleId}`);
+      counts.push(removed);
+    } catch (error) {
+      console.error("[SSCache] Invalidate failed:", error instanceof Error ? error.message : error);
+    }
+    return counts.reduce((sum, n) => sum + n, 0);
+  }
+
+  async stats(): Promise<SSCacheStats> {
+    let entries = 0;
+    try {
+      entries = await this.driver.count();
+    } catch (error) {
+      console.error("[SSCache] Count failed:", error instanceof Error ? error.message : error);
+    }
+    return { driver: this.driver.name, entries, hits: this.hits, misses: this.misses, coalesced: this.coalesced };
+  }
+
+  private async lookup<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    // A broken cache store must never break the lookup itself - fall through to S&S
+    try {
+      const entry = await this.driver.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.hits++;
+        return entry.value as T;
+      }
+    } catch (error) {
+      console.error(`[SSCache] Read failed for ${key}:`, error instanceof Error ? error.message : error);
+    }
+
+    this.misses++;
+    const value = await load();
+    try {
+      await this.driver.set(key, { value, expiresAt: Date.now() + ttlMs });
+    } catch (error) {
+      console.error(`[SSCache] Write failed for ${key}:`, error instanceof Error ? error.message : error);
+    }
+    return value;
+  }
+}
+
+export const ssCache = new SSCacheService(
+  process.env.SS_CACHE_DRIVER === "postgres" ? new PrismaCacheDriver() : new MemoryCacheDriver()
+);
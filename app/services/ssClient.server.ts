@@ -0,0 +1,149 @@
+import prisma from "../db.server";
+import { apiMeter } from "./apiMeter.server";
+import { decryptSecret, encryptSecret } from "./secrets.server";
+import { ssCache } from "./ssCache.server";
+import { SSActiveWearClient, type SSCredentials } from "./ssactivewear";
+
+export interface SSAccountSettings {
+  source: "shop" | "env" | "none"; // where the credentials came from
+  accountNumber: string;
+  apiKeyConfigured: boolean;
+  defaultShipping: string;
+  testMode: boolean;
+  lastVerifiedAt: Date | null;
+}
+
+interface ResolvedAccount {
+  settings: SSAccountSettings;
+  credentials: SSCredentials | null;
+  expiresAt: number;
+}
+
+const ACCOUNT_CACHE_TTL = 5 * 60 * 1000;
+const accountCache = new Map<string, ResolvedAccount>();
+
+/**
+ * Resolve a shop's S&S account from its own SSAccount row. Shops without one have no
+ * credentials, so orders are never placed on somebody else's account. A single-tenant
+ * install can name its one shop in SS_ENV_FALLBACK_SHOP to use SSACTIVEWEAR_USER/KEY instead.
+ */
+async function resolveAccount(shop: string): Promise<ResolvedAccount> {
+  const cached = accountCache.get(shop);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  const account = await prisma.sSAccount.findUnique({ where: { shop } });
+  let resolved: ResolvedAccount;
+
+  if (account) {
+    let apiKey = "";
+    try {
+      apiKey = decryptSecret(account.apiKeyEncrypted);
+    } catch (error) {
+      console.error(`[SSClient] Could not decrypt S&S API key for ${shop}:`, error instanceof Error ? error.message : error);
+    }
+    resolved = {
+      settings: {
+        source: "shop",
+        accountNumber: account.accountNumber,
+        apiKeyConfigured: !!apiKey,
+        defaultShipping: account.defaultShipping,
+        testMode: account.testMode,
+        lastVerifiedAt: account.lastVerifiedAt,
+      },
+      credentials: apiKey ? { userId: account.accountNumber, apiKey } : null,
+      expiresAt: Date.now() + ACCOUNT_CACHE_TTL,
+    };
+  } else {
+    const envFallback = !!process.env.SS_ENV_FALLBACK_SHOP && process.env.SS_ENV_FALLBACK_SHOP === shop;
+    const userId = envFallback ? process.env.SSACTIVEWEAR_USER || "" : "";
+    const apiKey = envFallback ? process.env.SSACTIVEWEAR_KEY || "" : "";
+    resolved = {
+      settings: {
+        source: userId && apiKey ? "env" : "none",
+        accountNumber: userId,
+        apiKeyConfigured: !!apiKey,
+        defaultShipping: process.env.SS_DEFAULT_SHIPPING || "1",
+        testMode: process.env.SS_TEST_MODE === "true",
+        lastVerifiedAt: null,
+      },
+      credentials: userId && apiKey ? { userId, apiKey } : null,
+      expiresAt: Date.now() + ACCOUNT_CACHE_TTL,
+    };
+  }
+
+  accountCache.set(shop, resolved);
+  return resolved;
+}
+
+/**
+ * Build an SSActiveWearClient for a shop using its own credentials, with request
+ * metering and the shared response cache attached. Shops on the same S&S account
+ * share one request budget.
+ */
+export async function getSSClient(shop: string): Promise<SSActiveWearClient> {
+  const { credentials } = await resolveAccount(shop);
+  return new SSActiveWearClient({
+    // Empty credentials (rather than undefined): the client would otherwise read the env account itself
+    credentials: credentials ?? { userId: "", apiKey: "" },
+    meter: apiMeter.forSSClient(shop, credentials?.userId || shop),
+    cache: ssCache,
+  });
+}
+
+export async function getSSAccountSettings(shop: string): Promise<SSAccountSettings> {
+  return (await resolveAccount(shop)).settings;
+}
+
+/**
+ * Verify credentials against the S&S API without saving them.
+ */
+export async function testSSCredentials(credentials: SSCredentials): Promise<{ ok: boolean; message: string }> {
+  try {
+    const client = new SSActiveWearClient({ credentials, maxRetries: 1 });
+    const categories = await client.getCategories();
+    return { ok: true, message: `Connected to SSActiveWear (${categories.length} categories)` };
+  } catch (error: any) {
+    return { ok: false, message: error?.message || "Failed to connect" };
+  }
+}
+
+/**
+ * Save a shop's S&S account. A blank apiKey keeps the currently stored key.
+ */
+export async function saveSSAccount(
+  shop: string,
+  input: { accountNumber: string; apiKey?: string; defaultShipping: string; testMode: boolean; verified?: boolean }
+) {
+  const existing = await prisma.sSAccount.findUnique({ where: { shop } });
+  const apiKeyEncrypted = input.apiKey ? encryptSecret(input.apiKey) : existing?.apiKeyEncrypted;
+  if (!apiKeyEncrypted) {
+    throw new Error("API key is required");
+  }
+
+  const data = {
+    accountNumber: input.accountNumber,
+    apiKeyEncrypted,
+    defaultShipping: input.defaultShipping,
+    testMode: input.testMode,
+    ...(input.verified ? { lastVerifiedAt: new Date() } : {}),
+  };
+
+  const account = await prisma.sSAccount.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+  accountCache.delete(shop);
+  return account;
+}
+
+/**
+ * Read back a shop's stored API key (for "test saved credentials").
+ */
+export async function getStoredSSCredentials(shop: string): Promise<SSCredentials | null> {
+  return (await resolveAccount(shop)).credentials;
+}
+
+export function invalidateSSAccount(shop: string) {
+  accountCache.delete(shop);
+}
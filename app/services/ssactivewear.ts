@@ -1,8 +1,15 @@
-import axios, { type AxiosInstance } from "axios";
+import axios, {
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { getPublicConfig } from "../config";
 
 export interface SSStyle {
   styleID: number;
   partNumber: string;
+  brandID?: number;
   brandName: string;
   styleName: string;
   title: string;
@@ -74,22 +81,280 @@ export interface SSInventory {
   warehouses: SSWarehouse[];
 }
 
+export interface SSSpec {
+  specID: number;
+  styleID: number;
+  partNumber: string;
+  brandName: string;
+  styleName: string;
+  sizeName: string;
+  sizeOrder: string;
+  specName: string;
+  value: string;
+}
+
+export interface SSAddress {
+  customer: string;
+  attn: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  residential?: boolean;
+}
+
+export interface SSOrderLine {
+  lineNumber: number;
+  type: string; // S = stocked, NS = not stocked
+  skuID: number;
+  sku: string;
+  gtin: string;
+  yourSku: string;
+  qtyOrdered: number;
+  qtyShipped?: number;
+  price: number;
+  brandName: string;
+  styleName: string;
+  title: string;
+  colorName: string;
+  sizeName: string;
+  returnable: boolean;
+}
+
+export interface SSOrder {
+  guid: string;
+  companyName: string;
+  warehouseAbbr: string;
+  orderNumber: string;
+  invoiceNumber: string;
+  poNumber: string;
+  customerNumber: string;
+  orderDate: string;
+  shipDate?: string;
+  invoiceDate?: string;
+  expectedDeliveryDate?: string;
+  orderType: string;
+  terms: string;
+  orderStatus: string; // InProgress, Shipped, Completed, Canceled
+  dropship: boolean;
+  shippingCarrier: string;
+  shippingMethod: string;
+  shipBlind: boolean;
+  shippingCollectNumber: string;
+  trackingNumber?: string;
+  shippingAddress: SSAddress;
+  subtotal: number;
+  shipping: number;
+  cod: number;
+  tax: number;
+  smallOrderFee: number;
+  total: number;
+  totalPieces: number;
+  totalLines: number;
+  totalWeight: number;
+  totalBoxes: number;
+  deliveryStatus?: string;
+  lines?: SSOrderLine[];
+}
+
+export interface SSTrackingCheckpoint {
+  checkpointDate: string;
+  checkpointTime: string;
+  checkpointLocation: string;
+  checkpointStatusMessage: string;
+}
+
+export interface SSTrackingData {
+  carrierName: string;
+  trackingNumber: string;
+  origin: string;
+  actualDeliveryDateTime: string | null;
+  signedBy: string;
+  latestCheckpoint: SSTrackingCheckpoint | null;
+  orderNumber: string;
+  invoiceNumber: string;
+}
+
+export interface SSWarehouseTransit {
+  warehouseAbbr: string;
+  cutOffTime: string;
+  daysInTransit: number;
+}
+
+export interface SSDaysInTransit {
+  zipCode: string;
+  warehouses: SSWarehouseTransit[];
+  warehouseAbbr?: string;
+  cutOffTime?: string;
+  daysInTransit?: number;
+}
+
+export interface SSCrossRef {
+  yourSku: string;
+  skuID: number;
+  sku: string;
+  gtin: string;
+  brandName: string;
+  styleName: string;
+  colorName: string;
+  sizeName: string;
+}
+
+export interface SSPaymentProfile {
+  profileID: number;
+  profileType: string; // Credit Card or Bank
+  name: string;
+}
+
+export interface SSInvoice {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// ===== Errors =====
+
+export class SSApiError extends Error {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly details?: unknown;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; endpoint?: string; details?: unknown; retryable?: boolean } = {}) {
+    super(message);
+    this.name = "SSApiError";
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.details = options.details;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// What to log for a failed request: the S&S error body of typed errors, else the message
+function logDetails(error: unknown): unknown {
+  if (error instanceof SSApiError) return error.details ?? error.message;
+  return error instanceof Error ? error.message : error;
+}
+
+// 401/403 or missing credentials - retrying will not help
+export class SSAuthError extends SSApiError {
+  constructor(message: string, options: { status?: number; endpoint?: string; details?: unknown } = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = "SSAuthError";
+  }
+}
+
+// 404 - item not found or discontinued
+export class SSNotFoundError extends SSApiError {
+  constructor(message: string, options: { status?: number; endpoint?: string; details?: unknown } = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = "SSNotFoundError";
+  }
+}
+
+// 429 - throttled by S&S, retryAfterMs tells when to try again
+export class SSRateLimitError extends SSApiError {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, options: { status?: number; endpoint?: string; details?: unknown; retryAfterMs?: number } = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = "SSRateLimitError";
+    this.retryAfterMs = options.retryAfterMs ?? 0;
+  }
+}
+
+// 400/422 - the request itself is wrong (bad identifier, invalid order payload)
+export class SSValidationError extends SSApiError {
+  constructor(message: string, options: { status?: number; endpoint?: string; details?: unknown } = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = "SSValidationError";
+  }
+}
+
+export function isRetryableSSError(error: unknown): boolean {
+  return error instanceof SSApiError && error.retryable;
+}
+
+// Hook for metering / pacing outbound requests (see apiMeter.server.ts)
+export interface SSRequestMeter {
+  beforeRequest(endpoint: string): Promise<void>;
+  afterRequest(endpoint: string, status?: number): void;
+}
+
+// Pluggable store for cached catalog responses (see ssCache.server.ts).
+// wrap() returns the cached value or runs load() once, sharing it with concurrent callers.
+export interface SSResponseCache {
+  wrap<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T>;
+}
+
+// Cached lookups and how long they stay fresh
+export const SS_CACHE_TTL = {
+  style: 6 * 60 * 60 * 1000,    // style details rarely change
+  products: 5 * 60 * 1000,      // carries prices and stock
+  specs: 24 * 60 * 60 * 1000,
+} as const;
+
+export type SSCacheKind = keyof typeof SS_CACHE_TTL;
+
+// "ss:products:39:" + account. Prices are account-specific, so the account number is part of the key;
+// invalidation matches on the prefix without it.
+export function ssCacheKey(kind: SSCacheKind, id?: string | number, account?: string): string {
+  if (id === undefined) return `ss:${kind}:`;
+  return account === undefined ? `ss:${kind}:${id}:` : `ss:${kind}:${id}:${account}`;
+}
+
+export interface SSCredentials {
+  userId: string;  // S&S account number
+  apiKey: string;
+}
+
+export interface SSClientOptions {
+  credentials?: SSCredentials; // defaults to SSACTIVEWEAR_USER / SSACTIVEWEAR_KEY
+  baseURL?: string;            // defaults to SSACTIVEWEAR_API_URL or the live v2 API
+  meter?: SSRequestMeter;
+  cache?: SSResponseCache;     // style / product / spec lookups (uncached when omitted)
+  maxRetries?: number;      // retries after the first attempt (default 3)
+  retryBaseDelayMs?: number; // first backoff step, doubled each attempt (default 500)
+  retryMaxDelayMs?: number;  // cap for a single backoff wait (default 15000)
+}
+
+type SSRequestConfig = InternalAxiosRequestConfig & { ssRetryCount?: number };
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ECONNABORTED", "ETIMEDOUT", "EAI_AGAIN", "ECONNREFUSED", "ERR_NETWORK"]);
+
+// Comma-separated identifier lists are split so each request stays well under URL limits
+const BATCH_MAX_IDS = 50;
+const BATCH_MAX_ID_CHARS = 1500; // encoded length of the joined list
+
+// skuID_Master -> SkuID_Master; S&S documents ?fields= in PascalCase
+function toFieldList(fields?: readonly string[]): string {
+  return fields?.length ? fields.map(f => f.charAt(0).toUpperCase() + f.slice(1)).join(",") : "";
+}
+
 export class SSActiveWearClient {
   private client: AxiosInstance;
   private isConfigured: boolean;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private throttledUntil = 0;
+  private meter?: SSRequestMeter;
+  private cache?: SSResponseCache;
+  private cacheScope: string;
 
-  constructor() {
-    const userId = process.env.SSACTIVEWEAR_USER;
-    const apiKey = process.env.SSACTIVEWEAR_KEY;
+  constructor(options: SSClientOptions = {}) {
+    const userId = options.credentials?.userId ?? process.env.SSACTIVEWEAR_USER;
+    const apiKey = options.credentials?.apiKey ?? process.env.SSACTIVEWEAR_KEY;
 
     this.isConfigured = !!(userId && apiKey);
 
     if (!this.isConfigured) {
-      console.warn("[SSActiveWear] Credentials not found in environment.");
+      console.warn("[SSActiveWear] Credentials not configured.");
     }
 
     this.client = axios.create({
-      baseURL: "https://api.ssactivewear.com/v2",
+      baseURL: options.baseURL || process.env.SSACTIVEWEAR_API_URL || "https://api.ssactivewear.com/v2",
       auth: {
         username: userId || "",
         password: apiKey || "",
@@ -99,6 +364,138 @@ export class SSActiveWearClient {
       },
       timeout: 60000, // 60 second timeout for large requests
     });
+
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 15000;
+    this.meter = options.meter;
+    this.cache = options.cache;
+    this.cacheScope = userId || "";
+
+    // Wait out any throttle window S&S told us about before sending
+    this.client.interceptors.request.use(async (config) => {
+      const wait = this.throttledUntil - Date.now();
+      if (wait > 0) {
+        console.log(`[SSActiveWear] Throttled, waiting ${wait}ms before ${config.url}`);
+        await this.delay(wait);
+      }
+      await this.meter?.beforeRequest(SSActiveWearClient.meterEndpoint(config.url));
+      return config;
+    });
+
+    this.client.interceptors.response.use(
+      (response) => {
+        this.readThrottleHeaders(response);
+        this.meter?.afterRequest(SSActiveWearClient.meterEndpoint(response.config.url), response.status);
+        return response;
+      },
+      (error) => {
+        this.meter?.afterRequest(SSActiveWearClient.meterEndpoint(error.config?.url), error.response?.status);
+        return this.handleRequestError(error);
+      },
+    );
+  }
+
+  // "/products?style=39" -> "/products", "/TrackingDataByOrderNum/1,2" -> "/trackingdatabyordernum"
+  static meterEndpoint(url?: string): string {
+    const resource = (url || "").split("?")[0].split("/").filter(Boolean)[0];
+    return resource ? `/${resource.toLowerCase()}` : "/";
+  }
+
+  private async handleRequestError(error: AxiosError): Promise<AxiosResponse> {
+    const config = error.config as SSRequestConfig | undefined;
+    const status = error.response?.status;
+    const retryAfterMs = error.response ? this.readThrottleHeaders(error.response) : 0;
+
+    if (config && this.shouldRetry(error, config)) {
+      const attempt = config.ssRetryCount ?? 0;
+      config.ssRetryCount = attempt + 1;
+      const wait = Math.max(retryAfterMs, this.backoffDelay(attempt));
+      console.warn(
+        `[SSActiveWear] ${config.method?.toUpperCase()} ${config.url} failed (${status ?? error.code}), ` +
+        `retry ${attempt + 1}/${this.maxRetries} in ${wait}ms`
+      );
+      await this.delay(wait);
+      return this.client.request(config);
+    }
+
+    throw this.toSSError(error, retryAfterMs);
+  }
+
+  private shouldRetry(error: AxiosError, config: SSRequestConfig): boolean {
+    if ((config.ssRetryCount ?? 0) >= this.maxRetries) return false;
+
+    const status = error.response?.status;
+    const method = (config.method || "get").toLowerCase();
+
+    // 429 means S&S rejected the request before processing it, safe for any method
+    if (status === 429) return true;
+
+    // Never blindly resend non-idempotent calls (e.g. POST /orders) - the order may already exist
+    if (method === "post") return false;
+
+    if (status !== undefined) return RETRYABLE_STATUS.has(status);
+    return !!error.code && RETRYABLE_NETWORK_CODES.has(error.code);
+  }
+
+  // Exponential backoff with full jitter
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  // Reads S&S throttle headers, returns how long to wait (ms) if we are being throttled
+  private readThrottleHeaders(response: AxiosResponse): number {
+    const headers = response.headers || {};
+    let waitMs = 0;
+
+    const retryAfter = headers["retry-after"];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      waitMs = Number.isFinite(seconds) ? seconds * 1000 : Math.max(0, Date.parse(String(retryAfter)) - Date.now());
+    }
+
+    const remaining = Number(headers["x-rate-limit-remaining"]);
+    const reset = Number(headers["x-rate-limit-reset"]);
+    if ((response.status === 429 || remaining === 0) && Number.isFinite(reset) && reset > 0) {
+      waitMs = Math.max(waitMs, reset * 1000);
+    }
+
+    if (waitMs > 0) {
+      waitMs = Math.min(waitMs, this.retryMaxDelayMs * 4);
+      this.throttledUntil = Math.max(this.throttledUntil, Date.now() + waitMs);
+    }
+    return waitMs;
+  }
+
+  private toSSError(error: AxiosError, retryAfterMs: number): SSApiError {
+    const status = error.response?.status;
+    const details = error.response?.data;
+    const endpoint = error.config?.url;
+    const apiMessage = (details as any)?.errors?.[0]?.message || (details as any)?.message;
+    const message = apiMessage
+      ? `S&S API ${status}: ${apiMessage}`
+      : `S&S API request to ${endpoint} failed: ${status ?? error.code ?? error.message}`;
+    const options = { status, endpoint, details };
+
+    if (status === 401 || status === 403) return new SSAuthError(message, options);
+    if (status === 404) return new SSNotFoundError(message, options);
+    if (status === 429) return new SSRateLimitError(message, { ...options, retryAfterMs });
+    if (status === 400 || status === 422) return new SSValidationError(message, options);
+
+    const retryable = status !== undefined
+      ? RETRYABLE_STATUS.has(status)
+      : !!error.code && RETRYABLE_NETWORK_CODES.has(error.code);
+    return new SSApiError(message, { ...options, retryable });
+  }
+
+  private cached<T>(kind: SSCacheKind, id: string | number, load: () => Promise<T>): Promise<T> {
+    if (!this.cache) return load();
+    return this.cache.wrap(ssCacheKey(kind, id, this.cacheScope), SS_CACHE_TTL[kind], load);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   // Build full image URL from SSActiveWear via proxy
@@ -145,13 +542,13 @@ export class SSActiveWearClient {
       finalPath = pathToProxy.replace(/_fm\./g, '_fs.').replace(/_fl\./g, '_fs.');
     }
 
-    // Use absolute URL for proxy - hardcoded to ensure it works
-    return `https://ssaw-e.techifyboost.com/api/image-proxy?path=${encodeURIComponent(finalPath)}`;
+    // Proxy URL comes from app config (IMAGE_PROXY_URL / SHOPIFY_APP_URL) so staging and local dev work
+    return `${getPublicConfig().imageProxyUrl}?path=${encodeURIComponent(finalPath)}`;
   }
 
   async getCategories(): Promise<SSCategory[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       console.log("[SSActiveWear] Fetching categories...");
@@ -159,14 +556,14 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} categories`);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching categories:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error fetching categories:", logDetails(error));
       throw error;
     }
   }
 
   async getStyles(search?: string): Promise<SSStyle[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       const endpoint = search ? `/styles?search=${encodeURIComponent(search)}` : "/styles/";
@@ -175,43 +572,139 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} styles`);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching styles:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error fetching styles:", logDetails(error));
       throw error;
     }
   }
 
   async getStyleDetails(styleId: number): Promise<SSStyle[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
-      console.log(`[SSActiveWear] Fetching style details for ${styleId}...`);
-      const response = await this.client.get(`/styles/${styleId}`);
-      return response.data;
+      return await this.cached("style", styleId, async () => {
+        console.log(`[SSActiveWear] Fetching style details for ${styleId}...`);
+        const response = await this.client.get(`/styles/${styleId}`);
+        return response.data;
+      });
     } catch (error: any) {
-      console.error(`[SSActiveWear] Error fetching style ${styleId}:`, error?.response?.data || error?.message);
+      console.error(`[SSActiveWear] Error fetching style ${styleId}:`, logDetails(error));
       throw error;
     }
   }
 
   async getProducts(styleId: number): Promise<SSProduct[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
-      console.log(`[SSActiveWear] Fetching products for style ${styleId}...`);
-      const response = await this.client.get(`/products?style=${styleId}`);
-      console.log(`[SSActiveWear] Got ${response.data?.length || 0} products`);
-      return response.data;
+      return await this.cached("products", styleId, async () => {
+        console.log(`[SSActiveWear] Fetching products for style ${styleId}...`);
+        const response = await this.client.get(`/products?style=${styleId}`);
+        console.log(`[SSActiveWear] Got ${response.data?.length || 0} products`);
+        return response.data;
+      });
     } catch (error: any) {
-      console.error(`[SSActiveWear] Error fetching products for style ${styleId}:`, error?.response?.data || error?.message);
+      console.error(`[SSActiveWear] Error fetching products for style ${styleId}:`, logDetails(error));
       throw error;
     }
   }
 
+  /**
+   * Styles for many style IDs in as few requests as possible: /styles/39,40,41
+   * S&S also takes part numbers and "Brand Style" names (/styles/00760,Gildan%202000) in the list.
+   * Pass fields to receive only those properties.
+   */
+  async getStylesByIds<K extends keyof SSStyle = keyof SSStyle>(
+    styleIds: Array<number | string>,
+    fields?: K[]
+  ): Promise<Array<Pick<SSStyle, K>>> {
+    const fieldQuery = fields?.length ? `?fields=${toFieldList(fields)}` : "";
+    return this.fetchBatched(styleIds, list => `/styles/${list}${fieldQuery}`, "styles");
+  }
+
+  /**
+   * Products for many styles: /products/?styleid=39,40,41
+   * Pass fields (e.g. ["sku", "styleID", "qty"]) to keep large syncs light.
+   */
+  async getProductsByStyles<K extends keyof SSProduct = keyof SSProduct>(
+    styleIds: Array<number | string>,
+    fields?: K[]
+  ): Promise<Array<Pick<SSProduct, K>>> {
+    const fieldQuery = fields?.length ? `&fields=${toFieldList(fields)}` : "";
+    return this.fetchBatched(styleIds, list => `/products/?styleid=${list}${fieldQuery}`, "products");
+  }
+
+  /**
+   * Products by SKU, skuID, GTIN or yourSku: /products/B00760004,00821780008137
+   * Identifiers S&S does not know are left out of the result.
+   */
+  async getProductsByIdentifiers<K extends keyof SSProduct = keyof SSProduct>(
+    identifiers: Array<number | string>,
+    fields?: K[]
+  ): Promise<Array<Pick<SSProduct, K>>> {
+    const fieldQuery = fields?.length ? `?fields=${toFieldList(fields)}` : "";
+    return this.fetchBatched(identifiers, list => `/products/${list}${fieldQuery}`, "products");
+  }
+
+  /**
+   * Inventory for many styles: /inventory/?styleid=39,40,41
+   */
+  async getInventoryByStyles(styleIds: Array<number | string>): Promise<SSInventory[]> {
+    return this.fetchBatched(styleIds, list => `/inventory/?styleid=${list}`, "inventory");
+  }
+
+  /**
+   * Split identifiers into URL-safe chunks and fetch them one after another (so the
+   * meter can pace them). A chunk where nothing matched answers 404; that is an empty
+   * result here, not an error - callers compare what came back with what they asked for.
+   */
+  private async fetchBatched<T>(ids: Array<number | string>, buildUrl: (list: string) => string, label: string): Promise<T[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    const chunks = SSActiveWearClient.chunkIdentifiers(ids);
+    const results: T[] = [];
+
+    for (const [index, chunk] of chunks.entries()) {
+      try {
+        console.log(`[SSActiveWear] Fetching ${label} batch ${index + 1}/${chunks.length} (${chunk.length} ids)...`);
+        const response = await this.client.get(buildUrl(chunk.join(",")));
+        results.push(...(response.data || []));
+      } catch (error: any) {
+        if (error instanceof SSNotFoundError) continue;
+        console.error(`[SSActiveWear] Error fetching ${label} batch ${index + 1}/${chunks.length}:`, error?.details || error?.message);
+        throw error;
+      }
+    }
+
+    console.log(`[SSActiveWear] Got ${results.length} ${label} for ${ids.length} ids`);
+    return results;
+  }
+
+  // Unique, URL-encoded identifiers grouped into chunks of at most BATCH_MAX_IDS / BATCH_MAX_ID_CHARS
+  static chunkIdentifiers(ids: Array<number | string>): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const id of new Set(ids.map(i => String(i).trim()).filter(Boolean))) {
+      const encoded = encodeURIComponent(id);
+      if (current.length && (current.length >= BATCH_MAX_IDS || length + 1 + encoded.length > BATCH_MAX_ID_CHARS)) {
+        chunks.push(current);
+        current = [];
+        length = 0;
+      }
+      length += (current.length ? 1 : 0) + encoded.length;
+      current.push(encoded);
+    }
+    if (current.length) chunks.push(current);
+    return chunks;
+  }
+
   async getInventoryByStyle(styleId: number): Promise<SSInventory[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       console.log(`[SSActiveWear] Fetching inventory for style ${styleId}...`);
@@ -219,34 +712,24 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} inventory items`);
       return response.data;
     } catch (error: any) {
-      console.error(`[SSActiveWear] Error fetching inventory for style ${styleId}:`, error?.response?.data || error?.message);
+      console.error(`[SSActiveWear] Error fetching inventory for style ${styleId}:`, logDetails(error));
       throw error;
     }
   }
 
   async getInventory(skus: string[]): Promise<SSInventory[]> {
-    if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
-    }
-    try {
-      const skuList = skus.join(",");
-      const response = await this.client.get(`/inventory/${skuList}`);
-      return response.data;
-    } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching inventory:", error?.response?.data || error?.message);
-      throw error;
-    }
+    return this.fetchBatched(skus, list => `/inventory/${list}`, "inventory");
   }
 
   async placeOrder(orderData: any): Promise<any> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       const response = await this.client.post("/orders/", orderData);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error placing order:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error placing order:", logDetails(error));
       throw error;
     }
   }
@@ -254,7 +737,7 @@ export class SSActiveWearClient {
   // Get all brands
   async getBrands(): Promise<any[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       console.log("[SSActiveWear] Fetching all brands...");
@@ -262,7 +745,7 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} brands`);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching brands:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error fetching brands:", logDetails(error));
       throw error;
     }
   }
@@ -270,7 +753,7 @@ export class SSActiveWearClient {
   // Get all styles (full catalog)
   async getAllStyles(): Promise<SSStyle[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       console.log("[SSActiveWear] Fetching ALL styles (this may take a while)...");
@@ -278,7 +761,7 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} styles`);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching all styles:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error fetching all styles:", logDetails(error));
       throw error;
     }
   }
@@ -286,7 +769,7 @@ export class SSActiveWearClient {
   // Get styles by brand
   async getStylesByBrand(brandName: string): Promise<SSStyle[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       console.log(`[SSActiveWear] Fetching styles for brand: ${brandName}...`);
@@ -294,15 +777,15 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} styles for ${brandName}`);
       return response.data;
     } catch (error: any) {
-      console.error(`[SSActiveWear] Error fetching styles for brand ${brandName}:`, error?.response?.data || error?.message);
+      console.error(`[SSActiveWear] Error fetching styles for brand ${brandName}:`, logDetails(error));
       throw error;
     }
   }
 
   // Get SSActiveWear orders
-  async getOrders(all: boolean = false): Promise<any[]> {
+  async getOrders(all: boolean = false): Promise<SSOrder[]> {
     if (!this.isConfigured) {
-      throw new Error("API credentials not configured");
+      throw new SSAuthError("API credentials not configured");
     }
     try {
       const endpoint = all ? "/orders/?All=True" : "/orders/";
@@ -311,7 +794,224 @@ export class SSActiveWearClient {
       console.log(`[SSActiveWear] Got ${response.data?.length || 0} orders`);
       return response.data;
     } catch (error: any) {
-      console.error("[SSActiveWear] Error fetching orders:", error?.response?.data || error?.message);
+      console.error("[SSActiveWear] Error fetching orders:", logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get specific orders by PO number, order number, invoice number or GUID
+  async getOrdersByIdentifier(identifiers: string[]): Promise<SSOrder[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      const idList = identifiers.map(id => encodeURIComponent(id)).join(",");
+      console.log(`[SSActiveWear] Fetching orders ${identifiers.join(",")}...`);
+      const response = await this.client.get(`/orders/${idList}`);
+      return response.data;
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching orders by identifier:", logDetails(error));
+      throw error;
+    }
+  }
+
+  // Cancel an order (only possible within ~10 minutes of placing it)
+  async cancelOrder(orderNumber: string): Promise<SSOrder[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      console.log(`[SSActiveWear] Cancelling order ${orderNumber}...`);
+      const response = await this.client.delete(`/orders/${encodeURIComponent(orderNumber)}`);
+      return response.data;
+    } catch (error: any) {
+      console.error(`[SSActiveWear] Error cancelling order ${orderNumber}:`, logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get size specs (measurements) for one or more styles
+  async getSpecsByStyle(styleIds: Array<number | string>): Promise<SSSpec[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      const styleList = styleIds.map(id => encodeURIComponent(String(id))).join(",");
+      return await this.cached("specs", styleList, async () => {
+        console.log(`[SSActiveWear] Fetching specs for style ${styleIds.join(",")}...`);
+        const response = await this.client.get(`/specs/?style=${styleList}`);
+        console.log(`[SSActiveWear] Got ${response.data?.length || 0} specs`);
+        return response.data;
+      });
+    } catch (error: any) {
+      console.error(`[SSActiveWear] Error fetching specs for style ${styleIds.join(",")}:`, logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get specs by spec ID
+  async getSpecs(specIds: number[]): Promise<SSSpec[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      const response = await this.client.get(`/specs/${specIds.join(",")}`);
+      return response.data;
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching specs:", logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get days in transit and cut-off times from each warehouse to the given zip codes
+  async getDaysInTransit(zipCodes: string[]): Promise<SSDaysInTransit[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      const zipList = zipCodes.map(z => encodeURIComponent(z.trim())).join(",");
+      console.log(`[SSActiveWear] Fetching days in transit for ${zipCodes.join(",")}...`);
+      const response = await this.client.get(`/daysintransit/${zipList}`);
+      return response.data;
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching days in transit:", logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get invoice PDF by invoice number
+  async getInvoice(invoiceNumber: string): Promise<SSInvoice> {
+    return this.fetchInvoice(`/Invoices/${encodeURIComponent(invoiceNumber)}`, `Invoice_${invoiceNumber}.pdf`);
+  }
+
+  // Get invoice PDF by order GUID
+  async getInvoiceByGuid(guid: string): Promise<SSInvoice> {
+    return this.fetchInvoice(`/Invoices/?Guid=${encodeURIComponent(guid)}`, `Invoice_${guid}.pdf`);
+  }
+
+  // Get a PDF with all invoices for an order number
+  async getInvoicesByOrderNumber(orderNumber: string): Promise<SSInvoice> {
+    return this.fetchInvoice(`/Invoices/?OrderNumber=${encodeURIComponent(orderNumber)}`, `Invoice_${orderNumber}.pdf`);
+  }
+
+  private async fetchInvoice(endpoint: string, fallbackName: string): Promise<SSInvoice> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      console.log(`[SSActiveWear] Fetching invoice: ${endpoint}`);
+      const response = await this.client.get(endpoint, {
+        responseType: "arraybuffer",
+        headers: { Accept: "application/pdf" },
+      });
+      const disposition = String(response.headers["content-disposition"] || "");
+      const nameMatch = disposition.match(/filename="?([^";]+)"?/i);
+      return {
+        fileName: nameMatch?.[1] || fallbackName,
+        contentType: String(response.headers["content-type"] || "application/pdf"),
+        data: Buffer.from(response.data),
+      };
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching invoice:", error?.response?.status || error?.message);
+      throw error;
+    }
+  }
+
+  // Get tracking data for order numbers
+  async getTrackingByOrderNumbers(orderNumbers: string[]): Promise<SSTrackingData[]> {
+    return this.fetchTracking("TrackingDataByOrderNum", orderNumbers);
+  }
+
+  // Get tracking data for invoice numbers
+  async getTrackingByInvoices(invoiceNumbers: string[]): Promise<SSTrackingData[]> {
+    return this.fetchTracking("TrackingDataByInvoice", invoiceNumbers);
+  }
+
+  private async fetchTracking(resource: string, identifiers: string[]): Promise<SSTrackingData[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    if (identifiers.length === 0) return [];
+    try {
+      const idList = identifiers.map(id => encodeURIComponent(id)).join(",");
+      console.log(`[SSActiveWear] Fetching tracking: /${resource}/${identifiers.join(",")}`);
+      const response = await this.client.get(`/${resource}/${idList}`);
+      // The API wraps results in an extra array
+      const data = Array.isArray(response.data) ? response.data.flat() : [];
+      console.log(`[SSActiveWear] Got ${data.length} tracking records`);
+      return data;
+    } catch (error: any) {
+      console.error(`[SSActiveWear] Error fetching tracking (${resource}):`, logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get SKU cross references ("Your Sku" mappings). Omit yourSkus to get all; unknown yourSkus are left out.
+  async getCrossRefs(yourSkus?: string[]): Promise<SSCrossRef[]> {
+    if (yourSkus?.length) {
+      return this.fetchBatched(yourSkus, list => `/crossref/${list}`, "cross references");
+    }
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      const endpoint = "/crossref/";
+      console.log(`[SSActiveWear] Fetching cross references: ${endpoint}`);
+      const response = await this.client.get(endpoint);
+      console.log(`[SSActiveWear] Got ${response.data?.length || 0} cross references`);
+      return response.data;
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching cross references:", logDetails(error));
+      throw error;
+    }
+  }
+
+  // Create or update a cross reference. Returns true if created, false if updated.
+  async setCrossRef(yourSku: string, identifier: string): Promise<boolean> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    if (!/^[A-Za-z0-9\-_ ]+$/.test(yourSku)) {
+      throw new Error(`Invalid yourSku "${yourSku}": only A-Z, 0-9, -, _ and space are allowed`);
+    }
+    try {
+      console.log(`[SSActiveWear] Setting cross reference ${yourSku} -> ${identifier}`);
+      const response = await this.client.put(
+        `/crossref/${encodeURIComponent(yourSku)}?Identifier=${encodeURIComponent(identifier)}`
+      );
+      return response.status === 201;
+    } catch (error: any) {
+      console.error(`[SSActiveWear] Error setting cross reference ${yourSku}:`, logDetails(error));
+      throw error;
+    }
+  }
+
+  // Delete a cross reference
+  async deleteCrossRef(yourSku: string): Promise<void> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      console.log(`[SSActiveWear] Deleting cross reference ${yourSku}`);
+      await this.client.delete(`/crossref/${encodeURIComponent(yourSku)}`);
+    } catch (error: any) {
+      console.error(`[SSActiveWear] Error deleting cross reference ${yourSku}:`, logDetails(error));
+      throw error;
+    }
+  }
+
+  // Get saved payment profiles for a website user
+  async getPaymentProfiles(email: string): Promise<SSPaymentProfile[]> {
+    if (!this.isConfigured) {
+      throw new SSAuthError("API credentials not configured");
+    }
+    try {
+      console.log(`[SSActiveWear] Fetching payment profiles for ${email}...`);
+      const response = await this.client.get(`/paymentprofiles/?email=${encodeURIComponent(email)}`);
+      // The API wraps results in an extra array
+      return Array.isArray(response.data) ? response.data.flat() : [];
+    } catch (error: any) {
+      console.error("[SSActiveWear] Error fetching payment profiles:", logDetails(error));
       throw error;
     }
   }
@@ -0,0 +1,244 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Object storage for uploads and the image proxy cache.
+ *
+ * STORAGE_DRIVER=s3     S3 or Cloudflare R2 (STORAGE_S3_* or the older R2_* variables)
+ * STORAGE_DRIVER=local  files under STORAGE_LOCAL_DIR (default ./storage), served by /api/storage/*
+ *
+ * Without STORAGE_DRIVER the S3 driver is used when its credentials are set, otherwise local.
+ */
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface StorageDriver {
+  readonly name: "s3" | "local";
+  put(key: string, body: Buffer | Uint8Array, options: PutOptions): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** URL a browser can load the object from */
+  publicUrl(key: string): string;
+}
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+  "image/webp": "webp",
+  "image/tiff": "tiff",
+  "image/bmp": "bmp",
+  "application/pdf": "pdf",
+  "application/postscript": "ai",
+  "image/vnd.adobe.photoshop": "psd",
+  "application/x-photoshop": "psd",
+  "application/octet-stream": "bin",
+};
+
+export function extensionForContentType(contentType: string): string {
+  return CONTENT_TYPE_EXTENSIONS[contentType] || contentType.split("/")[1] || "bin";
+}
+
+function contentTypeForKey(key: string): string {
+  const ext = path.extname(key).slice(1).toLowerCase();
+  const match = Object.entries(CONTENT_TYPE_EXTENSIONS).find(([, e]) => e === ext);
+  return match?.[0] || "application/octet-stream";
+}
+
+interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+  publicUrl: string;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3";
+  private client: S3Client;
+  private config: S3StorageConfig;
+
+  constructor(config: S3StorageConfig) {
+    this.config = config;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint || undefined,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+    });
+  }
+
+  async put(key: string, body: Buffer | Uint8Array, options: PutOptions) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      CacheControl: options.cacheControl,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      if (!result.Body) return null;
+      const bytes = await result.Body.transformToByteArray();
+      return { body: Buffer.from(bytes), contentType: result.ContentType || contentTypeForKey(key) };
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey" || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  publicUrl(key: string) {
+    return `${this.config.publicUrl.replace(/\/+$/, "")}/${key}`;
+  }
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = "local";
+  private root: string;
+  private baseUrl: string;
+
+  constructor(root: string, baseUrl: string) {
+    this.root = path.resolve(root);
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async put(key: string, body: Buffer | Uint8Array, options: PutOptions) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+    // Content type is kept next to the file so get() can return what was stored
+    await fs.writeFile(`${file}.type`, options.contentType);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const file = this.resolve(key);
+    try {
+      const body = await fs.readFile(file);
+      const contentType = await fs.readFile(`${file}.type`, "utf8").catch(() => contentTypeForKey(key));
+      return { body, contentType };
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string) {
+    const file = this.resolve(key);
+    await fs.rm(file, { force: true });
+    await fs.rm(`${file}.type`, { force: true });
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  // Keys are relative paths; refuse anything that would escape the storage root
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
+
+function createStorage(): StorageDriver {
+  const env = process.env;
+  const s3: S3StorageConfig = {
+    endpoint: env.STORAGE_S3_ENDPOINT || env.R2_ENDPOINT || "",
+    region: env.STORAGE_S3_REGION || "auto",
+    accessKeyId: env.STORAGE_S3_ACCESS_KEY_ID || env.R2_ACCESS_KEY_ID || "",
+    secretAccessKey: env.STORAGE_S3_SECRET_ACCESS_KEY || env.R2_SECRET_ACCESS_KEY || "",
+    bucket: env.STORAGE_S3_BUCKET || env.R2_BUCKET || env.R2_BUCKET_NAME || "",
+    publicUrl: env.STORAGE_PUBLIC_URL || env.R2_PUBLIC_URL || "",
+  };
+  const s3Configured = !!(s3.accessKeyId && s3.secretAccessKey && s3.bucket && s3.publicUrl);
+  const production = env.NODE_ENV === "production";
+  // A half-configured bucket must not quietly fall back to the server's disk in production
+  if (!env.STORAGE_DRIVER && !s3Configured && production) {
+    throw new Error("Storage is not configured: set STORAGE_DRIVER=s3 with the STORAGE_S3_* variables, or STORAGE_DRIVER=local to keep files on this server");
+  }
+  const driver = env.STORAGE_DRIVER || (s3Configured ? "s3" : "local");
+
+  if (driver === "s3") {
+    if (!s3Configured) {
+      throw new Error("STORAGE_DRIVER=s3 requires STORAGE_S3_ACCESS_KEY_ID, STORAGE_S3_SECRET_ACCESS_KEY, STORAGE_S3_BUCKET and STORAGE_PUBLIC_URL");
+    }
+    return new S3StorageDriver(s3);
+  }
+
+  // Public URLs go to Shopify and the storefront, so they must be absolute
+  const appUrl = (env.SHOPIFY_APP_URL || (production ? "" : `http://localhost:${env.PORT || 3000}`)).replace(/\/+$/, "");
+  const publicUrl = env.STORAGE_PUBLIC_URL || (appUrl && `${appUrl}/api/storage`);
+  if (!/^https?:\/\//.test(publicUrl)) {
+    throw new Error("STORAGE_DRIVER=local needs an absolute STORAGE_PUBLIC_URL or SHOPIFY_APP_URL to build public file URLs");
+  }
+  return new LocalStorageDriver(env.STORAGE_LOCAL_DIR || "storage", publicUrl);
+}
+
+let storage: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorage();
+    console.log(`[Storage] Using ${storage.name} storage`);
+  }
+  return storage;
+}
+
+/**
+ * Store an uploaded file under a random key and return its public URL.
+ */
+export async function saveUpload(body: Buffer, contentType: string, prefix = "designs"): Promise<string> {
+  const key = `${prefix}/${crypto.randomUUID()}.${extensionForContentType(contentType)}`;
+  const driver = getStorage();
+  await driver.put(key, body, { contentType });
+  return driver.publicUrl(key);
+}
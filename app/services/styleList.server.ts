@@ -0,0 +1,164 @@
+import prisma from "../db.server";
+import { ALL_SIZES, SPLIT_OPTIONS } from "./importPlan";
+import { optionProfiles } from "./optionProfiles.server";
+import { getSSClient } from "./ssClient.server";
+import type { SSStyle } from "./ssactivewear";
+import { parseStyleList, type CheckedStyleRow, type StyleListReport } from "./styleList";
+
+const STYLE_FIELDS = ["styleID", "partNumber", "brandID", "brandName", "styleName", "title", "baseCategory", "categories", "styleImage"] as const;
+type ListedStyle = Pick<SSStyle, typeof STYLE_FIELDS[number]>;
+
+const matchKey = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+const splitKey = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+
+/**
+ * Style List Service
+ * Resolves a list of part numbers through the S&S styles filter (style ID, part number or
+ * "Brand Style") and checks each row's settings against the shop's price rules and option
+ * profiles. Rows that check out become pending ImportQueue rows with their own settings.
+ */
+export class StyleListService {
+  /** Validation report of a list; nothing is queued */
+  async check(shop: string, text: string): Promise<StyleListReport> {
+    return (await this.resolve(shop, text)).report;
+  }
+
+  /** Queue the list's ready rows as pending imports; the report shows what was left out and why */
+  async enqueue(shop: string, text: string): Promise<{ report: StyleListReport; added: number }> {
+    const { report, styles } = await this.resolve(shop, text);
+    const ready = report.rows.filter(row => row.status === "ready");
+    if (ready.length === 0) return { report, added: 0 };
+
+    await prisma.importQueue.createMany({
+      data: ready.map(row => ({
+        shop,
+        styleId: row.styleId!,
+        status: "pending",
+        priceRuleId: row.priceRuleId,
+        tags: row.tags.join(", ") || null,
+        collection: row.collection,
+        split: row.split,
+        optionProfileId: row.optionProfileId,
+        sizeMarkups: row.markup ? JSON.stringify({ [ALL_SIZES]: row.markup }) : null,
+      })),
+    });
+
+    // The queue table shows names and images from the style cache
+    for (const row of ready) {
+      const style = styles.get(row.styleId!);
+      if (style) await this.cacheStyle(style);
+    }
+
+    for (const row of ready) {
+      row.status = "queued";
+      row.problems.push("Added to the import queue");
+    }
+    report.ready = 0;
+
+    console.log(`[StyleList] Queued ${ready.length} of ${report.rows.length} listed styles for ${shop}`);
+    return { report, added: ready.length };
+  }
+
+  private async resolve(shop: string, text: string): Promise<{ report: StyleListReport; styles: Map<number, ListedStyle> }> {
+    const parsed = parseStyleList(text);
+    const report: StyleListReport = { rows: [], ready: 0, ignoredColumns: parsed.ignoredColumns, warnings: parsed.warnings };
+    const styles = new Map<number, ListedStyle>();
+    if (parsed.rows.length === 0) {
+      report.warnings.push("The list has no part numbers");
+      return { report, styles };
+    }
+
+    const ssClient = await getSSClient(shop);
+    const found = await ssClient.getStylesByIds(parsed.rows.map(row => row.partNumber).filter(Boolean), [...STYLE_FIELDS]);
+    const byKey = new Map<string, ListedStyle>();
+    for (const style of found) {
+      styles.set(style.styleID, style);
+      for (const key of [String(style.styleID), style.partNumber, `${style.brandName} ${style.styleName}`]) {
+        if (key) byKey.set(matchKey(key), style);
+      }
+    }
+
+    const [rules, profiles, queued] = await Promise.all([
+      prisma.priceRule.findMany({ where: { shop, isActive: true }, select: { id: true, name: true } }),
+      optionProfiles.list(shop),
+      prisma.importQueue.findMany({
+        where: { shop, styleId: { in: Array.from(styles.keys()) } },
+        select: { styleId: true, status: true },
+      }),
+    ]);
+    const findNamed = <T extends { id: string; name: string }>(list: T[], value: string) =>
+      list.find(item => item.id === value) || list.find(item => matchKey(item.name) === matchKey(value));
+    const queueStatus = new Map(queued.map(q => [q.styleId, q.status]));
+    const seen = new Set<number>();
+
+    for (const row of parsed.rows) {
+      const style = row.partNumber ? byKey.get(matchKey(row.partNumber)) : undefined;
+      const checked: CheckedStyleRow = {
+        ...row,
+        problems: [...row.problems],
+        status: "ready",
+        styleId: style?.styleID ?? null,
+        styleName: style ? `${style.brandName} ${style.styleName}`.trim() : null,
+        priceRuleId: null,
+        optionProfileId: null,
+      };
+
+      if (row.priceRule) {
+        const rule = findNamed(rules, row.priceRule);
+        if (rule) checked.priceRuleId = rule.id;
+        else checked.problems.push(`No active price rule "${row.priceRule}"`);
+      }
+      if (row.optionProfile) {
+        const profile = findNamed(profiles, row.optionProfile);
+        if (profile) checked.optionProfileId = profile.id;
+        else checked.problems.push(`No option profile "${row.optionProfile}"`);
+      }
+      if (row.split) {
+        const split = SPLIT_OPTIONS.find(o => splitKey(o.value) === splitKey(row.split!) || splitKey(o.label) === splitKey(row.split!));
+        if (split) checked.split = split.value;
+        else checked.problems.push(`Unknown split "${row.split}" (single, color or colorFamily)`);
+      }
+
+      if (row.partNumber && !style) {
+        checked.status = "unmatched";
+        checked.problems.push(`No S&S style matches "${row.partNumber}"`);
+      } else if (checked.problems.length > 0) {
+        checked.status = "invalid";
+      } else if (seen.has(style!.styleID)) {
+        checked.status = "duplicate";
+        checked.problems.push(`Style ${style!.styleID} is listed on an earlier row`);
+      } else if (queueStatus.has(style!.styleID)) {
+        checked.status = "queued";
+        checked.problems.push(`Already in the import queue (${queueStatus.get(style!.styleID)})`);
+      }
+      if (checked.status === "ready") {
+        seen.add(style!.styleID);
+        report.ready++;
+      }
+      report.rows.push(checked);
+    }
+
+    return { report, styles };
+  }
+
+  private async cacheStyle(style: ListedStyle): Promise<void> {
+    const categories = style.categories as unknown;
+    await prisma.sSStyleCache.upsert({
+      where: { styleId: style.styleID },
+      create: {
+        styleId: style.styleID,
+        partNumber: style.partNumber || "",
+        brandId: style.brandID || 0,
+        brandName: style.brandName || "",
+        styleName: style.styleName || style.title || "",
+        title: style.title || `Style ${style.styleID}`,
+        baseCategory: style.baseCategory || "",
+        categories: Array.isArray(categories) ? categories.join(",") : String(categories || ""),
+        styleImage: style.styleImage || "",
+      },
+      update: {},
+    });
+  }
+}
+
+export const styleLists = new StyleListService();
@@ -0,0 +1,171 @@
+/**
+ * Lists of S&S part numbers (a buyer's spreadsheet saved as CSV, or pasted) for the bulk import
+ * queue, with optional per-row import settings. No server imports here - the bulk import page
+ * parses the same text it posts, and renders the report the server sends back.
+ */
+
+export const MAX_LIST_ROWS = 500;
+
+export type StyleListMarkup = { type: "percentage" | "fixed"; value: number };
+
+// Settings a row can carry, by header (compared without case, spaces or punctuation)
+export const STYLE_LIST_COLUMNS = {
+  partNumber: ["partnumber", "part", "partno", "style", "stylenumber", "styleid", "item"],
+  markup: ["markup"],
+  priceRule: ["pricerule", "rule"],
+  tags: ["tags", "tag"],
+  collection: ["collection"],
+  split: ["split", "importas"],
+  optionProfile: ["optionprofile", "profile"],
+} as const;
+
+type StyleListColumn = keyof typeof STYLE_LIST_COLUMNS;
+
+export interface StyleListRow {
+  line: number;                // row of the file, header included
+  partNumber: string;          // as written: "Gildan 5000", "BC3001", an S&S style ID
+  markup: StyleListMarkup | null; // "35%" is a percentage, "4.50" / "$4.50" a fixed amount; applies to every size
+  priceRule: string | null;    // price rule name or ID
+  tags: string[];
+  collection: string | null;   // collection handle
+  split: string | null;        // SplitStrategy, or its label
+  optionProfile: string | null; // option profile name or ID
+  problems: string[];
+}
+
+export interface ParsedStyleList {
+  rows: StyleListRow[];
+  ignoredColumns: string[];    // headers that are not a known setting
+  warnings: string[];
+}
+
+// ready: can be queued; queued: the style already has an ImportQueue row
+export type StyleListStatus = "ready" | "unmatched" | "invalid" | "duplicate" | "queued";
+
+export interface CheckedStyleRow extends StyleListRow {
+  status: StyleListStatus;
+  styleId: number | null;
+  styleName: string | null;    // "Gildan 5000"
+  priceRuleId: string | null;
+  optionProfileId: string | null;
+}
+
+export interface StyleListReport {
+  rows: CheckedStyleRow[];
+  ready: number;
+  ignoredColumns: string[];
+  warnings: string[];
+}
+
+export const STYLE_LIST_STATUS_LABELS: Record<StyleListStatus, string> = {
+  ready: "Ready",
+  unmatched: "Not found on S&S",
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+  queued: "Already in queue",
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// RFC 4180 cells: quoted cells may hold the delimiter, doubled quotes and line breaks
+function parseCells(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+  return rows;
+}
+
+function parseMarkup(value: string): StyleListMarkup | string | null {
+  const text = value.replace(/\s/g, "");
+  if (!text) return null;
+  const match = /^(\$)?(\d+(?:\.\d+)?)(%)?$/.exec(text);
+  if (!match || (match[1] && match[3])) return `Markup "${value}" is not a percentage (35%) or an amount (4.50)`;
+  const amount = Number(match[2]);
+  return amount > 0 ? { type: match[3] ? "percentage" : "fixed", value: amount } : null;
+}
+
+/**
+ * Rows of a list. With a header row naming a part number column, the other known columns are read
+ * as settings; without one, every cell is a part number, so a pasted column or comma list works too.
+ * Spreadsheets pasted as tab-separated text are read the same way.
+ */
+export function parseStyleList(text: string): ParsedStyleList {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/).find(line => line.trim()) || "";
+  const cells = parseCells(source, firstLine.includes("\t") ? "\t" : ",");
+  const result: ParsedStyleList = { rows: [], ignoredColumns: [], warnings: [] };
+
+  const headerIndex = cells.findIndex(row => row.some(Boolean));
+  if (headerIndex < 0) return result;
+  const header = cells[headerIndex].map(normalizeHeader);
+  const columnOf = (column: StyleListColumn) => header.findIndex(h => (STYLE_LIST_COLUMNS[column] as readonly string[]).includes(h));
+  const hasHeader = columnOf("partNumber") >= 0;
+
+  const blank = (line: number, partNumber: string): StyleListRow => ({
+    line, partNumber, markup: null, priceRule: null, tags: [], collection: null, split: null, optionProfile: null, problems: [],
+  });
+
+  if (!hasHeader) {
+    cells.forEach((row, index) => row.filter(Boolean).forEach(cell => result.rows.push(blank(index + 1, cell))));
+  } else {
+    const columns = Object.fromEntries(
+      (Object.keys(STYLE_LIST_COLUMNS) as StyleListColumn[]).map(column => [column, columnOf(column)]),
+    ) as Record<StyleListColumn, number>;
+    const known = new Set(Object.values(columns));
+    result.ignoredColumns = cells[headerIndex].filter((name, index) => name && !known.has(index));
+
+    cells.forEach((row, index) => {
+      if (index <= headerIndex || !row.some(Boolean)) return;
+      const cell = (column: StyleListColumn) => (columns[column] >= 0 ? row[columns[column]] || "" : "");
+      const parsed = blank(index + 1, cell("partNumber"));
+      if (!parsed.partNumber) parsed.problems.push("No part number");
+
+      const markup = parseMarkup(cell("markup"));
+      if (typeof markup === "string") parsed.problems.push(markup);
+      else parsed.markup = markup;
+      parsed.priceRule = cell("priceRule") || null;
+      parsed.tags = cell("tags").split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+      parsed.collection = cell("collection") || null;
+      parsed.split = cell("split") || null;
+      parsed.optionProfile = cell("optionProfile") || null;
+      result.rows.push(parsed);
+    });
+  }
+
+  if (result.rows.length > MAX_LIST_ROWS) {
+    result.warnings.push(`Only the first ${MAX_LIST_ROWS} of ${result.rows.length} rows are read - split the list into several files`);
+    result.rows = result.rows.slice(0, MAX_LIST_ROWS);
+  }
+  return result;
+}
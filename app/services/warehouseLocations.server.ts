@@ -0,0 +1,172 @@
+import type { WarehouseLocation } from "@prisma/client";
+import prisma from "../db.server";
+import type { SSWarehouse } from "./ssactivewear";
+
+export interface ShopLocation {
+  id: string;
+  name: string;
+}
+
+// Where the stock of each S&S warehouse goes. Warehouses without a location are summed into the default one.
+export interface InventoryRouting {
+  defaultLocationId: string;
+  byWarehouse: Map<string, string>; // warehouse abbreviation -> location GID
+  locationIds: string[];            // every location the import writes to, default first
+}
+
+export interface InventoryQuantity {
+  inventoryItemId: string;
+  locationId: string;
+  quantity: number;
+}
+
+const BATCH_SIZE = 20;
+
+/**
+ * Warehouse Location Service
+ * Maps S&S warehouses (IL, NV, KS, ...) to Shopify locations, and writes per-location stock
+ * for the importer and the inventory sync. Unmapped warehouses are aggregated into the
+ * shop's first location, which is how stock was written before mappings existed.
+ */
+export class WarehouseLocationService {
+  async list(shop: string): Promise<WarehouseLocation[]> {
+    return prisma.warehouseLocation.findMany({ where: { shop }, orderBy: { warehouseAbbr: "asc" } });
+  }
+
+  /** Replace the mapping; a null location sends the warehouse back to the default location */
+  async save(shop: string, mapping: Record<string, string | null>): Promise<void> {
+    for (const [abbr, locationId] of Object.entries(mapping)) {
+      const warehouseAbbr = abbr.trim().toUpperCase();
+      if (!warehouseAbbr) continue;
+      if (locationId) {
+        await prisma.warehouseLocation.upsert({
+          where: { shop_warehouseAbbr: { shop, warehouseAbbr } },
+          create: { shop, warehouseAbbr, locationId },
+          update: { locationId },
+        });
+      } else {
+        await prisma.warehouseLocation.deleteMany({ where: { shop, warehouseAbbr } });
+      }
+    }
+  }
+
+  async locations(admin: any): Promise<ShopLocation[]> {
+    const response = await admin.graphql(`query { locations(first: 50) { nodes { id name } } }`);
+    const json = await response.json();
+    if (json.errors?.length) throw new Error(json.errors[0].message);
+    return json.data?.locations?.nodes || [];
+  }
+
+  /** The shop's routing; a mapping to a location that was since deleted is aggregated again */
+  async routing(admin: any, shop: string): Promise<InventoryRouting> {
+    const [locations, mappings] = await Promise.all([this.locations(admin), this.list(shop)]);
+    if (locations.length === 0) throw new Error("No location found");
+
+    const known = new Set(locations.map(l => l.id));
+    const byWarehouse = new Map<string, string>();
+    for (const mapping of mappings) {
+      if (known.has(mapping.locationId)) {
+        byWarehouse.set(mapping.warehouseAbbr, mapping.locationId);
+      } else {
+        console.warn(`[WarehouseLocations] ${mapping.warehouseAbbr} is mapped to missing location ${mapping.locationId}, using the default location`);
+      }
+    }
+
+    const defaultLocationId = locations[0].id;
+    return {
+      defaultLocationId,
+      byWarehouse,
+      locationIds: Array.from(new Set([defaultLocationId, ...byWarehouse.values()])),
+    };
+  }
+
+  /**
+   * Stock of one SKU per location. Every routed location gets a quantity, so stock that left a
+   * warehouse is zeroed; without warehouse detail the whole total goes to the default location.
+   */
+  quantities(routing: InventoryRouting, warehouses: SSWarehouse[] | undefined, total: number): Map<string, number> {
+    const result = new Map<string, number>(routing.locationIds.map(id => [id, 0]));
+    if (!warehouses?.length) {
+      result.set(routing.defaultLocationId, total);
+      return result;
+    }
+    for (const w of warehouses) {
+      const locationId = routing.byWarehouse.get(w.warehouseAbbr?.toUpperCase()) ?? routing.defaultLocationId;
+      result.set(locationId, result.get(locationId)! + (w.qty || 0));
+    }
+    return result;
+  }
+
+  /**
+   * Set available quantities in batches. Items not yet stocked at a location are activated there
+   * with their quantity (zero quantities are skipped - there is nothing to clear).
+   * Returns the number of batches that failed.
+   */
+  async setQuantities(admin: any, quantities: InventoryQuantity[], delay = 0): Promise<number> {
+    let failed = 0;
+    for (let i = 0; i < quantities.length; i += BATCH_SIZE) {
+      try {
+        await this.setBatch(admin, quantities.slice(i, i + BATCH_SIZE));
+        if (delay) await new Promise(resolve => setTimeout(resolve, delay));
+      } catch (error) {
+        console.log(`[WarehouseLocations] Inventory batch ${i / BATCH_SIZE + 1} failed:`, error instanceof Error ? error.message : error);
+        failed++;
+      }
+    }
+    return failed;
+  }
+
+  private async setBatch(admin: any, batch: InventoryQuantity[]): Promise<void> {
+    let pending = batch;
+    while (pending.length > 0) {
+      const response = await admin.graphql(`
+        mutation($input: InventorySetQuantitiesInput!) {
+          inventorySetQuantities(input: $input) { userErrors { code field message } }
+        }
+      `, {
+        variables: {
+          input: {
+            ignoreCompareQuantity: true, // Required for Shopify 2025-10 API
+            reason: "correction",
+            name: "available",
+            quantities: pending,
+          },
+        },
+      });
+      const json = await response.json();
+      if (json.errors?.length) throw new Error(json.errors[0].message);
+
+      const userErrors: Array<{ code?: string; field?: string[]; message: string }> = json.data?.inventorySetQuantities?.userErrors || [];
+      if (userErrors.length === 0) return;
+
+      // The mutation is all or nothing: activate the unstocked items, then send the rest again
+      const unstocked = new Set<number>();
+      for (const error of userErrors) {
+        const index = Number(error.field?.find(f => /^\d+$/.test(f)));
+        if (error.code !== "ITEM_NOT_STOCKED_AT_LOCATION" || !pending[index]) throw new Error(error.message);
+        unstocked.add(index);
+      }
+      for (const index of unstocked) {
+        const q = pending[index];
+        if (q.quantity !== 0) await this.activate(admin, q);
+      }
+      pending = pending.filter((_, index) => !unstocked.has(index));
+    }
+  }
+
+  private async activate(admin: any, q: InventoryQuantity): Promise<void> {
+    const response = await admin.graphql(`
+      mutation($inventoryItemId: ID!, $locationId: ID!, $available: Int) {
+        inventoryActivate(inventoryItemId: $inventoryItemId, locationId: $locationId, available: $available) {
+          inventoryLevel { id }
+          userErrors { field message }
+        }
+      }
+    `, { variables: { inventoryItemId: q.inventoryItemId, locationId: q.locationId, available: q.quantity } });
+    const json = await response.json();
+    const error = json.errors?.[0]?.message || json.data?.inventoryActivate?.userErrors?.[0]?.message;
+    if (error) throw new Error(`Could not stock ${q.inventoryItemId} at ${q.locationId}: ${error}`);
+  }
+}
+
+export const warehouseLocations = new WarehouseLocationService();
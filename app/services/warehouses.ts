@@ -0,0 +1,20 @@
+/**
+ * S&S warehouses. No server imports here - the catalog and the settings page label warehouses with it.
+ */
+
+// Warehouse abbreviation -> location name
+export const WAREHOUSE_NAMES: Record<string, string> = {
+  "IL": "Illinois",
+  "NV": "Nevada",
+  "PA": "Pennsylvania",
+  "KS": "Kansas",
+  "NJ": "New Jersey",
+  "TX": "Texas",
+  "GA": "Georgia",
+  "CA": "California",
+  "MA": "Massachusetts",
+};
+
+export function warehouseLabel(abbr: string): string {
+  return WAREHOUSE_NAMES[abbr] ? `${WAREHOUSE_NAMES[abbr]} (${abbr})` : abbr;
+}
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "SSAccount" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "apiKeyEncrypted" TEXT NOT NULL,
+    "defaultShipping" TEXT NOT NULL DEFAULT '1',
+    "testMode" BOOLEAN NOT NULL DEFAULT false,
+    "lastVerifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SSAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "SSAccount_shop_key" ON "SSAccount"("shop");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ProductMap_shop_ssStyleId_idx" ON "ProductMap"("shop", "ssStyleId");
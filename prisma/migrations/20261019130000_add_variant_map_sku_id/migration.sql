@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "VariantMap" ADD COLUMN IF NOT EXISTS "ssSkuId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "VariantMap_productMapId_idx" ON "VariantMap"("productMapId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProductMap" ADD COLUMN IF NOT EXISTS "priceRuleId" TEXT;
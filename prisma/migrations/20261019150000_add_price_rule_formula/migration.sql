@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PriceRule" ADD COLUMN IF NOT EXISTS "formula" TEXT;
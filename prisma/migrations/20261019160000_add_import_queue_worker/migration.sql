@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "progress" TEXT;
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "productId" TEXT;
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "startedAt" TIMESTAMP(3);
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ImportQueue_shop_status_idx" ON "ImportQueue"("shop", "status");
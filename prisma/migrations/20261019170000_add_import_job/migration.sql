@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ImportJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "styleId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "step" TEXT NOT NULL DEFAULT 'product',
+    "productId" TEXT,
+    "operationId" TEXT,
+    "variantCount" INTEGER NOT NULL DEFAULT 0,
+    "imageCount" INTEGER NOT NULL DEFAULT 0,
+    "options" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ImportJob_shop_styleId_idx" ON "ImportJob"("shop", "styleId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ImportJob_shop_status_idx" ON "ImportJob"("shop", "status");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ProductMap" ADD COLUMN IF NOT EXISTS "splitBy" TEXT;
+ALTER TABLE "ProductMap" ADD COLUMN IF NOT EXISTS "ssGroupKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "groupKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "split" TEXT;
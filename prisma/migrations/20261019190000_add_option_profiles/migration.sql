@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "OptionProfile" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "colorOptionName" TEXT NOT NULL DEFAULT 'Color',
+    "sizeOptionName" TEXT NOT NULL DEFAULT 'Size',
+    "sizeOrder" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OptionProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "OptionProfile_shop_idx" ON "OptionProfile"("shop");
+
+-- AlterTable
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "optionProfileId" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DescriptionTemplate" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "writeMetafields" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DescriptionTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "DescriptionTemplate_shop_key" ON "DescriptionTemplate"("shop");
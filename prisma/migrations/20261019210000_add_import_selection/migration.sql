@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ProductMap" ADD COLUMN IF NOT EXISTS "selection" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "selection" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "WarehouseLocation" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "warehouseAbbr" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WarehouseLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "WarehouseLocation_shop_warehouseAbbr_key" ON "WarehouseLocation"("shop", "warehouseAbbr");
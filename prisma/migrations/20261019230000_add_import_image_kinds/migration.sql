@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportQueue" ADD COLUMN IF NOT EXISTS "images" TEXT;
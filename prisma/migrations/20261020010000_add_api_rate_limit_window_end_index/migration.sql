@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ApiRateLimit_windowEnd_idx" ON "ApiRateLimit"("windowEnd");
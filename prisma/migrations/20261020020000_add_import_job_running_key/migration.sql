@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "runningKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ImportJob_runningKey_key" ON "ImportJob"("runningKey");
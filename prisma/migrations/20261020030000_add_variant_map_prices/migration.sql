@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "VariantMap" ADD COLUMN IF NOT EXISTS "price" TEXT;
+ALTER TABLE "VariantMap" ADD COLUMN IF NOT EXISTS "compareAtPrice" TEXT;
@@ -0,0 +1,44 @@
+// Offline harness runner: runs the services against the S&S simulator, a fake
+// Shopify Admin and an in-memory database. No network, credentials or Postgres needed.
+//
+//   npm test / npm run simulate       run all scenarios
+//   npm run simulate -- inventory     run scenarios whose name contains "inventory" (and those they run after)
+//   npm run simulate -- --serve 4010  only start the S&S simulator (point SSACTIVEWEAR_API_URL at it)
+import { createServer } from "vite";
+
+const args = process.argv.slice(2);
+
+const vite = await createServer({
+  configFile: false,
+  logLevel: "error",
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+});
+
+let exitCode = 0;
+try {
+  if (args[0] === "--serve") {
+    const { startSSSimulator } = await vite.ssrLoadModule("/app/dev/ssSimulator.server.ts");
+    const sim = await startSSSimulator({ port: Number(args[1] || 4010) });
+    console.log(`S&S simulator listening on ${sim.baseURL}`);
+    console.log(`  SSACTIVEWEAR_API_URL=${sim.baseURL} SSACTIVEWEAR_USER=${sim.userId} SSACTIVEWEAR_KEY=${sim.apiKey}`);
+    await new Promise(resolve => process.once("SIGINT", resolve));
+    await sim.close();
+  } else {
+    const { runHarness } = await vite.ssrLoadModule("/app/dev/harness.server.ts");
+    const results = await runHarness(args[0]);
+    for (const result of results) {
+      console.log(`${result.passed ? "PASS" : "FAIL"}  ${result.name} (${result.durationMs}ms)`);
+      if (result.error) console.log(`      ${result.error}`);
+    }
+    const failed = results.filter(r => !r.passed).length;
+    console.log(`\n${results.length - failed}/${results.length} scenarios passed`);
+    if (failed > 0 || results.length === 0) exitCode = 1;
+  }
+} catch (error) {
+  console.error(error);
+  exitCode = 1;
+} finally {
+  await vite.close();
+}
+process.exit(exitCode);
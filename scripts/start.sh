@@ -5,5 +5,6 @@ export SCOPES=write_products,read_products,write_orders,read_orders
 export SHOPIFY_APP_URL=https://ssaw-e.techifyboost.com
 export SSACTIVEWEAR_USER=your_user_id
 export SSACTIVEWEAR_KEY=your_api_key
+export SS_ENV_FALLBACK_SHOP=your-store.myshopify.com
 cd /root/ssactivewearorder
 npm run start